@@ -7,10 +7,12 @@ import Layout from './components/Layout/Layout';
 import LoginForm from './components/Auth/LoginForm';
 import Dashboard from './pages/Dashboard';
 import Projects from './pages/Projects';
+import ProjectTimeline from './pages/ProjectTimeline';
 import Tasks from './pages/Tasks';
 import Calendar from './pages/Calendar';
 import ContentTracker from './pages/ContentTracker';
 import LiveHost from './pages/LiveHost';
+import Payroll from './pages/Payroll';
 import Templates from './pages/Templates';
 import Analytics from './pages/Analytics';
 import Settings from './pages/Settings';
@@ -60,10 +62,12 @@ function AppRoutes() {
               <Routes>
                 <Route path="/dashboard" element={<Dashboard />} />
                 <Route path="/projek" element={<Projects />} />
+                <Route path="/projek/garis-masa" element={<ProjectTimeline />} />
                 <Route path="/tugasan" element={<Tasks />} />
                 <Route path="/kalendar" element={<Calendar />} />
                 <Route path="/content" element={<ContentTracker />} />
                 <Route path="/live" element={<LiveHost />} />
+                <Route path="/live/gaji" element={<Payroll />} />
                 <Route path="/templates" element={<Templates />} />
                 <Route path="/analitik" element={<Analytics />} />
                 <Route path="/tetapan" element={<Settings />} />
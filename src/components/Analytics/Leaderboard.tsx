@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { ChevronRight, Trophy } from 'lucide-react';
+import {
+  leaderboardMetrics,
+  rankBy,
+  type LeaderboardMetric,
+  type MemberStats
+} from '../../lib/teamAnalytics';
+
+interface LeaderboardProps {
+  members: MemberStats[];
+  onSelect: (userId: string) => void;
+}
+
+const medalColors = ['text-yellow-500', 'text-gray-400', 'text-orange-400'];
+
+export default function Leaderboard({ members, onSelect }: LeaderboardProps) {
+  const [metric, setMetric] = useState<LeaderboardMetric>('content');
+  const ranked = rankBy(members, metric);
+  const best = ranked[0]?.[metric] || 0;
+
+  return (
+    <div className="card">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+          <Trophy className="h-5 w-5 mr-2 text-yellow-500" />
+          Papan Pendahulu Ahli
+        </h3>
+        <div className="flex flex-wrap gap-2 mt-3 sm:mt-0">
+          {leaderboardMetrics.map((option) => (
+            <button
+              key={option.key}
+              onClick={() => setMetric(option.key)}
+              className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+                metric === option.key
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {ranked.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-800">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  #
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Ahli
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Content
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Jam Live
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Tugasan Selesai
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Hasil Live
+                </th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {ranked.map((member, index) => (
+                <tr
+                  key={member.userId}
+                  onClick={() => onSelect(member.userId)}
+                  className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                  <td className={`px-6 py-3 text-sm font-bold ${medalColors[index] || 'text-gray-500 dark:text-gray-400'}`}>
+                    {index + 1}
+                  </td>
+                  <td className="px-6 py-3 text-sm text-gray-900 dark:text-white">
+                    <p className="font-medium">{member.name}</p>
+                    <div className="mt-1 w-32 bg-gray-200 dark:bg-gray-700 rounded-full h-1.5">
+                      <div
+                        className="h-1.5 rounded-full bg-blue-500"
+                        style={{ width: `${best > 0 ? (member[metric] / best) * 100 : 0}%` }}
+                      ></div>
+                    </div>
+                  </td>
+                  <td className="px-6 py-3 text-sm text-gray-900 dark:text-white">{member.content}</td>
+                  <td className="px-6 py-3 text-sm text-gray-900 dark:text-white">{member.liveHours}j</td>
+                  <td className="px-6 py-3 text-sm text-gray-900 dark:text-white">
+                    {member.completedTasks}/{member.tasks}
+                  </td>
+                  <td className="px-6 py-3 text-sm text-gray-900 dark:text-white">RM {member.revenue.toFixed(2)}</td>
+                  <td className="px-6 py-3 text-right">
+                    <ChevronRight className="h-4 w-4 text-gray-400 inline" />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-gray-500 dark:text-gray-400 text-sm">
+          Tiada ahli pasukan untuk dipaparkan
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, Download, FileText, Paperclip, Trash2, Upload } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useRealTimeSync } from '../../hooks/useRealTimeSync';
+import { attachmentsRepo, type Attachment, type AttachmentParent } from '../../lib/repositories';
+import {
+  formatSize,
+  previewKind,
+  publicUrl,
+  purgeDeletedFiles,
+  uploadAttachment,
+  validateFile
+} from '../../lib/attachments';
+
+interface AttachmentsModalProps {
+  parent: AttachmentParent;
+  title: string;
+  currentUserId: string;
+  isAdmin: boolean;
+  onClose: () => void;
+}
+
+export default function AttachmentsModal({ parent, title, currentUserId, isAdmin, onClose }: AttachmentsModalProps) {
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [previewing, setPreviewing] = useState<Attachment | null>(null);
+
+  const fetchAttachments = async () => {
+    try {
+      const { data, error } = await attachmentsRepo.list(parent);
+
+      if (error) throw error;
+      setAttachments(data);
+    } catch (error) {
+      console.error('Error fetching attachments:', error);
+      toast.error('Ralat semasa mengambil lampiran');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchAttachments();
+  }, [parent.kind, parent.id]);
+
+  useRealTimeSync({
+    table: 'attachments',
+    filter: `${parent.kind === 'task' ? 'task_id' : 'project_id'}=eq.${parent.id}`,
+    onUpdate: fetchAttachments
+  });
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    const invalid = files.map(validateFile).find(Boolean);
+    if (invalid) {
+      toast.error(invalid);
+      return;
+    }
+
+    setUploading(true);
+    try {
+      for (const file of files) {
+        await uploadAttachment(currentUserId, parent, file);
+      }
+      toast.success(files.length > 1 ? `${files.length} fail berjaya dilampirkan` : 'Fail berjaya dilampirkan');
+      fetchAttachments();
+    } catch (error) {
+      console.error('Error uploading attachment:', error);
+      toast.error(error instanceof Error && error.message ? error.message : 'Ralat semasa memuat naik lampiran');
+      fetchAttachments();
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDelete = async (attachment: Attachment) => {
+    if (!confirm(`Padam lampiran "${attachment.file_name}"?`)) return;
+
+    try {
+      const { error } = await attachmentsRepo.remove(attachment.id);
+
+      if (error) throw error;
+      setAttachments(prev => prev.filter(a => a.id !== attachment.id));
+      setPreviewing(null);
+      toast.success('Lampiran berjaya dipadam');
+    } catch (error) {
+      console.error('Error deleting attachment:', error);
+      toast.error('Ralat semasa memadam lampiran');
+      return;
+    }
+
+    purgeDeletedFiles().catch(error => console.error('Error removing attachment files:', error));
+  };
+
+  const canDelete = (attachment: Attachment) => isAdmin || attachment.uploaded_by === currentUserId;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-xl p-6 w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex items-start justify-between mb-4">
+          <div className="min-w-0">
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white flex items-center">
+              <Paperclip className="h-5 w-5 mr-2 text-blue-500" />
+              Lampiran
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 truncate">
+              {title}
+            </p>
+          </div>
+          {!previewing && (
+            <label className={`btn-primary flex items-center cursor-pointer ${uploading ? 'opacity-50 pointer-events-none' : ''}`}>
+              <Upload className="h-4 w-4 mr-2" />
+              {uploading ? 'Memuat naik...' : 'Muat Naik'}
+              <input
+                type="file"
+                multiple
+                accept="image/*,application/pdf"
+                onChange={handleFiles}
+                className="hidden"
+              />
+            </label>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {previewing ? (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <button
+                  onClick={() => setPreviewing(null)}
+                  className="flex items-center text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+                >
+                  <ArrowLeft className="h-4 w-4 mr-1" />
+                  Kembali
+                </button>
+                <div className="flex items-center space-x-2">
+                  <a
+                    href={publicUrl(previewing)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    download={previewing.file_name}
+                    className="p-2 text-gray-400 hover:text-blue-500 transition-colors"
+                    title="Muat turun"
+                  >
+                    <Download className="h-4 w-4" />
+                  </a>
+                  {canDelete(previewing) && (
+                    <button
+                      onClick={() => handleDelete(previewing)}
+                      className="p-2 text-gray-400 hover:text-red-500 transition-colors"
+                      title="Padam"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+              <p className="text-sm font-medium text-gray-900 dark:text-white break-all">
+                {previewing.file_name}
+              </p>
+              {previewKind(previewing) === 'image' ? (
+                <img
+                  src={publicUrl(previewing)}
+                  alt={previewing.file_name}
+                  className="max-h-[60vh] mx-auto rounded-lg"
+                />
+              ) : (
+                <iframe
+                  src={publicUrl(previewing)}
+                  title={previewing.file_name}
+                  className="w-full h-[60vh] rounded-lg border border-gray-200 dark:border-gray-700"
+                />
+              )}
+            </div>
+          ) : loading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+            </div>
+          ) : attachments.length > 0 ? (
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {attachments.map((attachment) => (
+                <button
+                  key={attachment.id}
+                  onClick={() => setPreviewing(attachment)}
+                  className="text-left border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden hover:ring-2 hover:ring-blue-400 transition"
+                >
+                  <div className="h-28 bg-gray-100 dark:bg-gray-700 flex items-center justify-center">
+                    {previewKind(attachment) === 'image' ? (
+                      <img
+                        src={publicUrl(attachment)}
+                        alt={attachment.file_name}
+                        loading="lazy"
+                        className="h-full w-full object-cover"
+                      />
+                    ) : (
+                      <FileText className="h-10 w-10 text-red-500" />
+                    )}
+                  </div>
+                  <div className="p-2">
+                    <p className="text-xs font-medium text-gray-900 dark:text-white truncate">
+                      {attachment.file_name}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {formatSize(attachment.size_bytes)} · {new Date(attachment.created_at).toLocaleDateString('ms-MY')}
+                    </p>
+                  </div>
+                </button>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-center text-gray-500 dark:text-gray-400 py-8">
+              Belum ada lampiran. Muat naik imej atau PDF (maksimum 10MB).
+            </p>
+          )}
+        </div>
+
+        <div className="flex mt-6">
+          <button onClick={onClose} className="btn-secondary flex-1">
+            Tutup
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { useState, useEffect } from 'react';
+import { Copy, RefreshCw } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { calendarFeedsRepo, type CalendarFeed } from '../../lib/repositories';
+
+interface FeedModalProps {
+  userId: string;
+  onClose: () => void;
+}
+
+export default function FeedModal({ userId, onClose }: FeedModalProps) {
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchFeed();
+  }, [userId]);
+
+  // The first visit creates the user's token
+  const fetchFeed = async () => {
+    try {
+      const { data, error } = await calendarFeedsRepo.get(userId);
+      if (error) throw error;
+
+      if (data) {
+        setFeed(data);
+      } else {
+        const { data: created, error: createError } = await calendarFeedsRepo.create(userId);
+        if (createError) throw createError;
+        setFeed(created);
+      }
+    } catch (error) {
+      console.error('Error fetching calendar feed:', error);
+      toast.error('Ralat semasa mengambil pautan langganan');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feed) return;
+
+    try {
+      await navigator.clipboard.writeText(calendarFeedsRepo.feedUrl(feed.token));
+      toast.success('Pautan disalin');
+    } catch (error) {
+      console.error('Error copying feed URL:', error);
+      toast.error('Ralat semasa menyalin pautan');
+    }
+  };
+
+  const handleRegenerate = async () => {
+    if (!confirm('Jana pautan baharu? Langganan yang menggunakan pautan lama akan berhenti dikemaskini.')) return;
+
+    try {
+      const { data, error } = await calendarFeedsRepo.regenerate(userId);
+      if (error) throw error;
+
+      setFeed(data);
+      toast.success('Pautan baharu berjaya dijana');
+    } catch (error) {
+      console.error('Error regenerating calendar feed:', error);
+      toast.error('Ralat semasa menjana pautan baharu');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-xl p-6 w-full max-w-md">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-2">
+          Langgan Kalendar
+        </h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          Tambah pautan ini sebagai kalendar langganan (Google Calendar: "Dari URL", iPhone: "Tambah Kalendar Langganan").
+          Tugasan, projek, nota dan sesi live anda akan dikemaskini secara automatik.
+        </p>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-16">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+          </div>
+        ) : feed && (
+          <div className="flex items-center space-x-2 mb-4">
+            <input
+              type="text"
+              readOnly
+              value={calendarFeedsRepo.feedUrl(feed.token)}
+              onFocus={(e) => e.target.select()}
+              className="input-field text-xs"
+            />
+            <button
+              onClick={handleCopy}
+              className="p-2 text-gray-500 hover:text-blue-500 transition-colors"
+              title="Salin pautan"
+            >
+              <Copy className="h-5 w-5" />
+            </button>
+          </div>
+        )}
+
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-6">
+          Sesiapa yang mempunyai pautan ini boleh melihat jadual anda. Jana pautan baharu jika ia terdedah.
+        </p>
+
+        <div className="flex space-x-3">
+          <button
+            onClick={handleRegenerate}
+            disabled={!feed}
+            className="btn-secondary flex-1 flex items-center justify-center"
+          >
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Jana Semula
+          </button>
+          <button onClick={onClose} className="btn-primary flex-1">
+            Tutup
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
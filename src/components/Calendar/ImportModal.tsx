@@ -0,0 +1,255 @@
+import { useState } from 'react';
+import { parseISO } from 'date-fns';
+import { AlertTriangle, Repeat, Upload } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { parseICalendar, type ImportedEvent } from '../../lib/ical';
+import {
+  calendarNotesRepo,
+  projectsRepo,
+  tasksRepo,
+  type DataScope,
+  type ProjectOption
+} from '../../lib/repositories';
+
+type ImportTarget = 'note' | 'task';
+
+interface ImportRow {
+  event: ImportedEvent;
+  include: boolean;
+  target: ImportTarget;
+}
+
+interface ImportModalProps {
+  scope: DataScope;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+export default function ImportModal({ scope, onClose, onImported }: ImportModalProps) {
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  // Where each UID imported before lives; those rows are updated in place
+  const [existing, setExisting] = useState<Map<string, ImportTarget>>(new Map());
+  const [projects, setProjects] = useState<ProjectOption[]>([]);
+  const [projectId, setProjectId] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [importing, setImporting] = useState(false);
+
+  const handleFile = async (file: File) => {
+    try {
+      const { events, warnings } = parseICalendar(await file.text());
+
+      const [notesRes, tasksRes, projectsRes] = await Promise.all([
+        calendarNotesRepo.listImportedUids(scope),
+        tasksRepo.listImportedUids(scope),
+        projectsRepo.listOptions(scope)
+      ]);
+
+      const failed = [notesRes, tasksRes, projectsRes].find(res => res.error);
+      if (failed?.error) throw failed.error;
+
+      const imported = new Map<string, ImportTarget>();
+      (notesRes.data || []).forEach(row => row.ical_uid && imported.set(row.ical_uid, 'note'));
+      (tasksRes.data || []).forEach(row => row.ical_uid && imported.set(row.ical_uid, 'task'));
+
+      setExisting(imported);
+      setProjects(projectsRes.data || []);
+      setWarnings(warnings);
+      setFileName(file.name);
+      setRows(events.map(event => ({
+        event,
+        include: true,
+        target: imported.get(event.uid) || 'note'
+      })));
+
+      if (events.length === 0) {
+        toast.error('Tiada acara dijumpai dalam fail ini');
+      }
+    } catch (error) {
+      console.error('Error reading calendar file:', error);
+      toast.error('Ralat semasa membaca fail kalendar');
+    }
+  };
+
+  const updateRow = (index: number, values: Partial<ImportRow>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...values } : row)));
+  };
+
+  const setAllTargets = (target: ImportTarget) => {
+    setRows(prev => prev.map(row => (existing.has(row.event.uid) ? row : { ...row, target })));
+  };
+
+  const selected = rows.filter(row => row.include);
+
+  const handleImport = async () => {
+    if (selected.length === 0) return;
+
+    setImporting(true);
+    try {
+      const notes = selected
+        .filter(row => row.target === 'note')
+        .map(({ event }) => ({
+          ical_uid: event.uid,
+          note: event.title,
+          note_date: event.date,
+          start_time: event.startTime,
+          end_time: event.endTime
+        }));
+      const tasks = selected.filter(row => row.target === 'task');
+      // Tasks imported before keep their project, status and progress
+      const newTasks = tasks
+        .filter(({ event }) => !existing.has(event.uid))
+        .map(({ event }) => ({ ical_uid: event.uid, title: event.title, due_date: event.date, project_id: projectId || null }));
+      const updatedTasks = tasks
+        .filter(({ event }) => existing.has(event.uid))
+        .map(({ event }) => ({ ical_uid: event.uid, title: event.title, due_date: event.date }));
+
+      if (notes.length > 0) {
+        const { error } = await calendarNotesRepo.importMany(scope, notes);
+        if (error) throw error;
+      }
+      if (newTasks.length > 0) {
+        const { error } = await tasksRepo.importMany(scope, newTasks);
+        if (error) throw error;
+      }
+      if (updatedTasks.length > 0) {
+        const { error } = await tasksRepo.importMany(scope, updatedTasks);
+        if (error) throw error;
+      }
+
+      toast.success(`${selected.length} acara berjaya diimport`);
+      onImported();
+      onClose();
+    } catch (error) {
+      console.error('Error importing calendar:', error);
+      toast.error('Ralat semasa mengimport kalendar');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const formatDate = (date: string) =>
+    parseISO(date).toLocaleDateString('ms-MY', { day: 'numeric', month: 'short', year: 'numeric' });
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-xl p-6 w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">
+          Import Kalendar (.ics)
+        </h2>
+
+        <label className="flex items-center justify-center px-4 py-6 mb-4 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg cursor-pointer hover:border-blue-500 transition-colors">
+          <Upload className="h-5 w-5 mr-2 text-gray-400" />
+          <span className="text-sm text-gray-600 dark:text-gray-400">
+            {fileName || 'Pilih fail .ics'}
+          </span>
+          <input
+            type="file"
+            accept=".ics,text/calendar"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+
+        {warnings.length > 0 && (
+          <div className="mb-4 p-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 text-sm text-yellow-800 dark:text-yellow-300 space-y-1">
+            {warnings.map((warning) => (
+              <p key={warning} className="flex items-start">
+                <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                {warning}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {rows.length > 0 && (
+          <>
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3 mb-3">
+              <div className="flex items-center space-x-2 text-sm">
+                <span className="text-gray-600 dark:text-gray-400">Semua sebagai:</span>
+                <button onClick={() => setAllTargets('note')} className="px-3 py-1 rounded-lg bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                  Nota
+                </button>
+                <button onClick={() => setAllTargets('task')} className="px-3 py-1 rounded-lg bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                  Tugasan
+                </button>
+              </div>
+              <select
+                value={projectId}
+                onChange={(e) => setProjectId(e.target.value)}
+                className="input-field sm:max-w-xs sm:ml-auto"
+              >
+                <option value="">Tugasan tanpa projek</option>
+                {projects.map((project) => (
+                  <option key={project.id} value={project.id}>
+                    {project.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex-1 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-lg divide-y divide-gray-200 dark:divide-gray-700">
+              {rows.map((row, index) => {
+                const imported = existing.has(row.event.uid);
+
+                return (
+                  <div key={row.event.uid} className="flex items-center px-3 py-2 space-x-3">
+                    <input
+                      type="checkbox"
+                      checked={row.include}
+                      onChange={(e) => updateRow(index, { include: e.target.checked })}
+                      className="rounded border-gray-300 text-blue-500"
+                    />
+                    <div className="w-32 flex-shrink-0 text-sm text-gray-600 dark:text-gray-400">
+                      <p>{formatDate(row.event.date)}</p>
+                      <p className="text-xs">
+                        {row.event.startTime ? `${row.event.startTime}–${row.event.endTime}` : 'Sepanjang hari'}
+                      </p>
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-gray-900 dark:text-white truncate flex items-center">
+                        {row.event.recurring && <Repeat className="h-3 w-3 mr-1 flex-shrink-0 text-gray-400" />}
+                        {row.event.title}
+                      </p>
+                      {imported && (
+                        <p className="text-xs text-blue-600 dark:text-blue-400">
+                          Sudah diimport sebelum ini, akan dikemaskini
+                        </p>
+                      )}
+                    </div>
+                    <select
+                      value={row.target}
+                      disabled={imported}
+                      onChange={(e) => updateRow(index, { target: e.target.value as ImportTarget })}
+                      className="input-field w-28 py-1 text-sm"
+                    >
+                      <option value="note">Nota</option>
+                      <option value="task">Tugasan</option>
+                    </select>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+
+        <div className="flex space-x-3 mt-6">
+          <button onClick={onClose} className="btn-secondary flex-1">
+            Batal
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={selected.length === 0 || importing}
+            className="btn-primary flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {importing ? 'Mengimport...' : `Import (${selected.length})`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
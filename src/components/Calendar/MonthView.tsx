@@ -0,0 +1,111 @@
+import { Repeat } from 'lucide-react';
+import { toDateKey } from '../../lib/dates';
+import { layerChip, type CalendarEvent } from '../../lib/calendarEvents';
+
+interface MonthViewProps {
+  currentDate: Date;
+  eventsByDate: Map<string, CalendarEvent[]>;
+  onDayClick: (date: Date) => void;
+  onEventClick: (event: CalendarEvent) => void;
+}
+
+// Chips shown per day before collapsing the rest into "+N lagi".
+const MAX_VISIBLE_EVENTS = 3;
+
+const dayNames = ['Ahd', 'Isn', 'Sel', 'Rab', 'Kha', 'Jum', 'Sab'];
+
+const getDaysInMonth = (date: Date) => {
+  const year = date.getFullYear();
+  const month = date.getMonth();
+  const firstDay = new Date(year, month, 1);
+  const lastDay = new Date(year, month + 1, 0);
+  const daysInMonth = lastDay.getDate();
+  const startingDayOfWeek = firstDay.getDay();
+
+  const days = [];
+
+  // Add empty cells for days before the first day of the month
+  for (let i = 0; i < startingDayOfWeek; i++) {
+    days.push(null);
+  }
+
+  // Add days of the month
+  for (let day = 1; day <= daysInMonth; day++) {
+    days.push(new Date(year, month, day));
+  }
+
+  return days;
+};
+
+const isToday = (date: Date) => {
+  const today = new Date();
+  return date.toDateString() === today.toDateString();
+};
+
+export default function MonthView({ currentDate, eventsByDate, onDayClick, onEventClick }: MonthViewProps) {
+  return (
+    <>
+      {/* Day Names */}
+      <div className="grid grid-cols-7 gap-1 mb-2">
+        {dayNames.map((day) => (
+          <div key={day} className="p-2 text-center text-sm font-medium text-gray-500 dark:text-gray-400">
+            {day}
+          </div>
+        ))}
+      </div>
+
+      {/* Calendar Days */}
+      <div className="grid grid-cols-7 gap-1">
+        {getDaysInMonth(currentDate).map((date, index) => {
+          if (!date) {
+            return <div key={index} className="min-h-[6rem]"></div>;
+          }
+
+          const events = eventsByDate.get(toDateKey(date)) || [];
+          const hidden = events.length - MAX_VISIBLE_EVENTS;
+
+          return (
+            <div
+              key={index}
+              onClick={() => onDayClick(date)}
+              className="min-h-[6rem] p-1 rounded-lg border border-gray-100 dark:border-gray-700 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors"
+            >
+              <span className={`inline-flex items-center justify-center w-7 h-7 text-sm rounded-full ${
+                isToday(date)
+                  ? 'bg-blue-500 text-white font-semibold'
+                  : 'text-gray-900 dark:text-gray-100'
+              }`}>
+                {date.getDate()}
+              </span>
+
+              <div className="space-y-0.5 mt-0.5">
+                {events.slice(0, MAX_VISIBLE_EVENTS).map((event) => (
+                  <button
+                    key={event.key}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onEventClick(event);
+                    }}
+                    className={`w-full flex items-center text-left text-xs px-1.5 py-0.5 rounded truncate ${layerChip(event.layer)}`}
+                    title={event.title}
+                  >
+                    {!event.sourceId && <Repeat className="h-3 w-3 mr-1 flex-shrink-0" />}
+                    <span className="truncate">
+                      {event.startTime && <span className="font-medium mr-1">{event.startTime}</span>}
+                      {event.title}
+                    </span>
+                  </button>
+                ))}
+                {hidden > 0 && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 px-1.5">
+                    +{hidden} lagi
+                  </p>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,246 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Repeat } from 'lucide-react';
+import { toDateKey } from '../../lib/dates';
+import { layerChip, type CalendarEvent } from '../../lib/calendarEvents';
+
+interface TimeGridViewProps {
+  days: Date[];
+  eventsByDate: Map<string, CalendarEvent[]>;
+  onDayClick: (date: Date) => void;
+  onEventClick: (event: CalendarEvent) => void;
+  onCreate: (date: Date, startTime: string, endTime: string) => void;
+}
+
+interface DragState {
+  date: Date;
+  columnTop: number;
+  anchor: number;
+}
+
+const HOUR_HEIGHT = 48;
+const SLOT_MINUTES = 30;
+const SLOT_HEIGHT = (HOUR_HEIGHT * SLOT_MINUTES) / 60;
+const SLOTS_PER_DAY = (24 * 60) / SLOT_MINUTES;
+// Scrolled into view on open; the team rarely schedules before 8am
+const FIRST_VISIBLE_HOUR = 8;
+
+const dayNames = ['Ahd', 'Isn', 'Sel', 'Rab', 'Kha', 'Jum', 'Sab'];
+const hours = Array.from({ length: 24 }, (_, hour) => hour);
+
+const toMinutes = (time: string) => {
+  const [hour, minute] = time.split(':').map(Number);
+  return hour * 60 + minute;
+};
+
+// `time` columns cannot hold 24:00, so a slot ending at midnight ends at 23:59
+const slotTime = (slot: number) => {
+  const minutes = Math.min(slot * SLOT_MINUTES, 24 * 60 - 1);
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+};
+
+const slotAt = (clientY: number, columnTop: number) =>
+  Math.max(0, Math.min(SLOTS_PER_DAY - 1, Math.floor((clientY - columnTop) / SLOT_HEIGHT)));
+
+const isToday = (date: Date) => date.toDateString() === new Date().toDateString();
+
+/**
+ * Assigns overlapping timed events to side-by-side lanes. Returns each event's
+ * lane and the lane count of the cluster it belongs to.
+ */
+function layoutLanes(events: CalendarEvent[]) {
+  const placed: { event: CalendarEvent; lane: number; lanes: number }[] = [];
+  let cluster: typeof placed = [];
+  let clusterEnd = 0;
+
+  events.forEach(event => {
+    const start = toMinutes(event.startTime!);
+    const end = toMinutes(event.endTime!);
+
+    if (cluster.length > 0 && start >= clusterEnd) {
+      cluster = [];
+    }
+
+    const usedLanes = cluster
+      .filter(item => toMinutes(item.event.endTime!) > start)
+      .map(item => item.lane);
+    let lane = 0;
+    while (usedLanes.includes(lane)) lane++;
+
+    const entry = { event, lane, lanes: 1 };
+    cluster.push(entry);
+    placed.push(entry);
+    clusterEnd = Math.max(clusterEnd, end);
+
+    const lanes = Math.max(...cluster.map(item => item.lane)) + 1;
+    cluster.forEach(item => { item.lanes = lanes; });
+  });
+
+  return placed;
+}
+
+export default function TimeGridView({ days, eventsByDate, onDayClick, onEventClick, onCreate }: TimeGridViewProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [dragSlot, setDragSlot] = useState(0);
+
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = FIRST_VISIBLE_HOUR * HOUR_HEIGHT;
+    }
+  }, []);
+
+  const startDrag = (e: React.MouseEvent<HTMLDivElement>, date: Date) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+
+    const columnTop = e.currentTarget.getBoundingClientRect().top;
+    const anchor = slotAt(e.clientY, columnTop);
+    setDrag({ date, columnTop, anchor });
+    setDragSlot(anchor);
+  };
+
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMove = (e: MouseEvent) => {
+      setDragSlot(slotAt(e.clientY, drag.columnTop));
+    };
+
+    const handleUp = (e: MouseEvent) => {
+      const slot = slotAt(e.clientY, drag.columnTop);
+      setDrag(null);
+
+      // A plain click creates a one-slot event
+      onCreate(drag.date, slotTime(Math.min(drag.anchor, slot)), slotTime(Math.max(drag.anchor, slot) + 1));
+    };
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [drag, onCreate]);
+
+  const columns = `4rem repeat(${days.length}, minmax(0, 1fr))`;
+
+  return (
+    <div className="select-none">
+      {/* Day headers with all-day events */}
+      <div className="grid border-b border-gray-200 dark:border-gray-700" style={{ gridTemplateColumns: columns }}>
+        <div className="text-xs text-gray-500 dark:text-gray-400 p-2 self-end">Sepanjang hari</div>
+        {days.map((date) => {
+          const allDayEvents = (eventsByDate.get(toDateKey(date)) || []).filter(event => !event.startTime);
+
+          return (
+            <div key={toDateKey(date)} className="p-1 border-l border-gray-200 dark:border-gray-700 min-w-0">
+              <button
+                onClick={() => onDayClick(date)}
+                className="w-full text-center mb-1"
+              >
+                <span className="block text-xs text-gray-500 dark:text-gray-400">
+                  {dayNames[date.getDay()]}
+                </span>
+                <span className={`inline-flex items-center justify-center w-8 h-8 text-sm rounded-full ${
+                  isToday(date) ? 'bg-blue-500 text-white font-semibold' : 'text-gray-900 dark:text-gray-100'
+                }`}>
+                  {date.getDate()}
+                </span>
+              </button>
+              <div className="space-y-0.5">
+                {allDayEvents.map((event) => (
+                  <button
+                    key={event.key}
+                    onClick={() => onEventClick(event)}
+                    className={`w-full flex items-center text-left text-xs px-1.5 py-0.5 rounded ${layerChip(event.layer)}`}
+                    title={event.title}
+                  >
+                    {!event.sourceId && <Repeat className="h-3 w-3 mr-1 flex-shrink-0" />}
+                    <span className="truncate">{event.title}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Hourly slots */}
+      <div ref={scrollRef} className="max-h-[36rem] overflow-y-auto">
+        <div className="grid" style={{ gridTemplateColumns: columns }}>
+          <div>
+            {hours.map((hour) => (
+              <div
+                key={hour}
+                className="text-xs text-right pr-2 text-gray-500 dark:text-gray-400 -mt-2"
+                style={{ height: HOUR_HEIGHT }}
+              >
+                {hour > 0 && `${String(hour).padStart(2, '0')}:00`}
+              </div>
+            ))}
+          </div>
+
+          {days.map((date) => {
+            const timedEvents = (eventsByDate.get(toDateKey(date)) || []).filter(event => event.startTime && event.endTime);
+            const dragging = drag && drag.date.getTime() === date.getTime();
+            const selectionStart = Math.min(drag?.anchor ?? 0, dragSlot);
+            const selectionEnd = Math.max(drag?.anchor ?? 0, dragSlot) + 1;
+
+            return (
+              <div
+                key={toDateKey(date)}
+                onMouseDown={(e) => startDrag(e, date)}
+                className="relative border-l border-gray-200 dark:border-gray-700 cursor-crosshair"
+                style={{ height: HOUR_HEIGHT * 24 }}
+              >
+                {hours.map((hour) => (
+                  <div
+                    key={hour}
+                    className="border-t border-gray-100 dark:border-gray-700/60"
+                    style={{ height: HOUR_HEIGHT }}
+                  ></div>
+                ))}
+
+                {layoutLanes(timedEvents).map(({ event, lane, lanes }) => {
+                  const start = toMinutes(event.startTime!);
+                  const end = toMinutes(event.endTime!);
+
+                  return (
+                    <button
+                      key={event.key}
+                      onMouseDown={(e) => e.stopPropagation()}
+                      onClick={() => onEventClick(event)}
+                      className={`absolute text-left text-xs px-1.5 py-0.5 rounded overflow-hidden border border-white dark:border-gray-800 ${layerChip(event.layer)}`}
+                      style={{
+                        top: (start / 60) * HOUR_HEIGHT,
+                        height: Math.max(((end - start) / 60) * HOUR_HEIGHT, SLOT_HEIGHT / 2),
+                        left: `${(lane / lanes) * 100}%`,
+                        width: `${100 / lanes}%`
+                      }}
+                      title={`${event.startTime}–${event.endTime} ${event.title}`}
+                    >
+                      <span className="block font-medium">{event.startTime}–{event.endTime}</span>
+                      <span className="block truncate">{event.title}</span>
+                    </button>
+                  );
+                })}
+
+                {dragging && (
+                  <div
+                    className="absolute inset-x-0.5 rounded bg-blue-500/30 border border-blue-500 text-xs text-blue-900 dark:text-blue-100 px-1.5 pointer-events-none"
+                    style={{
+                      top: selectionStart * SLOT_HEIGHT,
+                      height: (selectionEnd - selectionStart) * SLOT_HEIGHT
+                    }}
+                  >
+                    {slotTime(selectionStart)}–{slotTime(selectionEnd)}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+import React, { useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import type {
+  ContentItem,
+  ContentItemInput,
+  ContentOption,
+  ContentOptionKind,
+  Template,
+  UserProfile
+} from '../../lib/repositories';
+import { UNSPECIFIED_LABEL } from '../../lib/contentBreakdown';
+import { pipelineStages } from '../../lib/contentPipeline';
+import { toDateKey } from '../../lib/dates';
+
+interface ContentItemModalProps {
+  // Null when adding a new item
+  item: ContentItem | null;
+  options: ContentOption[];
+  // Only admins get the whole team; everyone else can assign to themselves
+  profiles: UserProfile[];
+  templates: Template[];
+  currentUserId: string;
+  onSave: (values: ContentItemInput) => Promise<boolean>;
+  onDelete?: () => void;
+  onClose: () => void;
+}
+
+export default function ContentItemModal({
+  item,
+  options,
+  profiles,
+  templates,
+  currentUserId,
+  onSave,
+  onDelete,
+  onClose
+}: ContentItemModalProps) {
+  const [form, setForm] = useState<ContentItemInput>(() => ({
+    title: item?.title || '',
+    caption: item?.caption || '',
+    stage: item?.stage || 'idea',
+    assigned_to: item ? item.assigned_to : currentUserId,
+    platform: item?.platform || null,
+    content_type: item?.content_type || null,
+    template_id: item?.template_id || null,
+    scheduled_date: item?.scheduled_date || null,
+    posted_date: item?.posted_date || null
+  }));
+  const [saving, setSaving] = useState(false);
+
+  // Inactive options are only offered when the item already uses them
+  const choicesFor = (kind: ContentOptionKind, current: string | null | undefined) =>
+    options.filter(option => option.kind === kind && (option.is_active || option.name === current));
+
+  // Keep an assignee the current user cannot list (RLS) selectable
+  const assignees = form.assigned_to && !profiles.some(profile => profile.id === form.assigned_to)
+    ? [...profiles, { id: form.assigned_to, nama: 'Pengguna lain' } as UserProfile]
+    : profiles;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!form.title.trim()) {
+      toast.error('Sila masukkan tajuk');
+      return;
+    }
+
+    setSaving(true);
+    const saved = await onSave({
+      ...form,
+      title: form.title.trim(),
+      caption: form.caption?.trim() || null,
+      posted_date: form.stage === 'posted' ? form.posted_date || toDateKey(new Date()) : null
+    });
+    setSaving(false);
+    if (saved) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-xl p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">
+          {item ? 'Edit Content' : 'Tambah Content'}
+        </h2>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Tajuk
+            </label>
+            <input
+              type="text"
+              required
+              value={form.title}
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+              className="input-field"
+              placeholder="Contoh: Video unboxing koleksi baharu"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Kapsyen
+            </label>
+            <textarea
+              rows={3}
+              value={form.caption || ''}
+              onChange={(e) => setForm({ ...form, caption: e.target.value })}
+              className="input-field"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Peringkat
+              </label>
+              <select
+                value={form.stage}
+                onChange={(e) => setForm({ ...form, stage: e.target.value as ContentItemInput['stage'] })}
+                className="input-field"
+              >
+                {pipelineStages.map((column) => (
+                  <option key={column.stage} value={column.stage}>
+                    {column.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Ditugaskan Kepada
+              </label>
+              <select
+                value={form.assigned_to || ''}
+                onChange={(e) => setForm({ ...form, assigned_to: e.target.value || null })}
+                className="input-field"
+              >
+                <option value="">Tiada</option>
+                {assignees.map((profile) => (
+                  <option key={profile.id} value={profile.id}>
+                    {profile.nama}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Platform
+              </label>
+              <select
+                value={form.platform || ''}
+                onChange={(e) => setForm({ ...form, platform: e.target.value || null })}
+                className="input-field"
+              >
+                <option value="">{UNSPECIFIED_LABEL}</option>
+                {choicesFor('platform', form.platform).map((option) => (
+                  <option key={option.id} value={option.name}>
+                    {option.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Jenis
+              </label>
+              <select
+                value={form.content_type || ''}
+                onChange={(e) => setForm({ ...form, content_type: e.target.value || null })}
+                className="input-field"
+              >
+                <option value="">{UNSPECIFIED_LABEL}</option>
+                {choicesFor('type', form.content_type).map((option) => (
+                  <option key={option.id} value={option.name}>
+                    {option.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Template
+            </label>
+            <select
+              value={form.template_id || ''}
+              onChange={(e) => setForm({ ...form, template_id: e.target.value || null })}
+              className="input-field"
+            >
+              <option value="">Tiada</option>
+              {templates.map((template) => (
+                <option key={template.id} value={template.id}>
+                  {template.title}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Tarikh Dijadualkan
+              </label>
+              <input
+                type="date"
+                value={form.scheduled_date || ''}
+                onChange={(e) => setForm({ ...form, scheduled_date: e.target.value || null })}
+                className="input-field"
+              />
+            </div>
+            {form.stage === 'posted' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Tarikh Disiarkan
+                </label>
+                <input
+                  type="date"
+                  value={form.posted_date || ''}
+                  onChange={(e) => setForm({ ...form, posted_date: e.target.value || null })}
+                  className="input-field"
+                />
+              </div>
+            )}
+          </div>
+
+          {form.stage === 'posted' && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Content yang disiarkan dikira dalam jumlah harian orang yang ditugaskan (atau pencipta jika tiada).
+            </p>
+          )}
+
+          <div className="flex space-x-3 pt-4">
+            {onDelete && (
+              <button
+                type="button"
+                onClick={onDelete}
+                className="p-2 text-gray-400 hover:text-red-500 transition-colors"
+                title="Padam"
+              >
+                <Trash2 className="h-5 w-5" />
+              </button>
+            )}
+            <button type="button" onClick={onClose} className="btn-secondary flex-1">
+              Batal
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="btn-primary flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {item ? 'Kemaskini' : 'Tambah'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
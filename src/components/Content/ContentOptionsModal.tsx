@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import type { ContentOption, ContentOptionKind } from '../../lib/repositories';
+
+interface ContentOptionsModalProps {
+  options: ContentOption[];
+  onAdd: (kind: ContentOptionKind, name: string) => Promise<boolean>;
+  onToggle: (option: ContentOption) => void;
+  onClose: () => void;
+}
+
+const sections: { kind: ContentOptionKind; title: string; placeholder: string }[] = [
+  { kind: 'platform', title: 'Platform', placeholder: 'Contoh: Threads' },
+  { kind: 'type', title: 'Jenis Content', placeholder: 'Contoh: Live clip' }
+];
+
+export default function ContentOptionsModal({ options, onAdd, onToggle, onClose }: ContentOptionsModalProps) {
+  const [names, setNames] = useState<Record<ContentOptionKind, string>>({ platform: '', type: '' });
+
+  const handleAdd = async (e: React.FormEvent, kind: ContentOptionKind) => {
+    e.preventDefault();
+    if (!names[kind].trim()) return;
+
+    if (await onAdd(kind, names[kind])) {
+      setNames(prev => ({ ...prev, [kind]: '' }));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-xl p-6 w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-1">
+          Senarai Platform & Jenis
+        </h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          Pilihan yang dinyahaktifkan tidak lagi dipaparkan tetapi kekal pada log lama.
+        </p>
+
+        <div className="flex-1 overflow-y-auto grid grid-cols-1 md:grid-cols-2 gap-6">
+          {sections.map((section) => (
+            <div key={section.kind}>
+              <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">
+                {section.title}
+              </h3>
+              <div className="space-y-1 mb-3">
+                {options
+                  .filter(option => option.kind === section.kind)
+                  .map((option) => (
+                    <label key={option.id} className="flex items-center space-x-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={option.is_active}
+                        onChange={() => onToggle(option)}
+                        className="rounded border-gray-300 text-blue-500"
+                      />
+                      <span className={option.is_active ? 'text-gray-900 dark:text-white' : 'text-gray-400 line-through'}>
+                        {option.name}
+                      </span>
+                    </label>
+                  ))}
+              </div>
+              <form onSubmit={(e) => handleAdd(e, section.kind)} className="flex space-x-2">
+                <input
+                  type="text"
+                  value={names[section.kind]}
+                  onChange={(e) => setNames(prev => ({ ...prev, [section.kind]: e.target.value }))}
+                  className="input-field py-1"
+                  placeholder={section.placeholder}
+                />
+                <button type="submit" className="btn-secondary whitespace-nowrap">
+                  Tambah
+                </button>
+              </form>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex mt-6">
+          <button onClick={onClose} className="btn-primary flex-1">
+            Tutup
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { Calendar, CheckCircle, Edit, GripVertical, Image, User } from 'lucide-react';
+import type { ContentItem, ContentStage } from '../../lib/repositories';
+import { pipelineStages } from '../../lib/contentPipeline';
+
+interface PipelineBoardProps {
+  items: ContentItem[];
+  canEdit: (item: ContentItem) => boolean;
+  nameOf: (userId: string) => string;
+  templateTitle: (templateId: string) => string | null;
+  onMove: (item: ContentItem, stage: ContentStage) => void;
+  onEdit: (item: ContentItem) => void;
+}
+
+// Older posted items stay in the daily totals but drop off the board
+const POSTED_SHOWN = 10;
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('ms-MY', { day: 'numeric', month: 'short' });
+
+export default function PipelineBoard({ items, canEdit, nameOf, templateTitle, onMove, onEdit }: PipelineBoardProps) {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [overColumn, setOverColumn] = useState<ContentStage | null>(null);
+
+  const handleDragStart = (e: React.DragEvent, item: ContentItem) => {
+    e.dataTransfer.setData('text/plain', item.id);
+    e.dataTransfer.effectAllowed = 'move';
+    setDraggingId(item.id);
+  };
+
+  const handleDragEnd = () => {
+    setDraggingId(null);
+    setOverColumn(null);
+  };
+
+  const handleDrop = (e: React.DragEvent, stage: ContentStage) => {
+    e.preventDefault();
+    const itemId = e.dataTransfer.getData('text/plain');
+    const item = items.find(i => i.id === itemId);
+
+    if (item && item.stage !== stage && canEdit(item)) {
+      onMove(item, stage);
+    }
+    handleDragEnd();
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-5 gap-4">
+      {pipelineStages.map((column) => {
+        const stageItems = items.filter(item => item.stage === column.stage);
+        const columnItems = column.stage === 'posted'
+          ? [...stageItems]
+              .sort((a, b) => (b.posted_date || '').localeCompare(a.posted_date || ''))
+              .slice(0, POSTED_SHOWN)
+          : stageItems;
+
+        return (
+          <div
+            key={column.stage}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setOverColumn(column.stage);
+            }}
+            onDragLeave={() => setOverColumn(null)}
+            onDrop={(e) => handleDrop(e, column.stage)}
+            className={`rounded-xl border-t-4 ${column.accent} bg-gray-100 dark:bg-gray-800/60 p-3 min-h-[16rem] transition-colors ${
+              overColumn === column.stage ? 'ring-2 ring-blue-400 bg-blue-50 dark:bg-blue-900/20' : ''
+            }`}
+          >
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="font-semibold text-gray-900 dark:text-white">
+                {column.label}
+              </h3>
+              <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-white dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                {stageItems.length}
+              </span>
+            </div>
+
+            <div className="space-y-3">
+              {columnItems.map((item) => {
+                const editable = canEdit(item);
+                const template = item.template_id && templateTitle(item.template_id);
+
+                return (
+                  <div
+                    key={item.id}
+                    draggable={editable}
+                    onDragStart={(e) => handleDragStart(e, item)}
+                    onDragEnd={handleDragEnd}
+                    className={`bg-white dark:bg-gray-800 rounded-lg p-3 shadow-sm border border-gray-200 dark:border-gray-700 ${
+                      editable ? 'cursor-grab active:cursor-grabbing' : 'opacity-75'
+                    } ${draggingId === item.id ? 'opacity-50' : ''}`}
+                  >
+                    <div className="flex items-start justify-between">
+                      <div className="flex items-start space-x-2 flex-1 min-w-0">
+                        {editable && <GripVertical className="h-4 w-4 text-gray-400 mt-0.5 flex-shrink-0" />}
+                        <p className="text-sm font-medium text-gray-900 dark:text-white break-words">
+                          {item.title}
+                        </p>
+                      </div>
+                      {editable && (
+                        <button
+                          onClick={() => onEdit(item)}
+                          className="p-1 text-gray-400 hover:text-blue-500 transition-colors"
+                          title="Edit"
+                        >
+                          <Edit className="h-3.5 w-3.5" />
+                        </button>
+                      )}
+                    </div>
+
+                    {item.caption && (
+                      <p className="mt-1 text-xs text-gray-600 dark:text-gray-400 line-clamp-2">
+                        {item.caption}
+                      </p>
+                    )}
+
+                    {(item.platform || item.content_type) && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {[item.platform, item.content_type].filter(Boolean).map((label) => (
+                          <span
+                            key={label}
+                            className="text-xs px-2 py-0.5 rounded-full bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-300"
+                          >
+                            {label}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+
+                    <div className="mt-2 space-y-1 text-xs text-gray-600 dark:text-gray-400">
+                      <div className="flex items-center">
+                        <User className="h-3 w-3 mr-1" />
+                        {nameOf(item.assigned_to || item.user_id)}
+                      </div>
+                      {template && (
+                        <div className="flex items-center">
+                          <Image className="h-3 w-3 mr-1" />
+                          {template}
+                        </div>
+                      )}
+                      {item.posted_date ? (
+                        <div className="flex items-center text-green-600 dark:text-green-400">
+                          <CheckCircle className="h-3 w-3 mr-1" />
+                          {formatDate(item.posted_date)}
+                        </div>
+                      ) : item.scheduled_date && (
+                        <div className="flex items-center">
+                          <Calendar className="h-3 w-3 mr-1" />
+                          {formatDate(item.scheduled_date)}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+
+              {stageItems.length > columnItems.length && (
+                <p className="text-xs text-center text-gray-500 dark:text-gray-400">
+                  +{stageItems.length - columnItems.length} lagi yang lebih lama
+                </p>
+              )}
+
+              {stageItems.length === 0 && (
+                <p className="text-xs text-center text-gray-500 dark:text-gray-400 py-6">
+                  Seret content ke sini
+                </p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+interface ProgressRingProps {
+  label: string;
+  value: number;
+  target: number;
+  // Stroke colour of the filled part, e.g. '#f97316'
+  color: string;
+  format?: (value: number) => string;
+}
+
+const RADIUS = 36;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+export default function ProgressRing({ label, value, target, color, format = String }: ProgressRingProps) {
+  const ratio = Math.min(1, target > 0 ? value / target : 0);
+  const met = value >= target;
+
+  return (
+    <div className="flex flex-col items-center text-center">
+      <div className="relative h-24 w-24">
+        <svg viewBox="0 0 88 88" className="h-24 w-24 -rotate-90">
+          <circle cx="44" cy="44" r={RADIUS} fill="none" strokeWidth="8" className="stroke-gray-200 dark:stroke-gray-700" />
+          <circle
+            cx="44"
+            cy="44"
+            r={RADIUS}
+            fill="none"
+            strokeWidth="8"
+            strokeLinecap="round"
+            stroke={color}
+            strokeDasharray={CIRCUMFERENCE}
+            strokeDashoffset={CIRCUMFERENCE * (1 - ratio)}
+            className="transition-all duration-500"
+          />
+        </svg>
+        <div className="absolute inset-0 flex flex-col items-center justify-center">
+          <span className="text-lg font-bold text-gray-900 dark:text-white">
+            {Math.round(ratio * 100)}%
+          </span>
+        </div>
+      </div>
+      <p className="mt-2 text-sm font-medium text-gray-900 dark:text-white">{label}</p>
+      <p className={`text-xs ${met ? 'text-green-600 dark:text-green-400' : 'text-gray-500 dark:text-gray-400'}`}>
+        {format(value)} / {format(target)}
+      </p>
+    </div>
+  );
+}
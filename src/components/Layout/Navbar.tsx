@@ -1,8 +1,9 @@
 import React from 'react';
 import { useAuth } from '../../contexts/AuthContext';
 import { useTheme } from '../../contexts/ThemeContext';
-import { Bell, Settings, LogOut, Sun, Moon, User } from 'lucide-react';
+import { Settings, LogOut, Sun, Moon, User } from 'lucide-react';
 import toast from 'react-hot-toast';
+import NotificationBell from './NotificationBell';
 
 export default function Navbar() {
   const { profile, signOut } = useAuth();
@@ -41,10 +42,7 @@ export default function Navbar() {
           </button>
 
           {/* Notifications */}
-          <button className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors relative">
-            <Bell className="h-5 w-5 text-gray-600 dark:text-gray-300" />
-            <span className="absolute top-1 right-1 h-2 w-2 bg-red-500 rounded-full"></span>
-          </button>
+          <NotificationBell />
 
           {/* User Menu */}
           <div className="flex items-center space-x-3">
@@ -0,0 +1,173 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AlertTriangle, AtSign, Bell, CheckCheck, Clock, FileImage, Shield, UserCheck, Users } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../../contexts/AuthContext';
+import { useRealTimeSync } from '../../hooks/useRealTimeSync';
+import { notificationsRepo, type Notification, type NotificationType } from '../../lib/repositories';
+import { toDateKey } from '../../lib/dates';
+
+const typeIcons: Record<NotificationType, { icon: typeof Bell; className: string }> = {
+  task_assigned: { icon: UserCheck, className: 'text-blue-500' },
+  task_due_tomorrow: { icon: Clock, className: 'text-yellow-500' },
+  task_overdue: { icon: AlertTriangle, className: 'text-red-500' },
+  role_changed: { icon: Shield, className: 'text-purple-500' },
+  template_uploaded: { icon: FileImage, className: 'text-green-500' },
+  task_mention: { icon: AtSign, className: 'text-blue-500' },
+  project_invite: { icon: Users, className: 'text-indigo-500' }
+};
+
+export default function NotificationBell() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const unreadCount = notifications.filter(notification => !notification.read_at).length;
+
+  useEffect(() => {
+    if (!user) return;
+
+    // Reminders are created on sign-in; the fetch below picks them up either way
+    notificationsRepo.syncDue(toDateKey(new Date())).then(({ error }) => {
+      if (error) console.error('Error syncing task reminders:', error);
+      fetchNotifications();
+    });
+  }, [user]);
+
+  useRealTimeSync({
+    table: 'notifications',
+    filter: user ? `user_id=eq.${user.id}` : undefined,
+    onUpdate: () => fetchNotifications()
+  });
+
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  const fetchNotifications = async () => {
+    if (!user) return;
+
+    const { data, error } = await notificationsRepo.list(user.id);
+    if (error) {
+      console.error('Error fetching notifications:', error);
+      return;
+    }
+    setNotifications(data);
+  };
+
+  const markRead = (id: string) => {
+    setNotifications(prev =>
+      prev.map(notification =>
+        notification.id === id ? { ...notification, read_at: new Date().toISOString() } : notification
+      )
+    );
+  };
+
+  const handleOpen = async (notification: Notification) => {
+    setOpen(false);
+    if (!notification.read_at) {
+      markRead(notification.id);
+      const { error } = await notificationsRepo.markRead(notification.id);
+      if (error) console.error('Error marking notification read:', error);
+    }
+    if (notification.link) navigate(notification.link);
+  };
+
+  const handleMarkAllRead = async () => {
+    if (!user) return;
+
+    const { error } = await notificationsRepo.markAllRead(user.id);
+    if (error) {
+      console.error('Error marking notifications read:', error);
+      toast.error('Ralat semasa menanda notifikasi');
+      return;
+    }
+    const now = new Date().toISOString();
+    setNotifications(prev => prev.map(notification => ({ ...notification, read_at: notification.read_at || now })));
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors relative"
+        title="Notifikasi"
+      >
+        <Bell className="h-5 w-5 text-gray-600 dark:text-gray-300" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 bg-red-500 text-white text-[10px] font-bold rounded-full flex items-center justify-center">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 sm:w-96 bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 z-40">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+            <h3 className="font-semibold text-gray-900 dark:text-white">Notifikasi</h3>
+            {unreadCount > 0 && (
+              <button
+                onClick={handleMarkAllRead}
+                className="flex items-center text-xs text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                <CheckCheck className="h-3.5 w-3.5 mr-1" />
+                Tandakan semua dibaca
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+            {notifications.length > 0 ? (
+              notifications.map((notification) => {
+                const { icon: Icon, className } = typeIcons[notification.type];
+
+                return (
+                  <button
+                    key={notification.id}
+                    onClick={() => handleOpen(notification)}
+                    className={`w-full flex items-start space-x-3 px-4 py-3 text-left hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors ${
+                      notification.read_at ? '' : 'bg-blue-50 dark:bg-blue-900/20'
+                    }`}
+                  >
+                    <Icon className={`h-4 w-4 mt-0.5 flex-shrink-0 ${className}`} />
+                    <div className="flex-1 min-w-0">
+                      <p className={`text-sm text-gray-900 dark:text-white ${notification.read_at ? '' : 'font-semibold'}`}>
+                        {notification.title}
+                      </p>
+                      {notification.body && (
+                        <p className="text-xs text-gray-600 dark:text-gray-400 truncate">
+                          {notification.body}
+                        </p>
+                      )}
+                      <p className="text-xs text-gray-500 dark:text-gray-500 mt-0.5">
+                        {new Date(notification.created_at).toLocaleString('ms-MY')}
+                      </p>
+                    </div>
+                    {!notification.read_at && (
+                      <span className="h-2 w-2 mt-1.5 bg-blue-500 rounded-full flex-shrink-0"></span>
+                    )}
+                  </button>
+                );
+              })
+            ) : (
+              <p className="px-4 py-8 text-sm text-center text-gray-500 dark:text-gray-400">
+                Tiada notifikasi
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
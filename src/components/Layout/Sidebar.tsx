@@ -1,12 +1,15 @@
 import React from 'react';
 import { NavLink, useLocation } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
 import {
   LayoutDashboard,
   FolderOpen,
+  GanttChartSquare,
   CheckSquare,
   Calendar,
   FileText,
   Radio,
+  Wallet,
   Images,
   BarChart3,
   Settings,
@@ -17,10 +20,12 @@ import {
 const navigation = [
   { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
   { name: 'Projek', href: '/projek', icon: FolderOpen },
+  { name: 'Garis Masa', href: '/projek/garis-masa', icon: GanttChartSquare },
   { name: 'Tugasan', href: '/tugasan', icon: CheckSquare },
   { name: 'Kalendar', href: '/kalendar', icon: Calendar },
   { name: 'Content Harian', href: '/content', icon: FileText },
   { name: 'Host LIVE', href: '/live', icon: Radio },
+  { name: 'Gaji Host', href: '/live/gaji', icon: Wallet, adminOnly: true },
   { name: 'Template Design', href: '/templates', icon: Images },
   { name: 'Analitik', href: '/analitik', icon: BarChart3 },
   { name: 'Tetapan Akaun', href: '/tetapan', icon: Settings },
@@ -32,6 +37,7 @@ interface SidebarProps {
 
 export default function Sidebar({ isOpen }: SidebarProps) {
   const location = useLocation();
+  const { profile } = useAuth();
 
   return (
     <aside
@@ -53,7 +59,7 @@ export default function Sidebar({ isOpen }: SidebarProps) {
       </div>
 
       <nav className="flex-1 px-4 pb-4 space-y-2">
-        {navigation.map((item) => {
+        {navigation.filter(item => !item.adminOnly || profile?.role === 'admin').map((item) => {
           const isActive = location.pathname === item.href;
           return (
             <NavLink
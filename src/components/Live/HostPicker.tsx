@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import type { Host } from '../../lib/repositories';
+
+interface HostPickerProps {
+  hosts: Host[];
+  value: string;
+  onChange: (hostId: string) => void;
+  // Adds a host to the roster; resolves to null if that failed
+  onCreate: (name: string) => Promise<Host | null>;
+}
+
+const NEW_HOST = '__new';
+
+export default function HostPicker({ hosts, value, onChange, onCreate }: HostPickerProps) {
+  const [adding, setAdding] = useState(false);
+  const [newName, setNewName] = useState('');
+
+  // Inactive hosts are only listed when already chosen, e.g. on an old log
+  const options = hosts.filter(host => host.is_active || host.id === value);
+
+  const handleAdd = async () => {
+    if (!newName.trim()) return;
+
+    const host = await onCreate(newName);
+    if (host) {
+      onChange(host.id);
+      setAdding(false);
+      setNewName('');
+    }
+  };
+
+  if (adding) {
+    return (
+      <div className="flex items-center space-x-2">
+        <input
+          type="text"
+          autoFocus
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          className="input-field"
+          placeholder="Nama host baharu"
+        />
+        <button type="button" onClick={handleAdd} className="btn-primary whitespace-nowrap">
+          Tambah
+        </button>
+        <button type="button" onClick={() => setAdding(false)} className="btn-secondary">
+          Batal
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => (e.target.value === NEW_HOST ? setAdding(true) : onChange(e.target.value))}
+      className="input-field"
+    >
+      <option value="">Pilih host</option>
+      {options.map((host) => (
+        <option key={host.id} value={host.id}>
+          {host.name}{!host.is_active && ' (tidak aktif)'}
+        </option>
+      ))}
+      <option value={NEW_HOST}>+ Tambah host baharu</option>
+    </select>
+  );
+}
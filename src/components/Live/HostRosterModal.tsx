@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import { Save } from 'lucide-react';
+import type { Host, UserProfile } from '../../lib/repositories';
+
+interface HostRosterModalProps {
+  hosts: Host[];
+  profiles: UserProfile[];
+  canManage: (host: Host) => boolean;
+  onSave: (host: Host, values: Pick<Host, 'name' | 'user_profile_id' | 'hourly_rate' | 'is_active'>) => void;
+  onClose: () => void;
+}
+
+type HostDraft = Pick<Host, 'name' | 'user_profile_id' | 'hourly_rate' | 'is_active'>;
+
+const draftFor = (host: Host): HostDraft => ({
+  name: host.name,
+  user_profile_id: host.user_profile_id,
+  hourly_rate: host.hourly_rate,
+  is_active: host.is_active
+});
+
+export default function HostRosterModal({ hosts, profiles, canManage, onSave, onClose }: HostRosterModalProps) {
+  const [drafts, setDrafts] = useState<Record<string, HostDraft>>({});
+
+  const draftOf = (host: Host) => drafts[host.id] || draftFor(host);
+
+  const changeDraft = (host: Host, values: Partial<HostDraft>) => {
+    setDrafts(prev => ({ ...prev, [host.id]: { ...draftOf(host), ...values } }));
+  };
+
+  const isDirty = (host: Host) => {
+    const draft = drafts[host.id];
+    return !!draft && JSON.stringify(draft) !== JSON.stringify(draftFor(host));
+  };
+
+  const handleSave = (host: Host) => {
+    onSave(host, draftOf(host));
+    setDrafts(prev => {
+      const next = { ...prev };
+      delete next[host.id];
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-xl p-6 w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-1">
+          Senarai Host
+        </h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          Host tidak aktif tidak dipaparkan dalam pilihan tetapi kekal pada log lama.
+        </p>
+
+        <div className="flex-1 overflow-y-auto">
+          {hosts.length > 0 ? (
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-800">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Nama
+                  </th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Akaun Pengguna
+                  </th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Kadar (RM/jam)
+                  </th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Aktif
+                  </th>
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {hosts.map((host) => {
+                  const draft = draftOf(host);
+                  const editable = canManage(host);
+
+                  return (
+                    <tr key={host.id}>
+                      <td className="px-3 py-2">
+                        <input
+                          type="text"
+                          value={draft.name}
+                          disabled={!editable}
+                          onChange={(e) => changeDraft(host, { name: e.target.value })}
+                          className="input-field py-1"
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        <select
+                          value={draft.user_profile_id || ''}
+                          disabled={!editable}
+                          onChange={(e) => changeDraft(host, { user_profile_id: e.target.value || null })}
+                          className="input-field py-1"
+                        >
+                          <option value="">Tiada</option>
+                          {profiles.map((profile) => (
+                            <option key={profile.id} value={profile.id}>
+                              {profile.nama}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.5"
+                          value={draft.hourly_rate}
+                          disabled={!editable}
+                          onChange={(e) => changeDraft(host, { hourly_rate: parseFloat(e.target.value) || 0 })}
+                          className="input-field py-1 w-24"
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="checkbox"
+                          checked={draft.is_active}
+                          disabled={!editable}
+                          onChange={(e) => changeDraft(host, { is_active: e.target.checked })}
+                          className="rounded border-gray-300 text-blue-500"
+                        />
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {isDirty(host) && (
+                          <button
+                            onClick={() => handleSave(host)}
+                            className="p-2 text-gray-400 hover:text-blue-500 transition-colors"
+                            title="Simpan"
+                          >
+                            <Save className="h-4 w-4" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-gray-500 dark:text-gray-400 text-sm">
+              Belum ada host. Tambah host melalui pilihan host semasa merekod sesi live.
+            </p>
+          )}
+        </div>
+
+        <div className="flex mt-6">
+          <button onClick={onClose} className="btn-secondary flex-1">
+            Tutup
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
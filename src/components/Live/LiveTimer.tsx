@@ -0,0 +1,114 @@
+import { useState, useEffect } from 'react';
+import { Pause, Play, Radio, Square } from 'lucide-react';
+import { elapsedSeconds, formatElapsed, isPaused } from '../../lib/liveSessions';
+import type { Host, LiveManualLog } from '../../lib/repositories';
+import HostPicker from './HostPicker';
+
+interface LiveTimerProps {
+  // The user's running session, if any
+  session: LiveManualLog | null;
+  hosts: Host[];
+  defaultHostId: string;
+  onStart: (hostId: string) => void;
+  onCreateHost: (name: string) => Promise<Host | null>;
+  onPause: (session: LiveManualLog) => void;
+  onResume: (session: LiveManualLog) => void;
+  onStop: (session: LiveManualLog) => void;
+}
+
+export default function LiveTimer({
+  session,
+  hosts,
+  defaultHostId,
+  onStart,
+  onCreateHost,
+  onPause,
+  onResume,
+  onStop
+}: LiveTimerProps) {
+  const [hostId, setHostId] = useState(defaultHostId);
+  const [now, setNow] = useState(new Date());
+  const paused = session ? isPaused(session) : false;
+
+  useEffect(() => {
+    setHostId(defaultHostId);
+  }, [defaultHostId]);
+
+  // Elapsed time is derived from the stored start, so the clock only has to
+  // re-render; a reload picks up where it left off.
+  useEffect(() => {
+    if (!session || paused) return;
+
+    setNow(new Date());
+    const interval = window.setInterval(() => setNow(new Date()), 1000);
+    return () => window.clearInterval(interval);
+  }, [session, paused]);
+
+  if (!session) {
+    return (
+      <div className="card">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center">
+          <Radio className="h-5 w-5 mr-2 text-red-500" />
+          Pemasa Live
+        </h3>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            onStart(hostId);
+          }}
+          className="flex flex-col sm:flex-row gap-3"
+        >
+          <div className="flex-1">
+            <HostPicker hosts={hosts} value={hostId} onChange={setHostId} onCreate={onCreateHost} />
+          </div>
+          <button type="submit" className="btn-primary flex items-center justify-center whitespace-nowrap">
+            <Play className="h-4 w-4 mr-2" />
+            Mula Live
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  return (
+    <div className="card border-l-4 border-red-500">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <p className="text-sm font-medium text-gray-600 dark:text-gray-400 flex items-center">
+            <span className={`w-2.5 h-2.5 rounded-full mr-2 ${paused ? 'bg-yellow-500' : 'bg-red-500 animate-pulse'}`}></span>
+            {paused ? 'Dijeda' : 'Sedang Live'} · {session.host_name}
+          </p>
+          <p className="text-4xl font-bold text-gray-900 dark:text-white mt-1 tabular-nums">
+            {formatElapsed(elapsedSeconds(session, now))}
+          </p>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            Bermula {new Date(session.start_time!).toLocaleString('ms-MY', {
+              weekday: 'short',
+              day: 'numeric',
+              month: 'short',
+              hour: '2-digit',
+              minute: '2-digit'
+            })}
+          </p>
+        </div>
+        <div className="flex items-center space-x-3">
+          {paused ? (
+            <button onClick={() => onResume(session)} className="btn-secondary flex items-center">
+              <Play className="h-4 w-4 mr-2" />
+              Sambung
+            </button>
+          ) : (
+            <button onClick={() => onPause(session)} className="btn-secondary flex items-center">
+              <Pause className="h-4 w-4 mr-2" />
+              Jeda
+            </button>
+          )}
+          <button onClick={() => onStop(session)} className="btn-primary flex items-center">
+            <Square className="h-4 w-4 mr-2" />
+            Tamat
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { parseISO } from 'date-fns';
+import { Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import type { Host, LiveShift, LiveShiftInput } from '../../lib/repositories';
+import { crossesMidnight, findConflict, livePlatforms, shiftTimeRange, shortTime } from '../../lib/liveShifts';
+import HostPicker from './HostPicker';
+
+interface ShiftModalProps {
+  // Null when adding; `initial` then pre-fills the host and date clicked
+  shift: LiveShift | null;
+  initial: Pick<LiveShiftInput, 'host_id' | 'shift_date'>;
+  hosts: Host[];
+  // Shifts already loaded for the week, checked for double-booking
+  shifts: LiveShift[];
+  onCreateHost: (name: string) => Promise<Host | null>;
+  onSave: (values: LiveShiftInput) => Promise<boolean>;
+  onDelete?: () => void;
+  onClose: () => void;
+}
+
+export default function ShiftModal({ shift, initial, hosts, shifts, onCreateHost, onSave, onDelete, onClose }: ShiftModalProps) {
+  const [form, setForm] = useState<LiveShiftInput>(() => ({
+    host_id: shift?.host_id || initial.host_id,
+    shift_date: shift?.shift_date || initial.shift_date,
+    start_time: shift ? shortTime(shift.start_time) : '',
+    end_time: shift ? shortTime(shift.end_time) : '',
+    platform: shift?.platform || livePlatforms[0],
+    notes: shift?.notes || ''
+  }));
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!form.host_id) {
+      toast.error('Sila pilih host');
+      return;
+    }
+    if (form.end_time === form.start_time) {
+      toast.error('Masa tamat mestilah berbeza daripada masa mula');
+      return;
+    }
+
+    const conflict = findConflict(shifts, { ...form, id: shift?.id });
+    if (conflict) {
+      toast.error(`Host ini sudah dijadualkan ${shiftTimeRange(conflict)} pada ${parseISO(conflict.shift_date).toLocaleDateString('ms-MY', { weekday: 'short', day: 'numeric', month: 'short' })}`);
+      return;
+    }
+
+    setSaving(true);
+    const saved = await onSave({ ...form, notes: form.notes?.trim() || null });
+    setSaving(false);
+    if (saved) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-xl p-6 w-full max-w-md">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">
+          {shift ? 'Edit Syif Live' : 'Tambah Syif Live'}
+        </h2>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Host
+            </label>
+            <HostPicker
+              hosts={hosts}
+              value={form.host_id}
+              onChange={(hostId) => setForm({ ...form, host_id: hostId })}
+              onCreate={onCreateHost}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Tarikh
+            </label>
+            <input
+              type="date"
+              required
+              value={form.shift_date}
+              onChange={(e) => setForm({ ...form, shift_date: e.target.value })}
+              className="input-field"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Masa Mula
+              </label>
+              <input
+                type="time"
+                required
+                value={form.start_time}
+                onChange={(e) => setForm({ ...form, start_time: e.target.value })}
+                className="input-field"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Masa Tamat
+              </label>
+              <input
+                type="time"
+                required
+                value={form.end_time}
+                onChange={(e) => setForm({ ...form, end_time: e.target.value })}
+                className="input-field"
+              />
+            </div>
+          </div>
+          {form.start_time && form.end_time && crossesMidnight(form) && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 -mt-2">
+              Syif ini tamat pada hari berikutnya.
+            </p>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Platform
+            </label>
+            <select
+              value={form.platform}
+              onChange={(e) => setForm({ ...form, platform: e.target.value })}
+              className="input-field"
+            >
+              {livePlatforms.map((platform) => (
+                <option key={platform} value={platform}>
+                  {platform}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Catatan
+            </label>
+            <input
+              type="text"
+              value={form.notes || ''}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              className="input-field"
+              placeholder="Contoh: Promosi 10.10"
+            />
+          </div>
+
+          <div className="flex space-x-3 pt-4">
+            {onDelete && (
+              <button
+                type="button"
+                onClick={onDelete}
+                className="p-2 text-gray-400 hover:text-red-500 transition-colors"
+                title="Padam"
+              >
+                <Trash2 className="h-5 w-5" />
+              </button>
+            )}
+            <button type="button" onClick={onClose} className="btn-secondary flex-1">
+              Batal
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="btn-primary flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {shift ? 'Kemaskini' : 'Tambah'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
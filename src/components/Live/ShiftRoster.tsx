@@ -0,0 +1,311 @@
+import { useState, useEffect } from 'react';
+import { addDays, eachDayOfInterval, parseISO } from 'date-fns';
+import { CalendarClock, ChevronLeft, ChevronRight, Plus } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useRealTimeSync } from '../../hooks/useRealTimeSync';
+import {
+  liveShiftsRepo,
+  type DataScope,
+  type Host,
+  type LiveManualLog,
+  type LiveShift,
+  type LiveShiftInput
+} from '../../lib/repositories';
+import { toDateKey, weekRange } from '../../lib/dates';
+import { reconcile, shiftTimeRange, unplannedLogs, type ShiftStatus } from '../../lib/liveShifts';
+import ShiftModal from './ShiftModal';
+
+interface ShiftRosterProps {
+  scope: DataScope;
+  hosts: Host[];
+  logs: LiveManualLog[];
+  // Hosts whose sessions this user can see; null means all (admins)
+  trackedHostIds: Set<string> | null;
+  canManage: (shift: LiveShift) => boolean;
+  onCreateHost: (name: string) => Promise<Host | null>;
+}
+
+type ModalState = { shift: LiveShift | null; initial: Pick<LiveShiftInput, 'host_id' | 'shift_date'> };
+
+const statusStyles: Record<ShiftStatus, { label: string; className: string }> = {
+  upcoming: { label: 'Akan datang', className: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300' },
+  live: { label: 'Sedang live', className: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300' },
+  met: { label: 'Cukup', className: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300' },
+  short: { label: 'Kurang', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300' },
+  missed: { label: 'Tidak live', className: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300' }
+};
+
+export default function ShiftRoster({ scope, hosts, logs, trackedHostIds, canManage, onCreateHost }: ShiftRosterProps) {
+  const [weekOf, setWeekOf] = useState(new Date());
+  const [shifts, setShifts] = useState<LiveShift[]>([]);
+  const [modal, setModal] = useState<ModalState | null>(null);
+
+  const week = weekRange(weekOf);
+
+  const fetchShifts = async () => {
+    try {
+      const { data, error } = await liveShiftsRepo.list(weekRange(weekOf));
+
+      if (error) throw error;
+      setShifts(data);
+    } catch (error) {
+      console.error('Error fetching live shifts:', error);
+      toast.error('Ralat semasa mengambil jadual live');
+    }
+  };
+
+  useEffect(() => {
+    fetchShifts();
+  }, [week.from]);
+
+  useRealTimeSync({
+    table: 'live_shifts',
+    onUpdate: fetchShifts
+  });
+
+  const handleSave = async (values: LiveShiftInput): Promise<boolean> => {
+    try {
+      const { error } = modal?.shift
+        ? await liveShiftsRepo.update(modal.shift.id, values)
+        : await liveShiftsRepo.create(scope, values);
+
+      if (error) {
+        // Someone else booked the host in the meantime
+        if (error.code === liveShiftsRepo.OVERLAP_ERROR_CODE) {
+          toast.error('Host ini sudah mempunyai syif yang bertindih');
+          fetchShifts();
+          return false;
+        }
+        throw error;
+      }
+      toast.success(modal?.shift ? 'Syif berjaya dikemaskini' : 'Syif berjaya ditambah');
+      fetchShifts();
+      return true;
+    } catch (error) {
+      console.error('Error saving live shift:', error);
+      toast.error('Ralat semasa menyimpan syif');
+      return false;
+    }
+  };
+
+  const handleDelete = async (shift: LiveShift) => {
+    if (!confirm('Adakah anda pasti ingin memadam syif ini?')) return;
+
+    try {
+      const { error } = await liveShiftsRepo.remove(shift.id);
+
+      if (error) throw error;
+      toast.success('Syif berjaya dipadam');
+      setModal(null);
+      fetchShifts();
+    } catch (error) {
+      console.error('Error deleting live shift:', error);
+      toast.error('Ralat semasa memadam syif');
+    }
+  };
+
+  const days = eachDayOfInterval({ start: parseISO(week.from), end: parseISO(week.to) }).map(toDateKey);
+  const today = toDateKey(new Date());
+  // Inactive hosts keep their row while they still have shifts this week
+  const rosterHosts = hosts.filter(host => host.is_active || shifts.some(shift => shift.host_id === host.id));
+
+  const tracked = (hostId: string | null) => !trackedHostIds || (!!hostId && trackedHostIds.has(hostId));
+  const weekLogs = logs.filter(log => log.live_date >= week.from && log.live_date <= week.to && tracked(log.host_id));
+  const rows = reconcile(shifts.filter(shift => tracked(shift.host_id)), weekLogs, today);
+  const unplanned = unplannedLogs(shifts, weekLogs);
+  const hostName = (hostId: string | null) => hosts.find(host => host.id === hostId)?.name || '-';
+
+  const formatDay = (date: string, options: Intl.DateTimeFormatOptions) =>
+    parseISO(date).toLocaleDateString('ms-MY', options);
+
+  return (
+    <div className="space-y-6">
+      <div className="card">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+            <CalendarClock className="h-5 w-5 mr-2" />
+            Jadual Live Mingguan
+          </h3>
+          <div className="flex items-center space-x-2 mt-3 sm:mt-0">
+            <button
+              onClick={() => setWeekOf(addDays(weekOf, -7))}
+              className="p-2 text-gray-500 hover:text-blue-500 transition-colors"
+              title="Minggu sebelum"
+            >
+              <ChevronLeft className="h-5 w-5" />
+            </button>
+            <span className="text-sm font-medium text-gray-900 dark:text-white">
+              {formatDay(week.from, { day: 'numeric', month: 'short' })} – {formatDay(week.to, { day: 'numeric', month: 'short', year: 'numeric' })}
+            </span>
+            <button
+              onClick={() => setWeekOf(addDays(weekOf, 7))}
+              className="p-2 text-gray-500 hover:text-blue-500 transition-colors"
+              title="Minggu seterusnya"
+            >
+              <ChevronRight className="h-5 w-5" />
+            </button>
+            <button onClick={() => setWeekOf(new Date())} className="btn-secondary text-sm">
+              Minggu Ini
+            </button>
+          </div>
+        </div>
+
+        {rosterHosts.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="min-w-full border-collapse">
+              <thead>
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider w-32">
+                    Host
+                  </th>
+                  {days.map((day) => (
+                    <th
+                      key={day}
+                      className={`px-2 py-2 text-center text-xs font-medium uppercase tracking-wider ${
+                        day === today ? 'text-blue-600 dark:text-blue-400' : 'text-gray-500 dark:text-gray-400'
+                      }`}
+                    >
+                      {formatDay(day, { weekday: 'short', day: 'numeric' })}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rosterHosts.map((host) => (
+                  <tr key={host.id} className="border-t border-gray-200 dark:border-gray-700">
+                    <td className="px-3 py-2 text-sm font-medium text-gray-900 dark:text-white whitespace-nowrap">
+                      {host.name}
+                    </td>
+                    {days.map((day) => {
+                      const cellShifts = shifts.filter(shift => shift.host_id === host.id && shift.shift_date === day);
+
+                      return (
+                        <td key={day} className="group px-1 py-1 align-top min-w-[7rem]">
+                          <div className="space-y-1">
+                            {cellShifts.map((shift) => (
+                              <button
+                                key={shift.id}
+                                onClick={() => canManage(shift) && setModal({ shift, initial: shift })}
+                                className={`w-full text-left px-2 py-1 rounded text-xs bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300 ${
+                                  canManage(shift) ? 'hover:bg-red-200 dark:hover:bg-red-900/60' : 'cursor-default'
+                                }`}
+                                title={shift.notes || undefined}
+                              >
+                                <span className="font-medium">{shiftTimeRange(shift)}</span>
+                                <span className="block truncate">{shift.platform}</span>
+                              </button>
+                            ))}
+                            {host.is_active && (
+                              <button
+                                onClick={() => setModal({ shift: null, initial: { host_id: host.id, shift_date: day } })}
+                                className="w-full flex justify-center py-1 rounded text-gray-400 opacity-0 group-hover:opacity-100 hover:bg-gray-100 dark:hover:bg-gray-700 transition-opacity"
+                                title="Tambah syif"
+                              >
+                                <Plus className="h-3 w-3" />
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-gray-500 dark:text-gray-400 text-sm">
+            Tambah host melalui Senarai Host sebelum menyusun jadual.
+          </p>
+        )}
+      </div>
+
+      <div className="card">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
+          Dirancang vs Sebenar
+        </h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          Jam sebenar diambil daripada log live host yang sama pada hari yang sama.
+        </p>
+
+        {rows.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-800">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Tarikh
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Host
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Syif
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Dirancang
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Sebenar
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Status
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-900 divide-y divide-gray-200 dark:divide-gray-700">
+                {rows.map(({ shift, plannedHours, actualHours, status }) => (
+                  <tr key={shift.id}>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                      {formatDay(shift.shift_date, { weekday: 'short', day: 'numeric', month: 'short' })}
+                    </td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                      {hostName(shift.host_id)}
+                    </td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                      {shiftTimeRange(shift)} · {shift.platform}
+                    </td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-gray-900 dark:text-white">
+                      {plannedHours}j
+                    </td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-gray-900 dark:text-white">
+                      {actualHours}j
+                    </td>
+                    <td className="px-6 py-3 whitespace-nowrap">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusStyles[status].className}`}>
+                        {statusStyles[status].label}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-gray-500 dark:text-gray-400 text-sm">
+            Tiada syif dijadualkan untuk minggu ini.
+          </p>
+        )}
+
+        {unplanned.length > 0 && (
+          <p className="mt-4 text-sm text-gray-600 dark:text-gray-400">
+            Sesi tanpa syif: {unplanned.map(log => `${log.host_name} (${formatDay(log.live_date, { weekday: 'short' })}, ${log.total_hours}j)`).join(', ')}
+          </p>
+        )}
+      </div>
+
+      {modal && (
+        <ShiftModal
+          shift={modal.shift}
+          initial={modal.initial}
+          hosts={hosts}
+          shifts={shifts}
+          onCreateHost={onCreateHost}
+          onSave={handleSave}
+          onDelete={modal.shift ? () => handleDelete(modal.shift!) : undefined}
+          onClose={() => setModal(null)}
+        />
+      )}
+    </div>
+  );
+}
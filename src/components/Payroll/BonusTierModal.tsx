@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import type { BonusTier } from '../../lib/repositories';
+import { formatRM } from '../../lib/payroll';
+
+interface BonusTierModalProps {
+  tiers: BonusTier[];
+  onAdd: (minHours: number, bonus: number) => Promise<boolean>;
+  onRemove: (tier: BonusTier) => void;
+  onClose: () => void;
+}
+
+export default function BonusTierModal({ tiers, onAdd, onRemove, onClose }: BonusTierModalProps) {
+  const [minHours, setMinHours] = useState(0);
+  const [bonus, setBonus] = useState(0);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (minHours <= 0) return;
+
+    if (await onAdd(minHours, bonus)) {
+      setMinHours(0);
+      setBonus(0);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-xl p-6 w-full max-w-md">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-1">
+          Tahap Bonus
+        </h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          Host menerima bonus tahap tertinggi yang dicapai dalam satu tempoh. Tempoh yang telah dikunci tidak terjejas.
+        </p>
+
+        {tiers.length > 0 ? (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700 mb-4">
+            {tiers.map((tier) => (
+              <div key={tier.id} className="flex items-center justify-between py-2">
+                <span className="text-sm text-gray-900 dark:text-white">
+                  {tier.min_hours} jam ke atas
+                </span>
+                <div className="flex items-center space-x-2">
+                  <span className="text-sm font-medium text-green-600 dark:text-green-400">
+                    +{formatRM(tier.bonus)}
+                  </span>
+                  <button
+                    onClick={() => onRemove(tier)}
+                    className="p-2 text-gray-400 hover:text-red-500 transition-colors"
+                    title="Padam"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+            Tiada tahap bonus. Gaji dikira daripada kadar sejam sahaja.
+          </p>
+        )}
+
+        <form onSubmit={handleAdd} className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Minimum Jam
+            </label>
+            <input
+              type="number"
+              min="0.5"
+              step="0.5"
+              required
+              value={minHours || ''}
+              onChange={(e) => setMinHours(parseFloat(e.target.value) || 0)}
+              className="input-field"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Bonus (RM)
+            </label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              required
+              value={bonus || ''}
+              onChange={(e) => setBonus(parseFloat(e.target.value) || 0)}
+              className="input-field"
+            />
+          </div>
+          <button type="submit" className="btn-secondary col-span-2">
+            Tambah Tahap
+          </button>
+        </form>
+
+        <div className="flex mt-6">
+          <button onClick={onClose} className="btn-primary flex-1">
+            Tutup
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+import React, { useEffect, useState } from 'react';
+import { LogOut, Trash2, UserPlus, Users } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useRealTimeSync } from '../../hooks/useRealTimeSync';
+import {
+  projectMembersRepo,
+  RepositoryError,
+  type Project,
+  type ProjectMemberWithProfile,
+  type ProjectRole
+} from '../../lib/repositories';
+
+interface ProjectMembersModalProps {
+  project: Project;
+  currentUserId: string;
+  isAdmin: boolean;
+  onClose: () => void;
+  // After the current user leaves the project
+  onLeave: () => void;
+}
+
+const roles: ProjectRole[] = ['owner', 'editor', 'viewer'];
+
+const isCreatorError = (error: unknown) =>
+  error instanceof RepositoryError && error.code === projectMembersRepo.CREATOR_ERROR_CODE;
+
+export default function ProjectMembersModal({ project, currentUserId, isAdmin, onClose, onLeave }: ProjectMembersModalProps) {
+  const [members, setMembers] = useState<ProjectMemberWithProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [email, setEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<ProjectRole>('editor');
+  const [inviting, setInviting] = useState(false);
+
+  const myRole = members.find(member => member.user_id === currentUserId)?.role;
+  const canManage = isAdmin || myRole === 'owner';
+
+  const fetchMembers = async () => {
+    try {
+      const { data, error } = await projectMembersRepo.list(project.id);
+
+      if (error) throw error;
+      setMembers(data);
+    } catch (error) {
+      console.error('Error fetching project members:', error);
+      toast.error('Ralat semasa mengambil ahli projek');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchMembers();
+  }, [project.id]);
+
+  useRealTimeSync({
+    table: 'project_members',
+    filter: `project_id=eq.${project.id}`,
+    onUpdate: fetchMembers
+  });
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    setInviting(true);
+    try {
+      const { error } = await projectMembersRepo.invite(project.id, email.trim(), inviteRole);
+
+      if (error) throw error;
+      toast.success('Ahli berjaya ditambah');
+      setEmail('');
+      fetchMembers();
+    } catch (error) {
+      console.error('Error inviting project member:', error);
+      if (error instanceof RepositoryError && error.code === projectMembersRepo.USER_NOT_FOUND_ERROR_CODE) {
+        toast.error('Tiada pengguna berdaftar dengan email ini');
+      } else if (isCreatorError(error)) {
+        toast.error('Pencipta projek mesti kekal sebagai pemilik');
+      } else {
+        toast.error('Ralat semasa menambah ahli projek');
+      }
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (member: ProjectMemberWithProfile, role: ProjectRole) => {
+    try {
+      const { error } = await projectMembersRepo.updateRole(project.id, member.user_id, role);
+
+      if (error) throw error;
+      setMembers(prev => prev.map(m => (m.user_id === member.user_id ? { ...m, role } : m)));
+      toast.success('Peranan ahli dikemaskini');
+    } catch (error) {
+      console.error('Error updating project member:', error);
+      toast.error(isCreatorError(error) ? 'Pencipta projek mesti kekal sebagai pemilik' : 'Ralat semasa mengemas kini peranan ahli');
+    }
+  };
+
+  const handleRemove = async (member: ProjectMemberWithProfile) => {
+    const leaving = member.user_id === currentUserId;
+    const name = member.user_profiles?.nama || 'ahli ini';
+    if (!confirm(leaving ? `Keluar daripada projek "${project.name}"?` : `Buang ${name} daripada projek?`)) return;
+
+    try {
+      const { error } = await projectMembersRepo.remove(project.id, member.user_id);
+
+      if (error) throw error;
+      if (leaving) {
+        toast.success('Anda telah keluar daripada projek');
+        onLeave();
+        return;
+      }
+      setMembers(prev => prev.filter(m => m.user_id !== member.user_id));
+      toast.success('Ahli berjaya dibuang');
+    } catch (error) {
+      console.error('Error removing project member:', error);
+      toast.error(isCreatorError(error) ? 'Pencipta projek mesti kekal sebagai pemilik' : 'Ralat semasa membuang ahli projek');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-xl p-6 w-full max-w-lg max-h-[90vh] flex flex-col">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-1 flex items-center">
+          <Users className="h-5 w-5 mr-2 text-blue-500" />
+          Ahli Projek
+        </h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          {project.name}
+        </p>
+
+        <div className="flex-1 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+            </div>
+          ) : (
+            members.map((member) => {
+              const isCreator = member.user_id === project.user_id;
+              const isSelf = member.user_id === currentUserId;
+
+              return (
+                <div key={member.user_id} className="flex items-center justify-between py-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                      {member.user_profiles?.nama || 'Pengguna'}
+                      {isSelf && <span className="ml-1 text-gray-500 dark:text-gray-400">(anda)</span>}
+                    </p>
+                    {isCreator && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">Pencipta projek</p>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    {canManage && !isCreator ? (
+                      <select
+                        value={member.role}
+                        onChange={(e) => handleRoleChange(member, e.target.value as ProjectRole)}
+                        className="input-field py-1 text-sm w-32"
+                      >
+                        {roles.map(role => (
+                          <option key={role} value={role}>{projectMembersRepo.roleLabels[role]}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <span className="text-xs px-2 py-1 rounded-full bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300">
+                        {projectMembersRepo.roleLabels[member.role]}
+                      </span>
+                    )}
+                    {!isCreator && (canManage || isSelf) && (
+                      <button
+                        onClick={() => handleRemove(member)}
+                        className="p-2 text-gray-400 hover:text-red-500 transition-colors"
+                        title={isSelf ? 'Keluar' : 'Buang'}
+                      >
+                        {isSelf ? <LogOut className="h-4 w-4" /> : <Trash2 className="h-4 w-4" />}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        {canManage && (
+          <form onSubmit={handleInvite} className="mt-4 space-y-2">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Jemput Ahli
+            </label>
+            <div className="flex space-x-2">
+              <input
+                type="email"
+                required
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="input-field flex-1"
+                placeholder="email@contoh.com"
+              />
+              <select
+                value={inviteRole}
+                onChange={(e) => setInviteRole(e.target.value as ProjectRole)}
+                className="input-field w-32"
+              >
+                {roles.map(role => (
+                  <option key={role} value={role}>{projectMembersRepo.roleLabels[role]}</option>
+                ))}
+              </select>
+            </div>
+            <button
+              type="submit"
+              disabled={inviting}
+              className="btn-primary w-full flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <UserPlus className="h-4 w-4 mr-2" />
+              {inviting ? 'Menjemput...' : 'Jemput'}
+            </button>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Penyunting boleh mengubah projek dan tugasannya; pemerhati hanya boleh melihat dan mengulas.
+            </p>
+          </form>
+        )}
+
+        <div className="flex mt-6">
+          <button onClick={onClose} className="btn-secondary flex-1">
+            Tutup
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import type { UserProfile, UserTarget, UserTargetInput } from '../../lib/repositories';
+
+interface TargetModalProps {
+  user: UserProfile;
+  target: UserTarget | null;
+  onSave: (values: UserTargetInput) => Promise<boolean>;
+  onClose: () => void;
+}
+
+type TargetField = keyof UserTargetInput;
+
+const fields: { key: TargetField; label: string; step: string }[] = [
+  { key: 'daily_content', label: 'Content sehari', step: '1' },
+  { key: 'weekly_content', label: 'Content seminggu', step: '1' },
+  { key: 'daily_live_hours', label: 'Jam live sehari', step: '0.5' },
+  { key: 'weekly_live_hours', label: 'Jam live seminggu', step: '0.5' }
+];
+
+// Blank inputs mean "no target"
+const toField = (value: number | null) => (value === null ? '' : String(value));
+const fromField = (value: string, whole = false) => {
+  const parsed = whole ? Math.round(parseFloat(value)) : parseFloat(value);
+  return parsed > 0 ? parsed : null;
+};
+
+export default function TargetModal({ user, target, onSave, onClose }: TargetModalProps) {
+  const [form, setForm] = useState<Record<TargetField, string>>({
+    daily_content: toField(target?.daily_content ?? null),
+    weekly_content: toField(target?.weekly_content ?? null),
+    daily_live_hours: toField(target?.daily_live_hours ?? null),
+    weekly_live_hours: toField(target?.weekly_live_hours ?? null)
+  });
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    const saved = await onSave({
+      daily_content: fromField(form.daily_content, true),
+      weekly_content: fromField(form.weekly_content, true),
+      daily_live_hours: fromField(form.daily_live_hours),
+      weekly_live_hours: fromField(form.weekly_live_hours)
+    });
+    setSaving(false);
+    if (saved) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-xl p-6 w-full max-w-md">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-1">
+          Sasaran {user.nama}
+        </h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          Biarkan kosong untuk tidak menjejak sasaran tersebut.
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            {fields.map((field) => (
+              <div key={field.key}>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  {field.label}
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step={field.step}
+                  value={form[field.key]}
+                  onChange={(e) => setForm({ ...form, [field.key]: e.target.value })}
+                  className="input-field"
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="flex space-x-3 pt-4">
+            <button type="button" onClick={onClose} className="btn-secondary flex-1">
+              Batal
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="btn-primary flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Simpan
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
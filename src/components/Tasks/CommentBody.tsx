@@ -0,0 +1,122 @@
+import type { ReactNode } from 'react';
+import { MENTION_SOURCE } from '../../lib/mentions';
+
+interface CommentBodyProps {
+  body: string;
+  currentUserId: string;
+}
+
+// A small markdown subset: **bold**, *italic* / _italic_, `code`,
+// [links](https://...), "- " lists and line breaks. Anything else is shown
+// as typed; nothing is rendered as raw HTML.
+const INLINE = new RegExp(
+  [
+    MENTION_SOURCE,
+    '`([^`]+)`',
+    '\\*\\*([^*]+)\\*\\*',
+    '\\*([^*\\s][^*]*)\\*',
+    '(?<!\\w)_([^_]+)_(?!\\w)',
+    '\\[([^\\]]+)\\]\\((https?:\\/\\/[^\\s)]+)\\)'
+  ].join('|'),
+  'g'
+);
+
+const LIST_ITEM = /^\s*[-*]\s+/;
+
+function renderInline(text: string, currentUserId: string): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(INLINE)) {
+    const index = match.index ?? 0;
+    const [, mentionName, mentionId, code, bold, italic, underscored, linkText, href] = match;
+
+    if (index > last) nodes.push(text.slice(last, index));
+    last = index + match[0].length;
+
+    if (mentionName) {
+      nodes.push(
+        <span
+          key={index}
+          className={`font-medium rounded px-0.5 ${
+            mentionId === currentUserId
+              ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300'
+              : 'text-blue-600 dark:text-blue-400'
+          }`}
+        >
+          @{mentionName}
+        </span>
+      );
+    } else if (code) {
+      nodes.push(
+        <code key={index} className="px-1 rounded bg-gray-100 dark:bg-gray-700 text-xs font-mono">
+          {code}
+        </code>
+      );
+    } else if (bold) {
+      nodes.push(<strong key={index}>{bold}</strong>);
+    } else if (italic || underscored) {
+      nodes.push(<em key={index}>{italic || underscored}</em>);
+    } else if (linkText && href) {
+      nodes.push(
+        <a
+          key={index}
+          href={href}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-blue-600 dark:text-blue-400 underline"
+        >
+          {linkText}
+        </a>
+      );
+    }
+  }
+
+  if (last < text.length) nodes.push(text.slice(last));
+  return nodes;
+}
+
+export default function CommentBody({ body, currentUserId }: CommentBodyProps) {
+  // Blank lines separate blocks; consecutive "- " lines form one list
+  const blocks: { list: boolean; lines: string[] }[] = [];
+
+  body.split('\n').forEach(line => {
+    if (!line.trim()) {
+      blocks.push({ list: false, lines: [] });
+      return;
+    }
+
+    const list = LIST_ITEM.test(line);
+    const current = blocks[blocks.length - 1];
+    if (current && current.list === list && current.lines.length > 0) {
+      current.lines.push(list ? line.replace(LIST_ITEM, '') : line);
+    } else {
+      blocks.push({ list, lines: [list ? line.replace(LIST_ITEM, '') : line] });
+    }
+  });
+
+  return (
+    <div className="space-y-2 text-sm text-gray-700 dark:text-gray-300 break-words">
+      {blocks
+        .filter(block => block.lines.length > 0)
+        .map((block, blockIndex) => (
+          block.list ? (
+            <ul key={blockIndex} className="list-disc pl-5 space-y-0.5">
+              {block.lines.map((line, lineIndex) => (
+                <li key={lineIndex}>{renderInline(line, currentUserId)}</li>
+              ))}
+            </ul>
+          ) : (
+            <p key={blockIndex}>
+              {block.lines.map((line, lineIndex) => (
+                <span key={lineIndex}>
+                  {lineIndex > 0 && <br />}
+                  {renderInline(line, currentUserId)}
+                </span>
+              ))}
+            </p>
+          )
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import React, { useRef, useState } from 'react';
+import { activeMention, matchingTargets, mentionToken, type MentionTarget } from '../../lib/mentions';
+
+interface MentionInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  // People who can be mentioned on this task
+  targets: MentionTarget[];
+  // Ctrl/Cmd + Enter
+  onSubmit: () => void;
+  placeholder?: string;
+  autoFocus?: boolean;
+}
+
+export default function MentionInput({ value, onChange, targets, onSubmit, placeholder, autoFocus }: MentionInputProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [mention, setMention] = useState<{ start: number; end: number; query: string } | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const suggestions = mention ? matchingTargets(targets, mention.query) : [];
+
+  const updateMention = (text: string, caret: number) => {
+    const active = activeMention(text, caret);
+    setMention(active ? { ...active, end: caret } : null);
+    setHighlighted(0);
+  };
+
+  const pick = (target: MentionTarget) => {
+    if (!mention) return;
+
+    const token = `${mentionToken(target)} `;
+    const next = value.slice(0, mention.start) + token + value.slice(mention.end);
+    const caret = mention.start + token.length;
+
+    onChange(next);
+    setMention(null);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(caret, caret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setHighlighted((highlighted + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        pick(suggestions[highlighted]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setMention(null);
+        return;
+      }
+    }
+
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      onSubmit();
+    }
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        rows={3}
+        value={value}
+        autoFocus={autoFocus}
+        placeholder={placeholder}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateMention(e.target.value, e.target.selectionStart);
+        }}
+        onClick={(e) => updateMention(value, e.currentTarget.selectionStart)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setMention(null)}
+        className="input-field text-sm"
+      />
+
+      {suggestions.length > 0 && (
+        <div className="absolute left-0 bottom-full mb-1 w-64 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg z-10 py-1">
+          {suggestions.map((target, index) => (
+            <button
+              key={target.id}
+              type="button"
+              // Before the textarea's blur closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                pick(target);
+              }}
+              className={`w-full text-left px-3 py-1.5 text-sm ${
+                index === highlighted
+                  ? 'bg-blue-500 text-white'
+                  : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+              }`}
+            >
+              {target.nama}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
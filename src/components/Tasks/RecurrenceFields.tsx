@@ -0,0 +1,125 @@
+import { weekdayLabels, type RecurrenceForm } from '../../lib/recurrence';
+
+interface RecurrenceFieldsProps {
+  value: RecurrenceForm;
+  onChange: (value: RecurrenceForm) => void;
+  allowNone?: boolean;
+}
+
+const unitLabels = { daily: 'hari', weekly: 'minggu', monthly: 'bulan' };
+
+export default function RecurrenceFields({ value, onChange, allowNone = true }: RecurrenceFieldsProps) {
+  const toggleWeekday = (day: number) => {
+    onChange({
+      ...value,
+      weekdays: value.weekdays.includes(day)
+        ? value.weekdays.filter(d => d !== day)
+        : [...value.weekdays, day]
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Ulang
+        </label>
+        <select
+          value={value.frequency}
+          onChange={(e) => onChange({ ...value, frequency: e.target.value as RecurrenceForm['frequency'] })}
+          className="input-field"
+        >
+          {allowNone && <option value="none">Tidak berulang</option>}
+          <option value="daily">Harian</option>
+          <option value="weekly">Mingguan</option>
+          <option value="monthly">Bulanan</option>
+        </select>
+      </div>
+
+      {value.frequency !== 'none' && (
+        <div className="space-y-3 border border-gray-200 dark:border-gray-700 rounded-lg p-3">
+          <div className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+            <span>Setiap</span>
+            <input
+              type="number"
+              min="1"
+              value={value.interval}
+              onChange={(e) => onChange({ ...value, interval: parseInt(e.target.value) || 1 })}
+              className="input-field w-20"
+            />
+            <span>{unitLabels[value.frequency]}</span>
+          </div>
+
+          {value.frequency === 'weekly' && (
+            <div className="flex flex-wrap gap-1">
+              {weekdayLabels.map((label, day) => (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() => toggleWeekday(day)}
+                  className={`px-2 py-1 text-xs rounded-lg transition-colors ${
+                    value.weekdays.includes(day)
+                      ? 'bg-blue-500 text-white'
+                      : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {value.frequency === 'monthly' && (
+            <div className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+              <span>Pada hari</span>
+              <input
+                type="number"
+                min="1"
+                max="31"
+                value={value.month_day}
+                onChange={(e) => onChange({ ...value, month_day: e.target.value })}
+                placeholder="Ikut tarikh mula"
+                className="input-field w-36"
+              />
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Tamat
+            </label>
+            <div className="flex items-center space-x-2">
+              <select
+                value={value.end}
+                onChange={(e) => onChange({ ...value, end: e.target.value as RecurrenceForm['end'] })}
+                className="input-field"
+              >
+                <option value="never">Tiada tarikh tamat</option>
+                <option value="until">Pada tarikh</option>
+                <option value="count">Selepas beberapa kali</option>
+              </select>
+              {value.end === 'until' && (
+                <input
+                  type="date"
+                  required
+                  value={value.until_date}
+                  onChange={(e) => onChange({ ...value, until_date: e.target.value })}
+                  className="input-field"
+                />
+              )}
+              {value.end === 'count' && (
+                <input
+                  type="number"
+                  min="1"
+                  value={value.occurrence_count}
+                  onChange={(e) => onChange({ ...value, occurrence_count: parseInt(e.target.value) || 1 })}
+                  className="input-field w-24"
+                />
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { Calendar, BarChart3, Edit, GripVertical, ListChecks, Lock, MessageSquare, Paperclip, Repeat } from 'lucide-react';
+import type { ChecklistItem, TaskStatus, TaskWithProject } from '../../lib/repositories';
+
+interface TaskBoardProps {
+  tasks: TaskWithProject[];
+  canEdit: (task: TaskWithProject) => boolean;
+  blockers: Map<string, string[]>;
+  blockedTitle: (taskId: string) => string;
+  checklists: Map<string, ChecklistItem[]>;
+  onMove: (task: TaskWithProject, status: TaskStatus) => void;
+  onEdit: (task: TaskWithProject) => void;
+  onComments: (task: TaskWithProject) => void;
+  onAttachments: (task: TaskWithProject) => void;
+}
+
+const columns: { status: TaskStatus; label: string; accent: string }[] = [
+  { status: 'Not Started', label: 'Belum Mula', accent: 'border-gray-400' },
+  { status: 'Ongoing', label: 'Sedang Berjalan', accent: 'border-blue-500' },
+  { status: 'Completed', label: 'Selesai', accent: 'border-green-500' }
+];
+
+export default function TaskBoard({
+  tasks,
+  canEdit,
+  blockers,
+  blockedTitle,
+  checklists,
+  onMove,
+  onEdit,
+  onComments,
+  onAttachments
+}: TaskBoardProps) {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [overColumn, setOverColumn] = useState<TaskStatus | null>(null);
+
+  const handleDragStart = (e: React.DragEvent, task: TaskWithProject) => {
+    e.dataTransfer.setData('text/plain', task.id);
+    e.dataTransfer.effectAllowed = 'move';
+    setDraggingId(task.id);
+  };
+
+  const handleDragEnd = () => {
+    setDraggingId(null);
+    setOverColumn(null);
+  };
+
+  const handleDrop = (e: React.DragEvent, status: TaskStatus) => {
+    e.preventDefault();
+    const taskId = e.dataTransfer.getData('text/plain');
+    const task = tasks.find(t => t.id === taskId);
+
+    if (task && task.status !== status && canEdit(task)) {
+      onMove(task, status);
+    }
+    handleDragEnd();
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      {columns.map((column) => {
+        const columnTasks = tasks.filter(task => task.status === column.status);
+
+        return (
+          <div
+            key={column.status}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setOverColumn(column.status);
+            }}
+            onDragLeave={() => setOverColumn(null)}
+            onDrop={(e) => handleDrop(e, column.status)}
+            className={`rounded-xl border-t-4 ${column.accent} bg-gray-100 dark:bg-gray-800/60 p-4 min-h-[16rem] transition-colors ${
+              overColumn === column.status ? 'ring-2 ring-blue-400 bg-blue-50 dark:bg-blue-900/20' : ''
+            }`}
+          >
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="font-semibold text-gray-900 dark:text-white">
+                {column.label}
+              </h3>
+              <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-white dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                {columnTasks.length}
+              </span>
+            </div>
+
+            <div className="space-y-3">
+              {columnTasks.map((task) => {
+                const editable = canEdit(task);
+                const checklist = checklists.get(task.id) || [];
+
+                return (
+                  <div
+                    key={task.id}
+                    draggable={editable}
+                    onDragStart={(e) => handleDragStart(e, task)}
+                    onDragEnd={handleDragEnd}
+                    className={`bg-white dark:bg-gray-800 rounded-lg p-3 shadow-sm border border-gray-200 dark:border-gray-700 ${
+                      editable ? 'cursor-grab active:cursor-grabbing' : 'opacity-75'
+                    } ${draggingId === task.id ? 'opacity-50' : ''}`}
+                  >
+                    <div className="flex items-start justify-between">
+                      <div className="flex items-start space-x-2 flex-1">
+                        {editable && <GripVertical className="h-4 w-4 text-gray-400 mt-0.5 flex-shrink-0" />}
+                        <p className="text-sm font-medium text-gray-900 dark:text-white">
+                          {task.title}
+                        </p>
+                        {task.series_id && (
+                          <span title="Tugasan berulang">
+                            <Repeat className="h-3.5 w-3.5 text-gray-400 mt-0.5 flex-shrink-0" />
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex items-center">
+                        <button
+                          onClick={() => onComments(task)}
+                          className="p-1 text-gray-400 hover:text-blue-500 transition-colors"
+                          title="Komen"
+                        >
+                          <MessageSquare className="h-3.5 w-3.5" />
+                        </button>
+                        <button
+                          onClick={() => onAttachments(task)}
+                          className="p-1 text-gray-400 hover:text-blue-500 transition-colors"
+                          title="Lampiran"
+                        >
+                          <Paperclip className="h-3.5 w-3.5" />
+                        </button>
+                        {editable && (
+                          <button
+                            onClick={() => onEdit(task)}
+                            className="p-1 text-gray-400 hover:text-blue-500 transition-colors"
+                            title="Edit"
+                          >
+                            <Edit className="h-3.5 w-3.5" />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+
+                    <div className="mt-2 w-full bg-gray-200 dark:bg-gray-700 rounded-full h-1.5">
+                      <div
+                        className="h-1.5 rounded-full bg-blue-500 transition-all duration-300"
+                        style={{ width: `${task.progress}%` }}
+                      ></div>
+                    </div>
+
+                    <div className="mt-2 space-y-1 text-xs text-gray-600 dark:text-gray-400">
+                      {blockers.has(task.id) && (
+                        <div className="flex items-center text-red-600 dark:text-red-400" title={blockedTitle(task.id)}>
+                          <Lock className="h-3 w-3 mr-1" />
+                          Tersekat
+                        </div>
+                      )}
+                      {checklist.length > 0 && (
+                        <div className="flex items-center">
+                          <ListChecks className="h-3 w-3 mr-1" />
+                          {checklist.filter(item => item.is_done).length}/{checklist.length}
+                        </div>
+                      )}
+                      {task.projects && (
+                        <div className="flex items-center">
+                          <BarChart3 className="h-3 w-3 mr-1" />
+                          {task.projects.name}
+                        </div>
+                      )}
+                      {task.due_date && (
+                        <div className="flex items-center">
+                          <Calendar className="h-3 w-3 mr-1" />
+                          {new Date(task.due_date).toLocaleDateString('ms-MY')}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+
+              {columnTasks.length === 0 && (
+                <p className="text-xs text-center text-gray-500 dark:text-gray-400 py-6">
+                  Seret tugasan ke sini
+                </p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { ListChecks, Plus, X } from 'lucide-react';
+import type { ChecklistItem } from '../../lib/repositories';
+
+interface TaskChecklistProps {
+  items: ChecklistItem[];
+  editable: boolean;
+  onToggle: (item: ChecklistItem) => void;
+  onAdd: (title: string) => void;
+  onRemove: (item: ChecklistItem) => void;
+}
+
+export default function TaskChecklist({ items, editable, onToggle, onAdd, onRemove }: TaskChecklistProps) {
+  const [newTitle, setNewTitle] = useState('');
+  const doneCount = items.filter(item => item.is_done).length;
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const title = newTitle.trim();
+    if (!title) return;
+
+    onAdd(title);
+    setNewTitle('');
+  };
+
+  if (items.length === 0 && !editable) return null;
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        <ListChecks className="h-4 w-4 mr-2" />
+        Senarai Semak
+        {items.length > 0 && (
+          <span className="ml-auto text-xs text-gray-500 dark:text-gray-400">
+            {doneCount}/{items.length}
+          </span>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        {items.map((item) => (
+          <div key={item.id} className="group flex items-center space-x-2 text-sm">
+            <input
+              type="checkbox"
+              checked={item.is_done}
+              disabled={!editable}
+              onChange={() => onToggle(item)}
+              className="rounded border-gray-300 text-blue-500"
+            />
+            <span className={`flex-1 ${
+              item.is_done ? 'line-through text-gray-400 dark:text-gray-500' : 'text-gray-700 dark:text-gray-300'
+            }`}>
+              {item.title}
+            </span>
+            {editable && (
+              <button
+                onClick={() => onRemove(item)}
+                className="p-0.5 text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Padam item"
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {editable && (
+        <form onSubmit={handleAdd} className="flex items-center space-x-2 mt-2">
+          <input
+            type="text"
+            value={newTitle}
+            onChange={(e) => setNewTitle(e.target.value)}
+            placeholder="Tambah item..."
+            className="input-field py-1 text-sm"
+          />
+          <button
+            type="submit"
+            className="p-1.5 text-gray-400 hover:text-blue-500 transition-colors"
+            title="Tambah item"
+          >
+            <Plus className="h-4 w-4" />
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
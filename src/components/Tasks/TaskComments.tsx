@@ -0,0 +1,235 @@
+import { useEffect, useState } from 'react';
+import { Edit, MessageSquare, Send, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useRealTimeSync } from '../../hooks/useRealTimeSync';
+import {
+  taskCommentsRepo,
+  type TaskComment,
+  type TaskParticipant,
+  type TaskWithProject
+} from '../../lib/repositories';
+import CommentBody from './CommentBody';
+import MentionInput from './MentionInput';
+
+interface TaskCommentsProps {
+  task: TaskWithProject;
+  currentUserId: string;
+  onClose: () => void;
+}
+
+export default function TaskComments({ task, currentUserId, onClose }: TaskCommentsProps) {
+  const [comments, setComments] = useState<TaskComment[]>([]);
+  const [participants, setParticipants] = useState<TaskParticipant[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const fetchComments = async () => {
+    try {
+      // Participants include past commenters, so refresh them alongside
+      const [commentsRes, participantsRes] = await Promise.all([
+        taskCommentsRepo.list(task.id),
+        taskCommentsRepo.participants(task.id)
+      ]);
+
+      const failed = [commentsRes, participantsRes].find(res => res.error);
+      if (failed?.error) throw failed.error;
+
+      setComments(commentsRes.data || []);
+      setParticipants(participantsRes.data || []);
+    } catch (error) {
+      console.error('Error fetching task comments:', error);
+      toast.error('Ralat semasa mengambil komen');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchComments();
+  }, [task.id]);
+
+  useRealTimeSync({
+    table: 'task_comments',
+    filter: `task_id=eq.${task.id}`,
+    onUpdate: fetchComments
+  });
+
+  const nameOf = (userId: string) =>
+    participants.find(person => person.id === userId)?.nama || 'Pengguna';
+
+  const mentionTargets = participants.filter(person => person.can_mention && person.id !== currentUserId);
+
+  const handleSubmit = async () => {
+    const body = draft.trim();
+    if (!body || saving) return;
+
+    setSaving(true);
+    try {
+      const { error } = await taskCommentsRepo.create(currentUserId, task.id, body);
+
+      if (error) throw error;
+      setDraft('');
+      fetchComments();
+    } catch (error) {
+      console.error('Error adding comment:', error);
+      toast.error('Ralat semasa menambah komen');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUpdate = async (comment: TaskComment) => {
+    const body = editDraft.trim();
+    if (!body || saving) return;
+
+    setSaving(true);
+    try {
+      const { error } = await taskCommentsRepo.update(comment.id, body);
+
+      if (error) throw error;
+      setEditingId(null);
+      fetchComments();
+    } catch (error) {
+      console.error('Error updating comment:', error);
+      toast.error('Ralat semasa mengemas kini komen');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (comment: TaskComment) => {
+    if (!confirm('Adakah anda pasti ingin memadam komen ini?')) return;
+
+    try {
+      const { error } = await taskCommentsRepo.remove(comment.id);
+
+      if (error) throw error;
+      setComments(prev => prev.filter(c => c.id !== comment.id));
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      toast.error('Ralat semasa memadam komen');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-xl p-6 w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-1 flex items-center">
+          <MessageSquare className="h-5 w-5 mr-2 text-blue-500" />
+          Komen
+        </h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          {task.title}
+        </p>
+
+        <div className="flex-1 overflow-y-auto space-y-4 pr-1">
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+            </div>
+          ) : comments.length > 0 ? (
+            comments.map((comment) => {
+              const own = comment.user_id === currentUserId;
+
+              return (
+                <div key={comment.id} className="group border-b border-gray-100 dark:border-gray-700 pb-3">
+                  <div className="flex items-center justify-between mb-1">
+                    <p className="text-sm">
+                      <span className="font-semibold text-gray-900 dark:text-white">
+                        {nameOf(comment.user_id)}
+                      </span>
+                      <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                        {new Date(comment.created_at).toLocaleString('ms-MY')}
+                        {comment.edited_at && ' (disunting)'}
+                      </span>
+                    </p>
+                    {own && editingId !== comment.id && (
+                      <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                        <button
+                          onClick={() => {
+                            setEditingId(comment.id);
+                            setEditDraft(comment.body);
+                          }}
+                          className="p-1 text-gray-400 hover:text-blue-500 transition-colors"
+                          title="Edit"
+                        >
+                          <Edit className="h-3.5 w-3.5" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(comment)}
+                          className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+                          title="Padam"
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </button>
+                      </div>
+                    )}
+                  </div>
+
+                  {editingId === comment.id ? (
+                    <div className="space-y-2">
+                      <MentionInput
+                        value={editDraft}
+                        onChange={setEditDraft}
+                        targets={mentionTargets}
+                        onSubmit={() => handleUpdate(comment)}
+                        autoFocus
+                      />
+                      <div className="flex justify-end space-x-2">
+                        <button onClick={() => setEditingId(null)} className="btn-secondary text-sm">
+                          Batal
+                        </button>
+                        <button
+                          onClick={() => handleUpdate(comment)}
+                          disabled={saving || !editDraft.trim()}
+                          className="btn-primary text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Simpan
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <CommentBody body={comment.body} currentUserId={currentUserId} />
+                  )}
+                </div>
+              );
+            })
+          ) : (
+            <p className="text-sm text-center text-gray-500 dark:text-gray-400 py-8">
+              Belum ada komen. Mulakan perbincangan di bawah.
+            </p>
+          )}
+        </div>
+
+        <div className="mt-4 space-y-2">
+          <MentionInput
+            value={draft}
+            onChange={setDraft}
+            targets={mentionTargets}
+            onSubmit={handleSubmit}
+            placeholder="Tulis komen... Taip @ untuk menyebut seseorang"
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Sokong **tebal**, *condong*, `kod`, [pautan](https://...) dan senarai "- ". Ctrl + Enter untuk hantar.
+          </p>
+          <div className="flex space-x-3">
+            <button onClick={onClose} className="btn-secondary flex-1">
+              Tutup
+            </button>
+            <button
+              onClick={handleSubmit}
+              disabled={saving || !draft.trim()}
+              className="btn-primary flex-1 flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Send className="h-4 w-4 mr-2" />
+              Hantar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
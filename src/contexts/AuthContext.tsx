@@ -1,16 +1,9 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
-import { User, Session, AuthError } from '@supabase/supabase-js';
+import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
+import { activityLogRepo, userProfilesRepo, type UserProfile } from '../lib/repositories';
 import toast from 'react-hot-toast';
 
-interface UserProfile {
-  id: string;
-  nama: string;
-  role: 'admin' | 'user';
-  created_at: string;
-  updated_at: string;
-}
-
 interface AuthContextType {
   user: User | null;
   profile: UserProfile | null;
@@ -102,11 +95,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     try {
       console.log('Fetching profile for user:', userId);
       
-      const { data, error } = await supabase
-        .from('user_profiles')
-        .select('*')
-        .eq('id', userId)
-        .maybeSingle();
+      const { data, error } = await userProfilesRepo.get(userId);
 
       if (error) {
         console.error('Error fetching profile:', error);
@@ -118,15 +107,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         // Profile doesn't exist, create it
         console.log('Profile not found, creating new profile...');
         
-        const { data: newProfile, error: createError } = await supabase
-          .from('user_profiles')
-          .insert([{ 
-            id: userId, 
-            nama: user?.email?.split('@')[0] || 'Pengguna Baru',
-            role: 'user'
-          }])
-          .select()
-          .single();
+        const { data: newProfile, error: createError } = await userProfilesRepo.create(
+          userId,
+          user?.email?.split('@')[0] || 'Pengguna Baru'
+        );
 
         if (createError) {
           console.error('Error creating profile:', createError);
@@ -147,12 +131,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   const logActivity = async (aksi: string) => {
     if (!user) return;
-    
-    try {
-      await supabase
-        .from('activity_log')
-        .insert([{ user_id: user.id, action: aksi }]);
-    } catch (error) {
+
+    const { error } = await activityLogRepo.record(user.id, aksi);
+    if (error) {
       console.error('Error logging activity:', error);
     }
   };
@@ -246,10 +227,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     if (!user) return;
 
     try {
-      const { error } = await supabase
-        .from('user_profiles')
-        .update({ ...updates, updated_at: new Date().toISOString() })
-        .eq('id', user.id);
+      const { error } = await userProfilesRepo.update(user.id, updates);
 
       if (error) {
         throw error;
@@ -0,0 +1,12 @@
+import { useMemo } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { scopeFor, type DataScope } from '../lib/repositories';
+
+// Scope for repository queries; null until the user is signed in.
+export function useDataScope(): DataScope | null {
+  const { user, profile } = useAuth();
+  const userId = user?.id;
+  const role = profile?.role;
+
+  return useMemo(() => (userId ? scopeFor(userId, role) : null), [userId, role]);
+}
@@ -0,0 +1,31 @@
+import { useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+/**
+ * Opens a page's edit modal for links like `/tugasan?edit=<id>` (used by the
+ * calendar). Waits until the item has loaded, then drops the parameter so a
+ * refresh does not reopen the modal. `param` picks another query parameter,
+ * e.g. `comments` for notification links to a task's thread.
+ */
+export function useEditParam<T extends { id: string }>(items: T[], onEdit: (item: T) => void, param = 'edit') {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const editId = searchParams.get(param);
+  const onEditRef = useRef(onEdit);
+
+  useEffect(() => {
+    onEditRef.current = onEdit;
+  }, [onEdit]);
+
+  useEffect(() => {
+    if (!editId) return;
+
+    const item = items.find(i => i.id === editId);
+    if (!item) return;
+
+    onEditRef.current(item);
+    setSearchParams(params => {
+      params.delete(param);
+      return params;
+    }, { replace: true });
+  }, [editId, items, param, setSearchParams]);
+}
@@ -1,32 +1,39 @@
-import { useEffect } from 'react';
+import { useEffect, useRef } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 
 interface UseRealTimeSyncProps {
   table: string;
   onUpdate: () => void;
+  // Omit to receive every change RLS lets the user see (e.g. admins).
   filter?: string;
 }
 
 export function useRealTimeSync({ table, onUpdate, filter }: UseRealTimeSyncProps) {
   const { user } = useAuth();
+  const onUpdateRef = useRef(onUpdate);
+
+  // Pages pass a fresh callback each render; keep the subscription stable.
+  useEffect(() => {
+    onUpdateRef.current = onUpdate;
+  }, [onUpdate]);
 
   useEffect(() => {
     if (!user) return;
 
     const channel = supabase
-      .channel(`realtime-${table}`)
+      .channel(`realtime-${table}${filter ? `-${filter}` : ''}`)
       .on(
         'postgres_changes',
         {
           event: '*',
           schema: 'public',
           table: table,
-          filter: filter || `user_id=eq.${user.id}`
+          ...(filter ? { filter } : {})
         },
         (payload) => {
           console.log(`Real-time update for ${table}:`, payload);
-          onUpdate();
+          onUpdateRef.current();
         }
       )
       .subscribe();
@@ -34,5 +41,5 @@ export function useRealTimeSync({ table, onUpdate, filter }: UseRealTimeSyncProp
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [user, table, onUpdate, filter]);
-}
\ No newline at end of file
+  }, [user, table, filter]);
+}
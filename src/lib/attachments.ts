@@ -0,0 +1,82 @@
+import { supabase } from './supabase';
+import { attachmentsRepo, type Attachment, type AttachmentParent } from './repositories';
+
+// Attachments share the templates bucket and its limits (lucky_bird migration)
+const BUCKET = 'templates';
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const ATTACHMENT_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp', 'application/pdf'];
+
+export type PreviewKind = 'image' | 'pdf';
+
+export const previewKind = (attachment: Pick<Attachment, 'mime_type'>): PreviewKind =>
+  attachment.mime_type === 'application/pdf' ? 'pdf' : 'image';
+
+export function publicUrl(attachment: Pick<Attachment, 'storage_path'>): string {
+  return supabase.storage.from(BUCKET).getPublicUrl(attachment.storage_path).data.publicUrl;
+}
+
+export function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/** Null when the file can be attached, otherwise the reason it cannot. */
+export function validateFile(file: File): string | null {
+  if (!ATTACHMENT_TYPES.includes(file.type)) {
+    return `"${file.name}": jenis fail tidak disokong. Hanya imej dan PDF`;
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `"${file.name}": saiz fail terlalu besar. Maksimum 10MB`;
+  }
+  return null;
+}
+
+/**
+ * Uploads into the user's own folder (`<user id>/...`), which the bucket's
+ * update and delete policies key on, then records the attachment. The file
+ * is removed again if the row cannot be saved.
+ */
+export async function uploadAttachment(userId: string, parent: AttachmentParent, file: File): Promise<Attachment | null> {
+  const fileExt = file.name.split('.').pop();
+  const fileName = `${Date.now()}-${Math.random().toString(36).substring(2)}.${fileExt}`;
+  const storagePath = `${userId}/attachments/${parent.kind}/${parent.id}/${fileName}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(BUCKET)
+    .upload(storagePath, file, {
+      cacheControl: '3600',
+      upsert: false
+    });
+
+  if (uploadError) {
+    console.error('Upload error:', uploadError);
+    throw new Error('Ralat memuat naik fail: ' + uploadError.message);
+  }
+
+  const { data, error } = await attachmentsRepo.create(userId, parent, {
+    file_name: file.name,
+    storage_path: storagePath,
+    mime_type: file.type,
+    size_bytes: file.size
+  });
+
+  if (error) {
+    await supabase.storage.from(BUCKET).remove([storagePath]);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Removes the files of deleted attachments, including ones deleted along
+ * with their task or project. The queue is only reachable with the service
+ * role, so the attachment-cleanup edge function does the work. Called after
+ * deletes; anything left over is picked up by the next call.
+ */
+export async function purgeDeletedFiles(): Promise<void> {
+  const { error } = await supabase.functions.invoke('attachment-cleanup');
+  if (error) {
+    throw new Error('Ralat memadam fail lampiran: ' + error.message);
+  }
+}
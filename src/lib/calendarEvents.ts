@@ -0,0 +1,177 @@
+import { occurrences } from './recurrence';
+import type {
+  CalendarNote,
+  ContentLog,
+  LiveManualLog,
+  Project,
+  TaskSeries,
+  TaskWithProject
+} from './repositories';
+
+export type CalendarLayer = 'notes' | 'tasks' | 'projects' | 'live' | 'content';
+
+export interface CalendarEvent {
+  key: string;
+  layer: CalendarLayer;
+  date: string;
+  title: string;
+  // `HH:mm`; only notes can be timed, everything else is all-day
+  startTime: string | null;
+  endTime: string | null;
+  // Row to open when the event is clicked; null for recurring occurrences
+  // that have not been generated as tasks yet
+  sourceId: string | null;
+}
+
+export const calendarLayers: {
+  layer: CalendarLayer;
+  label: string;
+  dot: string;
+  chip: string;
+}[] = [
+  {
+    layer: 'notes',
+    label: 'Nota',
+    dot: 'bg-green-500',
+    chip: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300'
+  },
+  {
+    layer: 'tasks',
+    label: 'Tugasan',
+    dot: 'bg-blue-500',
+    chip: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300'
+  },
+  {
+    layer: 'projects',
+    label: 'Projek',
+    dot: 'bg-orange-500',
+    chip: 'bg-orange-100 text-orange-800 dark:bg-orange-900/40 dark:text-orange-300'
+  },
+  {
+    layer: 'live',
+    label: 'Sesi Live',
+    dot: 'bg-red-500',
+    chip: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300'
+  },
+  {
+    layer: 'content',
+    label: 'Content',
+    dot: 'bg-yellow-500',
+    chip: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300'
+  }
+];
+
+export function layerChip(layer: CalendarLayer): string {
+  return calendarLayers.find(item => item.layer === layer)?.chip || '';
+}
+
+interface CalendarSources {
+  notes: CalendarNote[];
+  tasks: TaskWithProject[];
+  series: TaskSeries[];
+  projects: Project[];
+  liveLogs: LiveManualLog[];
+  contentLogs: ContentLog[];
+}
+
+const allDay = { startTime: null, endTime: null };
+
+const inRange = (date: string | null, from: string, to: string): date is string =>
+  !!date && date >= from && date <= to;
+
+/** Flattens every source into dated events between `from` and `to` inclusive. */
+export function buildEvents(sources: CalendarSources, from: string, to: string): CalendarEvent[] {
+  const events: CalendarEvent[] = [];
+
+  sources.notes.forEach(note => {
+    if (inRange(note.note_date, from, to)) {
+      events.push({
+        key: `note-${note.id}`,
+        layer: 'notes',
+        date: note.note_date,
+        title: note.note,
+        startTime: note.start_time?.slice(0, 5) || null,
+        endTime: note.end_time?.slice(0, 5) || null,
+        sourceId: note.id
+      });
+    }
+  });
+
+  sources.tasks.forEach(task => {
+    if (inRange(task.due_date, from, to)) {
+      events.push({ key: `task-${task.id}`, layer: 'tasks', date: task.due_date, title: task.title, ...allDay, sourceId: task.id });
+    }
+  });
+
+  // Recurring occurrences beyond the generation window are not tasks yet
+  const generated = new Set(sources.tasks.map(task => `${task.series_id}-${task.occurrence_date}`));
+  sources.series.forEach(item => {
+    occurrences(item, to)
+      .filter(date => date >= from && !generated.has(`${item.id}-${date}`))
+      .forEach(date => {
+        events.push({ key: `series-${item.id}-${date}`, layer: 'tasks', date, title: item.title, ...allDay, sourceId: null });
+      });
+  });
+
+  sources.projects.forEach(project => {
+    if (inRange(project.start_date, from, to)) {
+      events.push({
+        key: `project-start-${project.id}`,
+        layer: 'projects',
+        date: project.start_date,
+        title: `Mula: ${project.name}`,
+        ...allDay,
+        sourceId: project.id
+      });
+    }
+    if (inRange(project.end_date, from, to)) {
+      events.push({
+        key: `project-end-${project.id}`,
+        layer: 'projects',
+        date: project.end_date,
+        title: `Tamat: ${project.name}`,
+        ...allDay,
+        sourceId: project.id
+      });
+    }
+  });
+
+  sources.liveLogs.forEach(log => {
+    if (inRange(log.live_date, from, to)) {
+      events.push({
+        key: `live-${log.id}`,
+        layer: 'live',
+        date: log.live_date,
+        title: `${log.host_name} · ${log.total_hours} jam`,
+        ...allDay,
+        sourceId: log.id
+      });
+    }
+  });
+
+  sources.contentLogs.forEach(log => {
+    if (inRange(log.log_date, from, to)) {
+      events.push({
+        key: `content-${log.id}`,
+        layer: 'content',
+        date: log.log_date,
+        title: `${log.content_count} content`,
+        ...allDay,
+        sourceId: log.id
+      });
+    }
+  });
+
+  // All-day events first, then timed ones by start time
+  return events.sort((a, b) => (a.startTime || '').localeCompare(b.startTime || ''));
+}
+
+export function groupByDate(events: CalendarEvent[]): Map<string, CalendarEvent[]> {
+  const grouped = new Map<string, CalendarEvent[]>();
+
+  events.forEach(event => {
+    grouped.set(event.date, [...(grouped.get(event.date) || []), event]);
+  });
+
+  return grouped;
+}
@@ -0,0 +1,55 @@
+import type { ContentEntry, ContentEntryInput } from './repositories';
+
+export const UNSPECIFIED_LABEL = 'Tidak dinyatakan';
+
+export type BreakdownKey = 'platform' | 'content_type';
+
+// Manual entries and posted pipeline items both reduce to this shape
+export type BreakdownRow = Pick<ContentEntry, 'log_date' | 'platform' | 'content_type' | 'count'>;
+
+export const bucketLabel = (value: string | null) => value || UNSPECIFIED_LABEL;
+
+// Used for stacked chart series in order; wraps for long lists
+export const seriesColors = ['#f97316', '#3b82f6', '#10b981', '#8b5cf6', '#ef4444', '#eab308', '#06b6d4', '#ec4899'];
+
+/** Drops empty rows and adds up rows for the same platform and type. */
+export function mergeEntries(entries: ContentEntryInput[]): ContentEntryInput[] {
+  const merged = new Map<string, ContentEntryInput>();
+
+  entries
+    .filter(entry => entry.count > 0)
+    .forEach(entry => {
+      const key = `${entry.platform || ''}|${entry.content_type || ''}`;
+      const existing = merged.get(key);
+      merged.set(key, existing ? { ...existing, count: existing.count + entry.count } : { ...entry });
+    });
+
+  return [...merged.values()];
+}
+
+/** Series names for the chart, largest overall first, unspecified last. */
+export function seriesFor(entries: BreakdownRow[], key: BreakdownKey): string[] {
+  const totals = new Map<string, number>();
+  entries.forEach(entry => {
+    const label = bucketLabel(entry[key]);
+    totals.set(label, (totals.get(label) || 0) + entry.count);
+  });
+
+  return [...totals.entries()]
+    .sort(([a, x], [b, y]) => (a === UNSPECIFIED_LABEL ? 1 : b === UNSPECIFIED_LABEL ? -1 : y - x))
+    .map(([label]) => label);
+}
+
+/** One row per date with a count per series, for a stacked bar chart. */
+export function stackByDate(entries: BreakdownRow[], key: BreakdownKey, dates: string[]): Record<string, string | number>[] {
+  return dates.map(date => {
+    const row: Record<string, string | number> = { date };
+    entries
+      .filter(entry => entry.log_date === date)
+      .forEach(entry => {
+        const label = bucketLabel(entry[key]);
+        row[label] = ((row[label] as number) || 0) + entry.count;
+      });
+    return row;
+  });
+}
@@ -0,0 +1,28 @@
+import type { ContentItem, ContentStage } from './repositories';
+import type { BreakdownRow } from './contentBreakdown';
+
+export const pipelineStages: { stage: ContentStage; label: string; accent: string }[] = [
+  { stage: 'idea', label: 'Idea', accent: 'border-gray-400' },
+  { stage: 'draft', label: 'Draf', accent: 'border-yellow-500' },
+  { stage: 'design', label: 'Reka Bentuk', accent: 'border-purple-500' },
+  { stage: 'scheduled', label: 'Dijadualkan', accent: 'border-blue-500' },
+  { stage: 'posted', label: 'Disiarkan', accent: 'border-green-500' }
+];
+
+export const stageLabel = (stage: ContentStage) =>
+  pipelineStages.find(column => column.stage === stage)?.label || stage;
+
+/** Whose daily content total a posted item counts towards. */
+export const ownerOf = (item: ContentItem) => item.assigned_to || item.user_id;
+
+/** The user's posted items as breakdown rows of one content each. */
+export function postedAsEntries(items: ContentItem[], userId: string): BreakdownRow[] {
+  return items
+    .filter(item => item.stage === 'posted' && item.posted_date && ownerOf(item) === userId)
+    .map(item => ({
+      log_date: item.posted_date as string,
+      platform: item.platform,
+      content_type: item.content_type,
+      count: 1
+    }));
+}
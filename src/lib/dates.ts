@@ -0,0 +1,20 @@
+import { endOfMonth, endOfWeek, format, startOfMonth, startOfWeek } from 'date-fns';
+
+/**
+ * `YYYY-MM-DD` in local time, matching Postgres `date` columns. Unlike
+ * `toISOString().split('T')[0]` this does not shift dates east of UTC back a
+ * day.
+ */
+export function toDateKey(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/** First and last day of the month containing `date`, as date keys. */
+export function monthRange(date: Date): { from: string; to: string } {
+  return { from: toDateKey(startOfMonth(date)), to: toDateKey(endOfMonth(date)) };
+}
+
+/** Sunday to Saturday around `date`, matching the calendar's week layout. */
+export function weekRange(date: Date): { from: string; to: string } {
+  return { from: toDateKey(startOfWeek(date)), to: toDateKey(endOfWeek(date)) };
+}
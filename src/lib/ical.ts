@@ -0,0 +1,264 @@
+import { addDays, addMinutes, format, parseISO } from 'date-fns';
+import { toDateKey } from './dates';
+import { fromRRule, occurrences } from './recurrence';
+
+// The serialiser lives with the edge functions so the subscription feed and
+// the in-app export share one implementation.
+export { feedEvents, toICalendar, type ICalEvent, type ICalSources } from '../../supabase/functions/_shared/ical.ts';
+
+/** One event (or one occurrence of a recurring event) read from an .ics file. */
+export interface ImportedEvent {
+  // Occurrences of a recurring event get `<UID>#<date>`
+  uid: string;
+  title: string;
+  date: string;
+  // `HH:mm` in the user's local time; both null for all-day events
+  startTime: string | null;
+  endTime: string | null;
+  recurring: boolean;
+}
+
+export interface ICalImport {
+  events: ImportedEvent[];
+  warnings: string[];
+}
+
+// Unbounded recurring events are expanded this far past their start.
+const IMPORT_HORIZON_DAYS = 365;
+const DEFAULT_DURATION_MINUTES = 60;
+
+interface Property {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface ParsedDate {
+  date: Date;
+  allDay: boolean;
+}
+
+function parseProperty(line: string): Property | null {
+  // The value starts at the first colon outside a quoted parameter
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  paramParts.forEach(part => {
+    const [key, ...rest] = part.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([nN,;\\])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+
+// Milliseconds `timeZone` is ahead of UTC at the given instant
+function zoneOffset(utc: number, timeZone: string): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    })
+      .formatToParts(new Date(utc))
+      .map(part => [part.type, part.value])
+  );
+
+  return Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second) - utc;
+}
+
+/**
+ * Reads DATE and DATE-TIME values into local time. UTC (`Z`) and TZID times
+ * are converted; TZIDs the browser does not know are read as floating times.
+ */
+function parseDate(property: Property, warnings: Set<string>): ParsedDate | null {
+  const value = property.value.trim().split(',')[0];
+
+  const dateOnly = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (dateOnly) {
+    return { date: new Date(+dateOnly[1], +dateOnly[2] - 1, +dateOnly[3]), allDay: true };
+  }
+
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/);
+  if (!match) return null;
+
+  const [year, month, day, hour, minute, second] = match.slice(1, 7).map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+
+  if (match[7] === 'Z') {
+    return { date: new Date(wallClock), allDay: false };
+  }
+
+  const timeZone = property.params.TZID?.replace(/^\//, '');
+  if (timeZone) {
+    try {
+      // Second pass picks up a DST change between the guess and the result
+      const guess = wallClock - zoneOffset(wallClock, timeZone);
+      return { date: new Date(wallClock - zoneOffset(guess, timeZone)), allDay: false };
+    } catch {
+      warnings.add(`Zon waktu "${timeZone}" tidak dikenali; masa dibaca seperti tertera`);
+    }
+  }
+
+  return { date: new Date(year, month - 1, day, hour, minute, second), allDay: false };
+}
+
+// DURATION values such as `PT1H30M`, `P1D` or `P1W`
+function parseDuration(value: string): number | null {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes] = match;
+  const total = (+(weeks || 0) * 7 + +(days || 0)) * 24 * 60 + +(hours || 0) * 60 + +(minutes || 0);
+  return sign === '-' ? -total : total;
+}
+
+/**
+ * Times for a note on the start date. Events running past midnight end at
+ * 23:59; an event with no usable time range becomes all-day.
+ */
+function timesFor(start: Date, end: Date): { startTime: string | null; endTime: string | null } {
+  const startTime = format(start, 'HH:mm');
+  const endTime = toDateKey(end) === toDateKey(start) ? format(end, 'HH:mm') : '23:59';
+
+  return endTime > startTime ? { startTime, endTime } : { startTime: null, endTime: null };
+}
+
+function readEvents(lines: string[]): Property[][] {
+  const events: Property[][] = [];
+  let current: Property[] | null = null;
+  let depth = 0;
+
+  lines.forEach(line => {
+    const property = parseProperty(line);
+    if (!property) return;
+
+    if (property.name === 'BEGIN') {
+      if (property.value.toUpperCase() === 'VEVENT' && depth === 0) {
+        current = [];
+      } else if (current) {
+        // Nested components such as VALARM
+        depth++;
+      }
+    } else if (property.name === 'END') {
+      if (depth > 0) {
+        depth--;
+      } else if (property.value.toUpperCase() === 'VEVENT' && current) {
+        events.push(current);
+        current = null;
+      }
+    } else if (current && depth === 0) {
+      current.push(property);
+    }
+  });
+
+  return events;
+}
+
+/**
+ * Parses an .ics file into events ready for import. Recurring events with a
+ * simple RRULE are expanded into their occurrences; moved occurrences
+ * (RECURRENCE-ID) replace the ones they override and cancelled events are
+ * dropped.
+ */
+export function parseICalendar(text: string): ICalImport {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const warnings = new Set<string>();
+  const events: ImportedEvent[] = [];
+
+  const vevents = readEvents(lines).map(properties => {
+    const get = (name: string) => properties.find(property => property.name === name);
+    return { properties, get };
+  });
+
+  // Occurrence dates that have their own RECURRENCE-ID event, per UID
+  const overridden = new Map<string, Set<string>>();
+  vevents.forEach(({ get }) => {
+    const uid = get('UID')?.value;
+    const recurrenceId = get('RECURRENCE-ID');
+    const parsed = recurrenceId && parseDate(recurrenceId, warnings);
+    if (uid && parsed) {
+      overridden.set(uid, new Set([...(overridden.get(uid) || []), toDateKey(parsed.date)]));
+    }
+  });
+
+  vevents.forEach(({ properties, get }) => {
+    const title = unescapeText(get('SUMMARY')?.value || '').trim() || '(Tanpa tajuk)';
+    const dtstart = get('DTSTART');
+    const start = dtstart && parseDate(dtstart, warnings);
+
+    if (get('STATUS')?.value.toUpperCase() === 'CANCELLED') return;
+    if (!start) {
+      warnings.add(`"${title}" tiada tarikh mula yang sah dan dilangkau`);
+      return;
+    }
+
+    const dtend = get('DTEND');
+    const duration = get('DURATION') && parseDuration(get('DURATION')!.value);
+    const end = (dtend && parseDate(dtend, warnings)?.date)
+      || addMinutes(start.date, duration ?? DEFAULT_DURATION_MINUTES);
+    const times = start.allDay ? { startTime: null, endTime: null } : timesFor(start.date, end);
+
+    const startDate = toDateKey(start.date);
+    const uid = get('UID')?.value || `${title}-${dtstart.value}`;
+    const recurrenceId = get('RECURRENCE-ID');
+    const recurrenceDate = recurrenceId && parseDate(recurrenceId, warnings);
+
+    if (recurrenceDate) {
+      events.push({ uid: `${uid}#${toDateKey(recurrenceDate.date)}`, title, date: startDate, ...times, recurring: true });
+      return;
+    }
+
+    const rrule = get('RRULE');
+    const rule = rrule && fromRRule(rrule.value, startDate);
+
+    if (rrule && !rule) {
+      warnings.add(`Ulangan "${title}" tidak disokong; hanya kejadian pertama diimport`);
+    }
+    if (!rule) {
+      events.push({ uid, title, date: startDate, ...times, recurring: false });
+      return;
+    }
+
+    const exdates = properties
+      .filter(property => property.name === 'EXDATE')
+      .flatMap(property => property.value.split(',').map(value => ({ ...property, value })))
+      .map(property => parseDate(property, warnings))
+      .filter((parsed): parsed is ParsedDate => !!parsed)
+      .map(parsed => toDateKey(parsed.date));
+    const skipped = overridden.get(uid) || new Set<string>();
+
+    if (!rule.until_date && !rule.occurrence_count) {
+      warnings.add(`"${title}" berulang tanpa penghujung; hanya ${IMPORT_HORIZON_DAYS} hari pertama diimport`);
+    }
+
+    occurrences({ ...rule, exdates }, toDateKey(addDays(parseISO(startDate), IMPORT_HORIZON_DAYS)))
+      .filter(date => !skipped.has(date))
+      .forEach(date => {
+        events.push({ uid: `${uid}#${date}`, title, date, ...times, recurring: true });
+      });
+  });
+
+  // A UID repeated without RECURRENCE-ID is the same event; the last copy wins
+  const unique = [...new Map(events.map(event => [event.uid, event])).values()];
+  unique.sort((a, b) => a.date.localeCompare(b.date) || (a.startTime || '').localeCompare(b.startTime || ''));
+
+  return { events: unique, warnings: [...warnings] };
+}
@@ -0,0 +1,78 @@
+import { hostsRepo, type Host, type LiveManualLog, type LiveSalesTotals } from './repositories';
+
+export interface SalesSummary {
+  name: string;
+  // Sessions with sales recorded; older logs without figures are left out
+  sessions: number;
+  hours: number;
+  revenue: number;
+  orders: number;
+  // Highest peak of any single session
+  peakViewers: number;
+  revenuePerHour: number;
+  // Orders per 100 peak viewers
+  conversion: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function hasSales(log: LiveManualLog): boolean {
+  return log.revenue !== null || log.orders !== null;
+}
+
+export function summarise(name: string, logs: LiveManualLog[]): SalesSummary {
+  const recorded = logs.filter(hasSales);
+  const hours = recorded.reduce((total, log) => total + log.total_hours, 0);
+  const revenue = recorded.reduce((total, log) => total + (log.revenue || 0), 0);
+  const orders = recorded.reduce((total, log) => total + (log.orders || 0), 0);
+  // Conversion only counts sessions where viewers were recorded too
+  const withViewers = recorded.filter(log => log.peak_viewers);
+  const viewers = withViewers.reduce((total, log) => total + log.peak_viewers!, 0);
+  const convertedOrders = withViewers.reduce((total, log) => total + (log.orders || 0), 0);
+
+  return {
+    name,
+    sessions: recorded.length,
+    hours: round2(hours),
+    revenue: round2(revenue),
+    orders,
+    peakViewers: recorded.reduce((max, log) => Math.max(max, log.peak_viewers || 0), 0),
+    revenuePerHour: hours > 0 ? round2(revenue / hours) : 0,
+    conversion: viewers > 0 ? round2((convertedOrders / viewers) * 100) : 0
+  };
+}
+
+/** A summary from `analyticsRepo.liveSales`, which aggregates the same way as `summarise`. */
+export function fromTotals(name: string, totals: LiveSalesTotals | undefined): SalesSummary {
+  return {
+    name,
+    sessions: totals?.sessions || 0,
+    hours: totals?.hours || 0,
+    revenue: totals?.revenue || 0,
+    orders: totals?.orders || 0,
+    peakViewers: totals?.peak_viewers || 0,
+    revenuePerHour: totals?.revenue_per_hour || 0,
+    conversion: totals?.conversion || 0
+  };
+}
+
+/** Sales per host that has at least one session with figures, best earners first. */
+export function salesByHost(logs: LiveManualLog[], hosts: Host[]): SalesSummary[] {
+  const hostsById = new Map(hosts.map(host => [host.id, host]));
+  const groups = new Map<string, { name: string; logs: LiveManualLog[] }>();
+
+  // Grouped like hostsRepo.totalsByHost: by roster entry, else by logged name
+  logs.filter(hasSales).forEach(log => {
+    const host = (log.host_id && hostsById.get(log.host_id)) || null;
+    const name = host?.name || hostsRepo.normaliseName(log.host_name);
+    const key = host?.id || `name:${name.toLowerCase()}`;
+    const group = groups.get(key) || { name, logs: [] };
+
+    group.logs.push(log);
+    groups.set(key, group);
+  });
+
+  return [...groups.values()]
+    .map(group => summarise(group.name, group.logs))
+    .sort((a, b) => b.revenue - a.revenue);
+}
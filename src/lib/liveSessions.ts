@@ -0,0 +1,36 @@
+import type { LiveManualLog } from './repositories';
+
+// Sessions running longer than this were most likely never stopped.
+export const STALE_SESSION_HOURS = 12;
+
+export function isRunning(log: LiveManualLog): boolean {
+  return !!log.start_time && !log.end_time;
+}
+
+export function isPaused(log: LiveManualLog): boolean {
+  return isRunning(log) && !!log.paused_at;
+}
+
+/** Live time so far, excluding pauses (including one still in progress). */
+export function elapsedSeconds(log: LiveManualLog, now = new Date()): number {
+  if (!log.start_time) return Math.round(log.total_hours * 3600);
+
+  const end = log.end_time ? new Date(log.end_time) : log.paused_at ? new Date(log.paused_at) : now;
+  const seconds = (end.getTime() - new Date(log.start_time).getTime()) / 1000 - log.paused_seconds;
+
+  return Math.max(0, Math.floor(seconds));
+}
+
+export function isStale(log: LiveManualLog, now = new Date()): boolean {
+  return isRunning(log)
+    && now.getTime() - new Date(log.start_time!).getTime() > STALE_SESSION_HOURS * 3600 * 1000;
+}
+
+/** `H:MM:SS`, e.g. `1:05:09`. */
+export function formatElapsed(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
+}
@@ -0,0 +1,119 @@
+import type { LiveManualLog, LiveShift } from './repositories';
+import { isRunning } from './liveSessions';
+
+export const livePlatforms = ['TikTok', 'Shopee', 'Facebook', 'Instagram', 'Lazada', 'Lain-lain'];
+
+export type ShiftSlot = Pick<LiveShift, 'host_id' | 'shift_date' | 'start_time' | 'end_time'> & { id?: string };
+
+export type ShiftStatus = 'upcoming' | 'live' | 'met' | 'short' | 'missed';
+
+export interface ShiftReconciliation {
+  shift: LiveShift;
+  plannedHours: number;
+  actualHours: number;
+  status: ShiftStatus;
+}
+
+// Below this share of the planned hours a shift counts as short.
+const SHORT_SHIFT_RATIO = 0.9;
+
+// Postgres returns `HH:mm:ss`; the form works in `HH:mm`
+export const shortTime = (time: string) => time.slice(0, 5);
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// An end time before the start time is on the next day (sessions past midnight)
+export const crossesMidnight = (shift: Pick<LiveShift, 'start_time' | 'end_time'>) =>
+  toMinutes(shift.end_time) < toMinutes(shift.start_time);
+
+const shiftMinutes = (shift: Pick<LiveShift, 'start_time' | 'end_time'>) =>
+  toMinutes(shift.end_time) - toMinutes(shift.start_time) + (crossesMidnight(shift) ? 24 * 60 : 0);
+
+export function shiftHours(shift: Pick<LiveShift, 'start_time' | 'end_time'>): number {
+  return Math.round(shiftMinutes(shift) / 60 * 100) / 100;
+}
+
+/** `22:00–01:00 (+1)` for a shift ending the next day. */
+export function shiftTimeRange(shift: Pick<LiveShift, 'start_time' | 'end_time'>): string {
+  const range = `${shortTime(shift.start_time)}–${shortTime(shift.end_time)}`;
+  return crossesMidnight(shift) ? `${range} (+1)` : range;
+}
+
+// Minutes since the epoch at which the shift starts and ends
+const span = (slot: ShiftSlot) => {
+  const start = new Date(`${slot.shift_date}T00:00:00Z`).getTime() / 60000 + toMinutes(slot.start_time);
+  return { start, end: start + shiftMinutes(slot) };
+};
+
+/**
+ * Same host and the time ranges intersect (touching ends is fine). An
+ * overnight shift can clash with the next day's.
+ */
+export function overlaps(a: ShiftSlot, b: ShiftSlot): boolean {
+  if (a.host_id !== b.host_id || a.id === b.id) return false;
+
+  const first = span(a);
+  const second = span(b);
+  return first.start < second.end && second.start < first.end;
+}
+
+export function findConflict<T extends ShiftSlot>(shifts: T[], candidate: ShiftSlot): T | undefined {
+  return shifts.find(shift => overlaps(shift, candidate));
+}
+
+/**
+ * Planned shifts against the sessions actually logged for the same host and
+ * day. Several sessions on one day are added up against every shift that
+ * day, so split shifts are judged on the day's total.
+ */
+export function reconcile(shifts: LiveShift[], logs: LiveManualLog[], today: string): ShiftReconciliation[] {
+  const key = (hostId: string | null, date: string) => `${hostId}|${date}`;
+  const actual = new Map<string, number>();
+  const running = new Set<string>();
+  const planned = new Map<string, number>();
+
+  logs.forEach(log => {
+    if (!log.host_id) return;
+    const logKey = key(log.host_id, log.live_date);
+    if (isRunning(log)) {
+      running.add(logKey);
+    } else {
+      actual.set(logKey, (actual.get(logKey) || 0) + Number(log.total_hours));
+    }
+  });
+  shifts.forEach(shift => {
+    const shiftKey = key(shift.host_id, shift.shift_date);
+    planned.set(shiftKey, (planned.get(shiftKey) || 0) + shiftHours(shift));
+  });
+
+  return shifts.map(shift => {
+    const shiftKey = key(shift.host_id, shift.shift_date);
+    const plannedHours = shiftHours(shift);
+    const dayPlanned = planned.get(shiftKey) || plannedHours;
+    const dayActual = actual.get(shiftKey) || 0;
+    // This shift's share of the day's logged hours
+    const actualHours = Math.round(dayActual * (plannedHours / dayPlanned) * 100) / 100;
+
+    let status: ShiftStatus;
+    if (running.has(shiftKey)) {
+      status = 'live';
+    } else if (dayActual >= dayPlanned * SHORT_SHIFT_RATIO) {
+      status = 'met';
+    } else if (shift.shift_date >= today) {
+      status = 'upcoming';
+    } else {
+      status = dayActual > 0 ? 'short' : 'missed';
+    }
+
+    return { shift, plannedHours, actualHours, status };
+  });
+}
+
+/** Completed sessions with no shift planned for that host on that day. */
+export function unplannedLogs(shifts: LiveShift[], logs: LiveManualLog[]): LiveManualLog[] {
+  const planned = new Set(shifts.map(shift => `${shift.host_id}|${shift.shift_date}`));
+  return logs.filter(log => !isRunning(log) && !planned.has(`${log.host_id}|${log.live_date}`));
+}
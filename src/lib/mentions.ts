@@ -0,0 +1,29 @@
+/**
+ * Mentions are written into comment bodies as `@[Nama](<user id>)`. The
+ * task_comments trigger reads the same pattern to notify the people named,
+ * so the name can change later without breaking the link to the user.
+ */
+export interface MentionTarget {
+  id: string;
+  nama: string;
+}
+
+export const MENTION_SOURCE = '@\\[([^\\]]+)\\]\\(([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\\)';
+
+export function mentionToken(target: MentionTarget): string {
+  // Brackets would end the token early
+  return `@[${target.nama.replace(/[[\]]/g, '')}](${target.id})`;
+}
+
+/** The `@query` typed just before the caret, if the user is mid-mention. */
+export function activeMention(text: string, caret: number): { start: number; query: string } | null {
+  const match = text.slice(0, caret).match(/(?:^|\s)@([^\s@[\]()]*)$/);
+  if (!match) return null;
+
+  return { start: caret - match[1].length - 1, query: match[1] };
+}
+
+export function matchingTargets<T extends MentionTarget>(targets: T[], query: string, limit = 5): T[] {
+  const needle = query.toLowerCase();
+  return targets.filter(target => target.nama.toLowerCase().includes(needle)).slice(0, limit);
+}
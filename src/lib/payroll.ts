@@ -0,0 +1,80 @@
+import { parseISO } from 'date-fns';
+import { hostsRepo, type BonusTier, type Host, type LiveManualLog, type PayPeriod, type PayrollLineInput } from './repositories';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const formatRM = (amount: number) => `RM ${amount.toFixed(2)}`;
+
+export const formatPeriod = (period: Pick<PayPeriod, 'start_date' | 'end_date'>) =>
+  `${parseISO(period.start_date).toLocaleDateString('ms-MY')} – ${parseISO(period.end_date).toLocaleDateString('ms-MY')}`;
+
+/** Bonus of the highest tier the hours reach; tiers do not stack. */
+export function bonusFor(hours: number, tiers: BonusTier[]): number {
+  return tiers
+    .filter(tier => hours >= tier.min_hours)
+    .reduce((best, tier) => (tier.min_hours > best.min_hours ? tier : best), { min_hours: 0, bonus: 0 }).bonus;
+}
+
+/**
+ * Pay per host from completed sessions in the period. Logs without a roster
+ * entry are listed at a rate of zero so they are noticed rather than dropped.
+ */
+export function computePayroll(logs: LiveManualLog[], hosts: Host[], tiers: BonusTier[]): PayrollLineInput[] {
+  return hostsRepo.totalsByHost(logs, hosts).map(({ host, name, sessions, hours }) => {
+    const hourlyRate = host?.hourly_rate || 0;
+    const basePay = round2(hours * hourlyRate);
+    const bonus = bonusFor(hours, tiers);
+
+    return {
+      host_id: host?.id || null,
+      host_name: name,
+      sessions,
+      total_hours: hours,
+      hourly_rate: hourlyRate,
+      base_pay: basePay,
+      bonus,
+      total_pay: round2(basePay + bonus)
+    };
+  });
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!);
+
+/** Stand-alone payslip page, printed (or saved as PDF) from a new window. */
+export function payslipHtml(line: PayrollLineInput, period: PayPeriod): string {
+  const rows: [string, string][] = [
+    ['Bilangan sesi', String(line.sessions ?? 0)],
+    ['Jumlah jam', `${line.total_hours ?? 0} jam`],
+    ['Kadar sejam', formatRM(line.hourly_rate ?? 0)],
+    ['Gaji asas', formatRM(line.base_pay ?? 0)],
+    ['Bonus', formatRM(line.bonus ?? 0)]
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="ms">
+<head>
+<meta charset="utf-8">
+<title>Slip Gaji - ${escapeHtml(line.host_name)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #111827; max-width: 640px; margin: 40px auto; }
+  h1 { font-size: 20px; margin: 0; }
+  .muted { color: #6b7280; font-size: 14px; }
+  table { width: 100%; border-collapse: collapse; margin-top: 24px; }
+  td { padding: 8px 0; border-bottom: 1px solid #e5e7eb; }
+  td:last-child { text-align: right; }
+  .total td { font-weight: bold; border-bottom: 2px solid #111827; }
+</style>
+</head>
+<body>
+<h1>Slip Gaji Host LIVE</h1>
+<p class="muted">Saffa &middot; Tempoh ${escapeHtml(formatPeriod(period))}</p>
+<p><strong>${escapeHtml(line.host_name)}</strong></p>
+<table>
+${rows.map(([label, value]) => `<tr><td>${label}</td><td>${escapeHtml(value)}</td></tr>`).join('\n')}
+<tr class="total"><td>Jumlah bayaran</td><td>${formatRM(line.total_pay ?? 0)}</td></tr>
+</table>
+<p class="muted">${period.status === 'locked' ? `Diluluskan pada ${new Date(period.locked_at!).toLocaleDateString('ms-MY')}` : 'Draf - tempoh belum dikunci'}</p>
+</body>
+</html>`;
+}
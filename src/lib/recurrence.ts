@@ -0,0 +1,245 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  getDaysInMonth,
+  parseISO,
+  setDate,
+  startOfMonth,
+  startOfWeek
+} from 'date-fns';
+import { toDateKey } from './dates';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+/**
+ * The schedule part of a task series, named after the task_series columns so a
+ * row can be passed in directly. Weekdays use 0 = Sunday like Date#getDay.
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  weekdays: number[];
+  month_day: number | null;
+  start_date: string;
+  until_date: string | null;
+  occurrence_count: number | null;
+  exdates: string[];
+}
+
+// Guards against runaway loops from a malformed rule.
+const MAX_ITERATIONS = 5000;
+
+export const weekdayLabels = ['Ahd', 'Isn', 'Sel', 'Rab', 'Kha', 'Jum', 'Sab'];
+const rruleWeekdays = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Candidate dates for the nth period of the rule, in ascending order.
+function periodDates(rule: RecurrenceRule, start: Date, period: number): Date[] {
+  const step = period * Math.max(1, rule.interval);
+
+  switch (rule.frequency) {
+    case 'daily':
+      return [addDays(start, step)];
+    case 'weekly': {
+      const weekStart = addWeeks(startOfWeek(start), step);
+      const weekdays = rule.weekdays.length > 0 ? [...rule.weekdays].sort((x, y) => x - y) : [start.getDay()];
+      return weekdays.map(day => addDays(weekStart, day));
+    }
+    case 'monthly': {
+      const month = addMonths(startOfMonth(start), step);
+      const day = Math.min(rule.month_day ?? start.getDate(), getDaysInMonth(month));
+      return [setDate(month, day)];
+    }
+  }
+}
+
+/**
+ * Occurrence dates (`YYYY-MM-DD`) from the start of the rule up to and
+ * including `to`. As in RFC 5545, excluded dates still count towards
+ * `occurrence_count`.
+ */
+export function occurrences(rule: RecurrenceRule, to: string): string[] {
+  const start = parseISO(rule.start_date);
+  const last = rule.until_date && rule.until_date < to ? rule.until_date : to;
+  const dates: string[] = [];
+  let counted = 0;
+
+  for (let period = 0; period < MAX_ITERATIONS; period++) {
+    const candidates = periodDates(rule, start, period)
+      .map(toDateKey)
+      .filter(date => date >= rule.start_date);
+
+    for (const date of candidates) {
+      if (date > last) return dates;
+      if (rule.occurrence_count && counted >= rule.occurrence_count) return dates;
+
+      counted++;
+      if (!rule.exdates.includes(date)) {
+        dates.push(date);
+      }
+    }
+  }
+
+  return dates;
+}
+
+export function sameSchedule(a: RecurrenceRule, b: RecurrenceRule): boolean {
+  return a.frequency === b.frequency
+    && a.interval === b.interval
+    && [...a.weekdays].sort((x, y) => x - y).join() === [...b.weekdays].sort((x, y) => x - y).join()
+    && a.month_day === b.month_day
+    && a.start_date === b.start_date
+    && a.until_date === b.until_date
+    && a.occurrence_count === b.occurrence_count;
+}
+
+/** The rule as an iCalendar RRULE value, e.g. `FREQ=WEEKLY;BYDAY=MO,WE`. */
+export function toRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+
+  if (rule.interval > 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.frequency === 'weekly' && rule.weekdays.length > 0) {
+    parts.push(`BYDAY=${[...rule.weekdays].sort((x, y) => x - y).map(day => rruleWeekdays[day]).join(',')}`);
+  }
+  if (rule.frequency === 'monthly' && rule.month_day) {
+    parts.push(`BYMONTHDAY=${rule.month_day}`);
+  }
+  if (rule.until_date) {
+    parts.push(`UNTIL=${rule.until_date.replace(/-/g, '')}`);
+  } else if (rule.occurrence_count) {
+    parts.push(`COUNT=${rule.occurrence_count}`);
+  }
+
+  return parts.join(';');
+}
+
+/**
+ * Reads an RRULE value back into a rule starting on `startDate`. Returns null
+ * for anything `occurrences` cannot reproduce (yearly rules, BYSETPOS,
+ * "second Monday" style BYDAY, several month days, ...).
+ */
+export function fromRRule(value: string, startDate: string): Omit<RecurrenceRule, 'exdates'> | null {
+  const parts = new Map(
+    value
+      .replace(/^RRULE:/i, '')
+      .split(';')
+      .filter(Boolean)
+      .map(part => {
+        const [key, ...rest] = part.split('=');
+        return [key.toUpperCase(), rest.join('=').toUpperCase()] as const;
+      })
+  );
+  const supported = ['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'UNTIL', 'COUNT', 'WKST'];
+  if ([...parts.keys()].some(key => !supported.includes(key))) return null;
+
+  const frequency = ({ DAILY: 'daily', WEEKLY: 'weekly', MONTHLY: 'monthly' } as const)[
+    parts.get('FREQ') as 'DAILY' | 'WEEKLY' | 'MONTHLY'
+  ];
+  if (!frequency) return null;
+
+  const byDay = parts.get('BYDAY')?.split(',') ?? [];
+  if (byDay.length > 0 && frequency !== 'weekly') return null;
+  const weekdays = byDay.map(day => rruleWeekdays.indexOf(day));
+  if (weekdays.includes(-1)) return null;
+
+  const monthDay = parts.get('BYMONTHDAY');
+  if (monthDay && (frequency !== 'monthly' || !/^\d{1,2}$/.test(monthDay))) return null;
+
+  const until = parts.get('UNTIL')?.match(/^(\d{4})(\d{2})(\d{2})/);
+  const count = parts.get('COUNT');
+
+  return {
+    frequency,
+    interval: Math.max(1, parseInt(parts.get('INTERVAL') || '1') || 1),
+    weekdays,
+    month_day: monthDay ? parseInt(monthDay) : null,
+    start_date: startDate,
+    until_date: until ? `${until[1]}-${until[2]}-${until[3]}` : null,
+    occurrence_count: count ? Math.max(1, parseInt(count) || 1) : null
+  };
+}
+
+/** Short Malay description, e.g. "Setiap 2 minggu (Isn, Rab) hingga 31/12/2025". */
+export function describe(rule: RecurrenceRule): string {
+  const every = rule.interval > 1 ? `Setiap ${rule.interval} ` : '';
+  let text: string;
+
+  switch (rule.frequency) {
+    case 'daily':
+      text = every ? `${every}hari` : 'Setiap hari';
+      break;
+    case 'weekly': {
+      const days = rule.weekdays.length > 0
+        ? [...rule.weekdays].sort((x, y) => x - y).map(day => weekdayLabels[day]).join(', ')
+        : weekdayLabels[parseISO(rule.start_date).getDay()];
+      text = `${every ? `${every}minggu` : 'Setiap minggu'} (${days})`;
+      break;
+    }
+    case 'monthly': {
+      const day = rule.month_day ?? parseISO(rule.start_date).getDate();
+      text = `${every ? `${every}bulan` : 'Setiap bulan'} pada hari ${day}`;
+      break;
+    }
+  }
+
+  if (rule.until_date) {
+    text += ` hingga ${parseISO(rule.until_date).toLocaleDateString('ms-MY')}`;
+  } else if (rule.occurrence_count) {
+    text += `, ${rule.occurrence_count} kali`;
+  }
+
+  return text;
+}
+
+/** Editable form state for a rule; `frequency: 'none'` means a one-off task. */
+export interface RecurrenceForm {
+  frequency: RecurrenceFrequency | 'none';
+  interval: number;
+  weekdays: number[];
+  month_day: string;
+  end: 'never' | 'until' | 'count';
+  until_date: string;
+  occurrence_count: number;
+}
+
+export const emptyRecurrenceForm: RecurrenceForm = {
+  frequency: 'none',
+  interval: 1,
+  weekdays: [],
+  month_day: '',
+  end: 'never',
+  until_date: '',
+  occurrence_count: 10
+};
+
+export function formFromRule(rule: RecurrenceRule): RecurrenceForm {
+  return {
+    frequency: rule.frequency,
+    interval: rule.interval,
+    weekdays: rule.weekdays,
+    month_day: rule.month_day ? String(rule.month_day) : '',
+    end: rule.until_date ? 'until' : rule.occurrence_count ? 'count' : 'never',
+    until_date: rule.until_date || '',
+    occurrence_count: rule.occurrence_count || emptyRecurrenceForm.occurrence_count
+  };
+}
+
+/** Schedule columns for a task series starting on `startDate`. */
+export function ruleFromForm(
+  form: RecurrenceForm,
+  startDate: string
+): Omit<RecurrenceRule, 'exdates'> {
+  const frequency = form.frequency === 'none' ? 'daily' : form.frequency;
+
+  return {
+    frequency,
+    interval: Math.max(1, form.interval),
+    weekdays: frequency === 'weekly' ? form.weekdays : [],
+    month_day: frequency === 'monthly' && form.month_day ? parseInt(form.month_day) : null,
+    start_date: startDate,
+    until_date: form.end === 'until' && form.until_date ? form.until_date : null,
+    occurrence_count: form.end === 'count' ? Math.max(1, form.occurrence_count) : null
+  };
+}
@@ -0,0 +1,23 @@
+import { supabase, type Tables } from '../supabase';
+import { run, type DataScope } from './base';
+
+export type ActivityLog = Tables<'activity_log'>;
+
+export function recent(scope: DataScope, limit = 5) {
+  let query = supabase.from('activity_log').select('*');
+
+  if (!scope.allUsers) {
+    query = query.eq('user_id', scope.userId);
+  }
+
+  return run(
+    'activity_log',
+    'select',
+    query.order('log_timestamp', { ascending: false }).limit(limit),
+    [] as ActivityLog[]
+  );
+}
+
+export function record(userId: string, action: string) {
+  return run('activity_log', 'insert', supabase.from('activity_log').insert([{ user_id: userId, action }]), null);
+}
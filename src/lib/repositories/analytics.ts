@@ -0,0 +1,60 @@
+import { supabase, type FunctionReturns } from '../supabase';
+import { run, type DataScope } from './base';
+
+export type WeeklyTotals = FunctionReturns<'analytics_weekly'>[number];
+export type DailyTotals = FunctionReturns<'analytics_daily'>[number];
+export type StatusCount = FunctionReturns<'analytics_status_counts'>[number];
+export type LiveSalesTotals = FunctionReturns<'analytics_live_sales'>[number];
+export type MemberTotals = FunctionReturns<'analytics_member_totals'>[number];
+
+/**
+ * Aggregates are computed in Postgres as the signed-in user, so RLS still
+ * applies. A scope without `allUsers` narrows them to that user.
+ */
+const userFilter = (scope: DataScope) => (scope.allUsers ? null : scope.userId);
+
+export function weekly(scope: DataScope, range: { from: string; to: string }) {
+  return run(
+    'analytics_weekly',
+    'select',
+    supabase.rpc('analytics_weekly', { p_from: range.from, p_to: range.to, p_user_id: userFilter(scope) }),
+    [] as WeeklyTotals[]
+  );
+}
+
+export function daily(scope: DataScope, range: { from: string; to: string }) {
+  return run(
+    'analytics_daily',
+    'select',
+    supabase.rpc('analytics_daily', { p_from: range.from, p_to: range.to, p_user_id: userFilter(scope) }),
+    [] as DailyTotals[]
+  );
+}
+
+export function statusCounts(scope: DataScope) {
+  return run(
+    'analytics_status_counts',
+    'select',
+    supabase.rpc('analytics_status_counts', { p_user_id: userFilter(scope) }),
+    [] as StatusCount[]
+  );
+}
+
+export function liveSales(scope: DataScope, range: { from: string; to: string }) {
+  return run(
+    'analytics_live_sales',
+    'select',
+    supabase.rpc('analytics_live_sales', { p_from: range.from, p_to: range.to, p_user_id: userFilter(scope) }),
+    [] as LiveSalesTotals[]
+  );
+}
+
+// Admins only: RLS limits everyone else to their own profile.
+export function memberTotals(range: { from: string; to: string }) {
+  return run(
+    'analytics_member_totals',
+    'select',
+    supabase.rpc('analytics_member_totals', { p_from: range.from, p_to: range.to }),
+    [] as MemberTotals[]
+  );
+}
@@ -0,0 +1,52 @@
+import { supabase, type Tables } from '../supabase';
+import { run } from './base';
+
+export type Attachment = Tables<'attachments'>;
+
+export interface AttachmentParent {
+  kind: 'task' | 'project';
+  id: string;
+}
+
+const parentColumn = (parent: AttachmentParent) => (parent.kind === 'task' ? 'task_id' : 'project_id');
+
+// RLS returns attachments only for tasks and projects the user can read.
+export function list(parent: AttachmentParent) {
+  return run(
+    'attachments',
+    'select',
+    supabase
+      .from('attachments')
+      .select('*')
+      .eq(parentColumn(parent), parent.id)
+      .order('created_at', { ascending: false }),
+    [] as Attachment[]
+  );
+}
+
+export function create(
+  userId: string,
+  parent: AttachmentParent,
+  values: Pick<Attachment, 'file_name' | 'storage_path' | 'mime_type' | 'size_bytes'>
+) {
+  return run(
+    'attachments',
+    'insert',
+    supabase
+      .from('attachments')
+      .insert([{
+        ...values,
+        task_id: parent.kind === 'task' ? parent.id : null,
+        project_id: parent.kind === 'project' ? parent.id : null,
+        uploaded_by: userId
+      }])
+      .select()
+      .single(),
+    null as Attachment | null
+  );
+}
+
+// The file itself is queued for removal by the attachments_queue_cleanup trigger
+export function remove(id: string) {
+  return run('attachments', 'delete', supabase.from('attachments').delete().eq('id', id), null);
+}
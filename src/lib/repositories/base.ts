@@ -0,0 +1,154 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+import type { Database } from '../supabase';
+
+export type TableName = keyof Database['public']['Tables'];
+// Read-only views, queried like tables
+export type ViewName = keyof Database['public']['Views'];
+// Postgres functions called through `rpc`; errors are reported like tables'
+export type FunctionName = keyof Database['public']['Functions'];
+
+export type RepositoryOperation = 'select' | 'insert' | 'update' | 'delete';
+
+/**
+ * Who a query runs on behalf of. Admins get `allUsers: true` and see every
+ * user's rows; everyone else is limited to rows they own or share.
+ */
+export interface DataScope {
+  userId: string;
+  allUsers: boolean;
+}
+
+export function scopeFor(userId: string, role: 'admin' | 'user' | undefined): DataScope {
+  return { userId, allUsers: role === 'admin' };
+}
+
+// Pages that only ever show the signed-in user's own data (calendar notes,
+// content log, dashboard) use this even when the user is an admin.
+export function personalScope(scope: DataScope): DataScope {
+  return { userId: scope.userId, allUsers: false };
+}
+
+// Realtime filter matching what the scope is allowed to see.
+export function realtimeFilter(scope: DataScope | null, column = 'user_id'): string | undefined {
+  if (!scope || scope.allUsers) return undefined;
+  return `${column}=eq.${scope.userId}`;
+}
+
+const tableLabels: Record<TableName | ViewName | FunctionName, string> = {
+  user_profiles: 'profil pengguna',
+  projects: 'projek',
+  tasks: 'tugasan',
+  calendar_notes: 'nota kalendar',
+  content_log: 'log content',
+  live_log: 'log live',
+  live_manual_log: 'log live',
+  templates: 'template',
+  activity_log: 'log aktiviti',
+  task_dependencies: 'kebergantungan tugasan',
+  task_checklist_items: 'senarai semak tugasan',
+  task_series: 'siri tugasan',
+  calendar_feeds: 'suapan kalendar',
+  hosts: 'host',
+  live_shifts: 'syif live',
+  pay_periods: 'tempoh gaji',
+  payroll_bonus_tiers: 'tahap bonus',
+  payroll_lines: 'baris gaji',
+  content_options: 'senarai content',
+  content_entries: 'pecahan content',
+  content_items: 'item content',
+  user_targets: 'sasaran',
+  notifications: 'notifikasi',
+  task_comments: 'komen tugasan',
+  attachments: 'lampiran',
+  attachment_cleanup: 'fail lampiran dipadam',
+  project_members: 'ahli projek',
+  task_assignees: 'penugasan tugasan',
+  my_projects: 'projek',
+  my_tasks: 'tugasan',
+  analytics_weekly: 'analitik mingguan',
+  analytics_daily: 'analitik harian',
+  analytics_status_counts: 'status projek dan tugasan',
+  analytics_live_sales: 'analitik jualan live',
+  analytics_member_totals: 'prestasi ahli',
+  lock_pay_period: 'tempoh gaji',
+  unlock_pay_period: 'tempoh gaji',
+  replace_content_entries: 'pecahan content',
+  sync_due_notifications: 'peringatan tugasan',
+  task_participants: 'ahli tugasan',
+  invite_project_member: 'ahli projek'
+};
+
+const operationLabels: Record<RepositoryOperation, string> = {
+  select: 'mengambil data',
+  insert: 'menambah',
+  update: 'mengemas kini',
+  delete: 'memadam'
+};
+
+export class RepositoryError extends Error {
+  readonly table: TableName | ViewName | FunctionName;
+  readonly operation: RepositoryOperation;
+  readonly code: string | null;
+  readonly details: string | null;
+
+  constructor(table: TableName | ViewName | FunctionName, operation: RepositoryOperation, cause: PostgrestError) {
+    super(`Ralat semasa ${operationLabels[operation]} ${tableLabels[table]}`);
+    this.name = 'RepositoryError';
+    this.table = table;
+    this.operation = operation;
+    this.code = cause.code || null;
+    this.details = cause.message || null;
+  }
+}
+
+export type RepositoryResult<T> =
+  | { data: T; error: null }
+  | { data: null; error: RepositoryError };
+
+interface QueryResponse<T> {
+  data: T | null;
+  error: PostgrestError | null;
+}
+
+/**
+ * Awaits a Supabase query and normalises its response. `fallback` is returned
+ * when the query succeeds without data (e.g. an empty select or a delete).
+ */
+export async function run<T>(
+  table: TableName | ViewName | FunctionName,
+  operation: RepositoryOperation,
+  query: PromiseLike<QueryResponse<T>>,
+  fallback: T
+): Promise<RepositoryResult<T>> {
+  const { data, error } = await query;
+
+  if (error) {
+    return { data: null, error: new RepositoryError(table, operation, error) };
+  }
+
+  return { data: data ?? fallback, error: null };
+}
+
+/** Like `run`, for `select('*', { count: 'exact', head: true })` queries. */
+export async function runCount(
+  table: TableName | ViewName,
+  query: PromiseLike<{ count: number | null; error: PostgrestError | null }>
+): Promise<RepositoryResult<number>> {
+  const { count, error } = await query;
+
+  if (error) {
+    return { data: null, error: new RepositoryError(table, 'select', error) };
+  }
+
+  return { data: count ?? 0, error: null };
+}
+
+/** Inclusive `YYYY-MM-DD` bounds for date-column filters. */
+export interface DateRange {
+  from?: string;
+  to?: string;
+}
+
+export function timestamp(): string {
+  return new Date().toISOString();
+}
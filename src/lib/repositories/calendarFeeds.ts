@@ -0,0 +1,39 @@
+import { supabase, type Tables } from '../supabase';
+import { run } from './base';
+
+export type CalendarFeed = Tables<'calendar_feeds'>;
+
+export function get(userId: string) {
+  return run(
+    'calendar_feeds',
+    'select',
+    supabase.from('calendar_feeds').select('*').eq('user_id', userId).maybeSingle(),
+    null
+  );
+}
+
+// The token is generated by the database default.
+export function create(userId: string) {
+  return run(
+    'calendar_feeds',
+    'insert',
+    supabase
+      .from('calendar_feeds')
+      .insert([{ user_id: userId }])
+      .select()
+      .single(),
+    null as CalendarFeed | null
+  );
+}
+
+/** Replaces the token, so subscriptions using the old URL stop updating. */
+export async function regenerate(userId: string) {
+  const result = await run('calendar_feeds', 'delete', supabase.from('calendar_feeds').delete().eq('user_id', userId), null);
+  if (result.error) return result;
+
+  return create(userId);
+}
+
+export function feedUrl(token: string): string {
+  return `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${token}`;
+}
@@ -0,0 +1,88 @@
+import { supabase, type Tables, type TablesInsert } from '../supabase';
+import { run, timestamp, type DataScope, type DateRange } from './base';
+
+export type CalendarNote = Tables<'calendar_notes'>;
+
+// Both null for an all-day note.
+export interface NoteTimes {
+  start_time: string | null;
+  end_time: string | null;
+}
+
+const allDay: NoteTimes = { start_time: null, end_time: null };
+
+export function list(scope: DataScope, range: DateRange = {}) {
+  let query = supabase.from('calendar_notes').select('*');
+
+  if (!scope.allUsers) {
+    query = query.eq('user_id', scope.userId);
+  }
+  if (range.from) {
+    query = query.gte('note_date', range.from);
+  }
+  if (range.to) {
+    query = query.lte('note_date', range.to);
+  }
+
+  return run('calendar_notes', 'select', query.order('note_date').order('start_time', { nullsFirst: true }), [] as CalendarNote[]);
+}
+
+export function create(scope: DataScope, noteDate: string, note: string, times: NoteTimes = allDay) {
+  return run(
+    'calendar_notes',
+    'insert',
+    supabase
+      .from('calendar_notes')
+      .insert([{ user_id: scope.userId, note_date: noteDate, note, ...times }])
+      .select()
+      .single(),
+    null
+  );
+}
+
+export function update(id: string, note: string, times: NoteTimes = allDay) {
+  return run(
+    'calendar_notes',
+    'update',
+    supabase
+      .from('calendar_notes')
+      .update({ note, ...times, updated_at: timestamp() })
+      .eq('id', id),
+    null
+  );
+}
+
+export function remove(id: string) {
+  return run('calendar_notes', 'delete', supabase.from('calendar_notes').delete().eq('id', id), null);
+}
+
+export type ImportedNote = Omit<TablesInsert<'calendar_notes'>, 'user_id' | 'ical_uid'> & { ical_uid: string };
+
+// UIDs of the user's notes that came from an .ics import.
+export function listImportedUids(scope: DataScope) {
+  return run(
+    'calendar_notes',
+    'select',
+    supabase
+      .from('calendar_notes')
+      .select('ical_uid')
+      .eq('user_id', scope.userId)
+      .not('ical_uid', 'is', null),
+    [] as { ical_uid: string | null }[]
+  );
+}
+
+/** Inserts imported notes, updating any imported before under the same UID. */
+export function importMany(scope: DataScope, notes: ImportedNote[]) {
+  return run(
+    'calendar_notes',
+    'insert',
+    supabase
+      .from('calendar_notes')
+      .upsert(
+        notes.map(note => ({ ...note, user_id: scope.userId, updated_at: timestamp() })),
+        { onConflict: 'user_id,ical_uid' }
+      ),
+    null
+  );
+}
@@ -0,0 +1,59 @@
+import { supabase, type Tables, type TablesUpdate } from '../supabase';
+import { run } from './base';
+
+export type ChecklistItem = Tables<'task_checklist_items'>;
+
+// RLS returns only items of tasks the user can access.
+export function list() {
+  return run(
+    'task_checklist_items',
+    'select',
+    supabase.from('task_checklist_items').select('*').order('position').order('created_at'),
+    [] as ChecklistItem[]
+  );
+}
+
+export function create(taskId: string, title: string, position: number) {
+  return run(
+    'task_checklist_items',
+    'insert',
+    supabase
+      .from('task_checklist_items')
+      .insert([{ task_id: taskId, title, position }])
+      .select()
+      .single(),
+    null as ChecklistItem | null
+  );
+}
+
+export function update(id: string, values: TablesUpdate<'task_checklist_items'>) {
+  return run(
+    'task_checklist_items',
+    'update',
+    supabase.from('task_checklist_items').update(values).eq('id', id),
+    null
+  );
+}
+
+export function remove(id: string) {
+  return run('task_checklist_items', 'delete', supabase.from('task_checklist_items').delete().eq('id', id), null);
+}
+
+export function groupByTask(items: ChecklistItem[]): Map<string, ChecklistItem[]> {
+  const grouped = new Map<string, ChecklistItem[]>();
+
+  items.forEach(item => {
+    grouped.set(item.task_id, [...(grouped.get(item.task_id) || []), item]);
+  });
+
+  return grouped;
+}
+
+/**
+ * Percentage of items done, rounded like the sync_task_progress_from_checklist
+ * trigger. Null when the task has no checklist and progress is set by hand.
+ */
+export function progressFor(items: ChecklistItem[]): number | null {
+  if (items.length === 0) return null;
+  return Math.round((items.filter(item => item.is_done).length * 100) / items.length);
+}
@@ -0,0 +1,43 @@
+import { supabase, type Tables } from '../supabase';
+import { run, type DataScope, type DateRange } from './base';
+
+export type ContentEntry = Tables<'content_entries'>;
+export type ContentEntryInput = Pick<ContentEntry, 'platform' | 'content_type' | 'count'>;
+
+export function list(scope: DataScope, range: DateRange = {}) {
+  let query = supabase.from('content_entries').select('*');
+
+  if (!scope.allUsers) {
+    query = query.eq('user_id', scope.userId);
+  }
+  if (range.from) {
+    query = query.gte('log_date', range.from);
+  }
+  if (range.to) {
+    query = query.lte('log_date', range.to);
+  }
+
+  return run('content_entries', 'select', query.order('log_date', { ascending: false }), [] as ContentEntry[]);
+}
+
+/**
+ * Replaces the user's breakdown for one day in one transaction. The database
+ * keeps the day's `content_log` total in step with the entries.
+ */
+export function replaceDay(logDate: string, entries: ContentEntryInput[]) {
+  return run(
+    'replace_content_entries',
+    'update',
+    supabase.rpc('replace_content_entries', { p_log_date: logDate, p_entries: entries }),
+    null
+  );
+}
+
+export function removeDay(scope: DataScope, logDate: string) {
+  return run(
+    'content_entries',
+    'delete',
+    supabase.from('content_entries').delete().eq('user_id', scope.userId).eq('log_date', logDate),
+    null
+  );
+}
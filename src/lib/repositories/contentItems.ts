@@ -0,0 +1,54 @@
+import { supabase, type Tables, type TablesInsert, type TablesUpdate } from '../supabase';
+import { run, timestamp, type DataScope } from './base';
+
+export type ContentItem = Tables<'content_items'>;
+export type ContentStage = ContentItem['stage'];
+export type ContentItemInput = Omit<TablesInsert<'content_items'>, 'user_id'>;
+
+// The pipeline board is shared by the whole team.
+export function list() {
+  return run(
+    'content_items',
+    'select',
+    supabase.from('content_items').select('*').order('created_at', { ascending: false }),
+    [] as ContentItem[]
+  );
+}
+
+export function create(scope: DataScope, values: ContentItemInput) {
+  return run(
+    'content_items',
+    'insert',
+    supabase
+      .from('content_items')
+      .insert([{ ...values, user_id: scope.userId }])
+      .select()
+      .single(),
+    null as ContentItem | null
+  );
+}
+
+export function update(id: string, values: TablesUpdate<'content_items'>) {
+  return run(
+    'content_items',
+    'update',
+    supabase
+      .from('content_items')
+      .update({ ...values, updated_at: timestamp() })
+      .eq('id', id),
+    null
+  );
+}
+
+/**
+ * Moves an item to another stage. `postedDate` is the day it counts towards
+ * the assignee's daily content total; the database clears it for any stage
+ * other than 'posted'.
+ */
+export function moveStage(id: string, stage: ContentStage, postedDate: string | null = null) {
+  return update(id, { stage, posted_date: stage === 'posted' ? postedDate : null });
+}
+
+export function remove(id: string) {
+  return run('content_items', 'delete', supabase.from('content_items').delete().eq('id', id), null);
+}
@@ -0,0 +1,21 @@
+import { supabase, type Tables } from '../supabase';
+import { run, type DataScope, type DateRange } from './base';
+
+export type ContentLog = Tables<'content_log'>;
+
+// Daily totals, maintained by the database from content_entries.
+export function list(scope: DataScope, range: DateRange = {}, ascending = false) {
+  let query = supabase.from('content_log').select('*');
+
+  if (!scope.allUsers) {
+    query = query.eq('user_id', scope.userId);
+  }
+  if (range.from) {
+    query = query.gte('log_date', range.from);
+  }
+  if (range.to) {
+    query = query.lte('log_date', range.to);
+  }
+
+  return run('content_log', 'select', query.order('log_date', { ascending }), [] as ContentLog[]);
+}
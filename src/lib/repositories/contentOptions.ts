@@ -0,0 +1,28 @@
+import { supabase, type Tables, type TablesUpdate } from '../supabase';
+import { run } from './base';
+
+export type ContentOption = Tables<'content_options'>;
+export type ContentOptionKind = ContentOption['kind'];
+
+// Shared by the whole team; inactive options stay on old entries.
+export function list() {
+  return run(
+    'content_options',
+    'select',
+    supabase.from('content_options').select('*').order('sort_order').order('name'),
+    [] as ContentOption[]
+  );
+}
+
+export function create(kind: ContentOptionKind, name: string, sortOrder: number) {
+  return run(
+    'content_options',
+    'insert',
+    supabase.from('content_options').insert([{ kind, name: name.trim(), sort_order: sortOrder }]),
+    null
+  );
+}
+
+export function update(id: string, values: TablesUpdate<'content_options'>) {
+  return run('content_options', 'update', supabase.from('content_options').update(values).eq('id', id), null);
+}
@@ -0,0 +1,80 @@
+import { supabase, type Tables, type TablesInsert, type TablesUpdate } from '../supabase';
+import { run, timestamp, type DataScope } from './base';
+import type { LiveManualLog } from './liveManualLog';
+
+export type Host = Tables<'hosts'>;
+export type HostInput = Omit<TablesInsert<'hosts'>, 'created_by'>;
+
+export interface HostTotals {
+  host: Host | null;
+  // Falls back to the logged name for logs without a roster entry
+  name: string;
+  sessions: number;
+  hours: number;
+}
+
+// The roster is shared by the whole team.
+export function list() {
+  return run('hosts', 'select', supabase.from('hosts').select('*').order('name'), [] as Host[]);
+}
+
+export function create(scope: DataScope, values: HostInput) {
+  return run(
+    'hosts',
+    'insert',
+    supabase
+      .from('hosts')
+      .insert([{ ...values, name: normaliseName(values.name), created_by: scope.userId }])
+      .select()
+      .single(),
+    null as Host | null
+  );
+}
+
+export function update(id: string, values: TablesUpdate<'hosts'>) {
+  return run(
+    'hosts',
+    'update',
+    supabase
+      .from('hosts')
+      .update({
+        ...values,
+        ...(values.name !== undefined ? { name: normaliseName(values.name) } : {}),
+        updated_at: timestamp()
+      })
+      .eq('id', id),
+    null
+  );
+}
+
+export function remove(id: string) {
+  return run('hosts', 'delete', supabase.from('hosts').delete().eq('id', id), null);
+}
+
+export function normaliseName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ');
+}
+
+/** The roster entry with this name, ignoring case and extra spaces (as the unique index does). */
+export function findByName(hosts: Host[], name: string): Host | undefined {
+  const key = normaliseName(name).toLowerCase();
+  return hosts.find(host => normaliseName(host.name).toLowerCase() === key);
+}
+
+/** Sessions and hours per host, most hours first. */
+export function totalsByHost(logs: LiveManualLog[], hosts: Host[]): HostTotals[] {
+  const hostsById = new Map(hosts.map(host => [host.id, host]));
+  const totals = new Map<string, HostTotals>();
+
+  logs.forEach(log => {
+    const host = (log.host_id && hostsById.get(log.host_id)) || null;
+    const key = host?.id || `name:${normaliseName(log.host_name).toLowerCase()}`;
+    const entry = totals.get(key) || { host, name: host?.name || normaliseName(log.host_name), sessions: 0, hours: 0 };
+
+    entry.sessions++;
+    entry.hours = Math.round((entry.hours + log.total_hours) * 100) / 100;
+    totals.set(key, entry);
+  });
+
+  return [...totals.values()].sort((a, b) => b.hours - a.hours);
+}
@@ -0,0 +1,52 @@
+export * from './base';
+export * as projectsRepo from './projects';
+export * as projectMembersRepo from './projectMembers';
+export * as tasksRepo from './tasks';
+export * as taskAssigneesRepo from './taskAssignees';
+export * as taskDependenciesRepo from './taskDependencies';
+export * as checklistItemsRepo from './checklistItems';
+export * as taskCommentsRepo from './taskComments';
+export * as attachmentsRepo from './attachments';
+export * as taskSeriesRepo from './taskSeries';
+export * as calendarNotesRepo from './calendarNotes';
+export * as calendarFeedsRepo from './calendarFeeds';
+export * as contentLogRepo from './contentLog';
+export * as contentEntriesRepo from './contentEntries';
+export * as contentOptionsRepo from './contentOptions';
+export * as contentItemsRepo from './contentItems';
+export * as liveManualLogRepo from './liveManualLog';
+export * as hostsRepo from './hosts';
+export * as liveShiftsRepo from './liveShifts';
+export * as payrollRepo from './payroll';
+export * as templatesRepo from './templates';
+export * as activityLogRepo from './activityLog';
+export * as userProfilesRepo from './userProfiles';
+export * as userTargetsRepo from './userTargets';
+export * as analyticsRepo from './analytics';
+export * as notificationsRepo from './notifications';
+
+export type { Project, ProjectStatus, ProjectOption } from './projects';
+export type { ProjectMember, ProjectMemberWithProfile, ProjectMembership, ProjectRole } from './projectMembers';
+export type { Task, TaskStatus, TaskWithProject } from './tasks';
+export type { TaskAssignee, TaskAssigneeWithProfile } from './taskAssignees';
+export type { TaskDependency } from './taskDependencies';
+export type { ChecklistItem } from './checklistItems';
+export type { TaskComment, TaskParticipant } from './taskComments';
+export type { Attachment, AttachmentParent } from './attachments';
+export type { TaskSeries } from './taskSeries';
+export type { CalendarNote } from './calendarNotes';
+export type { CalendarFeed } from './calendarFeeds';
+export type { ContentLog } from './contentLog';
+export type { ContentEntry, ContentEntryInput } from './contentEntries';
+export type { ContentOption, ContentOptionKind } from './contentOptions';
+export type { ContentItem, ContentItemInput, ContentStage } from './contentItems';
+export type { LiveManualLog } from './liveManualLog';
+export type { Host, HostTotals } from './hosts';
+export type { LiveShift, LiveShiftInput } from './liveShifts';
+export type { BonusTier, PayPeriod, PayrollLine, PayrollLineInput } from './payroll';
+export type { Template, TemplateCategory, TemplateType, TemplateWithUploader } from './templates';
+export type { ActivityLog } from './activityLog';
+export type { UserProfile, UserRole } from './userProfiles';
+export type { UserTarget, UserTargetInput } from './userTargets';
+export type { DailyTotals, LiveSalesTotals, MemberTotals, StatusCount, WeeklyTotals } from './analytics';
+export type { Notification, NotificationType } from './notifications';
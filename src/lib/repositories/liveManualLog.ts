@@ -0,0 +1,98 @@
+import { supabase, type Tables, type TablesInsert, type TablesUpdate } from '../supabase';
+import { toDateKey } from '../dates';
+import { run, timestamp, type DataScope, type DateRange } from './base';
+import type { Host } from './hosts';
+
+export type LiveManualLog = Tables<'live_manual_log'>;
+export type LiveManualLogInput = Omit<TablesInsert<'live_manual_log'>, 'user_id'>;
+
+export function list(scope: DataScope, range: DateRange = {}, ascending = false) {
+  let query = supabase.from('live_manual_log').select('*');
+
+  if (!scope.allUsers) {
+    query = query.eq('user_id', scope.userId);
+  }
+  if (range.from) {
+    query = query.gte('live_date', range.from);
+  }
+  if (range.to) {
+    query = query.lte('live_date', range.to);
+  }
+
+  return run('live_manual_log', 'select', query.order('live_date', { ascending }), [] as LiveManualLog[]);
+}
+
+export function create(scope: DataScope, values: LiveManualLogInput) {
+  return run(
+    'live_manual_log',
+    'insert',
+    supabase
+      .from('live_manual_log')
+      .insert([{ ...values, user_id: scope.userId }])
+      .select()
+      .single(),
+    null
+  );
+}
+
+export function update(id: string, values: TablesUpdate<'live_manual_log'>) {
+  return run(
+    'live_manual_log',
+    'update',
+    supabase
+      .from('live_manual_log')
+      .update({ ...values, updated_at: timestamp() })
+      .eq('id', id),
+    null
+  );
+}
+
+/**
+ * Starts a timed session dated today. Fails if the user already has one
+ * running (the database allows only one).
+ */
+export function start(scope: DataScope, host: Host, now = new Date()) {
+  return run(
+    'live_manual_log',
+    'insert',
+    supabase
+      .from('live_manual_log')
+      .insert([{
+        host_id: host.id,
+        host_name: host.name,
+        live_date: toDateKey(now),
+        total_hours: 0,
+        start_time: now.toISOString(),
+        user_id: scope.userId
+      }])
+      .select()
+      .single(),
+    null as LiveManualLog | null
+  );
+}
+
+export function pause(log: LiveManualLog, now = new Date()) {
+  return update(log.id, { paused_at: now.toISOString() });
+}
+
+export function resume(log: LiveManualLog, now = new Date()) {
+  return update(log.id, { paused_at: null, paused_seconds: log.paused_seconds + pausedFor(log, now) });
+}
+
+// total_hours is filled in by the database once the end time is set.
+export function stop(log: LiveManualLog, now = new Date()) {
+  return update(log.id, {
+    end_time: now.toISOString(),
+    paused_at: null,
+    paused_seconds: log.paused_seconds + pausedFor(log, now)
+  });
+}
+
+function pausedFor(log: LiveManualLog, now: Date): number {
+  if (!log.paused_at) return 0;
+  return Math.max(0, Math.round((now.getTime() - new Date(log.paused_at).getTime()) / 1000));
+}
+
+export function remove(id: string) {
+  return run('live_manual_log', 'delete', supabase.from('live_manual_log').delete().eq('id', id), null);
+}
@@ -0,0 +1,51 @@
+import { supabase, type Tables, type TablesInsert, type TablesUpdate } from '../supabase';
+import { run, timestamp, type DataScope, type DateRange } from './base';
+
+export type LiveShift = Tables<'live_shifts'>;
+export type LiveShiftInput = Omit<TablesInsert<'live_shifts'>, 'created_by'>;
+
+// Postgres exclusion_violation, raised when a shift would double-book a host.
+export const OVERLAP_ERROR_CODE = '23P01';
+
+// The roster is shared by the whole team.
+export function list(range: DateRange = {}) {
+  let query = supabase.from('live_shifts').select('*');
+
+  if (range.from) {
+    query = query.gte('shift_date', range.from);
+  }
+  if (range.to) {
+    query = query.lte('shift_date', range.to);
+  }
+
+  return run('live_shifts', 'select', query.order('shift_date').order('start_time'), [] as LiveShift[]);
+}
+
+export function create(scope: DataScope, values: LiveShiftInput) {
+  return run(
+    'live_shifts',
+    'insert',
+    supabase
+      .from('live_shifts')
+      .insert([{ ...values, created_by: scope.userId }])
+      .select()
+      .single(),
+    null as LiveShift | null
+  );
+}
+
+export function update(id: string, values: TablesUpdate<'live_shifts'>) {
+  return run(
+    'live_shifts',
+    'update',
+    supabase
+      .from('live_shifts')
+      .update({ ...values, updated_at: timestamp() })
+      .eq('id', id),
+    null
+  );
+}
+
+export function remove(id: string) {
+  return run('live_shifts', 'delete', supabase.from('live_shifts').delete().eq('id', id), null);
+}
@@ -0,0 +1,48 @@
+import { supabase, type Tables } from '../supabase';
+import { run, timestamp } from './base';
+
+export type Notification = Tables<'notifications'>;
+export type NotificationType = Notification['type'];
+
+export function list(userId: string, limit = 30) {
+  return run(
+    'notifications',
+    'select',
+    supabase
+      .from('notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit),
+    [] as Notification[]
+  );
+}
+
+export function markRead(id: string) {
+  return run(
+    'notifications',
+    'update',
+    supabase.from('notifications').update({ read_at: timestamp() }).eq('id', id).is('read_at', null),
+    null
+  );
+}
+
+export function markAllRead(userId: string) {
+  return run(
+    'notifications',
+    'update',
+    supabase.from('notifications').update({ read_at: timestamp() }).eq('user_id', userId).is('read_at', null),
+    null
+  );
+}
+
+// Adds due-tomorrow and overdue reminders for the signed-in user; reminders
+// already sent are skipped in Postgres. `today` is the user's local date.
+export function syncDue(today: string) {
+  return run(
+    'sync_due_notifications',
+    'insert',
+    supabase.rpc('sync_due_notifications', { p_today: today }),
+    null
+  );
+}
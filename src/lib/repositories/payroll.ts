@@ -0,0 +1,88 @@
+import { supabase, type Tables, type TablesInsert } from '../supabase';
+import { run, type DataScope } from './base';
+
+export type PayPeriod = Tables<'pay_periods'>;
+export type BonusTier = Tables<'payroll_bonus_tiers'>;
+export type PayrollLine = Tables<'payroll_lines'>;
+export type PayrollLineInput = Omit<TablesInsert<'payroll_lines'>, 'period_id'>;
+
+// Raised by the live_manual_log trigger for dates inside a locked period.
+export const PERIOD_LOCKED_ERROR_CODE = 'P0001';
+// Postgres exclusion_violation, raised when two periods overlap.
+export const OVERLAP_ERROR_CODE = '23P01';
+
+export function listPeriods() {
+  return run(
+    'pay_periods',
+    'select',
+    supabase.from('pay_periods').select('*').order('start_date', { ascending: false }),
+    [] as PayPeriod[]
+  );
+}
+
+export function createPeriod(scope: DataScope, startDate: string, endDate: string) {
+  return run(
+    'pay_periods',
+    'insert',
+    supabase
+      .from('pay_periods')
+      .insert([{ start_date: startDate, end_date: endDate, created_by: scope.userId }])
+      .select()
+      .single(),
+    null as PayPeriod | null
+  );
+}
+
+export function removePeriod(id: string) {
+  return run('pay_periods', 'delete', supabase.from('pay_periods').delete().eq('id', id), null);
+}
+
+/** Freezes the period's figures and locks it, in one transaction. */
+export function lockPeriod(period: PayPeriod, lines: PayrollLineInput[]) {
+  return run(
+    'lock_pay_period',
+    'update',
+    supabase.rpc('lock_pay_period', { p_period_id: period.id, p_lines: lines }),
+    null
+  );
+}
+
+export function unlockPeriod(period: PayPeriod) {
+  return run(
+    'unlock_pay_period',
+    'update',
+    supabase.rpc('unlock_pay_period', { p_period_id: period.id }),
+    null
+  );
+}
+
+export function listLines(periodId: string) {
+  return run(
+    'payroll_lines',
+    'select',
+    supabase.from('payroll_lines').select('*').eq('period_id', periodId).order('total_pay', { ascending: false }),
+    [] as PayrollLine[]
+  );
+}
+
+export function listTiers() {
+  return run(
+    'payroll_bonus_tiers',
+    'select',
+    supabase.from('payroll_bonus_tiers').select('*').order('min_hours'),
+    [] as BonusTier[]
+  );
+}
+
+export function createTier(minHours: number, bonus: number) {
+  return run(
+    'payroll_bonus_tiers',
+    'insert',
+    supabase.from('payroll_bonus_tiers').insert([{ min_hours: minHours, bonus }]),
+    null
+  );
+}
+
+export function removeTier(id: string) {
+  return run('payroll_bonus_tiers', 'delete', supabase.from('payroll_bonus_tiers').delete().eq('id', id), null);
+}
@@ -0,0 +1,81 @@
+import { supabase, type Tables } from '../supabase';
+import { run } from './base';
+
+export type ProjectMember = Tables<'project_members'>;
+export type ProjectRole = ProjectMember['role'];
+export type ProjectMemberWithProfile = ProjectMember & { user_profiles: { nama: string } | null };
+export type ProjectMembership = Pick<ProjectMember, 'project_id' | 'role'>;
+
+// Raised by invite_project_member when no account uses the email.
+export const USER_NOT_FOUND_ERROR_CODE = 'P0002';
+// Raised by the project_members trigger when the creator would stop being an owner.
+export const CREATOR_ERROR_CODE = 'P0001';
+
+export function list(projectId: string) {
+  return run(
+    'project_members',
+    'select',
+    supabase
+      .from('project_members')
+      .select(`
+        *,
+        user_profiles!project_members_user_id_fkey (nama)
+      `)
+      .eq('project_id', projectId)
+      .order('created_at'),
+    [] as ProjectMemberWithProfile[]
+  );
+}
+
+// The user's own role in every project they belong to.
+export function listMine(userId: string) {
+  return run(
+    'project_members',
+    'select',
+    supabase.from('project_members').select('project_id, role').eq('user_id', userId),
+    [] as ProjectMembership[]
+  );
+}
+
+/** Adds a registered user by email, or changes their role if already a member. */
+export function invite(projectId: string, email: string, role: ProjectRole) {
+  return run(
+    'invite_project_member',
+    'insert',
+    supabase.rpc('invite_project_member', { p_project_id: projectId, p_email: email, p_role: role }),
+    null
+  );
+}
+
+export function updateRole(projectId: string, userId: string, role: ProjectRole) {
+  return run(
+    'project_members',
+    'update',
+    supabase.from('project_members').update({ role }).eq('project_id', projectId).eq('user_id', userId),
+    null
+  );
+}
+
+// Also used to leave a project.
+export function remove(projectId: string, userId: string) {
+  return run(
+    'project_members',
+    'delete',
+    supabase.from('project_members').delete().eq('project_id', projectId).eq('user_id', userId),
+    null
+  );
+}
+
+export function rolesByProject(memberships: ProjectMembership[]): Map<string, ProjectRole> {
+  return new Map(memberships.map(membership => [membership.project_id, membership.role]));
+}
+
+export function canEditProject(role: ProjectRole | undefined): boolean {
+  return role === 'owner' || role === 'editor';
+}
+
+export const roleLabels: Record<ProjectRole, string> = {
+  owner: 'Pemilik',
+  editor: 'Penyunting',
+  viewer: 'Pemerhati'
+};
@@ -0,0 +1,65 @@
+import { supabase, type Tables, type TablesInsert, type TablesUpdate } from '../supabase';
+import { run, runCount, timestamp, type DataScope } from './base';
+
+export type Project = Tables<'projects'>;
+export type ProjectStatus = Project['status'];
+export type ProjectOption = Pick<Project, 'id' | 'name'>;
+export type ProjectInput = Omit<TablesInsert<'projects'>, 'user_id'>;
+
+// Projects the user created or was added to as a member; the `my_projects`
+// view works that out. It has the same columns and relationships as
+// `projects`, so it is queried as one.
+const source = (scope: DataScope) => (scope.allUsers ? 'projects' : 'my_projects');
+
+export function list(scope: DataScope) {
+  const table = source(scope);
+
+  return run(
+    table,
+    'select',
+    supabase.from(table as 'projects').select('*').order('created_at', { ascending: false }),
+    [] as Project[]
+  );
+}
+
+// Lightweight list for project pickers and filters.
+export function listOptions(scope: DataScope) {
+  const table = source(scope);
+
+  return run(table, 'select', supabase.from(table as 'projects').select('id, name').order('name'), [] as ProjectOption[]);
+}
+
+export function count(scope: DataScope) {
+  const table = source(scope);
+
+  return runCount(table, supabase.from(table as 'projects').select('*', { count: 'exact', head: true }));
+}
+
+export function create(scope: DataScope, values: ProjectInput) {
+  return run(
+    'projects',
+    'insert',
+    supabase
+      .from('projects')
+      .insert([{ ...values, user_id: scope.userId }])
+      .select()
+      .single(),
+    null
+  );
+}
+
+export function update(id: string, values: TablesUpdate<'projects'>) {
+  return run(
+    'projects',
+    'update',
+    supabase
+      .from('projects')
+      .update({ ...values, updated_at: timestamp() })
+      .eq('id', id),
+    null
+  );
+}
+
+export function remove(id: string) {
+  return run('projects', 'delete', supabase.from('projects').delete().eq('id', id), null);
+}
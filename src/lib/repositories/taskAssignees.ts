@@ -0,0 +1,72 @@
+import { supabase, type Tables } from '../supabase';
+import { run, type RepositoryResult } from './base';
+
+export type TaskAssignee = Tables<'task_assignees'>;
+export type TaskAssigneeWithProfile = TaskAssignee & { user_profiles: { nama: string } | null };
+
+// RLS returns only assignees of tasks the user can access.
+export function list() {
+  return run(
+    'task_assignees',
+    'select',
+    supabase
+      .from('task_assignees')
+      .select(`
+        *,
+        user_profiles!task_assignees_user_id_fkey (nama)
+      `)
+      .order('created_at'),
+    [] as TaskAssigneeWithProfile[]
+  );
+}
+
+/**
+ * Replaces the assignees of `taskId` with exactly `userIds`. The database
+ * keeps `tasks.assigned_to` pointing at one of them.
+ */
+export async function setAssignees(
+  assignedBy: string,
+  taskId: string,
+  current: string[],
+  userIds: string[]
+): Promise<RepositoryResult<null>> {
+  const removed = current.filter(id => !userIds.includes(id));
+  const added = userIds.filter(id => !current.includes(id));
+
+  if (removed.length > 0) {
+    const result = await run(
+      'task_assignees',
+      'delete',
+      supabase
+        .from('task_assignees')
+        .delete()
+        .eq('task_id', taskId)
+        .in('user_id', removed),
+      null
+    );
+    if (result.error) return result;
+  }
+
+  if (added.length > 0) {
+    return run(
+      'task_assignees',
+      'insert',
+      supabase
+        .from('task_assignees')
+        .insert(added.map(userId => ({ task_id: taskId, user_id: userId, assigned_by: assignedBy }))),
+      null
+    );
+  }
+
+  return { data: null, error: null };
+}
+
+export function groupByTask(assignees: TaskAssigneeWithProfile[]): Map<string, TaskAssigneeWithProfile[]> {
+  const grouped = new Map<string, TaskAssigneeWithProfile[]>();
+
+  assignees.forEach(assignee => {
+    grouped.set(assignee.task_id, [...(grouped.get(assignee.task_id) || []), assignee]);
+  });
+
+  return grouped;
+}
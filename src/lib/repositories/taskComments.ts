@@ -0,0 +1,48 @@
+import { supabase, type FunctionReturns, type Tables } from '../supabase';
+import { run, timestamp } from './base';
+
+export type TaskComment = Tables<'task_comments'>;
+export type TaskParticipant = FunctionReturns<'task_participants'>[number];
+
+// RLS returns comments only for tasks the user can read.
+export function list(taskId: string) {
+  return run(
+    'task_comments',
+    'select',
+    supabase.from('task_comments').select('*').eq('task_id', taskId).order('created_at'),
+    [] as TaskComment[]
+  );
+}
+
+// `mentions` is filled in from the body by a database trigger
+export function create(userId: string, taskId: string, body: string) {
+  return run(
+    'task_comments',
+    'insert',
+    supabase.from('task_comments').insert([{ user_id: userId, task_id: taskId, body }]),
+    null
+  );
+}
+
+export function update(id: string, body: string) {
+  return run(
+    'task_comments',
+    'update',
+    supabase.from('task_comments').update({ body, edited_at: timestamp() }).eq('id', id),
+    null
+  );
+}
+
+export function remove(id: string) {
+  return run('task_comments', 'delete', supabase.from('task_comments').delete().eq('id', id), null);
+}
+
+/** Names for the thread and the @mention autocomplete. */
+export function participants(taskId: string) {
+  return run(
+    'task_participants',
+    'select',
+    supabase.rpc('task_participants', { p_task_id: taskId }),
+    [] as TaskParticipant[]
+  );
+}
@@ -0,0 +1,94 @@
+import { supabase, type Tables } from '../supabase';
+import { run, type RepositoryResult } from './base';
+import type { TaskStatus } from './tasks';
+
+export type TaskDependency = Tables<'task_dependencies'>;
+
+// RLS returns only dependencies of tasks the user can access.
+export function list() {
+  return run('task_dependencies', 'select', supabase.from('task_dependencies').select('*'), [] as TaskDependency[]);
+}
+
+/** Replaces the predecessors of `taskId` with exactly `predecessorIds`. */
+export async function setPredecessors(
+  taskId: string,
+  current: string[],
+  predecessorIds: string[]
+): Promise<RepositoryResult<null>> {
+  const removed = current.filter(id => !predecessorIds.includes(id));
+  const added = predecessorIds.filter(id => !current.includes(id));
+
+  if (removed.length > 0) {
+    const result = await run(
+      'task_dependencies',
+      'delete',
+      supabase
+        .from('task_dependencies')
+        .delete()
+        .eq('task_id', taskId)
+        .in('depends_on', removed),
+      null
+    );
+    if (result.error) return result;
+  }
+
+  if (added.length > 0) {
+    return run(
+      'task_dependencies',
+      'insert',
+      supabase
+        .from('task_dependencies')
+        .insert(added.map(dependsOn => ({ task_id: taskId, depends_on: dependsOn }))),
+      null
+    );
+  }
+
+  return { data: null, error: null };
+}
+
+export function predecessorsOf(dependencies: TaskDependency[], taskId: string): string[] {
+  return dependencies.filter(dep => dep.task_id === taskId).map(dep => dep.depends_on);
+}
+
+/**
+ * Whether making `taskId` depend on `predecessorId` would close a loop, i.e.
+ * `predecessorId` already (transitively) depends on `taskId`. Mirrors the
+ * check_task_dependency trigger so the picker can disable those options.
+ */
+export function wouldCreateCycle(dependencies: TaskDependency[], taskId: string, predecessorId: string): boolean {
+  if (taskId === predecessorId) return true;
+
+  const visited = new Set<string>();
+  const stack = [predecessorId];
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === taskId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    stack.push(...predecessorsOf(dependencies, current));
+  }
+
+  return false;
+}
+
+/**
+ * Maps each blocked task id to the ids of its predecessors that are not yet
+ * Completed. Predecessors the user cannot see are ignored.
+ */
+export function blockersByTask(
+  dependencies: TaskDependency[],
+  tasks: { id: string; status: TaskStatus }[]
+): Map<string, string[]> {
+  const statusById = new Map(tasks.map(task => [task.id, task.status]));
+  const blockers = new Map<string, string[]>();
+
+  dependencies.forEach(dep => {
+    const status = statusById.get(dep.depends_on);
+    if (status && status !== 'Completed') {
+      blockers.set(dep.task_id, [...(blockers.get(dep.task_id) || []), dep.depends_on]);
+    }
+  });
+
+  return blockers;
+}
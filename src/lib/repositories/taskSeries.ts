@@ -0,0 +1,193 @@
+import { addDays, subDays } from 'date-fns';
+import { supabase, type Tables, type TablesInsert, type TablesUpdate } from '../supabase';
+import { toDateKey } from '../dates';
+import { occurrences, sameSchedule } from '../recurrence';
+import { run, timestamp, type DataScope, type RepositoryResult } from './base';
+
+export type TaskSeries = Tables<'task_series'>;
+export type TaskSeriesInput = Omit<TablesInsert<'task_series'>, 'user_id'>;
+
+// How far ahead occurrences are created as real tasks. Later ones are only
+// projected (e.g. on the calendar) until the window reaches them.
+export const GENERATION_WINDOW_DAYS = 14;
+
+export function list(scope: DataScope) {
+  let query = supabase.from('task_series').select('*');
+
+  if (!scope.allUsers) {
+    query = query.or(`user_id.eq.${scope.userId},assigned_to.eq.${scope.userId}`);
+  }
+
+  return run('task_series', 'select', query.order('created_at'), [] as TaskSeries[]);
+}
+
+export function create(scope: DataScope, values: TaskSeriesInput) {
+  return run(
+    'task_series',
+    'insert',
+    supabase
+      .from('task_series')
+      .insert([{ ...values, user_id: scope.userId }])
+      .select()
+      .single(),
+    null as TaskSeries | null
+  );
+}
+
+function updateRow(id: string, values: TablesUpdate<'task_series'>) {
+  return run(
+    'task_series',
+    'update',
+    supabase
+      .from('task_series')
+      .update({ ...values, updated_at: timestamp() })
+      .eq('id', id),
+    null
+  );
+}
+
+export function generationHorizon(today = new Date()): string {
+  return toDateKey(addDays(today, GENERATION_WINDOW_DAYS));
+}
+
+/**
+ * Creates the series' tasks that fall inside the generation window and have
+ * not been generated yet. Safe to run from several clients at once: the
+ * unique (series_id, occurrence_date) index makes repeats no-ops.
+ */
+export async function materialise(series: TaskSeries, today = new Date()): Promise<RepositoryResult<number>> {
+  const horizon = generationHorizon(today);
+  if (series.generated_until && series.generated_until >= horizon) {
+    return { data: 0, error: null };
+  }
+
+  const dates = occurrences(series, horizon)
+    .filter(date => !series.generated_until || date > series.generated_until);
+
+  if (dates.length > 0) {
+    const result = await run(
+      'tasks',
+      'insert',
+      supabase.from('tasks').upsert(
+        dates.map(date => ({
+          title: series.title,
+          project_id: series.project_id,
+          assigned_to: series.assigned_to,
+          user_id: series.user_id,
+          due_date: date,
+          occurrence_date: date,
+          series_id: series.id
+        })),
+        { onConflict: 'series_id,occurrence_date', ignoreDuplicates: true }
+      ),
+      null
+    );
+    if (result.error) return result;
+  }
+
+  const result = await updateRow(series.id, { generated_until: horizon });
+  if (result.error) return result;
+
+  return { data: dates.length, error: null };
+}
+
+/**
+ * Edits the whole series. Template changes are copied to upcoming tasks that
+ * were not edited on their own; a schedule change replaces upcoming tasks that
+ * have not been started with ones on the new schedule.
+ */
+export async function updateSeries(
+  series: TaskSeries,
+  values: TablesUpdate<'task_series'>,
+  today = new Date()
+): Promise<RepositoryResult<null>> {
+  const updated = { ...series, ...values } as TaskSeries;
+  const todayKey = toDateKey(today);
+  const rescheduled = !sameSchedule(series, updated);
+
+  const seriesResult = await updateRow(series.id, {
+    ...values,
+    // Regenerate from today; past occurrences stay as they are
+    ...(rescheduled ? { generated_until: toDateKey(subDays(today, 1)) } : {})
+  });
+  if (seriesResult.error) return seriesResult;
+
+  if (rescheduled) {
+    const result = await run(
+      'tasks',
+      'delete',
+      supabase
+        .from('tasks')
+        .delete()
+        .eq('series_id', series.id)
+        .eq('is_exception', false)
+        .eq('status', 'Not Started')
+        .gte('occurrence_date', todayKey),
+      null
+    );
+    if (result.error) return result;
+  }
+
+  const templateResult = await run(
+    'tasks',
+    'update',
+    supabase
+      .from('tasks')
+      .update({
+        title: updated.title,
+        project_id: updated.project_id,
+        assigned_to: updated.assigned_to,
+        updated_at: timestamp()
+      })
+      .eq('series_id', series.id)
+      .eq('is_exception', false)
+      .neq('status', 'Completed')
+      .gte('occurrence_date', todayKey),
+    null
+  );
+  if (templateResult.error) return templateResult;
+
+  if (rescheduled) {
+    const result = await materialise(
+      { ...updated, generated_until: toDateKey(subDays(today, 1)) },
+      today
+    );
+    if (result.error) return result;
+  }
+
+  return { data: null, error: null };
+}
+
+/** Deletes one occurrence and records it so the generator skips that date. */
+export async function removeOccurrence(
+  series: TaskSeries,
+  taskId: string,
+  occurrenceDate: string
+): Promise<RepositoryResult<null>> {
+  const result = await updateRow(series.id, {
+    exdates: [...series.exdates.filter(date => date !== occurrenceDate), occurrenceDate]
+  });
+  if (result.error) return result;
+
+  return run('tasks', 'delete', supabase.from('tasks').delete().eq('id', taskId), null);
+}
+
+/**
+ * Deletes the series with its unfinished tasks. Completed tasks are kept as
+ * history and become ordinary tasks.
+ */
+export async function remove(id: string): Promise<RepositoryResult<null>> {
+  const result = await run(
+    'tasks',
+    'delete',
+    supabase
+      .from('tasks')
+      .delete()
+      .eq('series_id', id)
+      .neq('status', 'Completed'),
+    null
+  );
+  if (result.error) return result;
+
+  return run('task_series', 'delete', supabase.from('task_series').delete().eq('id', id), null);
+}
@@ -0,0 +1,115 @@
+import { supabase, type Tables, type TablesInsert, type TablesUpdate } from '../supabase';
+import { run, runCount, timestamp, type DataScope } from './base';
+
+export type Task = Tables<'tasks'>;
+export type TaskStatus = Task['status'];
+export type TaskWithProject = Task & { projects: { name: string } | null };
+export type TaskInput = Omit<TablesInsert<'tasks'>, 'user_id'>;
+
+// Users see tasks they created or are assigned to, and every task in the
+// projects they are a member of; the `my_tasks` view works that out. It has
+// the same columns and relationships as `tasks`, so it is queried as one.
+const source = (scope: DataScope) => (scope.allUsers ? 'tasks' : 'my_tasks');
+
+export function list(scope: DataScope) {
+  const table = source(scope);
+
+  return run(
+    table,
+    'select',
+    supabase
+      .from(table as 'tasks')
+      .select(`
+        *,
+        projects (name)
+      `)
+      .order('created_at', { ascending: false }),
+    [] as TaskWithProject[]
+  );
+}
+
+export function count(scope: DataScope, status?: TaskStatus) {
+  const table = source(scope);
+  let query = supabase.from(table as 'tasks').select('*', { count: 'exact', head: true });
+
+  if (status) {
+    query = query.eq('status', status);
+  }
+
+  return runCount(table, query);
+}
+
+export function create(scope: DataScope, values: TaskInput) {
+  return run(
+    'tasks',
+    'insert',
+    supabase
+      .from('tasks')
+      .insert([{ ...values, user_id: scope.userId }])
+      .select()
+      .single(),
+    null as Task | null
+  );
+}
+
+export function update(id: string, values: TablesUpdate<'tasks'>) {
+  return run(
+    'tasks',
+    'update',
+    supabase
+      .from('tasks')
+      .update({ ...values, updated_at: timestamp() })
+      .eq('id', id),
+    null
+  );
+}
+
+export function remove(id: string) {
+  return run('tasks', 'delete', supabase.from('tasks').delete().eq('id', id), null);
+}
+
+// UIDs of the user's tasks that came from an .ics import.
+export function listImportedUids(scope: DataScope) {
+  return run(
+    'tasks',
+    'select',
+    supabase
+      .from('tasks')
+      .select('ical_uid')
+      .eq('user_id', scope.userId)
+      .not('ical_uid', 'is', null),
+    [] as { ical_uid: string | null }[]
+  );
+}
+
+/**
+ * Inserts imported tasks. A task imported before under the same UID is
+ * updated instead, keeping its status and progress.
+ */
+export function importMany(scope: DataScope, values: (Omit<TaskInput, 'ical_uid'> & { ical_uid: string })[]) {
+  return run(
+    'tasks',
+    'insert',
+    supabase
+      .from('tasks')
+      .upsert(
+        values.map(task => ({ ...task, user_id: scope.userId, updated_at: timestamp() })),
+        { onConflict: 'user_id,ical_uid' }
+      ),
+    null
+  );
+}
+
+export function statusForProgress(progress: number): TaskStatus {
+  if (progress >= 100) return 'Completed';
+  if (progress > 0) return 'Ongoing';
+  return 'Not Started';
+}
+
+// Inverse of statusForProgress, used when a task is moved between board columns.
+// Ongoing tasks keep their progress unless it would contradict the new status.
+export function progressForStatus(status: TaskStatus, current: number): number {
+  if (status === 'Not Started') return 0;
+  if (status === 'Completed') return 100;
+  return current > 0 && current < 100 ? current : 50;
+}
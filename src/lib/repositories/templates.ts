@@ -0,0 +1,57 @@
+import { supabase, type Tables, type TablesInsert, type TablesUpdate } from '../supabase';
+import { run, timestamp, type DataScope } from './base';
+
+export type Template = Tables<'templates'>;
+export type TemplateCategory = Template['category'];
+export type TemplateType = Template['type'];
+export type TemplateWithUploader = Template & { user_profiles: { nama: string } | null };
+export type TemplateInput = Omit<TablesInsert<'templates'>, 'uploaded_by' | 'uploaded_at'>;
+
+// Templates are a shared library, so every user sees every row.
+export function list() {
+  return run(
+    'templates',
+    'select',
+    supabase
+      .from('templates')
+      .select(`
+        *,
+        user_profiles (nama)
+      `)
+      .order('created_at', { ascending: false }),
+    [] as TemplateWithUploader[]
+  );
+}
+
+export function create(scope: DataScope, values: TemplateInput) {
+  return run(
+    'templates',
+    'insert',
+    supabase
+      .from('templates')
+      .insert([{
+        ...values,
+        uploaded_by: scope.userId,
+        uploaded_at: new Date().toISOString().split('T')[0]
+      }])
+      .select()
+      .single(),
+    null
+  );
+}
+
+export function update(id: string, values: TablesUpdate<'templates'>) {
+  return run(
+    'templates',
+    'update',
+    supabase
+      .from('templates')
+      .update({ ...values, updated_at: timestamp() })
+      .eq('id', id),
+    null
+  );
+}
+
+export function remove(id: string) {
+  return run('templates', 'delete', supabase.from('templates').delete().eq('id', id), null);
+}
@@ -0,0 +1,53 @@
+import { supabase, type Tables, type TablesUpdate } from '../supabase';
+import { run, timestamp } from './base';
+
+export type UserProfile = Tables<'user_profiles'>;
+export type UserRole = UserProfile['role'];
+
+export function get(id: string) {
+  return run(
+    'user_profiles',
+    'select',
+    supabase.from('user_profiles').select('*').eq('id', id).maybeSingle(),
+    null
+  );
+}
+
+// Only returns every profile for admins; RLS limits everyone else to their own.
+export function listAll() {
+  return run(
+    'user_profiles',
+    'select',
+    supabase.from('user_profiles').select('*').order('created_at', { ascending: false }),
+    [] as UserProfile[]
+  );
+}
+
+export function create(id: string, nama: string) {
+  return run(
+    'user_profiles',
+    'insert',
+    supabase
+      .from('user_profiles')
+      .insert([{ id, nama, role: 'user' }])
+      .select()
+      .single(),
+    null
+  );
+}
+
+export function update(id: string, values: TablesUpdate<'user_profiles'>) {
+  return run(
+    'user_profiles',
+    'update',
+    supabase
+      .from('user_profiles')
+      .update({ ...values, updated_at: timestamp() })
+      .eq('id', id),
+    null
+  );
+}
+
+export function remove(id: string) {
+  return run('user_profiles', 'delete', supabase.from('user_profiles').delete().eq('id', id), null);
+}
@@ -0,0 +1,33 @@
+import { supabase, type Tables } from '../supabase';
+import { run, timestamp, type DataScope } from './base';
+
+export type UserTarget = Tables<'user_targets'>;
+export type UserTargetInput = Pick<
+  UserTarget,
+  'daily_content' | 'weekly_content' | 'daily_live_hours' | 'weekly_live_hours'
+>;
+
+export function get(userId: string) {
+  return run(
+    'user_targets',
+    'select',
+    supabase.from('user_targets').select('*').eq('user_id', userId).maybeSingle(),
+    null as UserTarget | null
+  );
+}
+
+// Admins only; RLS returns just the user's own row to everyone else.
+export function listAll() {
+  return run('user_targets', 'select', supabase.from('user_targets').select('*'), [] as UserTarget[]);
+}
+
+export function save(scope: DataScope, userId: string, values: UserTargetInput) {
+  return run(
+    'user_targets',
+    'insert',
+    supabase
+      .from('user_targets')
+      .upsert({ ...values, user_id: userId, updated_by: scope.userId, updated_at: timestamp() }),
+    null
+  );
+}
@@ -9,7 +9,7 @@ if (!supabaseUrl || !supabaseKey) {
   console.error('VITE_SUPABASE_ANON_KEY:', supabaseKey ? 'Set' : 'Missing');
 }
 
-export const supabase = createClient(
+export const supabase = createClient<Database>(
   supabaseUrl || 'https://placeholder.supabase.co',
   supabaseKey || 'placeholder-key',
   {
@@ -26,6 +26,8 @@ export const supabase = createClient(
   }
 );
 
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];
+
 export type Database = {
   public: {
     Tables: {
@@ -34,6 +36,7 @@ export type Database = {
           id: string;
           nama: string;
           role: 'admin' | 'user';
+          email_digest: boolean;
           created_at: string;
           updated_at: string;
         };
@@ -41,6 +44,7 @@ export type Database = {
           id?: string;
           nama?: string;
           role?: 'admin' | 'user';
+          email_digest?: boolean;
           created_at?: string;
           updated_at?: string;
         };
@@ -48,8 +52,10 @@ export type Database = {
           id?: string;
           nama?: string;
           role?: 'admin' | 'user';
+          email_digest?: boolean;
           updated_at?: string;
         };
+        Relationships: [];
       };
       projects: {
         Row: {
@@ -80,6 +86,15 @@ export type Database = {
           status?: 'Not Started' | 'Ongoing' | 'Completed';
           updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'projects_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          }
+        ];
       };
       tasks: {
         Row: {
@@ -91,6 +106,10 @@ export type Database = {
           assigned_to: string | null;
           progress: number;
           user_id: string | null;
+          series_id: string | null;
+          occurrence_date: string | null;
+          is_exception: boolean;
+          ical_uid: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -103,6 +122,10 @@ export type Database = {
           assigned_to?: string | null;
           progress?: number;
           user_id?: string | null;
+          series_id?: string | null;
+          occurrence_date?: string | null;
+          is_exception?: boolean;
+          ical_uid?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -114,8 +137,42 @@ export type Database = {
           status?: 'Not Started' | 'Ongoing' | 'Completed';
           assigned_to?: string | null;
           progress?: number;
+          series_id?: string | null;
+          occurrence_date?: string | null;
+          is_exception?: boolean;
+          ical_uid?: string | null;
           updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'tasks_project_id_fkey';
+            columns: ['project_id'];
+            isOneToOne: false;
+            referencedRelation: 'projects';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'tasks_assigned_to_fkey';
+            columns: ['assigned_to'];
+            isOneToOne: false;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'tasks_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'tasks_series_id_fkey';
+            columns: ['series_id'];
+            isOneToOne: false;
+            referencedRelation: 'task_series';
+            referencedColumns: ['id'];
+          }
+        ];
       };
       calendar_notes: {
         Row: {
@@ -123,6 +180,9 @@ export type Database = {
           user_id: string | null;
           note_date: string;
           note: string;
+          start_time: string | null;
+          end_time: string | null;
+          ical_uid: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -131,14 +191,30 @@ export type Database = {
           user_id?: string | null;
           note_date: string;
           note: string;
+          start_time?: string | null;
+          end_time?: string | null;
+          ical_uid?: string | null;
           created_at?: string;
           updated_at?: string;
         };
         Update: {
           id?: string;
+          note_date?: string;
           note?: string;
+          start_time?: string | null;
+          end_time?: string | null;
+          ical_uid?: string | null;
           updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'calendar_notes_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          }
+        ];
       };
       content_log: {
         Row: {
@@ -162,6 +238,15 @@ export type Database = {
           content_count?: number;
           updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'content_log_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          }
+        ];
       };
       live_log: {
         Row: {
@@ -191,14 +276,32 @@ export type Database = {
           total_hours?: number;
           updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'live_log_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          }
+        ];
       };
       live_manual_log: {
         Row: {
           id: string;
           user_id: string | null;
           host_name: string;
+          host_id: string | null;
           live_date: string;
           total_hours: number;
+          start_time: string | null;
+          end_time: string | null;
+          paused_at: string | null;
+          paused_seconds: number;
+          platform: string | null;
+          peak_viewers: number | null;
+          orders: number | null;
+          revenue: number | null;
           created_at: string;
           updated_at: string;
         };
@@ -206,18 +309,52 @@ export type Database = {
           id?: string;
           user_id?: string | null;
           host_name: string;
+          host_id?: string | null;
           live_date: string;
           total_hours: number;
+          start_time?: string | null;
+          end_time?: string | null;
+          paused_at?: string | null;
+          paused_seconds?: number;
+          platform?: string | null;
+          peak_viewers?: number | null;
+          orders?: number | null;
+          revenue?: number | null;
           created_at?: string;
           updated_at?: string;
         };
         Update: {
           id?: string;
           host_name?: string;
+          host_id?: string | null;
           live_date?: string;
           total_hours?: number;
+          start_time?: string | null;
+          end_time?: string | null;
+          paused_at?: string | null;
+          paused_seconds?: number;
+          platform?: string | null;
+          peak_viewers?: number | null;
+          orders?: number | null;
+          revenue?: number | null;
           updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'live_manual_log_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'live_manual_log_host_id_fkey';
+            columns: ['host_id'];
+            isOneToOne: false;
+            referencedRelation: 'hosts';
+            referencedColumns: ['id'];
+          }
+        ];
       };
       templates: {
         Row: {
@@ -250,6 +387,15 @@ export type Database = {
           file_url?: string | null;
           updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'templates_uploaded_by_fkey';
+            columns: ['uploaded_by'];
+            isOneToOne: false;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          }
+        ];
       };
       activity_log: {
         Row: {
@@ -268,7 +414,898 @@ export type Database = {
           id?: string;
           action?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'activity_log_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      task_dependencies: {
+        Row: {
+          id: string;
+          task_id: string;
+          depends_on: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          task_id: string;
+          depends_on: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          task_id?: string;
+          depends_on?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'task_dependencies_task_id_fkey';
+            columns: ['task_id'];
+            isOneToOne: false;
+            referencedRelation: 'tasks';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'task_dependencies_depends_on_fkey';
+            columns: ['depends_on'];
+            isOneToOne: false;
+            referencedRelation: 'tasks';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      task_checklist_items: {
+        Row: {
+          id: string;
+          task_id: string;
+          title: string;
+          is_done: boolean;
+          position: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          task_id: string;
+          title: string;
+          is_done?: boolean;
+          position?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          task_id?: string;
+          title?: string;
+          is_done?: boolean;
+          position?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'task_checklist_items_task_id_fkey';
+            columns: ['task_id'];
+            isOneToOne: false;
+            referencedRelation: 'tasks';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      task_series: {
+        Row: {
+          id: string;
+          title: string;
+          project_id: string | null;
+          assigned_to: string | null;
+          frequency: 'daily' | 'weekly' | 'monthly';
+          interval: number;
+          weekdays: number[];
+          month_day: number | null;
+          start_date: string;
+          until_date: string | null;
+          occurrence_count: number | null;
+          exdates: string[];
+          generated_until: string | null;
+          user_id: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          title: string;
+          project_id?: string | null;
+          assigned_to?: string | null;
+          frequency: 'daily' | 'weekly' | 'monthly';
+          interval?: number;
+          weekdays?: number[];
+          month_day?: number | null;
+          start_date: string;
+          until_date?: string | null;
+          occurrence_count?: number | null;
+          exdates?: string[];
+          generated_until?: string | null;
+          user_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          title?: string;
+          project_id?: string | null;
+          assigned_to?: string | null;
+          frequency?: 'daily' | 'weekly' | 'monthly';
+          interval?: number;
+          weekdays?: number[];
+          month_day?: number | null;
+          start_date?: string;
+          until_date?: string | null;
+          occurrence_count?: number | null;
+          exdates?: string[];
+          generated_until?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'task_series_project_id_fkey';
+            columns: ['project_id'];
+            isOneToOne: false;
+            referencedRelation: 'projects';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'task_series_assigned_to_fkey';
+            columns: ['assigned_to'];
+            isOneToOne: false;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'task_series_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      calendar_feeds: {
+        Row: {
+          user_id: string;
+          token: string;
+          created_at: string;
+        };
+        Insert: {
+          user_id: string;
+          token?: string;
+          created_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          token?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'calendar_feeds_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: true;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      hosts: {
+        Row: {
+          id: string;
+          name: string;
+          user_profile_id: string | null;
+          is_active: boolean;
+          hourly_rate: number;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          user_profile_id?: string | null;
+          is_active?: boolean;
+          hourly_rate?: number;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          user_profile_id?: string | null;
+          is_active?: boolean;
+          hourly_rate?: number;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'hosts_user_profile_id_fkey';
+            columns: ['user_profile_id'];
+            isOneToOne: false;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'hosts_created_by_fkey';
+            columns: ['created_by'];
+            isOneToOne: false;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      live_shifts: {
+        Row: {
+          id: string;
+          host_id: string;
+          shift_date: string;
+          start_time: string;
+          end_time: string;
+          platform: string;
+          notes: string | null;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          host_id: string;
+          shift_date: string;
+          start_time: string;
+          end_time: string;
+          platform: string;
+          notes?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          host_id?: string;
+          shift_date?: string;
+          start_time?: string;
+          end_time?: string;
+          platform?: string;
+          notes?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'live_shifts_host_id_fkey';
+            columns: ['host_id'];
+            isOneToOne: false;
+            referencedRelation: 'hosts';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'live_shifts_created_by_fkey';
+            columns: ['created_by'];
+            isOneToOne: false;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      pay_periods: {
+        Row: {
+          id: string;
+          start_date: string;
+          end_date: string;
+          status: 'open' | 'locked';
+          locked_at: string | null;
+          locked_by: string | null;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          start_date: string;
+          end_date: string;
+          status?: 'open' | 'locked';
+          locked_at?: string | null;
+          locked_by?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          start_date?: string;
+          end_date?: string;
+          status?: 'open' | 'locked';
+          locked_at?: string | null;
+          locked_by?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'pay_periods_locked_by_fkey';
+            columns: ['locked_by'];
+            isOneToOne: false;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'pay_periods_created_by_fkey';
+            columns: ['created_by'];
+            isOneToOne: false;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      payroll_bonus_tiers: {
+        Row: {
+          id: string;
+          min_hours: number;
+          bonus: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          min_hours: number;
+          bonus: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          min_hours?: number;
+          bonus?: number;
+        };
+        Relationships: [];
+      };
+      payroll_lines: {
+        Row: {
+          id: string;
+          period_id: string;
+          host_id: string | null;
+          host_name: string;
+          sessions: number;
+          total_hours: number;
+          hourly_rate: number;
+          base_pay: number;
+          bonus: number;
+          total_pay: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          period_id: string;
+          host_id?: string | null;
+          host_name: string;
+          sessions?: number;
+          total_hours?: number;
+          hourly_rate?: number;
+          base_pay?: number;
+          bonus?: number;
+          total_pay?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          period_id?: string;
+          host_id?: string | null;
+          host_name?: string;
+          sessions?: number;
+          total_hours?: number;
+          hourly_rate?: number;
+          base_pay?: number;
+          bonus?: number;
+          total_pay?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'payroll_lines_period_id_fkey';
+            columns: ['period_id'];
+            isOneToOne: false;
+            referencedRelation: 'pay_periods';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'payroll_lines_host_id_fkey';
+            columns: ['host_id'];
+            isOneToOne: false;
+            referencedRelation: 'hosts';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      content_options: {
+        Row: {
+          id: string;
+          kind: 'platform' | 'type';
+          name: string;
+          sort_order: number;
+          is_active: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          kind: 'platform' | 'type';
+          name: string;
+          sort_order?: number;
+          is_active?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          kind?: 'platform' | 'type';
+          name?: string;
+          sort_order?: number;
+          is_active?: boolean;
+        };
+        Relationships: [];
+      };
+      content_entries: {
+        Row: {
+          id: string;
+          user_id: string;
+          log_date: string;
+          platform: string | null;
+          content_type: string | null;
+          count: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          log_date: string;
+          platform?: string | null;
+          content_type?: string | null;
+          count: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          log_date?: string;
+          platform?: string | null;
+          content_type?: string | null;
+          count?: number;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'content_entries_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      content_items: {
+        Row: {
+          id: string;
+          user_id: string;
+          assigned_to: string | null;
+          title: string;
+          caption: string | null;
+          stage: 'idea' | 'draft' | 'design' | 'scheduled' | 'posted';
+          platform: string | null;
+          content_type: string | null;
+          template_id: string | null;
+          scheduled_date: string | null;
+          posted_date: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          assigned_to?: string | null;
+          title: string;
+          caption?: string | null;
+          stage?: 'idea' | 'draft' | 'design' | 'scheduled' | 'posted';
+          platform?: string | null;
+          content_type?: string | null;
+          template_id?: string | null;
+          scheduled_date?: string | null;
+          posted_date?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          assigned_to?: string | null;
+          title?: string;
+          caption?: string | null;
+          stage?: 'idea' | 'draft' | 'design' | 'scheduled' | 'posted';
+          platform?: string | null;
+          content_type?: string | null;
+          template_id?: string | null;
+          scheduled_date?: string | null;
+          posted_date?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'content_items_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'content_items_assigned_to_fkey';
+            columns: ['assigned_to'];
+            isOneToOne: false;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'content_items_template_id_fkey';
+            columns: ['template_id'];
+            isOneToOne: false;
+            referencedRelation: 'templates';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      user_targets: {
+        Row: {
+          user_id: string;
+          daily_content: number | null;
+          weekly_content: number | null;
+          daily_live_hours: number | null;
+          weekly_live_hours: number | null;
+          updated_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          daily_content?: number | null;
+          weekly_content?: number | null;
+          daily_live_hours?: number | null;
+          weekly_live_hours?: number | null;
+          updated_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          daily_content?: number | null;
+          weekly_content?: number | null;
+          daily_live_hours?: number | null;
+          weekly_live_hours?: number | null;
+          updated_by?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'user_targets_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: true;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'user_targets_updated_by_fkey';
+            columns: ['updated_by'];
+            isOneToOne: false;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      notifications: {
+        Row: {
+          id: string;
+          user_id: string;
+          type: 'task_assigned' | 'task_due_tomorrow' | 'task_overdue' | 'role_changed' | 'template_uploaded' | 'task_mention' | 'project_invite';
+          title: string;
+          body: string | null;
+          link: string | null;
+          entity_id: string | null;
+          dedupe_key: string | null;
+          read_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          type: 'task_assigned' | 'task_due_tomorrow' | 'task_overdue' | 'role_changed' | 'template_uploaded' | 'task_mention' | 'project_invite';
+          title: string;
+          body?: string | null;
+          link?: string | null;
+          entity_id?: string | null;
+          dedupe_key?: string | null;
+          read_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          read_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'notifications_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      task_comments: {
+        Row: {
+          id: string;
+          task_id: string;
+          user_id: string;
+          body: string;
+          mentions: string[];
+          edited_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          task_id: string;
+          user_id: string;
+          body: string;
+          mentions?: string[];
+          edited_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          body?: string;
+          edited_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'task_comments_task_id_fkey';
+            columns: ['task_id'];
+            isOneToOne: false;
+            referencedRelation: 'tasks';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'task_comments_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      attachments: {
+        Row: {
+          id: string;
+          task_id: string | null;
+          project_id: string | null;
+          uploaded_by: string | null;
+          file_name: string;
+          storage_path: string;
+          mime_type: string;
+          size_bytes: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          task_id?: string | null;
+          project_id?: string | null;
+          uploaded_by?: string | null;
+          file_name: string;
+          storage_path: string;
+          mime_type: string;
+          size_bytes?: number;
+          created_at?: string;
+        };
+        Update: {
+          file_name?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'attachments_task_id_fkey';
+            columns: ['task_id'];
+            isOneToOne: false;
+            referencedRelation: 'tasks';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'attachments_project_id_fkey';
+            columns: ['project_id'];
+            isOneToOne: false;
+            referencedRelation: 'projects';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'attachments_uploaded_by_fkey';
+            columns: ['uploaded_by'];
+            isOneToOne: false;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      attachment_cleanup: {
+        Row: {
+          storage_path: string;
+          queued_at: string;
+        };
+        Insert: {
+          storage_path: string;
+          queued_at?: string;
+        };
+        Update: {
+          queued_at?: string;
+        };
+        Relationships: [];
+      };
+      project_members: {
+        Row: {
+          project_id: string;
+          user_id: string;
+          role: 'owner' | 'editor' | 'viewer';
+          added_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          project_id: string;
+          user_id: string;
+          role?: 'owner' | 'editor' | 'viewer';
+          added_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          role?: 'owner' | 'editor' | 'viewer';
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'project_members_project_id_fkey';
+            columns: ['project_id'];
+            isOneToOne: false;
+            referencedRelation: 'projects';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'project_members_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      task_assignees: {
+        Row: {
+          task_id: string;
+          user_id: string;
+          assigned_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          task_id: string;
+          user_id: string;
+          assigned_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          assigned_by?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'task_assignees_task_id_fkey';
+            columns: ['task_id'];
+            isOneToOne: false;
+            referencedRelation: 'tasks';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'task_assignees_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'user_profiles';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+    };
+    Views: {
+      my_projects: {
+        Row: Database['public']['Tables']['projects']['Row'];
+        Relationships: Database['public']['Tables']['projects']['Relationships'];
+      };
+      my_tasks: {
+        Row: Database['public']['Tables']['tasks']['Row'];
+        Relationships: Database['public']['Tables']['tasks']['Relationships'];
+      };
+    };
+    Functions: {
+      lock_pay_period: {
+        Args: { p_period_id: string; p_lines: Json };
+        Returns: undefined;
+      };
+      unlock_pay_period: {
+        Args: { p_period_id: string };
+        Returns: undefined;
+      };
+      replace_content_entries: {
+        Args: { p_log_date: string; p_entries: Json };
+        Returns: undefined;
+      };
+      analytics_weekly: {
+        Args: { p_from: string; p_to: string; p_user_id?: string | null };
+        Returns: {
+          week_start: string;
+          content: number;
+          live_hours: number;
+          sales_sessions: number;
+          revenue: number;
+          orders: number;
+        }[];
+      };
+      analytics_daily: {
+        Args: { p_from: string; p_to: string; p_user_id?: string | null };
+        Returns: {
+          day: string;
+          content: number;
+          live_hours: number;
+        }[];
+      };
+      analytics_status_counts: {
+        Args: { p_user_id?: string | null };
+        Returns: {
+          kind: 'project' | 'task';
+          status: 'Not Started' | 'Ongoing' | 'Completed';
+          total: number;
+        }[];
+      };
+      analytics_live_sales: {
+        Args: { p_from: string; p_to: string; p_user_id?: string | null };
+        Returns: {
+          sessions: number;
+          hours: number;
+          revenue: number;
+          orders: number;
+          peak_viewers: number;
+          revenue_per_hour: number;
+          conversion: number;
+        }[];
+      };
+      analytics_member_totals: {
+        Args: { p_from: string; p_to: string };
+        Returns: {
+          user_id: string;
+          nama: string;
+          projects: number;
+          tasks: number;
+          completed_tasks: number;
+          content: number;
+          live_hours: number;
+          revenue: number;
+        }[];
+      };
+      sync_due_notifications: {
+        Args: { p_today: string };
+        Returns: undefined;
+      };
+      task_participants: {
+        Args: { p_task_id: string };
+        Returns: {
+          id: string;
+          nama: string;
+          can_mention: boolean;
+        }[];
+      };
+      invite_project_member: {
+        Args: { p_project_id: string; p_email: string; p_role: 'owner' | 'editor' | 'viewer' };
+        Returns: undefined;
       };
     };
   };
-};
\ No newline at end of file
+};
+
+type PublicSchema = Database['public'];
+
+export type Tables<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Row'];
+export type TablesInsert<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Insert'];
+export type TablesUpdate<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Update'];
+export type FunctionReturns<T extends keyof PublicSchema['Functions']> = PublicSchema['Functions'][T]['Returns'];
\ No newline at end of file
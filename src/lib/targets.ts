@@ -0,0 +1,49 @@
+import { subDays } from 'date-fns';
+import { toDateKey, weekRange } from './dates';
+
+// How far back logs are loaded for streaks; longer streaks show as this many days.
+export const STREAK_WINDOW_DAYS = 90;
+
+/** Adds up values per `YYYY-MM-DD` date. */
+export function dailyTotals<T>(rows: T[], dateOf: (row: T) => string, valueOf: (row: T) => number): Map<string, number> {
+  const totals = new Map<string, number>();
+  rows.forEach(row => {
+    const date = dateOf(row);
+    totals.set(date, (totals.get(date) || 0) + valueOf(row));
+  });
+  return totals;
+}
+
+/** Total for the calendar week (Sunday to Saturday) containing `today`. */
+export function weekTotal(totals: Map<string, number>, today: Date): number {
+  const { from, to } = weekRange(today);
+  let total = 0;
+  totals.forEach((value, date) => {
+    if (date >= from && date <= to) total += value;
+  });
+  return total;
+}
+
+/**
+ * Consecutive days up to today that met the daily target. Today only breaks
+ * the streak once it is over, so an unfinished day counts from yesterday.
+ */
+export function streak(totals: Map<string, number>, target: number, today: Date): number {
+  const met = (date: Date) => (totals.get(toDateKey(date)) || 0) >= target;
+  const start = met(today) ? 0 : 1;
+  let days = 0;
+
+  for (let offset = start; offset < STREAK_WINDOW_DAYS + start; offset++) {
+    if (!met(subDays(today, offset))) break;
+    days++;
+  }
+
+  return days;
+}
+
+/** Share of the target reached, capped at 1; 0 when there is no target. */
+export const progressRatio = (value: number, target: number | null) =>
+  target ? Math.min(1, value / target) : 0;
+
+export const isBelowTarget = (value: number, target: number | null) =>
+  target !== null && value < target;
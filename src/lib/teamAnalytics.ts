@@ -0,0 +1,52 @@
+import { subDays } from 'date-fns';
+import { toDateKey } from './dates';
+import type { MemberTotals } from './repositories';
+
+export type TimeRange = '7d' | '30d' | '90d' | 'custom';
+
+export const presetDays: Record<Exclude<TimeRange, 'custom'>, number> = { '7d': 7, '30d': 30, '90d': 90 };
+
+/** Inclusive date keys for a preset, or the custom bounds as given. */
+export function rangeFor(timeRange: TimeRange, custom: { from: string; to: string }, today = new Date()) {
+  if (timeRange === 'custom') return custom;
+  return { from: toDateKey(subDays(today, presetDays[timeRange])), to: toDateKey(today) };
+}
+
+export interface MemberStats {
+  userId: string;
+  name: string;
+  projects: number;
+  tasks: number;
+  completedTasks: number;
+  content: number;
+  liveHours: number;
+  revenue: number;
+}
+
+export type LeaderboardMetric = 'content' | 'liveHours' | 'completedTasks' | 'revenue';
+
+export const leaderboardMetrics: { key: LeaderboardMetric; label: string }[] = [
+  { key: 'content', label: 'Content' },
+  { key: 'liveHours', label: 'Jam Live' },
+  { key: 'completedTasks', label: 'Tugasan Selesai' },
+  { key: 'revenue', label: 'Hasil Live' }
+];
+
+/** Leaderboard rows from `analyticsRepo.memberTotals`. */
+export function fromMemberTotals(rows: MemberTotals[]): MemberStats[] {
+  return rows.map(row => ({
+    userId: row.user_id,
+    name: row.nama,
+    projects: row.projects,
+    tasks: row.tasks,
+    completedTasks: row.completed_tasks,
+    content: row.content,
+    liveHours: row.live_hours,
+    revenue: row.revenue
+  }));
+}
+
+/** Members ranked by `metric`, ties broken by name. */
+export function rankBy(members: MemberStats[], metric: LeaderboardMetric): MemberStats[] {
+  return [...members].sort((a, b) => b[metric] - a[metric] || a.name.localeCompare(b.name));
+}
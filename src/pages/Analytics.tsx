@@ -1,14 +1,27 @@
-import React, { useState, useEffect } from 'react';
-import { useAuth } from '../contexts/AuthContext';
-import { supabase } from '../lib/supabase';
+import { useState, useEffect } from 'react';
+import { subDays } from 'date-fns';
+import { useDataScope } from '../hooks/useDataScope';
+import {
+  analyticsRepo,
+  personalScope,
+  userProfilesRepo,
+  type DataScope,
+  type StatusCount,
+  type UserProfile
+} from '../lib/repositories';
+import { toDateKey } from '../lib/dates';
+import { fromTotals, type SalesSummary } from '../lib/liveSales';
+import { fromMemberTotals, rangeFor, type MemberStats, type TimeRange } from '../lib/teamAnalytics';
+import Leaderboard from '../components/Analytics/Leaderboard';
 import { 
+  ArrowLeft,
   BarChart3, 
-  TrendingUp, 
   Calendar,
-  Clock,
   FileText,
   Radio,
   Target,
+  TrendingUp,
+  User,
   Users
 } from 'lucide-react';
 import { 
@@ -23,8 +36,10 @@ import {
   Line,
   PieChart,
   Pie,
-  Cell
+  Cell,
+  Legend
 } from 'recharts';
+import toast from 'react-hot-toast';
 
 interface AnalyticsData {
   totalProjects: number;
@@ -32,148 +47,135 @@ interface AnalyticsData {
   completedTasks: number;
   totalContent: number;
   totalLiveHours: number;
+  liveSales: SalesSummary;
   weeklyContent: any[];
   weeklyLiveHours: any[];
+  weeklyLiveSales: { date: string; revenue: number; orders: number }[];
   tasksByStatus: any[];
   projectsByStatus: any[];
   monthlyActivity: any[];
+  members: MemberStats[];
 }
 
+type AnalyticsView = 'personal' | 'team';
+
+const rangeLabels: Record<Exclude<TimeRange, 'custom'>, string> = { '7d': '7 Hari', '30d': '30 Hari', '90d': '90 Hari' };
+
+const statusLabels = [
+  { status: 'Not Started', name: 'Belum Mula', color: '#6b7280' },
+  { status: 'Ongoing', name: 'Sedang Berjalan', color: '#3b82f6' },
+  { status: 'Completed', name: 'Selesai', color: '#10b981' }
+] as const;
+
+const byStatus = (counts: StatusCount[], kind: StatusCount['kind']) =>
+  statusLabels.map(({ status, name, color }) => ({
+    name,
+    value: counts.find(count => count.kind === kind && count.status === status)?.total || 0,
+    color
+  }));
+
+const weekLabel = (date: string) =>
+  new Date(date).toLocaleDateString('ms-MY', { month: 'short', day: 'numeric' });
+
 export default function Analytics() {
-  const { user } = useAuth();
+  const scope = useDataScope();
   const [data, setData] = useState<AnalyticsData>({
     totalProjects: 0,
     totalTasks: 0,
     completedTasks: 0,
     totalContent: 0,
     totalLiveHours: 0,
+    liveSales: fromTotals('', undefined),
     weeklyContent: [],
     weeklyLiveHours: [],
+    weeklyLiveSales: [],
     tasksByStatus: [],
     projectsByStatus: [],
-    monthlyActivity: []
+    monthlyActivity: [],
+    members: []
   });
   const [loading, setLoading] = useState(true);
-  const [timeRange, setTimeRange] = useState<'7d' | '30d' | '90d'>('30d');
+  const [timeRange, setTimeRange] = useState<TimeRange>('30d');
+  const [customRange, setCustomRange] = useState(() => ({
+    from: toDateKey(subDays(new Date(), 30)),
+    to: toDateKey(new Date())
+  }));
+  // Team view and drill-down are admin-only
+  const [view, setView] = useState<AnalyticsView>('personal');
+  const [memberId, setMemberId] = useState<string | null>(null);
+  const [profiles, setProfiles] = useState<UserProfile[]>([]);
+
+  const isAdmin = !!scope?.allUsers;
+  const teamView = isAdmin && view === 'team';
+  const validCustom = !!customRange.from && !!customRange.to && customRange.from <= customRange.to;
 
   useEffect(() => {
-    if (user) {
+    if (scope && (timeRange !== 'custom' || validCustom)) {
       fetchAnalyticsData();
     }
-  }, [user, timeRange]);
+  }, [scope, timeRange, customRange, view, memberId]);
+
+  // A member drill-down reads that member's rows the way their own view would
+  const queryScope = (base: DataScope): DataScope => {
+    if (!teamView) return personalScope(base);
+    return memberId ? { userId: memberId, allUsers: false } : base;
+  };
 
   const fetchAnalyticsData = async () => {
+    if (!scope) return;
+
     try {
-      const endDate = new Date();
-      const startDate = new Date();
-      
-      switch (timeRange) {
-        case '7d':
-          startDate.setDate(endDate.getDate() - 7);
-          break;
-        case '30d':
-          startDate.setDate(endDate.getDate() - 30);
-          break;
-        case '90d':
-          startDate.setDate(endDate.getDate() - 90);
-          break;
-      }
-
-      // Fetch projects
-      const { data: projects } = await supabase
-        .from('projects')
-        .select('*')
-        .eq('user_id', user?.id);
-
-      // Fetch tasks
-      const { data: tasks } = await supabase
-        .from('tasks')
-        .select('*')
-        .or(`user_id.eq.${user?.id},assigned_to.eq.${user?.id}`);
-
-      // Fetch content logs
-      const { data: contentLogs } = await supabase
-        .from('content_log')
-        .select('*')
-        .eq('user_id', user?.id)
-        .gte('log_date', startDate.toISOString().split('T')[0])
-        .lte('log_date', endDate.toISOString().split('T')[0])
-        .order('log_date');
-
-      // Fetch live manual logs (updated to use new table)
-      const { data: liveLogs } = await supabase
-        .from('live_manual_log')
-        .select('*')
-        .eq('user_id', user?.id)
-        .gte('live_date', startDate.toISOString().split('T')[0])
-        .lte('live_date', endDate.toISOString().split('T')[0])
-        .order('live_date');
-
-      // Process data
-      const totalProjects = projects?.length || 0;
-      const totalTasks = tasks?.length || 0;
-      const completedTasks = tasks?.filter(task => task.status === 'Completed').length || 0;
-      const totalContent = contentLogs?.reduce((sum, log) => sum + log.content_count, 0) || 0;
-      const totalLiveHours = liveLogs?.reduce((sum, log) => sum + log.total_hours, 0) || 0;
-
-      // Weekly content data
-      const weeklyContent = processWeeklyData(contentLogs || [], 'content_count', 'log_date');
-      const weeklyLiveHours = processWeeklyData(liveLogs || [], 'total_hours', 'live_date');
-
-      // Tasks by status
-      const tasksByStatus = [
-        { name: 'Belum Mula', value: tasks?.filter(t => t.status === 'Not Started').length || 0, color: '#6b7280' },
-        { name: 'Sedang Berjalan', value: tasks?.filter(t => t.status === 'Ongoing').length || 0, color: '#3b82f6' },
-        { name: 'Selesai', value: tasks?.filter(t => t.status === 'Completed').length || 0, color: '#10b981' }
-      ];
-
-      // Projects by status
-      const projectsByStatus = [
-        { name: 'Belum Mula', value: projects?.filter(p => p.status === 'Not Started').length || 0, color: '#6b7280' },
-        { name: 'Sedang Berjalan', value: projects?.filter(p => p.status === 'Ongoing').length || 0, color: '#3b82f6' },
-        { name: 'Selesai', value: projects?.filter(p => p.status === 'Completed').length || 0, color: '#10b981' }
-      ];
+      const range = rangeFor(timeRange, customRange);
+      const dataScope = queryScope(scope);
+
+      const [weeklyRes, statusRes, salesRes, membersRes, profilesRes] = await Promise.all([
+        analyticsRepo.weekly(dataScope, range),
+        analyticsRepo.statusCounts(dataScope),
+        analyticsRepo.liveSales(dataScope, range),
+        // The leaderboard only makes sense across the whole team
+        teamView && !memberId ? analyticsRepo.memberTotals(range) : Promise.resolve({ data: [], error: null }),
+        teamView ? userProfilesRepo.listAll() : Promise.resolve({ data: profiles, error: null })
+      ]);
+
+      const failed = [weeklyRes, statusRes, salesRes, membersRes, profilesRes].find(res => res.error);
+      if (failed?.error) throw failed.error;
+
+      const weeks = weeklyRes.data || [];
+      const statuses = statusRes.data || [];
+      const tasksByStatus = byStatus(statuses, 'task');
+      const projectsByStatus = byStatus(statuses, 'project');
 
       setData({
-        totalProjects,
-        totalTasks,
-        completedTasks,
-        totalContent,
-        totalLiveHours: Math.round(totalLiveHours * 100) / 100,
-        weeklyContent,
-        weeklyLiveHours,
+        totalProjects: projectsByStatus.reduce((sum, item) => sum + item.value, 0),
+        totalTasks: tasksByStatus.reduce((sum, item) => sum + item.value, 0),
+        completedTasks: tasksByStatus[2].value,
+        totalContent: weeks.reduce((sum, week) => sum + week.content, 0),
+        totalLiveHours: Math.round(weeks.reduce((sum, week) => sum + week.live_hours, 0) * 100) / 100,
+        liveSales: fromTotals('', salesRes.data?.[0]),
+        weeklyContent: weeks
+          .filter(week => week.content > 0)
+          .map(week => ({ date: weekLabel(week.week_start), value: week.content })),
+        weeklyLiveHours: weeks
+          .filter(week => week.live_hours > 0)
+          .map(week => ({ date: weekLabel(week.week_start), value: week.live_hours })),
+        // Only weeks with sessions that have sales figures recorded
+        weeklyLiveSales: weeks
+          .filter(week => week.sales_sessions > 0)
+          .map(week => ({ date: weekLabel(week.week_start), revenue: week.revenue, orders: week.orders })),
         tasksByStatus,
         projectsByStatus,
-        monthlyActivity: []
+        monthlyActivity: [],
+        members: fromMemberTotals(membersRes.data || [])
       });
+      setProfiles(profilesRes.data || []);
     } catch (error) {
       console.error('Error fetching analytics data:', error);
+      toast.error('Ralat semasa mengambil data analitik');
     } finally {
       setLoading(false);
     }
   };
 
-  const processWeeklyData = (logs: any[], field: string, dateField: string) => {
-    const weeklyData: { [key: string]: number } = {};
-    
-    logs.forEach(log => {
-      const date = new Date(log[dateField]);
-      const weekStart = new Date(date);
-      weekStart.setDate(date.getDate() - date.getDay());
-      const weekKey = weekStart.toISOString().split('T')[0];
-      
-      if (!weeklyData[weekKey]) {
-        weeklyData[weekKey] = 0;
-      }
-      weeklyData[weekKey] += log[field] || 0;
-    });
-
-    return Object.entries(weeklyData).map(([date, value]) => ({
-      date: new Date(date).toLocaleDateString('ms-MY', { month: 'short', day: 'numeric' }),
-      value: field === 'total_hours' ? Math.round(value * 100) / 100 : value
-    }));
-  };
-
   const getCompletionRate = () => {
     if (data.totalTasks === 0) return 0;
     return Math.round((data.completedTasks / data.totalTasks) * 100);
@@ -191,6 +193,17 @@ export default function Analytics() {
     return Math.round((total / data.weeklyLiveHours.length) * 100) / 100;
   };
 
+  const memberName = profiles.find(p => p.id === memberId)?.nama;
+
+  const periodLabel = timeRange === 'custom'
+    ? `${new Date(customRange.from).toLocaleDateString('ms-MY')} – ${new Date(customRange.to).toLocaleDateString('ms-MY')}`
+    : `${rangeLabels[timeRange]} Terakhir`;
+
+  const switchView = (next: AnalyticsView) => {
+    setView(next);
+    setMemberId(null);
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -209,43 +222,117 @@ export default function Analytics() {
             Analitik
           </h1>
           <p className="text-gray-600 dark:text-gray-400 mt-1">
-            Pantau prestasi dan kemajuan kerja anda
+            {teamView
+              ? memberName ? `Prestasi ${memberName}` : 'Pantau prestasi seluruh pasukan'
+              : 'Pantau prestasi dan kemajuan kerja anda'}
           </p>
         </div>
-        <div className="flex items-center space-x-2 mt-4 sm:mt-0">
-          <button
-            onClick={() => setTimeRange('7d')}
-            className={`px-3 py-1 rounded-lg text-sm transition-colors ${
-              timeRange === '7d'
-                ? 'bg-blue-500 text-white'
-                : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
-            }`}
-          >
-            7 Hari
-          </button>
-          <button
-            onClick={() => setTimeRange('30d')}
-            className={`px-3 py-1 rounded-lg text-sm transition-colors ${
-              timeRange === '30d'
-                ? 'bg-blue-500 text-white'
-                : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
-            }`}
-          >
-            30 Hari
-          </button>
-          <button
-            onClick={() => setTimeRange('90d')}
-            className={`px-3 py-1 rounded-lg text-sm transition-colors ${
-              timeRange === '90d'
-                ? 'bg-blue-500 text-white'
-                : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
-            }`}
-          >
-            90 Hari
-          </button>
+        <div className="flex flex-col items-start sm:items-end gap-2 mt-4 sm:mt-0">
+          <div className="flex items-center space-x-2">
+            {(['7d', '30d', '90d'] as const).map((preset) => (
+              <button
+                key={preset}
+                onClick={() => setTimeRange(preset)}
+                className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+                  timeRange === preset
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+                }`}
+              >
+                {rangeLabels[preset]}
+              </button>
+            ))}
+            <button
+              onClick={() => setTimeRange('custom')}
+              className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+                timeRange === 'custom'
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+              }`}
+            >
+              Pilih Tarikh
+            </button>
+          </div>
+          {timeRange === 'custom' && (
+            <div className="flex items-center space-x-2">
+              <input
+                type="date"
+                value={customRange.from}
+                max={customRange.to}
+                onChange={(e) => setCustomRange({ ...customRange, from: e.target.value })}
+                className="input-field py-1 text-sm"
+              />
+              <span className="text-gray-500 dark:text-gray-400">–</span>
+              <input
+                type="date"
+                value={customRange.to}
+                min={customRange.from}
+                onChange={(e) => setCustomRange({ ...customRange, to: e.target.value })}
+                className="input-field py-1 text-sm"
+              />
+            </div>
+          )}
         </div>
       </div>
 
+      {isAdmin && (
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => switchView('personal')}
+              className={`px-4 py-2 rounded-lg transition-colors flex items-center ${
+                view === 'personal'
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+              }`}
+            >
+              <User className="h-4 w-4 mr-2" />
+              Saya
+            </button>
+            <button
+              onClick={() => switchView('team')}
+              className={`px-4 py-2 rounded-lg transition-colors flex items-center ${
+                view === 'team'
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+              }`}
+            >
+              <Users className="h-4 w-4 mr-2" />
+              Pasukan
+            </button>
+          </div>
+          {teamView && (
+            <div className="flex items-center space-x-2 sm:ml-auto">
+              {memberId && (
+                <button
+                  onClick={() => setMemberId(null)}
+                  className="btn-secondary flex items-center"
+                >
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Seluruh Pasukan
+                </button>
+              )}
+              <select
+                value={memberId || ''}
+                onChange={(e) => setMemberId(e.target.value || null)}
+                className="input-field sm:w-56"
+              >
+                <option value="">Semua ahli</option>
+                {profiles.map((profile) => (
+                  <option key={profile.id} value={profile.id}>
+                    {profile.nama}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+      )}
+
+      {teamView && !memberId && (
+        <Leaderboard members={data.members} onSelect={setMemberId} />
+      )}
+
       {/* Key Metrics */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <div className="card">
@@ -368,6 +455,65 @@ export default function Analytics() {
         </div>
       </div>
 
+      {/* Live Sales */}
+      <div className="card">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+            <TrendingUp className="h-5 w-5 mr-2" />
+            Trend Jualan Live Mingguan
+          </h3>
+          <div className="flex items-center space-x-6 mt-2 sm:mt-0 text-sm">
+            <div>
+              <span className="text-gray-600 dark:text-gray-400">Hasil sejam: </span>
+              <span className="font-semibold text-red-600 dark:text-red-400">RM {data.liveSales.revenuePerHour.toFixed(2)}</span>
+            </div>
+            <div>
+              <span className="text-gray-600 dark:text-gray-400">Penukaran: </span>
+              <span className="font-semibold text-purple-600 dark:text-purple-400">{data.liveSales.conversion}%</span>
+            </div>
+          </div>
+        </div>
+        {data.weeklyLiveSales.length > 0 ? (
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={data.weeklyLiveSales}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" />
+                <YAxis yAxisId="revenue" />
+                <YAxis yAxisId="orders" orientation="right" />
+                <Tooltip
+                  formatter={(value, name) => [
+                    name === 'revenue' ? `RM ${value}` : `${value} pesanan`,
+                    name === 'revenue' ? 'Hasil' : 'Pesanan'
+                  ]}
+                />
+                <Legend formatter={(value) => (value === 'revenue' ? 'Hasil (RM)' : 'Pesanan')} />
+                <Line
+                  yAxisId="revenue"
+                  type="monotone"
+                  dataKey="revenue"
+                  stroke="#ef4444"
+                  strokeWidth={2}
+                  dot={{ fill: '#ef4444' }}
+                />
+                <Line
+                  yAxisId="orders"
+                  type="monotone"
+                  dataKey="orders"
+                  stroke="#8b5cf6"
+                  strokeWidth={2}
+                  dot={{ fill: '#8b5cf6' }}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        ) : (
+          <p className="text-gray-500 dark:text-gray-400 text-sm">
+            Tiada rekod jualan live dalam tempoh ini
+          </p>
+        )}
+      </div>
+
       {/* Charts Row 2 */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Tasks by Status */}
@@ -432,9 +578,9 @@ export default function Analytics() {
       {/* Summary Stats */}
       <div className="card">
         <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
-          Ringkasan Prestasi ({timeRange === '7d' ? '7 Hari' : timeRange === '30d' ? '30 Hari' : '90 Hari'} Terakhir)
+          Ringkasan Prestasi ({periodLabel})
         </h3>
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
           <div className="text-center">
             <div className="text-2xl font-bold text-blue-600 dark:text-blue-400">
               {data.totalProjects}
@@ -467,6 +613,14 @@ export default function Analytics() {
               Jam Live
             </div>
           </div>
+          <div className="text-center">
+            <div className="text-2xl font-bold text-purple-600 dark:text-purple-400">
+              RM {data.liveSales.revenue.toFixed(2)}
+            </div>
+            <div className="text-sm text-gray-600 dark:text-gray-400">
+              Hasil Live ({data.liveSales.orders} pesanan)
+            </div>
+          </div>
         </div>
       </div>
     </div>
@@ -1,108 +1,241 @@
-import React, { useState, useEffect } from 'react';
-import { useAuth } from '../contexts/AuthContext';
-import { supabase } from '../lib/supabase';
-import { Calendar as CalendarIcon, ChevronLeft, ChevronRight, Plus, Edit, Trash2 } from 'lucide-react';
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useDataScope } from '../hooks/useDataScope';
+import {
+  calendarNotesRepo,
+  contentLogRepo,
+  liveManualLogRepo,
+  projectsRepo,
+  taskSeriesRepo,
+  tasksRepo,
+  personalScope,
+  type CalendarNote,
+  type ContentLog,
+  type LiveManualLog,
+  type Project,
+  type TaskSeries,
+  type TaskWithProject
+} from '../lib/repositories';
+import { describe } from '../lib/recurrence';
+import { monthRange, toDateKey, weekRange } from '../lib/dates';
+import { feedEvents, toICalendar } from '../lib/ical';
+import {
+  buildEvents,
+  calendarLayers,
+  groupByDate,
+  layerChip,
+  type CalendarEvent,
+  type CalendarLayer
+} from '../lib/calendarEvents';
+import { Calendar as CalendarIcon, ChevronLeft, ChevronRight, Download, Edit, Repeat, Rss, Trash2, Upload } from 'lucide-react';
 import toast from 'react-hot-toast';
-
-interface CalendarNote {
-  id: string;
-  user_id: string;
-  note_date: string;
-  note: string;
-  created_at: string;
-  updated_at: string;
-}
+import { addDays, eachDayOfInterval, parseISO } from 'date-fns';
+import MonthView from '../components/Calendar/MonthView';
+import TimeGridView from '../components/Calendar/TimeGridView';
+import FeedModal from '../components/Calendar/FeedModal';
+import ImportModal from '../components/Calendar/ImportModal';
+
+type ViewMode = 'month' | 'week' | 'day';
+
+// Dates covered by each view around `date`
+const rangeFor = (viewMode: ViewMode, date: Date) => {
+  if (viewMode === 'week') return weekRange(date);
+  if (viewMode === 'day') return { from: toDateKey(date), to: toDateKey(date) };
+  return monthRange(date);
+};
+
+// Where clicking an event of each layer takes the user; notes are edited here.
+const editRoutes: Record<Exclude<CalendarLayer, 'notes'>, string> = {
+  tasks: '/tugasan',
+  projects: '/projek',
+  live: '/live',
+  content: '/content'
+};
 
 export default function Calendar() {
-  const { user } = useAuth();
+  const scope = useDataScope();
+  const navigate = useNavigate();
   const [currentDate, setCurrentDate] = useState(new Date());
+  const [viewMode, setViewMode] = useState<ViewMode>('month');
   const [notes, setNotes] = useState<CalendarNote[]>([]);
+  const [tasks, setTasks] = useState<TaskWithProject[]>([]);
+  const [series, setSeries] = useState<TaskSeries[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [liveLogs, setLiveLogs] = useState<LiveManualLog[]>([]);
+  const [contentLogs, setContentLogs] = useState<ContentLog[]>([]);
+  const [visibleLayers, setVisibleLayers] = useState<CalendarLayer[]>(calendarLayers.map(item => item.layer));
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [showModal, setShowModal] = useState(false);
   const [editingNote, setEditingNote] = useState<CalendarNote | null>(null);
   const [noteText, setNoteText] = useState('');
+  const [noteTimes, setNoteTimes] = useState({ start_time: '', end_time: '' });
+  const [showFeedModal, setShowFeedModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    if (user) {
-      fetchNotes();
+    if (scope) {
+      fetchCalendar();
     }
-  }, [user, currentDate]);
-
-  const fetchNotes = async () => {
-    try {
-      const startOfMonth = new Date(currentDate.getFullYear(), currentDate.getMonth(), 1);
-      const endOfMonth = new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0);
+  }, [scope, currentDate, viewMode]);
 
-      const { data, error } = await supabase
-        .from('calendar_notes')
-        .select('*')
-        .eq('user_id', user?.id)
-        .gte('note_date', startOfMonth.toISOString().split('T')[0])
-        .lte('note_date', endOfMonth.toISOString().split('T')[0])
-        .order('note_date');
+  const fetchCalendar = async () => {
+    if (!scope) return;
 
-      if (error) throw error;
-      setNotes(data || []);
+    try {
+      const ownScope = personalScope(scope);
+      const range = rangeFor(viewMode, currentDate);
+
+      const [notesRes, tasksRes, seriesRes, projectsRes, liveRes, contentRes] = await Promise.all([
+        calendarNotesRepo.list(ownScope, range),
+        tasksRepo.list(ownScope),
+        taskSeriesRepo.list(ownScope),
+        projectsRepo.list(ownScope),
+        liveManualLogRepo.list(ownScope, range),
+        contentLogRepo.list(ownScope, range)
+      ]);
+
+      const failed = [notesRes, tasksRes, seriesRes, projectsRes, liveRes, contentRes].find(res => res.error);
+      if (failed?.error) throw failed.error;
+
+      setNotes(notesRes.data || []);
+      setTasks(tasksRes.data || []);
+      setSeries(seriesRes.data || []);
+      setProjects(projectsRes.data || []);
+      setLiveLogs(liveRes.data || []);
+      setContentLogs(contentRes.data || []);
     } catch (error) {
-      console.error('Error fetching notes:', error);
-      toast.error('Ralat semasa mengambil nota kalendar');
+      console.error('Error fetching calendar data:', error);
+      toast.error('Ralat semasa mengambil data kalendar');
     } finally {
       setLoading(false);
     }
   };
 
-  const handleDateClick = (date: Date) => {
+  const eventsByDate = useMemo(() => {
+    const { from, to } = rangeFor(viewMode, currentDate);
+    const events = buildEvents({ notes, tasks, series, projects, liveLogs, contentLogs }, from, to)
+      .filter(event => visibleLayers.includes(event.layer));
+
+    return groupByDate(events);
+  }, [notes, tasks, series, projects, liveLogs, contentLogs, visibleLayers, currentDate, viewMode]);
+
+  const toggleLayer = (layer: CalendarLayer) => {
+    setVisibleLayers(prev => (
+      prev.includes(layer) ? prev.filter(item => item !== layer) : [...prev, layer]
+    ));
+  };
+
+  const openNote = (date: Date, note: CalendarNote | null, startTime = '', endTime = '') => {
     setSelectedDate(date);
-    const existingNote = notes.find(note => 
-      note.note_date === date.toISOString().split('T')[0]
-    );
-    
-    if (existingNote) {
-      setEditingNote(existingNote);
-      setNoteText(existingNote.note);
-    } else {
-      setEditingNote(null);
-      setNoteText('');
-    }
+    setEditingNote(note);
+    setNoteText(note?.note || '');
+    setNoteTimes({
+      start_time: note?.start_time?.slice(0, 5) || startTime,
+      end_time: note?.end_time?.slice(0, 5) || endTime
+    });
     setShowModal(true);
   };
 
+  // Clicking a day opens its all-day note; timed notes are opened from the slots
+  const handleDateClick = (date: Date) => {
+    openNote(date, notes.find(note => note.note_date === toDateKey(date) && !note.start_time) || null);
+  };
+
+  const handleCreate = (date: Date, startTime: string, endTime: string) => {
+    openNote(date, null, startTime, endTime);
+  };
+
+  const handleEventClick = (event: CalendarEvent) => {
+    if (event.layer === 'notes') {
+      const note = notes.find(item => item.id === event.sourceId);
+      if (note) openNote(parseISO(note.note_date), note);
+      return;
+    }
+
+    // Recurring occurrences not generated yet have no task to edit
+    const route = editRoutes[event.layer];
+    navigate(event.sourceId ? `${route}?edit=${event.sourceId}` : route);
+  };
+
+  // Exports every dated item of the visible layers, not just the current view
+  const exportToICS = async () => {
+    if (!scope) return;
+
+    try {
+      const ownScope = personalScope(scope);
+      const [notesRes, tasksRes, projectsRes, liveRes] = await Promise.all([
+        calendarNotesRepo.list(ownScope),
+        tasksRepo.list(ownScope),
+        projectsRepo.list(ownScope),
+        liveManualLogRepo.list(ownScope)
+      ]);
+
+      const failed = [notesRes, tasksRes, projectsRes, liveRes].find(res => res.error);
+      if (failed?.error) throw failed.error;
+
+      const shown = (layer: CalendarLayer) => visibleLayers.includes(layer);
+      const events = feedEvents({
+        notes: shown('notes') ? notesRes.data || [] : [],
+        tasks: shown('tasks') ? tasksRes.data || [] : [],
+        projects: shown('projects') ? projectsRes.data || [] : [],
+        liveLogs: shown('live') ? liveRes.data || [] : []
+      });
+
+      const blob = new Blob([toICalendar(events, 'SaffaTeam')], { type: 'text/calendar' });
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `kalendar-${toDateKey(new Date())}.ics`;
+      a.click();
+      window.URL.revokeObjectURL(url);
+      toast.success('Kalendar berjaya dieksport');
+    } catch (error) {
+      console.error('Error exporting calendar:', error);
+      toast.error('Ralat semasa mengeksport kalendar');
+    }
+  };
+
+  const closeModal = () => {
+    setShowModal(false);
+    setNoteText('');
+    setEditingNote(null);
+    setSelectedDate(null);
+    setNoteTimes({ start_time: '', end_time: '' });
+  };
+
   const handleSaveNote = async () => {
-    if (!user || !selectedDate || !noteText.trim()) return;
+    if (!scope || !selectedDate || !noteText.trim()) return;
+
+    const timed = !!(noteTimes.start_time && noteTimes.end_time);
+    if (!timed && (noteTimes.start_time || noteTimes.end_time)) {
+      toast.error('Sila isi kedua-dua masa mula dan masa tamat');
+      return;
+    }
+    if (timed && noteTimes.end_time <= noteTimes.start_time) {
+      toast.error('Masa tamat mestilah selepas masa mula');
+      return;
+    }
+
+    const times = timed ? noteTimes : { start_time: null, end_time: null };
 
     try {
-      const dateStr = selectedDate.toISOString().split('T')[0];
+      const dateStr = toDateKey(selectedDate);
 
       if (editingNote) {
-        const { error } = await supabase
-          .from('calendar_notes')
-          .update({
-            note: noteText.trim(),
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', editingNote.id);
+        const { error } = await calendarNotesRepo.update(editingNote.id, noteText.trim(), times);
 
         if (error) throw error;
         toast.success('Nota berjaya dikemaskini');
       } else {
-        const { error } = await supabase
-          .from('calendar_notes')
-          .insert([{
-            user_id: user.id,
-            note_date: dateStr,
-            note: noteText.trim()
-          }]);
+        const { error } = await calendarNotesRepo.create(scope, dateStr, noteText.trim(), times);
 
         if (error) throw error;
         toast.success('Nota berjaya ditambah');
       }
 
-      setShowModal(false);
-      setNoteText('');
-      setEditingNote(null);
-      setSelectedDate(null);
-      fetchNotes();
+      closeModal();
+      fetchCalendar();
     } catch (error) {
       console.error('Error saving note:', error);
       toast.error('Ralat semasa menyimpan nota');
@@ -115,55 +248,18 @@ export default function Calendar() {
     if (!confirm('Adakah anda pasti ingin memadam nota ini?')) return;
 
     try {
-      const { error } = await supabase
-        .from('calendar_notes')
-        .delete()
-        .eq('id', editingNote.id);
+      const { error } = await calendarNotesRepo.remove(editingNote.id);
 
       if (error) throw error;
       toast.success('Nota berjaya dipadam');
-      setShowModal(false);
-      setEditingNote(null);
-      setSelectedDate(null);
-      fetchNotes();
+      closeModal();
+      fetchCalendar();
     } catch (error) {
       console.error('Error deleting note:', error);
       toast.error('Ralat semasa memadam nota');
     }
   };
 
-  const getDaysInMonth = (date: Date) => {
-    const year = date.getFullYear();
-    const month = date.getMonth();
-    const firstDay = new Date(year, month, 1);
-    const lastDay = new Date(year, month + 1, 0);
-    const daysInMonth = lastDay.getDate();
-    const startingDayOfWeek = firstDay.getDay();
-
-    const days = [];
-
-    // Add empty cells for days before the first day of the month
-    for (let i = 0; i < startingDayOfWeek; i++) {
-      days.push(null);
-    }
-
-    // Add days of the month
-    for (let day = 1; day <= daysInMonth; day++) {
-      days.push(new Date(year, month, day));
-    }
-
-    return days;
-  };
-
-  const hasNote = (date: Date) => {
-    return notes.some(note => note.note_date === date.toISOString().split('T')[0]);
-  };
-
-  const isToday = (date: Date) => {
-    const today = new Date();
-    return date.toDateString() === today.toDateString();
-  };
-
   const navigateMonth = (direction: 'prev' | 'next') => {
     setCurrentDate(prev => {
       const newDate = new Date(prev);
@@ -176,12 +272,49 @@ export default function Calendar() {
     });
   };
 
+  // Month mode keeps the month-by-month navigation; week and day step by days
+  const navigatePeriod = (direction: 'prev' | 'next') => {
+    if (viewMode === 'month') {
+      navigateMonth(direction);
+      return;
+    }
+
+    const step = viewMode === 'week' ? 7 : 1;
+    setCurrentDate(prev => addDays(prev, direction === 'prev' ? -step : step));
+  };
+
   const monthNames = [
     'Januari', 'Februari', 'Mac', 'April', 'Mei', 'Jun',
     'Julai', 'Ogos', 'September', 'Oktober', 'November', 'Disember'
   ];
 
-  const dayNames = ['Ahd', 'Isn', 'Sel', 'Rab', 'Kha', 'Jum', 'Sab'];
+  const periodTitle = () => {
+    if (viewMode === 'day') {
+      return currentDate.toLocaleDateString('ms-MY', {
+        weekday: 'long',
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric'
+      });
+    }
+    if (viewMode === 'week') {
+      const { from, to } = weekRange(currentDate);
+      const start = parseISO(from);
+      const end = parseISO(to);
+      return `${start.getDate()} ${monthNames[start.getMonth()]} – ${end.getDate()} ${monthNames[end.getMonth()]} ${end.getFullYear()}`;
+    }
+    return `${monthNames[currentDate.getMonth()]} ${currentDate.getFullYear()}`;
+  };
+
+  const visibleDays = () => {
+    const { from, to } = rangeFor(viewMode, currentDate);
+    return eachDayOfInterval({ start: parseISO(from), end: parseISO(to) });
+  };
+
+  // Other layers' events on the day being edited, excluding the note itself
+  const selectedDayEvents = selectedDate
+    ? (eventsByDate.get(toDateKey(selectedDate)) || []).filter(event => event.layer !== 'notes')
+    : [];
 
   if (loading) {
     return (
@@ -204,72 +337,147 @@ export default function Calendar() {
             Urus nota dan jadual harian anda
           </p>
         </div>
+        <div className="flex items-center space-x-3 mt-4 sm:mt-0">
+          <button
+            onClick={() => setShowFeedModal(true)}
+            className="btn-secondary flex items-center"
+          >
+            <Rss className="h-4 w-4 mr-2" />
+            Langgan
+          </button>
+          <button
+            onClick={() => setShowImportModal(true)}
+            className="btn-secondary flex items-center"
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            Import .ics
+          </button>
+          <button
+            onClick={exportToICS}
+            className="btn-primary flex items-center"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Eksport .ics
+          </button>
+        </div>
       </div>
 
-      {/* Calendar */}
-      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
-        {/* Calendar Header */}
-        <div className="flex items-center justify-between mb-6">
+      {/* Layer Filters */}
+      <div className="flex flex-wrap items-center gap-2">
+        {calendarLayers.map((item) => (
           <button
-            onClick={() => navigateMonth('prev')}
-            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            key={item.layer}
+            onClick={() => toggleLayer(item.layer)}
+            className={`flex items-center px-3 py-1.5 text-sm rounded-lg transition-colors ${
+              visibleLayers.includes(item.layer)
+                ? 'bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white'
+                : 'bg-gray-200 dark:bg-gray-700 text-gray-500 dark:text-gray-400 line-through'
+            }`}
           >
-            <ChevronLeft className="h-5 w-5 text-gray-600 dark:text-gray-400" />
+            <span className={`w-2.5 h-2.5 rounded-full mr-2 ${item.dot}`}></span>
+            {item.label}
           </button>
-          
-          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
-            {monthNames[currentDate.getMonth()]} {currentDate.getFullYear()}
-          </h2>
-          
+        ))}
+      </div>
+
+      {/* Calendar */}
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+        {/* Calendar Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+          <div className="flex items-center space-x-2">
+            {(['month', 'week', 'day'] as ViewMode[]).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => setViewMode(mode)}
+                className={`px-4 py-2 rounded-lg transition-colors ${
+                  viewMode === mode
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+                }`}
+              >
+                {mode === 'month' ? 'Bulan' : mode === 'week' ? 'Minggu' : 'Hari'}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => navigatePeriod('prev')}
+              className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            >
+              <ChevronLeft className="h-5 w-5 text-gray-600 dark:text-gray-400" />
+            </button>
+
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white text-center min-w-[12rem]">
+              {periodTitle()}
+            </h2>
+
+            <button
+              onClick={() => navigatePeriod('next')}
+              className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            >
+              <ChevronRight className="h-5 w-5 text-gray-600 dark:text-gray-400" />
+            </button>
+          </div>
+
           <button
-            onClick={() => navigateMonth('next')}
-            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            onClick={() => setCurrentDate(new Date())}
+            className="btn-secondary"
           >
-            <ChevronRight className="h-5 w-5 text-gray-600 dark:text-gray-400" />
+            Hari Ini
           </button>
         </div>
 
-        {/* Day Names */}
-        <div className="grid grid-cols-7 gap-1 mb-2">
-          {dayNames.map((day) => (
-            <div key={day} className="p-2 text-center text-sm font-medium text-gray-500 dark:text-gray-400">
-              {day}
-            </div>
-          ))}
-        </div>
+        {viewMode === 'month' ? (
+          <MonthView
+            currentDate={currentDate}
+            eventsByDate={eventsByDate}
+            onDayClick={handleDateClick}
+            onEventClick={handleEventClick}
+          />
+        ) : (
+          <TimeGridView
+            days={visibleDays()}
+            eventsByDate={eventsByDate}
+            onDayClick={(date) => {
+              setCurrentDate(date);
+              setViewMode('day');
+            }}
+            onEventClick={handleEventClick}
+            onCreate={handleCreate}
+          />
+        )}
+      </div>
 
-        {/* Calendar Days */}
-        <div className="grid grid-cols-7 gap-1">
-          {getDaysInMonth(currentDate).map((date, index) => (
-            <div key={index} className="aspect-square">
-              {date ? (
-                <button
-                  onClick={() => handleDateClick(date)}
-                  className={`w-full h-full p-2 text-sm rounded-lg transition-colors relative ${
-                    isToday(date)
-                      ? 'bg-blue-500 text-white font-semibold'
-                      : 'hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-900 dark:text-gray-100'
-                  }`}
-                >
-                  {date.getDate()}
-                  {hasNote(date) && (
-                    <div className="absolute bottom-1 right-1 w-2 h-2 bg-green-500 rounded-full"></div>
-                  )}
-                </button>
-              ) : (
-                <div className="w-full h-full"></div>
-              )}
-            </div>
-          ))}
+      {/* Recurring Tasks */}
+      {series.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center">
+            <Repeat className="h-5 w-5 mr-2 text-purple-500" />
+            Tugasan Berulang
+          </h3>
+
+          <div className="space-y-3">
+            {series.map((item) => (
+              <div key={item.id} className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                <p className="text-sm font-medium text-gray-900 dark:text-white">
+                  {item.title}
+                </p>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                  {describe(item)}
+                </p>
+              </div>
+            ))}
+          </div>
         </div>
-      </div>
+      )}
 
       {/* Recent Notes */}
       <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
         <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
           Nota Terkini
         </h3>
-        
+
         {notes.length > 0 ? (
           <div className="space-y-3">
             {notes.slice(0, 5).map((note) => (
@@ -288,12 +496,7 @@ export default function Calendar() {
                   </p>
                 </div>
                 <button
-                  onClick={() => {
-                    setSelectedDate(new Date(note.note_date));
-                    setEditingNote(note);
-                    setNoteText(note.note);
-                    setShowModal(true);
-                  }}
+                  onClick={() => openNote(parseISO(note.note_date), note)}
                   className="p-1 text-gray-400 hover:text-blue-500 transition-colors"
                 >
                   <Edit className="h-4 w-4" />
@@ -315,7 +518,7 @@ export default function Calendar() {
             <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">
               {editingNote ? 'Edit Nota' : 'Tambah Nota'}
             </h2>
-            
+
             <div className="mb-4">
               <p className="text-sm text-gray-600 dark:text-gray-400">
                 {selectedDate.toLocaleDateString('ms-MY', {
@@ -327,6 +530,46 @@ export default function Calendar() {
               </p>
             </div>
 
+            {selectedDayEvents.length > 0 && (
+              <div className="mb-4 space-y-1">
+                {selectedDayEvents.map((event) => (
+                  <button
+                    key={event.key}
+                    onClick={() => handleEventClick(event)}
+                    className={`w-full flex items-center text-left text-sm px-2 py-1 rounded ${layerChip(event.layer)}`}
+                  >
+                    {!event.sourceId && <Repeat className="h-3.5 w-3.5 mr-2 flex-shrink-0" />}
+                    <span className="truncate">{event.title}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3 mb-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Masa Mula
+                </label>
+                <input
+                  type="time"
+                  value={noteTimes.start_time}
+                  onChange={(e) => setNoteTimes({ ...noteTimes, start_time: e.target.value })}
+                  className="input-field"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Masa Tamat
+                </label>
+                <input
+                  type="time"
+                  value={noteTimes.end_time}
+                  onChange={(e) => setNoteTimes({ ...noteTimes, end_time: e.target.value })}
+                  className="input-field"
+                />
+              </div>
+            </div>
+
             <div className="mb-6">
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                 Nota
@@ -341,12 +584,7 @@ export default function Calendar() {
 
             <div className="flex space-x-3">
               <button
-                onClick={() => {
-                  setShowModal(false);
-                  setNoteText('');
-                  setEditingNote(null);
-                  setSelectedDate(null);
-                }}
+                onClick={closeModal}
                 className="btn-secondary flex-1"
               >
                 Batal
@@ -370,6 +608,18 @@ export default function Calendar() {
           </div>
         </div>
       )}
+
+      {showFeedModal && scope && (
+        <FeedModal userId={scope.userId} onClose={() => setShowFeedModal(false)} />
+      )}
+
+      {showImportModal && scope && (
+        <ImportModal
+          scope={personalScope(scope)}
+          onClose={() => setShowImportModal(false)}
+          onImported={fetchCalendar}
+        />
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
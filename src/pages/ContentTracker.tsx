@@ -1,6 +1,43 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { supabase } from '../lib/supabase';
+import { useDataScope } from '../hooks/useDataScope';
+import { useEditParam } from '../hooks/useEditParam';
+import { useRealTimeSync } from '../hooks/useRealTimeSync';
+import {
+  contentEntriesRepo,
+  contentItemsRepo,
+  contentLogRepo,
+  contentOptionsRepo,
+  personalScope,
+  templatesRepo,
+  userProfilesRepo,
+  userTargetsRepo,
+  type ContentEntry,
+  type ContentEntryInput,
+  type ContentItem,
+  type ContentItemInput,
+  type ContentLog,
+  type ContentOption,
+  type ContentOptionKind,
+  type ContentStage,
+  type Template,
+  type UserProfile
+} from '../lib/repositories';
+import {
+  bucketLabel,
+  mergeEntries,
+  seriesColors,
+  seriesFor,
+  stackByDate,
+  UNSPECIFIED_LABEL,
+  type BreakdownKey
+} from '../lib/contentBreakdown';
+import { postedAsEntries } from '../lib/contentPipeline';
+import { toDateKey } from '../lib/dates';
+import { isBelowTarget } from '../lib/targets';
+import ContentOptionsModal from '../components/Content/ContentOptionsModal';
+import ContentItemModal from '../components/Content/ContentItemModal';
+import PipelineBoard from '../components/Content/PipelineBoard';
 import { 
   FileText, 
   Plus, 
@@ -9,49 +46,72 @@ import {
   Calendar,
   TrendingUp,
   BarChart3,
-  Download
+  Download,
+  ListChecks,
+  X
 } from 'lucide-react';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceLine, ResponsiveContainer } from 'recharts';
 import toast from 'react-hot-toast';
 
-interface ContentLog {
-  id: string;
-  user_id: string;
-  log_date: string;
-  content_count: number;
-  created_at: string;
-  updated_at: string;
-}
+const emptyRow = (): ContentEntryInput => ({ platform: null, content_type: null, count: 1 });
+
+const emptyForm = () => ({
+  log_date: new Date().toISOString().split('T')[0],
+  rows: [emptyRow()]
+});
 
 export default function ContentTracker() {
-  const { user } = useAuth();
+  const { profile } = useAuth();
+  const scope = useDataScope();
   const [logs, setLogs] = useState<ContentLog[]>([]);
+  const [entries, setEntries] = useState<ContentEntry[]>([]);
+  const [options, setOptions] = useState<ContentOption[]>([]);
+  const [items, setItems] = useState<ContentItem[]>([]);
+  const [templates, setTemplates] = useState<Template[]>([]);
+  const [profiles, setProfiles] = useState<UserProfile[]>([]);
+  const [dailyTarget, setDailyTarget] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
   const [showModal, setShowModal] = useState(false);
+  const [showOptions, setShowOptions] = useState(false);
   const [editingLog, setEditingLog] = useState<ContentLog | null>(null);
-  const [viewMode, setViewMode] = useState<'list' | 'chart'>('list');
+  // undefined = closed, null = adding a new item
+  const [editingItem, setEditingItem] = useState<ContentItem | null | undefined>(undefined);
+  const [viewMode, setViewMode] = useState<'list' | 'chart' | 'board'>('list');
+  const [breakdown, setBreakdown] = useState<BreakdownKey>('platform');
   
-  const [formData, setFormData] = useState({
-    log_date: new Date().toISOString().split('T')[0],
-    content_count: 0
-  });
+  const [formData, setFormData] = useState(emptyForm);
 
   useEffect(() => {
-    if (user) {
+    if (scope) {
       fetchLogs();
     }
-  }, [user]);
+  }, [scope]);
 
   const fetchLogs = async () => {
+    if (!scope) return;
+
     try {
-      const { data, error } = await supabase
-        .from('content_log')
-        .select('*')
-        .eq('user_id', user?.id)
-        .order('log_date', { ascending: false });
+      const ownScope = personalScope(scope);
+      const [logsRes, entriesRes, optionsRes, itemsRes, templatesRes, profilesRes, targetRes] = await Promise.all([
+        contentLogRepo.list(ownScope),
+        contentEntriesRepo.list(ownScope),
+        contentOptionsRepo.list(),
+        contentItemsRepo.list(),
+        templatesRepo.list(),
+        userProfilesRepo.listAll(),
+        userTargetsRepo.get(scope.userId)
+      ]);
 
-      if (error) throw error;
-      setLogs(data || []);
+      const failed = [logsRes, entriesRes, optionsRes, itemsRes, templatesRes, profilesRes, targetRes].find(res => res.error);
+      if (failed?.error) throw failed.error;
+
+      setLogs(logsRes.data || []);
+      setEntries(entriesRes.data || []);
+      setOptions(optionsRes.data || []);
+      setItems(itemsRes.data || []);
+      setTemplates(templatesRes.data || []);
+      setProfiles(profilesRes.data || []);
+      setDailyTarget(targetRes.data?.daily_content ?? null);
     } catch (error) {
       console.error('Error fetching content logs:', error);
       toast.error('Ralat semasa mengambil data log content');
@@ -60,46 +120,47 @@ export default function ContentTracker() {
     }
   };
 
+  // Posting an item changes the daily totals as well as the board
+  useRealTimeSync({
+    table: 'content_items',
+    onUpdate: fetchLogs
+  });
+
+  const posted = scope ? postedAsEntries(items, scope.userId) : [];
+  const postedOn = (date: string) => posted.filter(row => row.log_date === date).length;
+  // Part of a day's total that was logged by hand
+  const manualCount = (log: ContentLog) => log.content_count - postedOn(log.log_date);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!user) return;
+    if (!scope) return;
+
+    const rows = mergeEntries(formData.rows);
+    if (rows.length === 0) {
+      toast.error('Sila masukkan sekurang-kurangnya satu content');
+      return;
+    }
 
     try {
       // Check if log already exists for this date
       const existingLog = logs.find(log => log.log_date === formData.log_date);
       
-      if (existingLog && !editingLog) {
+      if (existingLog && existingLog.id !== editingLog?.id && manualCount(existingLog) > 0) {
         toast.error('Log untuk tarikh ini sudah wujud. Sila edit log yang sedia ada.');
         return;
       }
 
-      if (editingLog) {
-        const { error } = await supabase
-          .from('content_log')
-          .update({
-            content_count: formData.content_count,
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', editingLog.id);
-
-        if (error) throw error;
-        toast.success('Log content berjaya dikemaskini');
-      } else {
-        const { error } = await supabase
-          .from('content_log')
-          .insert([{
-            user_id: user.id,
-            log_date: formData.log_date,
-            content_count: formData.content_count
-          }]);
-
-        if (error) throw error;
-        toast.success('Log content berjaya ditambah');
+      const { error } = await contentEntriesRepo.replaceDay(formData.log_date, rows);
+      if (error) throw error;
+
+      // Moved to another date
+      if (editingLog && editingLog.log_date !== formData.log_date) {
+        const { error: moveError } = await contentEntriesRepo.removeDay(scope, editingLog.log_date);
+        if (moveError) throw moveError;
       }
 
-      setShowModal(false);
-      setEditingLog(null);
-      setFormData({ log_date: new Date().toISOString().split('T')[0], content_count: 0 });
+      toast.success(editingLog ? 'Log content berjaya dikemaskini' : 'Log content berjaya ditambah');
+      closeModal();
       fetchLogs();
     } catch (error) {
       console.error('Error saving content log:', error);
@@ -107,23 +168,85 @@ export default function ContentTracker() {
     }
   };
 
+  const closeModal = () => {
+    setShowModal(false);
+    setEditingLog(null);
+    setFormData(emptyForm());
+  };
+
+  const entriesFor = (date: string) => entries.filter(entry => entry.log_date === date);
+
   const handleEdit = (log: ContentLog) => {
+    const dayEntries = entriesFor(log.log_date);
+    const manual = manualCount(log);
+
     setEditingLog(log);
     setFormData({
       log_date: log.log_date,
-      content_count: log.content_count
+      // Totals logged before the breakdown existed open as one unspecified row;
+      // posted pipeline items are not edited here
+      rows: dayEntries.length > 0
+        ? dayEntries.map(({ platform, content_type, count }) => ({ platform, content_type, count }))
+        : [{ ...emptyRow(), count: manual > 0 ? manual : 1 }]
     });
     setShowModal(true);
   };
 
-  const handleDelete = async (id: string) => {
-    if (!confirm('Adakah anda pasti ingin memadam log ini?')) return;
+  useEditParam(logs, handleEdit);
+
+  const updateRow = (index: number, values: Partial<ContentEntryInput>) => {
+    setFormData(prev => ({
+      ...prev,
+      rows: prev.rows.map((row, i) => (i === index ? { ...row, ...values } : row))
+    }));
+  };
+
+  const removeRow = (index: number) => {
+    setFormData(prev => ({ ...prev, rows: prev.rows.filter((_, i) => i !== index) }));
+  };
+
+  // Inactive options are only offered when a row already uses them
+  const choicesFor = (kind: ContentOptionKind, current: string | null) =>
+    options.filter(option => option.kind === kind && (option.is_active || option.name === current));
+
+  const handleAddOption = async (kind: ContentOptionKind, name: string): Promise<boolean> => {
+    try {
+      const sortOrder = Math.max(0, ...options.filter(option => option.kind === kind).map(option => option.sort_order)) + 1;
+      const { error } = await contentOptionsRepo.create(kind, name, sortOrder);
+
+      if (error) {
+        if (error.code === '23505') {
+          toast.error('Pilihan ini sudah wujud');
+          return false;
+        }
+        throw error;
+      }
+      fetchLogs();
+      return true;
+    } catch (error) {
+      console.error('Error adding content option:', error);
+      toast.error('Ralat semasa menambah pilihan');
+      return false;
+    }
+  };
+
+  const handleToggleOption = async (option: ContentOption) => {
+    try {
+      const { error } = await contentOptionsRepo.update(option.id, { is_active: !option.is_active });
+
+      if (error) throw error;
+      fetchLogs();
+    } catch (error) {
+      console.error('Error updating content option:', error);
+      toast.error('Ralat semasa mengemaskini pilihan');
+    }
+  };
+
+  const handleDelete = async (log: ContentLog) => {
+    if (!scope || !confirm('Adakah anda pasti ingin memadam log ini?')) return;
 
     try {
-      const { error } = await supabase
-        .from('content_log')
-        .delete()
-        .eq('id', id);
+      const { error } = await contentEntriesRepo.removeDay(scope, log.log_date);
 
       if (error) throw error;
       toast.success('Log content berjaya dipadam');
@@ -134,10 +257,84 @@ export default function ContentTracker() {
     }
   };
 
+  const canEditItem = (item: ContentItem) =>
+    profile?.role === 'admin' || item.user_id === scope?.userId || item.assigned_to === scope?.userId;
+
+  const canDeleteItem = (item: ContentItem) =>
+    profile?.role === 'admin' || item.user_id === scope?.userId;
+
+  const nameOf = (userId: string) =>
+    profiles.find(p => p.id === userId)?.nama || 'Ahli pasukan';
+
+  const templateTitle = (templateId: string) =>
+    templates.find(template => template.id === templateId)?.title || null;
+
+  const handleMoveItem = async (item: ContentItem, stage: ContentStage) => {
+    // Optimistic so the card does not jump back while saving
+    setItems(prev => prev.map(i => (i.id === item.id ? { ...i, stage } : i)));
+
+    try {
+      const { error } = await contentItemsRepo.moveStage(item.id, stage, toDateKey(new Date()));
+
+      if (error) throw error;
+      fetchLogs();
+    } catch (error) {
+      console.error('Error moving content item:', error);
+      toast.error('Ralat semasa mengemaskini peringkat content');
+      fetchLogs();
+    }
+  };
+
+  const handleSaveItem = async (values: ContentItemInput): Promise<boolean> => {
+    if (!scope) return false;
+
+    try {
+      const { error } = editingItem
+        ? await contentItemsRepo.update(editingItem.id, values)
+        : await contentItemsRepo.create(scope, values);
+
+      if (error) throw error;
+      toast.success(editingItem ? 'Content berjaya dikemaskini' : 'Content berjaya ditambah');
+      fetchLogs();
+      return true;
+    } catch (error) {
+      console.error('Error saving content item:', error);
+      toast.error('Ralat semasa menyimpan content');
+      return false;
+    }
+  };
+
+  const handleDeleteItem = async (item: ContentItem) => {
+    if (!confirm('Adakah anda pasti ingin memadam content ini?')) return;
+
+    try {
+      const { error } = await contentItemsRepo.remove(item.id);
+
+      if (error) throw error;
+      toast.success('Content berjaya dipadam');
+      setEditingItem(undefined);
+      fetchLogs();
+    } catch (error) {
+      console.error('Error deleting content item:', error);
+      toast.error('Ralat semasa memadam content');
+    }
+  };
+
   const exportToCSV = () => {
+    const rows = [
+      ...entries.map(entry => ({ ...entry, source: 'Manual' })),
+      ...posted.map(row => ({ ...row, source: 'Pipeline' }))
+    ].sort((a, b) => b.log_date.localeCompare(a.log_date));
+
     const csvContent = [
-      ['Tarikh', 'Jumlah Content'],
-      ...logs.map(log => [log.log_date, log.content_count.toString()])
+      ['Tarikh', 'Platform', 'Jenis', 'Jumlah Content', 'Sumber'],
+      ...rows.map(row => [
+        row.log_date,
+        bucketLabel(row.platform),
+        bucketLabel(row.content_type),
+        row.count.toString(),
+        row.source
+      ])
     ].map(row => row.join(',')).join('\n');
 
     const blob = new Blob([csvContent], { type: 'text/csv' });
@@ -150,17 +347,24 @@ export default function ContentTracker() {
     toast.success('Data berjaya dieksport');
   };
 
+  const chartDates = logs
+    .slice(0, 30) // Last 30 entries
+    .map(log => log.log_date)
+    .reverse();
+  const chartEntries = [...entries, ...posted].filter(entry => chartDates.includes(entry.log_date));
+  const chartSeries = seriesFor(chartEntries, breakdown);
+
+  const belowTarget = (date: string) =>
+    isBelowTarget(logs.find(log => log.log_date === date)?.content_count || 0, dailyTarget);
+
   const getChartData = () => {
-    return logs
-      .slice(0, 30) // Last 30 entries
-      .reverse()
-      .map(log => ({
-        date: new Date(log.log_date).toLocaleDateString('ms-MY', { 
-          month: 'short', 
-          day: 'numeric' 
-        }),
-        content: log.content_count
-      }));
+    return stackByDate(chartEntries, breakdown, chartDates).map(row => ({
+      ...row,
+      date: new Date(row.date as string).toLocaleDateString('ms-MY', { 
+        month: 'short', 
+        day: 'numeric' 
+      })
+    }));
   };
 
   const getTotalContent = () => {
@@ -203,21 +407,40 @@ export default function ContentTracker() {
           </p>
         </div>
         <div className="flex items-center space-x-3 mt-4 sm:mt-0">
+          {profile?.role === 'admin' && (
+            <button
+              onClick={() => setShowOptions(true)}
+              className="btn-secondary flex items-center"
+            >
+              <ListChecks className="h-4 w-4 mr-2" />
+              Urus Senarai
+            </button>
+          )}
           <button
             onClick={exportToCSV}
             className="btn-secondary flex items-center"
-            disabled={logs.length === 0}
+            disabled={entries.length === 0 && posted.length === 0}
           >
             <Download className="h-4 w-4 mr-2" />
             Export CSV
           </button>
-          <button
-            onClick={() => setShowModal(true)}
-            className="btn-primary flex items-center"
-          >
-            <Plus className="h-4 w-4 mr-2" />
-            Tambah Log
-          </button>
+          {viewMode === 'board' ? (
+            <button
+              onClick={() => setEditingItem(null)}
+              className="btn-primary flex items-center"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Tambah Content
+            </button>
+          ) : (
+            <button
+              onClick={() => setShowModal(true)}
+              className="btn-primary flex items-center"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Tambah Log
+            </button>
+          )}
         </div>
       </div>
 
@@ -294,10 +517,29 @@ export default function ContentTracker() {
         >
           Graf
         </button>
+        <button
+          onClick={() => setViewMode('board')}
+          className={`px-4 py-2 rounded-lg transition-colors ${
+            viewMode === 'board'
+              ? 'bg-blue-500 text-white'
+              : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+          }`}
+        >
+          Pipeline
+        </button>
       </div>
 
       {/* Content */}
-      {viewMode === 'list' ? (
+      {viewMode === 'board' ? (
+        <PipelineBoard
+          items={items}
+          canEdit={canEditItem}
+          nameOf={nameOf}
+          templateTitle={templateTitle}
+          onMove={handleMoveItem}
+          onEdit={(item) => setEditingItem(item)}
+        />
+      ) : viewMode === 'list' ? (
         <div className="card">
           <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
             Log Content Terkini
@@ -306,7 +548,14 @@ export default function ContentTracker() {
           {logs.length > 0 ? (
             <div className="space-y-3">
               {logs.map((log) => (
-                <div key={log.id} className="flex items-center justify-between p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                <div
+                  key={log.id}
+                  className={`flex items-center justify-between p-4 rounded-lg ${
+                    belowTarget(log.log_date)
+                      ? 'bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800'
+                      : 'bg-gray-50 dark:bg-gray-700'
+                  }`}
+                >
                   <div className="flex items-center space-x-4">
                     <div className="bg-orange-100 dark:bg-orange-900 p-2 rounded-lg">
                       <FileText className="h-5 w-5 text-orange-600 dark:text-orange-400" />
@@ -322,7 +571,27 @@ export default function ContentTracker() {
                       </p>
                       <p className="text-sm text-gray-600 dark:text-gray-400">
                         {log.content_count} content dihasilkan
+                        {belowTarget(log.log_date) && (
+                          <span className="ml-2 text-red-600 dark:text-red-400">
+                            · Bawah sasaran ({log.content_count}/{dailyTarget})
+                          </span>
+                        )}
                       </p>
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {entriesFor(log.log_date).map((entry) => (
+                          <span
+                            key={entry.id}
+                            className="text-xs px-2 py-0.5 rounded-full bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-300"
+                          >
+                            {bucketLabel(entry.platform)} · {bucketLabel(entry.content_type)}: {entry.count}
+                          </span>
+                        ))}
+                        {postedOn(log.log_date) > 0 && (
+                          <span className="text-xs px-2 py-0.5 rounded-full bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300">
+                            Pipeline: {postedOn(log.log_date)}
+                          </span>
+                        )}
+                      </div>
                     </div>
                   </div>
                   <div className="flex items-center space-x-2">
@@ -333,7 +602,7 @@ export default function ContentTracker() {
                       <Edit className="h-4 w-4" />
                     </button>
                     <button
-                      onClick={() => handleDelete(log.id)}
+                      onClick={() => handleDelete(log)}
                       className="p-2 text-gray-400 hover:text-red-500 transition-colors"
                     >
                       <Trash2 className="h-4 w-4" />
@@ -356,23 +625,76 @@ export default function ContentTracker() {
         </div>
       ) : (
         <div className="card">
-          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center">
-            <BarChart3 className="h-5 w-5 mr-2" />
-            Graf Content Harian (30 Hari Terakhir)
-          </h3>
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+              <BarChart3 className="h-5 w-5 mr-2" />
+              Graf Content Harian (30 Hari Terakhir)
+            </h3>
+            <div className="flex items-center space-x-2 mt-3 sm:mt-0">
+              <button
+                onClick={() => setBreakdown('platform')}
+                className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+                  breakdown === 'platform'
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+                }`}
+              >
+                Platform
+              </button>
+              <button
+                onClick={() => setBreakdown('content_type')}
+                className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+                  breakdown === 'content_type'
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+                }`}
+              >
+                Jenis
+              </button>
+            </div>
+          </div>
           
           {logs.length > 0 ? (
             <div className="h-80">
               <ResponsiveContainer width="100%" height="100%">
                 <BarChart data={getChartData()}>
                   <CartesianGrid strokeDasharray="3 3" />
-                  <XAxis dataKey="date" />
+                  <XAxis
+                    dataKey="date"
+                    tick={({ x, y, payload }) => (
+                      <text
+                        x={x}
+                        y={y + 12}
+                        textAnchor="middle"
+                        fontSize={12}
+                        fill={belowTarget(chartDates[payload.index]) ? '#ef4444' : '#6b7280'}
+                      >
+                        {payload.value}
+                      </text>
+                    )}
+                  />
                   <YAxis />
                   <Tooltip 
                     labelFormatter={(label) => `Tarikh: ${label}`}
-                    formatter={(value) => [`${value} content`, 'Jumlah']}
+                    formatter={(value, name) => [`${value} content`, name]}
                   />
-                  <Bar dataKey="content" fill="#f97316" />
+                  <Legend />
+                  {dailyTarget !== null && (
+                    <ReferenceLine
+                      y={dailyTarget}
+                      stroke="#ef4444"
+                      strokeDasharray="4 4"
+                      label={{ value: 'Sasaran', position: 'insideTopRight', fill: '#ef4444', fontSize: 12 }}
+                    />
+                  )}
+                  {chartSeries.map((series, index) => (
+                    <Bar
+                      key={series}
+                      dataKey={series}
+                      stackId="content"
+                      fill={series === UNSPECIFIED_LABEL ? '#9ca3af' : seriesColors[index % seriesColors.length]}
+                    />
+                  ))}
                 </BarChart>
               </ResponsiveContainer>
             </div>
@@ -390,7 +712,7 @@ export default function ContentTracker() {
       {/* Modal */}
       {showModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
-          <div className="bg-white dark:bg-gray-800 rounded-xl p-6 w-full max-w-md">
+          <div className="bg-white dark:bg-gray-800 rounded-xl p-6 w-full max-w-lg">
             <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">
               {editingLog ? 'Edit Log Content' : 'Tambah Log Content'}
             </h2>
@@ -411,27 +733,73 @@ export default function ContentTracker() {
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                  Jumlah Content
+                  Content Mengikut Platform & Jenis
                 </label>
-                <input
-                  type="number"
-                  min="0"
-                  required
-                  value={formData.content_count}
-                  onChange={(e) => setFormData({ ...formData, content_count: parseInt(e.target.value) || 0 })}
-                  className="input-field"
-                  placeholder="Masukkan jumlah content"
-                />
+                <div className="space-y-2">
+                  {formData.rows.map((row, index) => (
+                    <div key={index} className="flex items-center space-x-2">
+                      <select
+                        value={row.platform || ''}
+                        onChange={(e) => updateRow(index, { platform: e.target.value || null })}
+                        className="input-field py-1"
+                      >
+                        <option value="">{UNSPECIFIED_LABEL}</option>
+                        {choicesFor('platform', row.platform).map((option) => (
+                          <option key={option.id} value={option.name}>
+                            {option.name}
+                          </option>
+                        ))}
+                      </select>
+                      <select
+                        value={row.content_type || ''}
+                        onChange={(e) => updateRow(index, { content_type: e.target.value || null })}
+                        className="input-field py-1"
+                      >
+                        <option value="">{UNSPECIFIED_LABEL}</option>
+                        {choicesFor('type', row.content_type).map((option) => (
+                          <option key={option.id} value={option.name}>
+                            {option.name}
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        min="0"
+                        required
+                        value={row.count}
+                        onChange={(e) => updateRow(index, { count: parseInt(e.target.value) || 0 })}
+                        className="input-field py-1 w-20"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => removeRow(index)}
+                        disabled={formData.rows.length === 1}
+                        className="p-1 text-gray-400 hover:text-red-500 transition-colors disabled:opacity-30"
+                        title="Buang baris"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex items-center justify-between mt-2">
+                  <button
+                    type="button"
+                    onClick={() => setFormData(prev => ({ ...prev, rows: [...prev.rows, emptyRow()] }))}
+                    className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    + Tambah baris
+                  </button>
+                  <span className="text-sm text-gray-600 dark:text-gray-400">
+                    Jumlah: {formData.rows.reduce((total, row) => total + row.count, 0)}
+                  </span>
+                </div>
               </div>
 
               <div className="flex space-x-3 pt-4">
                 <button
                   type="button"
-                  onClick={() => {
-                    setShowModal(false);
-                    setEditingLog(null);
-                    setFormData({ log_date: new Date().toISOString().split('T')[0], content_count: 0 });
-                  }}
+                  onClick={closeModal}
                   className="btn-secondary flex-1"
                 >
                   Batal
@@ -444,6 +812,28 @@ export default function ContentTracker() {
           </div>
         </div>
       )}
+
+      {editingItem !== undefined && scope && (
+        <ContentItemModal
+          item={editingItem}
+          options={options}
+          profiles={profiles}
+          templates={templates}
+          currentUserId={scope.userId}
+          onSave={handleSaveItem}
+          onDelete={editingItem && canDeleteItem(editingItem) ? () => handleDeleteItem(editingItem) : undefined}
+          onClose={() => setEditingItem(undefined)}
+        />
+      )}
+
+      {showOptions && (
+        <ContentOptionsModal
+          options={options}
+          onAdd={handleAddOption}
+          onToggle={handleToggleOption}
+          onClose={() => setShowOptions(false)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,18 +1,29 @@
-import React, { useEffect, useState } from 'react';
+import { useEffect, useState } from 'react';
+import { subDays } from 'date-fns';
 import { useAuth } from '../contexts/AuthContext';
-import { supabase } from '../lib/supabase';
+import { useDataScope } from '../hooks/useDataScope';
+import {
+  activityLogRepo,
+  analyticsRepo,
+  personalScope,
+  userTargetsRepo,
+  type ActivityLog,
+  type UserTarget
+} from '../lib/repositories';
+import { toDateKey } from '../lib/dates';
+import { dailyTotals, streak, STREAK_WINDOW_DAYS, weekTotal } from '../lib/targets';
+import ProgressRing from '../components/Dashboard/ProgressRing';
 import {
-  LayoutDashboard,
   FolderOpen,
   CheckSquare,
   Calendar,
   TrendingUp,
   Users,
-  Clock,
   Target,
-  Plus,
-  Radio
+  Radio,
+  Flame
 } from 'lucide-react';
+import toast from 'react-hot-toast';
 
 interface DashboardStats {
   totalProjects: number;
@@ -20,85 +31,86 @@ interface DashboardStats {
   completedTasks: number;
   todayContent: number;
   todayLiveHours: number;
-  recentActivities: any[];
+  weekContent: number;
+  weekLiveHours: number;
+  contentStreak: number;
+  liveStreak: number;
+  target: UserTarget | null;
+  recentActivities: ActivityLog[];
 }
 
+const formatHours = (hours: number) => `${hours.toFixed(1)}j`;
+
 export default function Dashboard() {
   const { profile, user } = useAuth();
+  const scope = useDataScope();
   const [stats, setStats] = useState<DashboardStats>({
     totalProjects: 0,
     totalTasks: 0,
     completedTasks: 0,
     todayContent: 0,
     todayLiveHours: 0,
+    weekContent: 0,
+    weekLiveHours: 0,
+    contentStreak: 0,
+    liveStreak: 0,
+    target: null,
     recentActivities: []
   });
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    if (user) {
+    if (scope) {
       fetchDashboardData();
     }
-  }, [user]);
+  }, [scope]);
 
   const fetchDashboardData = async () => {
-    try {
-      const today = new Date().toISOString().split('T')[0];
-      
-      // Fetch projects count - only user's own projects
-      const { count: projectCount } = await supabase
-        .from('projects')
-        .select('*', { count: 'exact', head: true })
-        .eq('user_id', user?.id);
-
-      // Fetch tasks count - only user's own tasks or assigned to user
-      const { count: taskCount } = await supabase
-        .from('tasks')
-        .select('*', { count: 'exact', head: true })
-        .or(`user_id.eq.${user?.id},assigned_to.eq.${user?.id}`);
-
-      // Fetch completed tasks count - only user's own tasks or assigned to user
-      const { count: completedTaskCount } = await supabase
-        .from('tasks')
-        .select('*', { count: 'exact', head: true })
-        .eq('status', 'Completed')
-        .or(`user_id.eq.${user?.id},assigned_to.eq.${user?.id}`);
+    if (!scope) return;
 
-      // Fetch today's content - only user's own content
-      const { data: contentData } = await supabase
-        .from('content_log')
-        .select('content_count')
-        .eq('user_id', user?.id)
-        .eq('log_date', today)
-        .maybeSingle();
+    try {
+      const now = new Date();
+      const today = toDateKey(now);
+      // Enough history for streaks and the current week
+      const range = { from: toDateKey(subDays(now, STREAK_WINDOW_DAYS)), to: today };
+      // The dashboard is always personal, even for admins
+      const ownScope = personalScope(scope);
 
-      // Fetch today's live hours from new manual log table
-      const { data: liveData } = await supabase
-        .from('live_manual_log')
-        .select('total_hours')
-        .eq('user_id', user?.id)
-        .eq('live_date', today);
+      const [statusRes, dailyRes, activityRes, targetRes] = await Promise.all([
+        analyticsRepo.statusCounts(ownScope),
+        analyticsRepo.daily(ownScope, range),
+        activityLogRepo.recent(ownScope, 5),
+        userTargetsRepo.get(scope.userId)
+      ]);
 
-      // Fetch recent activities - only user's own activities
-      const { data: activityData } = await supabase
-        .from('activity_log')
-        .select('*')
-        .eq('user_id', user?.id)
-        .order('log_timestamp', { ascending: false })
-        .limit(5);
+      const failed = [statusRes, dailyRes, activityRes, targetRes].find(res => res.error);
+      if (failed?.error) throw failed.error;
 
-      const totalLiveHours = liveData?.reduce((sum, log) => sum + (log.total_hours || 0), 0) || 0;
+      const statuses = statusRes.data || [];
+      const countOf = (kind: 'project' | 'task', status?: string) => statuses
+        .filter(count => count.kind === kind && (!status || count.status === status))
+        .reduce((sum, count) => sum + count.total, 0);
+      const days = dailyRes.data || [];
+      const contentByDay = dailyTotals(days, day => day.day, day => day.content);
+      const liveByDay = dailyTotals(days, day => day.day, day => day.live_hours);
+      const target = targetRes.data;
 
       setStats({
-        totalProjects: projectCount || 0,
-        totalTasks: taskCount || 0,
-        completedTasks: completedTaskCount || 0,
-        todayContent: contentData?.content_count || 0,
-        todayLiveHours: totalLiveHours,
-        recentActivities: activityData || []
+        totalProjects: countOf('project'),
+        totalTasks: countOf('task'),
+        completedTasks: countOf('task', 'Completed'),
+        todayContent: contentByDay.get(today) || 0,
+        todayLiveHours: liveByDay.get(today) || 0,
+        weekContent: weekTotal(contentByDay, now),
+        weekLiveHours: weekTotal(liveByDay, now),
+        contentStreak: target?.daily_content ? streak(contentByDay, target.daily_content, now) : 0,
+        liveStreak: target?.daily_live_hours ? streak(liveByDay, target.daily_live_hours, now) : 0,
+        target,
+        recentActivities: activityRes.data || []
       });
     } catch (error) {
       console.error('Error fetching dashboard data:', error);
+      toast.error('Ralat semasa mengambil data dashboard');
     } finally {
       setLoading(false);
     }
@@ -106,12 +118,9 @@ export default function Dashboard() {
 
   const logActivity = async (action: string) => {
     if (!user) return;
-    
-    try {
-      await supabase
-        .from('activity_log')
-        .insert([{ user_id: user.id, action }]);
-    } catch (error) {
+
+    const { error } = await activityLogRepo.record(user.id, action);
+    if (error) {
       console.error('Error logging activity:', error);
     }
   };
@@ -153,13 +162,21 @@ export default function Dashboard() {
     },
     {
       title: 'Jam Live Hari Ini',
-      value: `${stats.todayLiveHours.toFixed(1)}j`,
+      value: formatHours(stats.todayLiveHours),
       icon: Radio,
       color: 'bg-red-500',
       textColor: 'text-red-600 dark:text-red-400'
     }
   ];
 
+  const { target } = stats;
+  const rings = target ? [
+    { label: 'Content Hari Ini', value: stats.todayContent, target: target.daily_content, color: '#f97316', format: String },
+    { label: 'Content Minggu Ini', value: stats.weekContent, target: target.weekly_content, color: '#f97316', format: String },
+    { label: 'Live Hari Ini', value: stats.todayLiveHours, target: target.daily_live_hours, color: '#ef4444', format: formatHours },
+    { label: 'Live Minggu Ini', value: stats.weekLiveHours, target: target.weekly_live_hours, color: '#ef4444', format: formatHours }
+  ].filter(ring => ring.target !== null) : [];
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -210,6 +227,49 @@ export default function Dashboard() {
         ))}
       </div>
 
+      {/* Targets */}
+      <div className="bg-white dark:bg-gray-800 rounded-xl p-6 border border-gray-200 dark:border-gray-700">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+            <Target className="h-5 w-5 mr-2 text-orange-500" />
+            Sasaran Saya
+          </h3>
+          <div className="flex flex-wrap gap-2 mt-2 sm:mt-0">
+            {target?.daily_content && (
+              <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-300">
+                <Flame className="h-3 w-3 mr-1" />
+                Content: {stats.contentStreak} hari berturut-turut
+              </span>
+            )}
+            {target?.daily_live_hours && (
+              <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300">
+                <Flame className="h-3 w-3 mr-1" />
+                Live: {stats.liveStreak} hari berturut-turut
+              </span>
+            )}
+          </div>
+        </div>
+
+        {rings.length > 0 ? (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+            {rings.map((ring) => (
+              <ProgressRing
+                key={ring.label}
+                label={ring.label}
+                value={ring.value}
+                target={ring.target as number}
+                color={ring.color}
+                format={ring.format}
+              />
+            ))}
+          </div>
+        ) : (
+          <p className="text-gray-500 dark:text-gray-400 text-sm">
+            Tiada sasaran ditetapkan untuk anda. Admin boleh menetapkan sasaran di halaman Tetapan.
+          </p>
+        )}
+      </div>
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Recent Activities */}
         <div className="bg-white dark:bg-gray-800 rounded-xl p-6 border border-gray-200 dark:border-gray-700">
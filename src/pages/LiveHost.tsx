@@ -1,7 +1,28 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { useRealTimeSync } from '../hooks/useRealTimeSync';
-import { supabase } from '../lib/supabase';
+import { useDataScope } from '../hooks/useDataScope';
+import { useEditParam } from '../hooks/useEditParam';
+import {
+  hostsRepo,
+  liveManualLogRepo,
+  payrollRepo,
+  realtimeFilter,
+  RepositoryError,
+  userProfilesRepo,
+  type Host,
+  type LiveManualLog,
+  type LiveShift,
+  type UserProfile
+} from '../lib/repositories';
+import { toDateKey } from '../lib/dates';
+import { elapsedSeconds, formatElapsed, isRunning, isStale } from '../lib/liveSessions';
+import { livePlatforms } from '../lib/liveShifts';
+import { hasSales, salesByHost } from '../lib/liveSales';
+import LiveTimer from '../components/Live/LiveTimer';
+import HostPicker from '../components/Live/HostPicker';
+import HostRosterModal from '../components/Live/HostRosterModal';
+import ShiftRoster from '../components/Live/ShiftRoster';
 import { 
   Radio, 
   Plus, 
@@ -12,48 +33,59 @@ import {
   BarChart3,
   Download,
   User,
+  Users,
+  AlertTriangle,
   TrendingUp
 } from 'lucide-react';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import toast from 'react-hot-toast';
+import { format } from 'date-fns';
 
-interface LiveManualLog {
-  id: string;
-  user_id: string;
-  host_name: string;
-  live_date: string;
-  total_hours: number;
-  created_at: string;
-  updated_at: string;
-}
+const emptyForm = () => ({
+  host_id: '',
+  live_date: toDateKey(new Date()),
+  total_hours: 0,
+  start_time: '',
+  end_time: '',
+  platform: '',
+  peak_viewers: '',
+  orders: '',
+  revenue: ''
+});
+
+// Sales fields are optional; a blank input is stored as "not recorded"
+const toMetric = (value: string) => (value === '' ? null : Math.max(0, Number(value)));
+const fromMetric = (value: number | null) => (value === null ? '' : String(value));
+
+// Logs inside an approved pay period are frozen by a database trigger
+const isPeriodLocked = (error: unknown) =>
+  error instanceof RepositoryError && error.code === payrollRepo.PERIOD_LOCKED_ERROR_CODE;
+
+// `datetime-local` input value for a stored timestamp
+const toInputTime = (value: string | null) => (value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : '');
 
 export default function LiveHost() {
   const { user, profile } = useAuth();
+  const scope = useDataScope();
   const [logs, setLogs] = useState<LiveManualLog[]>([]);
+  const [hosts, setHosts] = useState<Host[]>([]);
+  const [profiles, setProfiles] = useState<UserProfile[]>([]);
+  const [showRoster, setShowRoster] = useState(false);
   const [loading, setLoading] = useState(true);
   const [showModal, setShowModal] = useState(false);
   const [editingLog, setEditingLog] = useState<LiveManualLog | null>(null);
-  const [viewMode, setViewMode] = useState<'list' | 'chart'>('list');
+  const [viewMode, setViewMode] = useState<'list' | 'chart' | 'roster'>('list');
   
-  const [formData, setFormData] = useState({
-    host_name: '',
-    live_date: new Date().toISOString().split('T')[0],
-    total_hours: 0
-  });
+  const [formData, setFormData] = useState(emptyForm);
 
   const fetchLogs = async () => {
+    if (!scope) return;
+
     try {
-      let query = supabase.from('live_manual_log').select('*');
-      
-      // Admin can see all logs, users only see their own
-      if (profile?.role !== 'admin') {
-        query = query.eq('user_id', user?.id);
-      }
-      
-      const { data, error } = await query.order('live_date', { ascending: false });
+      const { data, error } = await liveManualLogRepo.list(scope);
 
       if (error) throw error;
-      setLogs(data || []);
+      setLogs(data);
     } catch (error) {
       console.error('Error fetching live manual logs:', error);
       toast.error('Ralat semasa mengambil data log live');
@@ -62,110 +94,279 @@ export default function LiveHost() {
     }
   };
 
+  const fetchHosts = async () => {
+    try {
+      const [hostsRes, profilesRes] = await Promise.all([
+        hostsRepo.list(),
+        userProfilesRepo.listAll()
+      ]);
+
+      const failed = [hostsRes, profilesRes].find(res => res.error);
+      if (failed?.error) throw failed.error;
+
+      setHosts(hostsRes.data || []);
+      setProfiles(profilesRes.data || []);
+    } catch (error) {
+      console.error('Error fetching hosts:', error);
+      toast.error('Ralat semasa mengambil senarai host');
+    }
+  };
+
   useEffect(() => {
-    if (user) {
+    if (scope) {
       fetchLogs();
+      fetchHosts();
     }
-  }, [user, profile]);
+  }, [scope]);
 
   // Real-time sync for live manual logs
   useRealTimeSync({
     table: 'live_manual_log',
     onUpdate: fetchLogs,
-    filter: profile?.role === 'admin' ? undefined : `user_id=eq.${user?.id}`
+    filter: realtimeFilter(scope)
+  });
+
+  useRealTimeSync({
+    table: 'hosts',
+    onUpdate: fetchHosts
   });
 
+  // Reuses a roster entry with the same name instead of adding a duplicate
+  const handleCreateHost = async (name: string): Promise<Host | null> => {
+    if (!scope) return null;
+
+    const existing = hostsRepo.findByName(hosts, name);
+    if (existing) return existing;
+
+    try {
+      const { data, error } = await hostsRepo.create(scope, { name });
+
+      if (error) throw error;
+      if (data) setHosts(prev => [...prev, data].sort((a, b) => a.name.localeCompare(b.name)));
+      toast.success('Host berjaya ditambah');
+      return data;
+    } catch (error) {
+      console.error('Error creating host:', error);
+      toast.error('Ralat semasa menambah host');
+      return null;
+    }
+  };
+
+  const handleSaveHost = async (host: Host, values: Pick<Host, 'name' | 'user_profile_id' | 'hourly_rate' | 'is_active'>) => {
+    if (!values.name.trim()) {
+      toast.error('Nama host tidak boleh kosong');
+      return;
+    }
+
+    const duplicate = hostsRepo.findByName(hosts, values.name);
+    if (duplicate && duplicate.id !== host.id) {
+      toast.error('Host dengan nama ini sudah wujud');
+      return;
+    }
+
+    try {
+      const { error } = await hostsRepo.update(host.id, values);
+
+      if (error) throw error;
+      toast.success('Host berjaya dikemaskini');
+      fetchHosts();
+      fetchLogs();
+    } catch (error) {
+      console.error('Error updating host:', error);
+      toast.error('Ralat semasa mengemaskini host');
+    }
+  };
+
+  const canManageHost = (host: Host) => profile?.role === 'admin' || host.created_by === user?.id;
+
+  const canManageShift = (shift: LiveShift) => profile?.role === 'admin' || shift.created_by === user?.id;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!user) return;
+    if (!scope) return;
 
-    if (!formData.host_name.trim()) {
-      toast.error('Nama host tidak boleh kosong');
+    const host = hosts.find(item => item.id === formData.host_id);
+    if (!host) {
+      toast.error('Sila pilih host');
       return;
     }
 
-    if (formData.total_hours <= 0) {
+    // Timed sessions get their hours from the start and end times
+    const timed = !!editingLog?.start_time;
+
+    if (timed && (!formData.start_time || !formData.end_time || formData.end_time <= formData.start_time)) {
+      toast.error('Masa tamat mestilah selepas masa mula');
+      return;
+    }
+
+    if (!timed && formData.total_hours <= 0) {
       toast.error('Jumlah jam mestilah lebih dari 0');
       return;
     }
 
+    const sales = {
+      platform: formData.platform || null,
+      peak_viewers: toMetric(formData.peak_viewers),
+      orders: toMetric(formData.orders),
+      revenue: toMetric(formData.revenue)
+    };
+
     try {
       if (editingLog) {
-        const { error } = await supabase
-          .from('live_manual_log')
-          .update({
-            host_name: formData.host_name.trim(),
-            live_date: formData.live_date,
-            total_hours: formData.total_hours,
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', editingLog.id);
+        const { error } = await liveManualLogRepo.update(editingLog.id, {
+          host_id: host.id,
+          host_name: host.name,
+          live_date: formData.live_date,
+          ...sales,
+          ...(timed
+            ? {
+                start_time: new Date(formData.start_time).toISOString(),
+                end_time: new Date(formData.end_time).toISOString()
+              }
+            : { total_hours: formData.total_hours })
+        });
 
         if (error) throw error;
         toast.success('Log live berjaya dikemaskini');
       } else {
-        const { error } = await supabase
-          .from('live_manual_log')
-          .insert([{
-            user_id: user.id,
-            host_name: formData.host_name.trim(),
-            live_date: formData.live_date,
-            total_hours: formData.total_hours
-          }]);
+        const { error } = await liveManualLogRepo.create(scope, {
+          host_id: host.id,
+          host_name: host.name,
+          live_date: formData.live_date,
+          total_hours: formData.total_hours,
+          ...sales
+        });
 
         if (error) throw error;
         toast.success('Log live berjaya ditambah');
       }
 
-      setShowModal(false);
-      setEditingLog(null);
-      setFormData({ 
-        host_name: '', 
-        live_date: new Date().toISOString().split('T')[0], 
-        total_hours: 0 
-      });
+      closeModal();
       fetchLogs();
     } catch (error) {
       console.error('Error saving live manual log:', error);
-      toast.error('Ralat semasa menyimpan log live');
+      toast.error(isPeriodLocked(error) ? 'Tempoh gaji bagi tarikh ini telah dikunci' : 'Ralat semasa menyimpan log live');
     }
   };
 
+  const closeModal = () => {
+    setShowModal(false);
+    setEditingLog(null);
+    setFormData(emptyForm());
+  };
+
   const handleEdit = (log: LiveManualLog) => {
     setEditingLog(log);
     setFormData({
-      host_name: log.host_name,
+      host_id: log.host_id || '',
       live_date: log.live_date,
-      total_hours: log.total_hours
+      total_hours: log.total_hours,
+      start_time: toInputTime(log.start_time),
+      end_time: toInputTime(log.end_time),
+      platform: log.platform || '',
+      peak_viewers: fromMetric(log.peak_viewers),
+      orders: fromMetric(log.orders),
+      revenue: fromMetric(log.revenue)
     });
     setShowModal(true);
   };
 
+  useEditParam(logs, handleEdit);
+
   const handleDelete = async (id: string) => {
     if (!confirm('Adakah anda pasti ingin memadam log ini?')) return;
 
     try {
-      const { error } = await supabase
-        .from('live_manual_log')
-        .delete()
-        .eq('id', id);
+      const { error } = await liveManualLogRepo.remove(id);
 
       if (error) throw error;
       toast.success('Log live berjaya dipadam');
       fetchLogs();
     } catch (error) {
       console.error('Error deleting live manual log:', error);
-      toast.error('Ralat semasa memadam log live');
+      toast.error(isPeriodLocked(error) ? 'Tempoh gaji bagi tarikh ini telah dikunci' : 'Ralat semasa memadam log live');
+    }
+  };
+
+  const handleStart = async (hostId: string) => {
+    if (!scope) return;
+
+    const host = hosts.find(item => item.id === hostId);
+    if (!host) {
+      toast.error('Sila pilih host');
+      return;
+    }
+
+    try {
+      const { error } = await liveManualLogRepo.start(scope, host);
+
+      if (error) {
+        // Unique index on running sessions
+        if (error.code === '23505') {
+          toast.error('Anda sudah mempunyai sesi live yang sedang berjalan');
+          fetchLogs();
+          return;
+        }
+        throw error;
+      }
+      toast.success('Sesi live bermula');
+      fetchLogs();
+    } catch (error) {
+      console.error('Error starting live session:', error);
+      toast.error('Ralat semasa memulakan sesi live');
+    }
+  };
+
+  const handlePause = async (session: LiveManualLog) => {
+    try {
+      const { error } = await liveManualLogRepo.pause(session);
+
+      if (error) throw error;
+      fetchLogs();
+    } catch (error) {
+      console.error('Error pausing live session:', error);
+      toast.error('Ralat semasa menjeda sesi live');
+    }
+  };
+
+  const handleResume = async (session: LiveManualLog) => {
+    try {
+      const { error } = await liveManualLogRepo.resume(session);
+
+      if (error) throw error;
+      fetchLogs();
+    } catch (error) {
+      console.error('Error resuming live session:', error);
+      toast.error('Ralat semasa menyambung sesi live');
+    }
+  };
+
+  const handleStop = async (session: LiveManualLog) => {
+    if (!confirm(`Tamatkan sesi live ${session.host_name}?`)) return;
+
+    try {
+      const { error } = await liveManualLogRepo.stop(session);
+
+      if (error) throw error;
+      toast.success(`Sesi live tamat: ${formatElapsed(elapsedSeconds(session))}`);
+      fetchLogs();
+    } catch (error) {
+      console.error('Error stopping live session:', error);
+      toast.error('Ralat semasa menamatkan sesi live');
     }
   };
 
   const exportToCSV = () => {
     const csvContent = [
-      ['Nama Host', 'Tarikh Live', 'Jumlah Jam'],
-      ...logs.map(log => [
+      ['Nama Host', 'Tarikh Live', 'Jumlah Jam', 'Platform', 'Penonton Puncak', 'Pesanan', 'Hasil (RM)'],
+      ...completedLogs.map(log => [
         log.host_name,
         log.live_date, 
-        log.total_hours.toString()
+        log.total_hours.toString(),
+        log.platform || '',
+        fromMetric(log.peak_viewers),
+        fromMetric(log.orders),
+        fromMetric(log.revenue)
       ])
     ].map(row => row.join(',')).join('\n');
 
@@ -173,14 +374,14 @@ export default function LiveHost() {
     const url = window.URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `log-live-${new Date().toISOString().split('T')[0]}.csv`;
+    a.download = `log-live-${toDateKey(new Date())}.csv`;
     a.click();
     window.URL.revokeObjectURL(url);
     toast.success('Data berjaya dieksport');
   };
 
   const getChartData = () => {
-    return logs
+    return completedLogs
       .slice(0, 30)
       .reverse()
       .map(log => ({
@@ -194,32 +395,45 @@ export default function LiveHost() {
   };
 
   const getTotalHours = () => {
-    return Math.round(logs.reduce((total, log) => total + log.total_hours, 0) * 100) / 100;
+    return Math.round(completedLogs.reduce((total, log) => total + log.total_hours, 0) * 100) / 100;
   };
 
   const getAverageHours = () => {
-    if (logs.length === 0) return 0;
-    return Math.round((getTotalHours() / logs.length) * 100) / 100;
+    if (completedLogs.length === 0) return 0;
+    return Math.round((getTotalHours() / completedLogs.length) * 100) / 100;
   };
 
   const getThisWeekHours = () => {
     const oneWeekAgo = new Date();
     oneWeekAgo.setDate(oneWeekAgo.getDate() - 7);
     
-    return Math.round(logs
+    return Math.round(completedLogs
       .filter(log => new Date(log.live_date) >= oneWeekAgo)
       .reduce((total, log) => total + log.total_hours, 0) * 100) / 100;
   };
 
   const getUniqueHosts = () => {
-    const hosts = [...new Set(logs.map(log => log.host_name))];
-    return hosts.length;
+    return hostTotals.length;
   };
 
   const canEdit = (log: LiveManualLog) => {
     return profile?.role === 'admin' || log.user_id === user?.id;
   };
 
+  // Running sessions count once they are stopped
+  const completedLogs = logs.filter(log => !isRunning(log));
+  const mySession = logs.find(log => isRunning(log) && log.user_id === user?.id) || null;
+  const staleSessions = logs.filter(log => isStale(log) && canEdit(log));
+  const hostTotals = hostsRepo.totalsByHost(completedLogs, hosts);
+  const hostSales = salesByHost(completedLogs, hosts);
+  // Non-admins only see their own logs, so only their hosts can be reconciled
+  const trackedHostIds = profile?.role === 'admin'
+    ? null
+    : new Set([
+        ...logs.map(log => log.host_id).filter((id): id is string => !!id),
+        ...hosts.filter(host => host.user_profile_id === user?.id).map(host => host.id)
+      ]);
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -247,10 +461,17 @@ export default function LiveHost() {
           </p>
         </div>
         <div className="flex items-center space-x-3 mt-4 sm:mt-0">
+          <button
+            onClick={() => setShowRoster(true)}
+            className="btn-secondary flex items-center"
+          >
+            <Users className="h-4 w-4 mr-2" />
+            Senarai Host
+          </button>
           <button
             onClick={exportToCSV}
             className="btn-secondary flex items-center"
-            disabled={logs.length === 0}
+            disabled={completedLogs.length === 0}
           >
             <Download className="h-4 w-4 mr-2" />
             Export CSV
@@ -260,11 +481,39 @@ export default function LiveHost() {
             className="btn-primary flex items-center"
           >
             <Plus className="h-4 w-4 mr-2" />
-            Tambah Log Live
+            Tambah Log Manual
           </button>
         </div>
       </div>
 
+      {/* Sessions left running */}
+      {staleSessions.map((log) => (
+        <div
+          key={log.id}
+          className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 p-4 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800"
+        >
+          <p className="text-sm text-red-800 dark:text-red-300 flex items-start">
+            <AlertTriangle className="h-5 w-5 mr-2 flex-shrink-0" />
+            Sesi live {log.host_name} masih berjalan sejak {new Date(log.start_time!).toLocaleString('ms-MY')}.
+            Tamatkan jika ia sudah berakhir, kemudian betulkan masa tamat.
+          </p>
+          <button onClick={() => handleStop(log)} className="btn-secondary whitespace-nowrap">
+            Tamatkan Sekarang
+          </button>
+        </div>
+      ))}
+
+      <LiveTimer
+        session={mySession}
+        hosts={hosts}
+        defaultHostId={logs.find(log => log.user_id === user?.id && log.host_id)?.host_id || ''}
+        onStart={handleStart}
+        onCreateHost={handleCreateHost}
+        onPause={handlePause}
+        onResume={handleResume}
+        onStop={handleStop}
+      />
+
       {/* Stats Cards */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
         <div className="card">
@@ -332,6 +581,57 @@ export default function LiveHost() {
         </div>
       </div>
 
+      {/* Per-host Totals */}
+      {hostTotals.length > 0 && (
+        <div className="card">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center">
+            <Users className="h-5 w-5 mr-2" />
+            Jumlah Mengikut Host
+          </h3>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-800">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Host
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Sesi
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Jumlah Jam
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Anggaran (RM)
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-900 divide-y divide-gray-200 dark:divide-gray-700">
+                {hostTotals.map((entry) => (
+                  <tr key={entry.host?.id || entry.name}>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                      {entry.name}
+                      {entry.host && !entry.host.is_active && (
+                        <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">(tidak aktif)</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-gray-900 dark:text-white">
+                      {entry.sessions}
+                    </td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-gray-900 dark:text-white">
+                      {entry.hours}j
+                    </td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-gray-900 dark:text-white">
+                      {entry.host ? (entry.hours * entry.host.hourly_rate).toFixed(2) : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* View Toggle */}
       <div className="flex items-center space-x-2">
         <button
@@ -354,10 +654,29 @@ export default function LiveHost() {
         >
           Graf
         </button>
+        <button
+          onClick={() => setViewMode('roster')}
+          className={`px-4 py-2 rounded-lg transition-colors ${
+            viewMode === 'roster'
+              ? 'bg-blue-500 text-white'
+              : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+          }`}
+        >
+          Jadual
+        </button>
       </div>
 
       {/* Content */}
-      {viewMode === 'list' ? (
+      {viewMode === 'roster' && scope ? (
+        <ShiftRoster
+          scope={scope}
+          hosts={hosts}
+          logs={logs}
+          trackedHostIds={trackedHostIds}
+          canManage={canManageShift}
+          onCreateHost={handleCreateHost}
+        />
+      ) : viewMode === 'list' ? (
         <div className="card">
           <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
             Log Live Terkini
@@ -377,6 +696,9 @@ export default function LiveHost() {
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                       Jumlah Jam
                     </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Jualan
+                    </th>
                     <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                       Tindakan
                     </th>
@@ -413,15 +735,49 @@ export default function LiveHost() {
                         </div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="flex items-center">
-                          <Clock className="h-4 w-4 text-gray-400 mr-1" />
-                          <span className="text-sm font-medium text-gray-900 dark:text-white">
-                            {log.total_hours} jam
+                        {isRunning(log) ? (
+                          <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300">
+                            <span className="w-2 h-2 rounded-full bg-red-500 mr-1.5 animate-pulse"></span>
+                            {log.paused_at ? 'Dijeda' : 'Sedang live'}
                           </span>
-                        </div>
+                        ) : (
+                          <>
+                            <div className="flex items-center">
+                              <Clock className="h-4 w-4 text-gray-400 mr-1" />
+                              <span className="text-sm font-medium text-gray-900 dark:text-white">
+                                {log.total_hours} jam
+                              </span>
+                            </div>
+                            {log.start_time && log.end_time && (
+                              <div className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                                {format(new Date(log.start_time), 'HH:mm')}–{format(new Date(log.end_time), 'HH:mm')}
+                              </div>
+                            )}
+                          </>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        {hasSales(log) ? (
+                          <>
+                            <div className="text-sm font-medium text-gray-900 dark:text-white">
+                              RM {(log.revenue || 0).toFixed(2)}
+                            </div>
+                            <div className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                              {log.orders ?? 0} pesanan
+                              {log.peak_viewers !== null && ` · ${log.peak_viewers} penonton`}
+                            </div>
+                          </>
+                        ) : (
+                          <span className="text-sm text-gray-400">-</span>
+                        )}
+                        {log.platform && (
+                          <div className="text-xs text-blue-600 dark:text-blue-400 mt-0.5">
+                            {log.platform}
+                          </div>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                        {canEdit(log) && (
+                        {canEdit(log) && !isRunning(log) && (
                           <div className="flex items-center justify-end space-x-2">
                             <button
                               onClick={() => handleEdit(log)}
@@ -458,38 +814,79 @@ export default function LiveHost() {
           )}
         </div>
       ) : (
-        <div className="card">
-          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center">
-            <BarChart3 className="h-5 w-5 mr-2" />
-            Graf Jam Live (30 Rekod Terakhir)
-          </h3>
-          
-          {logs.length > 0 ? (
-            <div className="h-80">
-              <ResponsiveContainer width="100%" height="100%">
-                <BarChart data={getChartData()}>
-                  <CartesianGrid strokeDasharray="3 3" />
-                  <XAxis dataKey="date" />
-                  <YAxis />
-                  <Tooltip 
-                    labelFormatter={(label) => `Tarikh: ${label}`}
-                    formatter={(value, name, props) => [
-                      `${value} jam`,
-                      `Host: ${props.payload.host}`
-                    ]}
-                  />
-                  <Bar dataKey="hours" fill="#ef4444" />
-                </BarChart>
-              </ResponsiveContainer>
-            </div>
-          ) : (
-            <div className="text-center py-12">
-              <BarChart3 className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-              <p className="text-gray-600 dark:text-gray-400">
-                Tiada data untuk dipaparkan dalam graf
-              </p>
-            </div>
-          )}
+        <div className="space-y-6">
+          <div className="card">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center">
+              <BarChart3 className="h-5 w-5 mr-2" />
+              Graf Jam Live (30 Rekod Terakhir)
+            </h3>
+            
+            {completedLogs.length > 0 ? (
+              <div className="h-80">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={getChartData()}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="date" />
+                    <YAxis />
+                    <Tooltip 
+                      labelFormatter={(label) => `Tarikh: ${label}`}
+                      formatter={(value, _name, props) => [
+                        `${value} jam`,
+                        `Host: ${props.payload.host}`
+                      ]}
+                    />
+                    <Bar dataKey="hours" fill="#ef4444" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            ) : (
+              <div className="text-center py-12">
+                <BarChart3 className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-600 dark:text-gray-400">
+                  Tiada data untuk dipaparkan dalam graf
+                </p>
+              </div>
+            )}
+          </div>
+
+          <div className="card">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1 flex items-center">
+              <TrendingUp className="h-5 w-5 mr-2" />
+              Prestasi Jualan Mengikut Host
+            </h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+              Hanya sesi yang mempunyai rekod jualan dikira. Kadar penukaran ialah pesanan bagi setiap 100 penonton puncak.
+            </p>
+
+            {hostSales.length > 0 ? (
+              <div className="h-80">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={hostSales}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="name" />
+                    <YAxis yAxisId="revenue" />
+                    <YAxis yAxisId="conversion" orientation="right" unit="%" />
+                    <Tooltip
+                      formatter={(value, name) => [
+                        name === 'revenuePerHour' ? `RM ${value}` : `${value}%`,
+                        name === 'revenuePerHour' ? 'Hasil sejam' : 'Kadar penukaran'
+                      ]}
+                    />
+                    <Legend formatter={(value) => (value === 'revenuePerHour' ? 'Hasil sejam (RM)' : 'Kadar penukaran (%)')} />
+                    <Bar yAxisId="revenue" dataKey="revenuePerHour" fill="#ef4444" />
+                    <Bar yAxisId="conversion" dataKey="conversion" fill="#8b5cf6" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            ) : (
+              <div className="text-center py-12">
+                <TrendingUp className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-600 dark:text-gray-400">
+                  Tiada rekod jualan lagi. Isi hasil dan pesanan semasa mengedit log live.
+                </p>
+              </div>
+            )}
+          </div>
         </div>
       )}
 
@@ -498,7 +895,7 @@ export default function LiveHost() {
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
           <div className="bg-white dark:bg-gray-800 rounded-xl p-6 w-full max-w-md">
             <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">
-              {editingLog ? 'Edit Log Live' : 'Tambah Log Live'}
+              {editingLog ? 'Edit Log Live' : 'Tambah Log Manual'}
             </h2>
             
             <form onSubmit={handleSubmit} className="space-y-4">
@@ -506,13 +903,11 @@ export default function LiveHost() {
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                   Nama Host
                 </label>
-                <input
-                  type="text"
-                  required
-                  value={formData.host_name}
-                  onChange={(e) => setFormData({ ...formData, host_name: e.target.value })}
-                  className="input-field"
-                  placeholder="Masukkan nama host live"
+                <HostPicker
+                  hosts={hosts}
+                  value={formData.host_id}
+                  onChange={(hostId) => setFormData({ ...formData, host_id: hostId })}
+                  onCreate={handleCreateHost}
                 />
               </div>
 
@@ -529,34 +924,118 @@ export default function LiveHost() {
                 />
               </div>
 
+              {editingLog?.start_time ? (
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Masa Mula
+                    </label>
+                    <input
+                      type="datetime-local"
+                      required
+                      value={formData.start_time}
+                      onChange={(e) => setFormData({ ...formData, start_time: e.target.value })}
+                      className="input-field"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Masa Tamat
+                    </label>
+                    <input
+                      type="datetime-local"
+                      required
+                      value={formData.end_time}
+                      onChange={(e) => setFormData({ ...formData, end_time: e.target.value })}
+                      className="input-field"
+                    />
+                  </div>
+                  <p className="col-span-2 text-xs text-gray-500 dark:text-gray-400">
+                    Jumlah jam dikira semula daripada masa mula dan tamat, tolak masa jeda.
+                  </p>
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Jumlah Jam
+                  </label>
+                  <input
+                    type="number"
+                    min="0.1"
+                    step="0.1"
+                    required
+                    value={formData.total_hours}
+                    onChange={(e) => setFormData({ ...formData, total_hours: parseFloat(e.target.value) || 0 })}
+                    className="input-field"
+                    placeholder="Contoh: 2.5"
+                  />
+                </div>
+              )}
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                  Jumlah Jam
+                  Platform
                 </label>
-                <input
-                  type="number"
-                  min="0.1"
-                  step="0.1"
-                  required
-                  value={formData.total_hours}
-                  onChange={(e) => setFormData({ ...formData, total_hours: parseFloat(e.target.value) || 0 })}
+                <select
+                  value={formData.platform}
+                  onChange={(e) => setFormData({ ...formData, platform: e.target.value })}
                   className="input-field"
-                  placeholder="Contoh: 2.5"
-                />
+                >
+                  <option value="">Tidak dinyatakan</option>
+                  {livePlatforms.map((platform) => (
+                    <option key={platform} value={platform}>
+                      {platform}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Penonton Puncak
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={formData.peak_viewers}
+                    onChange={(e) => setFormData({ ...formData, peak_viewers: e.target.value })}
+                    className="input-field"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Pesanan
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={formData.orders}
+                    onChange={(e) => setFormData({ ...formData, orders: e.target.value })}
+                    className="input-field"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Hasil (RM)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.revenue}
+                    onChange={(e) => setFormData({ ...formData, revenue: e.target.value })}
+                    className="input-field"
+                  />
+                </div>
               </div>
 
               <div className="flex space-x-3 pt-4">
                 <button
                   type="button"
-                  onClick={() => {
-                    setShowModal(false);
-                    setEditingLog(null);
-                    setFormData({ 
-                      host_name: '', 
-                      live_date: new Date().toISOString().split('T')[0], 
-                      total_hours: 0 
-                    });
-                  }}
+                  onClick={closeModal}
                   className="btn-secondary flex-1"
                 >
                   Batal
@@ -569,6 +1048,16 @@ export default function LiveHost() {
           </div>
         </div>
       )}
+
+      {showRoster && (
+        <HostRosterModal
+          hosts={hosts}
+          profiles={profiles}
+          canManage={canManageHost}
+          onSave={handleSaveHost}
+          onClose={() => setShowRoster(false)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,560 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useDataScope } from '../hooks/useDataScope';
+import {
+  hostsRepo,
+  liveManualLogRepo,
+  payrollRepo,
+  type BonusTier,
+  type Host,
+  type LiveManualLog,
+  type PayPeriod,
+  type PayrollLine,
+  type PayrollLineInput
+} from '../lib/repositories';
+import { monthRange } from '../lib/dates';
+import { isRunning } from '../lib/liveSessions';
+import { computePayroll, formatPeriod, formatRM, payslipHtml } from '../lib/payroll';
+import BonusTierModal from '../components/Payroll/BonusTierModal';
+import {
+  Wallet,
+  Plus,
+  Download,
+  Award,
+  Lock,
+  Unlock,
+  Trash2,
+  Printer,
+  AlertTriangle
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const emptyPeriodForm = () => monthRange(new Date());
+
+export default function Payroll() {
+  const { profile } = useAuth();
+  const scope = useDataScope();
+  const [periods, setPeriods] = useState<PayPeriod[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [tiers, setTiers] = useState<BonusTier[]>([]);
+  const [hosts, setHosts] = useState<Host[]>([]);
+  const [logs, setLogs] = useState<LiveManualLog[]>([]);
+  const [lockedLines, setLockedLines] = useState<PayrollLine[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showPeriodModal, setShowPeriodModal] = useState(false);
+  const [showTierModal, setShowTierModal] = useState(false);
+  const [periodForm, setPeriodForm] = useState(emptyPeriodForm);
+
+  const isAdmin = profile?.role === 'admin';
+  const period = periods.find(item => item.id === selectedId) || null;
+
+  const fetchSetup = async () => {
+    try {
+      const [periodsRes, tiersRes, hostsRes] = await Promise.all([
+        payrollRepo.listPeriods(),
+        payrollRepo.listTiers(),
+        hostsRepo.list()
+      ]);
+
+      const failed = [periodsRes, tiersRes, hostsRes].find(res => res.error);
+      if (failed?.error) throw failed.error;
+
+      const loaded = periodsRes.data || [];
+      setPeriods(loaded);
+      setTiers(tiersRes.data || []);
+      setHosts(hostsRes.data || []);
+      setSelectedId(prev => (loaded.some(item => item.id === prev) ? prev : loaded[0]?.id || ''));
+    } catch (error) {
+      console.error('Error fetching payroll setup:', error);
+      toast.error('Ralat semasa mengambil data gaji');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Open periods are worked out from the logs; locked ones use the frozen lines
+  const fetchPeriodData = async () => {
+    if (!scope || !period) return;
+
+    try {
+      if (period.status === 'locked') {
+        const { data, error } = await payrollRepo.listLines(period.id);
+
+        if (error) throw error;
+        setLockedLines(data);
+      } else {
+        const { data, error } = await liveManualLogRepo.list(scope, { from: period.start_date, to: period.end_date });
+
+        if (error) throw error;
+        setLogs(data.filter(log => !isRunning(log)));
+      }
+    } catch (error) {
+      console.error('Error fetching payroll period:', error);
+      toast.error('Ralat semasa mengambil data tempoh gaji');
+    }
+  };
+
+  useEffect(() => {
+    if (scope && isAdmin) {
+      fetchSetup();
+    } else if (scope) {
+      setLoading(false);
+    }
+  }, [scope, isAdmin]);
+
+  useEffect(() => {
+    fetchPeriodData();
+  }, [period?.id, period?.status]);
+
+  const lines: PayrollLineInput[] = period?.status === 'locked'
+    ? lockedLines
+    : computePayroll(logs, hosts, tiers);
+
+  const sum = (key: 'total_hours' | 'base_pay' | 'bonus' | 'total_pay') =>
+    Math.round(lines.reduce((total, line) => total + (line[key] || 0), 0) * 100) / 100;
+
+  const handleCreatePeriod = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!scope) return;
+
+    if (periodForm.to < periodForm.from) {
+      toast.error('Tarikh tamat mestilah selepas tarikh mula');
+      return;
+    }
+
+    try {
+      const { data, error } = await payrollRepo.createPeriod(scope, periodForm.from, periodForm.to);
+
+      if (error) {
+        if (error.code === payrollRepo.OVERLAP_ERROR_CODE) {
+          toast.error('Tempoh ini bertindih dengan tempoh gaji yang sedia ada');
+          return;
+        }
+        throw error;
+      }
+      toast.success('Tempoh gaji berjaya ditambah');
+      setShowPeriodModal(false);
+      setPeriodForm(emptyPeriodForm());
+      if (data) {
+        setPeriods(prev => [data, ...prev].sort((a, b) => b.start_date.localeCompare(a.start_date)));
+        setSelectedId(data.id);
+      }
+    } catch (error) {
+      console.error('Error creating pay period:', error);
+      toast.error('Ralat semasa menambah tempoh gaji');
+    }
+  };
+
+  const handleDeletePeriod = async () => {
+    if (!period || !confirm(`Padam tempoh gaji ${formatPeriod(period)}?`)) return;
+
+    try {
+      const { error } = await payrollRepo.removePeriod(period.id);
+
+      if (error) throw error;
+      toast.success('Tempoh gaji berjaya dipadam');
+      fetchSetup();
+    } catch (error) {
+      console.error('Error deleting pay period:', error);
+      toast.error('Ralat semasa memadam tempoh gaji');
+    }
+  };
+
+  const handleLock = async () => {
+    if (!scope || !period) return;
+    if (!confirm('Kunci tempoh ini? Jumlah gaji akan dibekukan dan log live dalam tempoh ini tidak boleh diubah lagi.')) return;
+
+    try {
+      const { error } = await payrollRepo.lockPeriod(period, lines);
+
+      if (error) throw error;
+      toast.success('Tempoh gaji telah dikunci');
+      fetchSetup();
+    } catch (error) {
+      console.error('Error locking pay period:', error);
+      toast.error('Ralat semasa mengunci tempoh gaji');
+    }
+  };
+
+  const handleUnlock = async () => {
+    if (!period) return;
+    if (!confirm('Buka semula tempoh ini? Jumlah yang dibekukan akan dikira semula daripada log semasa.')) return;
+
+    try {
+      const { error } = await payrollRepo.unlockPeriod(period);
+
+      if (error) throw error;
+      toast.success('Tempoh gaji dibuka semula');
+      fetchSetup();
+    } catch (error) {
+      console.error('Error unlocking pay period:', error);
+      toast.error('Ralat semasa membuka semula tempoh gaji');
+    }
+  };
+
+  const handleAddTier = async (minHours: number, bonus: number): Promise<boolean> => {
+    try {
+      const { error } = await payrollRepo.createTier(minHours, bonus);
+
+      if (error) {
+        if (error.code === '23505') {
+          toast.error('Tahap untuk jumlah jam ini sudah wujud');
+          return false;
+        }
+        throw error;
+      }
+      fetchSetup();
+      return true;
+    } catch (error) {
+      console.error('Error adding bonus tier:', error);
+      toast.error('Ralat semasa menambah tahap bonus');
+      return false;
+    }
+  };
+
+  const handleRemoveTier = async (tier: BonusTier) => {
+    try {
+      const { error } = await payrollRepo.removeTier(tier.id);
+
+      if (error) throw error;
+      fetchSetup();
+    } catch (error) {
+      console.error('Error removing bonus tier:', error);
+      toast.error('Ralat semasa memadam tahap bonus');
+    }
+  };
+
+  const printPayslip = (line: PayrollLineInput) => {
+    if (!period) return;
+
+    const win = window.open('', '_blank');
+    if (!win) {
+      toast.error('Benarkan tetingkap pop-up untuk mencetak slip gaji');
+      return;
+    }
+    win.document.write(payslipHtml(line, period));
+    win.document.close();
+    win.focus();
+    win.print();
+  };
+
+  const exportToCSV = () => {
+    if (!period) return;
+
+    const csvContent = [
+      ['Nama Host', 'Sesi', 'Jumlah Jam', 'Kadar (RM/jam)', 'Gaji Asas (RM)', 'Bonus (RM)', 'Jumlah (RM)'],
+      ...lines.map(line => [
+        `"${line.host_name.replace(/"/g, '""')}"`,
+        String(line.sessions),
+        String(line.total_hours),
+        (line.hourly_rate || 0).toFixed(2),
+        (line.base_pay || 0).toFixed(2),
+        (line.bonus || 0).toFixed(2),
+        (line.total_pay || 0).toFixed(2)
+      ])
+    ].map(row => row.join(',')).join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `gaji-host-${period.start_date}-${period.end_date}.csv`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+    toast.success('Data berjaya dieksport');
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="card text-center py-12">
+        <Lock className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
+          Akses terhad
+        </h3>
+        <p className="text-gray-600 dark:text-gray-400">
+          Hanya admin boleh melihat laporan gaji host
+        </p>
+      </div>
+    );
+  }
+
+  const missingRates = period?.status === 'open' && lines.some(line => !line.hourly_rate);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center">
+            <Wallet className="h-7 w-7 mr-2 text-green-500" />
+            Gaji Host
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-1">
+            Bayaran host mengikut jam live bagi setiap tempoh gaji
+          </p>
+        </div>
+        <div className="flex items-center space-x-3 mt-4 sm:mt-0">
+          <button
+            onClick={() => setShowTierModal(true)}
+            className="btn-secondary flex items-center"
+          >
+            <Award className="h-4 w-4 mr-2" />
+            Tahap Bonus
+          </button>
+          <button
+            onClick={exportToCSV}
+            className="btn-secondary flex items-center"
+            disabled={lines.length === 0}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </button>
+          <button
+            onClick={() => setShowPeriodModal(true)}
+            className="btn-primary flex items-center"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Tempoh Baharu
+          </button>
+        </div>
+      </div>
+
+      {periods.length > 0 ? (
+        <>
+          {/* Period */}
+          <div className="card flex flex-col sm:flex-row sm:items-center gap-3">
+            <select
+              value={selectedId}
+              onChange={(e) => setSelectedId(e.target.value)}
+              className="input-field sm:max-w-xs"
+            >
+              {periods.map((item) => (
+                <option key={item.id} value={item.id}>
+                  {formatPeriod(item)}{item.status === 'locked' ? ' (dikunci)' : ''}
+                </option>
+              ))}
+            </select>
+
+            {period && (
+              <div className="flex items-center space-x-3 sm:ml-auto">
+                {period.status === 'locked' ? (
+                  <>
+                    <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300">
+                      <Lock className="h-3 w-3 mr-1" />
+                      Diluluskan {new Date(period.locked_at!).toLocaleDateString('ms-MY')}
+                    </span>
+                    <button onClick={handleUnlock} className="btn-secondary flex items-center">
+                      <Unlock className="h-4 w-4 mr-2" />
+                      Buka Semula
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      onClick={handleDeletePeriod}
+                      className="p-2 text-gray-400 hover:text-red-500 transition-colors"
+                      title="Padam tempoh"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                    <button onClick={handleLock} className="btn-primary flex items-center">
+                      <Lock className="h-4 w-4 mr-2" />
+                      Luluskan & Kunci
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Stats Cards */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+            {[
+              { label: 'Jumlah Jam', value: `${sum('total_hours')}j`, color: 'text-red-600 dark:text-red-400' },
+              { label: 'Gaji Asas', value: formatRM(sum('base_pay')), color: 'text-blue-600 dark:text-blue-400' },
+              { label: 'Bonus', value: formatRM(sum('bonus')), color: 'text-purple-600 dark:text-purple-400' },
+              { label: 'Jumlah Bayaran', value: formatRM(sum('total_pay')), color: 'text-green-600 dark:text-green-400' }
+            ].map((stat) => (
+              <div key={stat.label} className="card">
+                <p className="text-sm font-medium text-gray-600 dark:text-gray-400">
+                  {stat.label}
+                </p>
+                <p className={`text-2xl font-bold mt-1 ${stat.color}`}>
+                  {stat.value}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          {missingRates && (
+            <div className="p-4 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 text-sm text-yellow-800 dark:text-yellow-300 flex items-start">
+              <AlertTriangle className="h-5 w-5 mr-2 flex-shrink-0" />
+              Sesetengah host belum mempunyai kadar sejam. Tetapkan kadar dalam Senarai Host di halaman Host LIVE sebelum mengunci tempoh ini.
+            </div>
+          )}
+
+          {/* Lines */}
+          <div className="card">
+            {lines.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                  <thead className="bg-gray-50 dark:bg-gray-800">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        Host
+                      </th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        Sesi
+                      </th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        Jam
+                      </th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        Kadar
+                      </th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        Gaji Asas
+                      </th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        Bonus
+                      </th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        Jumlah
+                      </th>
+                      <th className="px-6 py-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white dark:bg-gray-900 divide-y divide-gray-200 dark:divide-gray-700">
+                    {lines.map((line) => (
+                      <tr key={line.host_id || line.host_name}>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                          {line.host_name}
+                        </td>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-gray-900 dark:text-white">
+                          {line.sessions}
+                        </td>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-gray-900 dark:text-white">
+                          {line.total_hours}j
+                        </td>
+                        <td className={`px-6 py-3 whitespace-nowrap text-sm text-right ${
+                          line.hourly_rate ? 'text-gray-900 dark:text-white' : 'text-yellow-600 dark:text-yellow-400'
+                        }`}>
+                          {formatRM(line.hourly_rate || 0)}
+                        </td>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-gray-900 dark:text-white">
+                          {formatRM(line.base_pay || 0)}
+                        </td>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-gray-900 dark:text-white">
+                          {formatRM(line.bonus || 0)}
+                        </td>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm text-right font-semibold text-gray-900 dark:text-white">
+                          {formatRM(line.total_pay || 0)}
+                        </td>
+                        <td className="px-6 py-3 whitespace-nowrap text-right">
+                          <button
+                            onClick={() => printPayslip(line)}
+                            className="p-2 text-gray-400 hover:text-blue-500 transition-colors"
+                            title="Cetak slip gaji"
+                          >
+                            <Printer className="h-4 w-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <div className="text-center py-12">
+                <Wallet className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-600 dark:text-gray-400">
+                  Tiada sesi live direkodkan dalam tempoh ini
+                </p>
+              </div>
+            )}
+          </div>
+        </>
+      ) : (
+        <div className="card text-center py-12">
+          <Wallet className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
+            Tiada tempoh gaji
+          </h3>
+          <p className="text-gray-600 dark:text-gray-400">
+            Tambah tempoh gaji pertama untuk mengira bayaran host
+          </p>
+        </div>
+      )}
+
+      {/* Period Modal */}
+      {showPeriodModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white dark:bg-gray-800 rounded-xl p-6 w-full max-w-md">
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">
+              Tempoh Gaji Baharu
+            </h2>
+
+            <form onSubmit={handleCreatePeriod} className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Tarikh Mula
+                  </label>
+                  <input
+                    type="date"
+                    required
+                    value={periodForm.from}
+                    onChange={(e) => setPeriodForm({ ...periodForm, from: e.target.value })}
+                    className="input-field"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Tarikh Tamat
+                  </label>
+                  <input
+                    type="date"
+                    required
+                    value={periodForm.to}
+                    onChange={(e) => setPeriodForm({ ...periodForm, to: e.target.value })}
+                    className="input-field"
+                  />
+                </div>
+              </div>
+
+              <div className="flex space-x-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setShowPeriodModal(false)}
+                  className="btn-secondary flex-1"
+                >
+                  Batal
+                </button>
+                <button type="submit" className="btn-primary flex-1">
+                  Tambah
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {showTierModal && (
+        <BonusTierModal
+          tiers={tiers}
+          onAdd={handleAddTier}
+          onRemove={handleRemoveTier}
+          onClose={() => setShowTierModal(false)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,433 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  addDays,
+  differenceInCalendarDays,
+  format,
+  isSameDay,
+  max as maxDate,
+  min as minDate,
+  parseISO,
+  startOfMonth
+} from 'date-fns';
+import { useAuth } from '../contexts/AuthContext';
+import { useRealTimeSync } from '../hooks/useRealTimeSync';
+import { useDataScope } from '../hooks/useDataScope';
+import {
+  projectMembersRepo,
+  projectsRepo,
+  tasksRepo,
+  type Project,
+  type ProjectRole,
+  type TaskWithProject
+} from '../lib/repositories';
+import { GanttChartSquare, ArrowLeft, AlertTriangle } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+type Zoom = 'day' | 'week' | 'month';
+
+const dayWidths: Record<Zoom, number> = {
+  day: 32,
+  week: 14,
+  month: 5
+};
+
+interface DragState {
+  projectId: string;
+  edge: 'start' | 'end';
+  originX: number;
+  start: Date;
+  end: Date;
+}
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+export default function ProjectTimeline() {
+  const { user, profile } = useAuth();
+  const scope = useDataScope();
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [tasks, setTasks] = useState<TaskWithProject[]>([]);
+  const [roles, setRoles] = useState<Map<string, ProjectRole>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [zoom, setZoom] = useState<Zoom>('day');
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [dragDelta, setDragDelta] = useState(0);
+
+  const fetchTimeline = async () => {
+    if (!scope) return;
+
+    try {
+      const [projectsRes, tasksRes, membershipsRes] = await Promise.all([
+        projectsRepo.list(scope),
+        tasksRepo.list(scope),
+        projectMembersRepo.listMine(scope.userId)
+      ]);
+
+      const failed = [projectsRes, tasksRes, membershipsRes].find(res => res.error);
+      if (failed?.error) throw failed.error;
+
+      setProjects(projectsRes.data || []);
+      setTasks(tasksRes.data || []);
+      setRoles(projectMembersRepo.rolesByProject(membershipsRes.data || []));
+    } catch (error) {
+      console.error('Error fetching timeline:', error);
+      toast.error('Ralat semasa mengambil data garis masa');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (scope) {
+      fetchTimeline();
+    }
+  }, [scope]);
+
+  // No column filter: shared projects belong to other users, and RLS already
+  // limits the events delivered
+  useRealTimeSync({
+    table: 'projects',
+    onUpdate: fetchTimeline
+  });
+
+  // Being added to or removed from a project, or a role change
+  useRealTimeSync({
+    table: 'project_members',
+    filter: user ? `user_id=eq.${user.id}` : undefined,
+    onUpdate: fetchTimeline
+  });
+
+  const dayWidth = dayWidths[zoom];
+  const today = new Date();
+
+  // A project with only one date is drawn as a single-day bar
+  const getBounds = (project: Project) => {
+    const start = project.start_date ? parseISO(project.start_date) : project.end_date ? parseISO(project.end_date) : null;
+    const end = project.end_date ? parseISO(project.end_date) : start;
+    if (!start || !end) return null;
+    return { start, end: end < start ? start : end };
+  };
+
+  const getDisplayBounds = (project: Project) => {
+    if (drag && drag.projectId === project.id) {
+      const shift = (date: Date) => addDays(date, dragDelta);
+      if (drag.edge === 'start') {
+        const start = shift(drag.start);
+        return { start: start > drag.end ? drag.end : start, end: drag.end };
+      }
+      const end = shift(drag.end);
+      return { start: drag.start, end: end < drag.start ? drag.start : end };
+    }
+    return getBounds(project);
+  };
+
+  const scheduled = projects.filter(project => getBounds(project));
+  const unscheduled = projects.filter(project => !getBounds(project));
+
+  // Visible range: every project and task marker, padded, starting on a month
+  const boundaryDates = [
+    today,
+    ...scheduled.flatMap(project => {
+      const bounds = getBounds(project)!;
+      return [bounds.start, bounds.end];
+    }),
+    ...tasks.filter(task => task.project_id && task.due_date).map(task => parseISO(task.due_date!))
+  ];
+  const rangeStart = startOfMonth(addDays(minDate(boundaryDates), -7));
+  const rangeEnd = addDays(maxDate(boundaryDates), 14);
+  const totalDays = differenceInCalendarDays(rangeEnd, rangeStart) + 1;
+  const days = Array.from({ length: totalDays }, (_, i) => addDays(rangeStart, i));
+
+  const offsetFor = (date: Date) => differenceInCalendarDays(date, rangeStart) * dayWidth;
+
+  const isOverdue = (project: Project) => {
+    return !!project.end_date &&
+      project.status !== 'Completed' &&
+      differenceInCalendarDays(parseISO(project.end_date), today) < 0;
+  };
+
+  const canEdit = (project: Project) => {
+    return profile?.role === 'admin' || projectMembersRepo.canEditProject(roles.get(project.id));
+  };
+
+  const startDrag = (e: React.MouseEvent, project: Project, edge: 'start' | 'end') => {
+    e.preventDefault();
+    e.stopPropagation();
+    const bounds = getBounds(project);
+    if (!bounds || !canEdit(project)) return;
+
+    setDrag({ projectId: project.id, edge, originX: e.clientX, ...bounds });
+    setDragDelta(0);
+  };
+
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMove = (e: MouseEvent) => {
+      setDragDelta(Math.round((e.clientX - drag.originX) / dayWidth));
+    };
+
+    const handleUp = async (e: MouseEvent) => {
+      const delta = Math.round((e.clientX - drag.originX) / dayWidth);
+      const project = projects.find(p => p.id === drag.projectId);
+      setDrag(null);
+      setDragDelta(0);
+
+      if (!project || delta === 0) return;
+
+      let start = drag.start;
+      let end = drag.end;
+      if (drag.edge === 'start') {
+        start = addDays(drag.start, delta);
+        if (start > end) start = end;
+      } else {
+        end = addDays(drag.end, delta);
+        if (end < start) end = start;
+      }
+
+      const updates = { start_date: toDateString(start), end_date: toDateString(end) };
+
+      // Keep the bar where it was dropped while the update is in flight
+      setProjects(prev => prev.map(p => (p.id === project.id ? { ...p, ...updates } : p)));
+
+      try {
+        const { error } = await projectsRepo.update(project.id, updates);
+
+        if (error) throw error;
+        toast.success('Jadual projek dikemaskini');
+      } catch (error) {
+        console.error('Error rescheduling project:', error);
+        toast.error('Ralat semasa mengemas kini jadual projek');
+      } finally {
+        fetchTimeline();
+      }
+    };
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [drag, dayWidth, projects]);
+
+  const getBarColor = (project: Project) => {
+    if (isOverdue(project)) return 'bg-red-500';
+    switch (project.status) {
+      case 'Not Started': return 'bg-gray-400';
+      case 'Ongoing': return 'bg-blue-500';
+      case 'Completed': return 'bg-green-500';
+      default: return 'bg-gray-400';
+    }
+  };
+
+  const getMarkerColor = (task: TaskWithProject) => {
+    switch (task.status) {
+      case 'Completed': return 'bg-green-300 border-green-700';
+      case 'Ongoing': return 'bg-yellow-300 border-yellow-700';
+      default: return 'bg-white border-gray-700';
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center">
+            <GanttChartSquare className="h-7 w-7 mr-2 text-blue-500" />
+            Garis Masa Projek
+            {profile?.role === 'admin' && (
+              <span className="ml-2 text-sm bg-yellow-100 text-yellow-800 px-2 py-1 rounded-full">
+                Admin View
+              </span>
+            )}
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-1">
+            Seret hujung bar untuk menjadualkan semula projek
+          </p>
+        </div>
+        <div className="flex items-center space-x-2 mt-4 sm:mt-0">
+          <Link to="/projek" className="btn-secondary flex items-center">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Senarai Projek
+          </Link>
+          {(['day', 'week', 'month'] as Zoom[]).map((level) => (
+            <button
+              key={level}
+              onClick={() => setZoom(level)}
+              className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+                zoom === level
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+              }`}
+            >
+              {level === 'day' ? 'Hari' : level === 'week' ? 'Minggu' : 'Bulan'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Legend */}
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600 dark:text-gray-400">
+        <span className="flex items-center"><span className="w-3 h-3 rounded bg-gray-400 mr-2"></span>Belum Mula</span>
+        <span className="flex items-center"><span className="w-3 h-3 rounded bg-blue-500 mr-2"></span>Sedang Berjalan</span>
+        <span className="flex items-center"><span className="w-3 h-3 rounded bg-green-500 mr-2"></span>Selesai</span>
+        <span className="flex items-center"><span className="w-3 h-3 rounded bg-red-500 mr-2"></span>Melepasi Tarikh Tamat</span>
+        <span className="flex items-center"><span className="w-2.5 h-2.5 rotate-45 border bg-white border-gray-700 mr-2"></span>Tarikh Tamat Tugasan</span>
+      </div>
+
+      {/* Timeline */}
+      <div className="card p-0 overflow-hidden">
+        {scheduled.length > 0 ? (
+          <div className="overflow-x-auto">
+            <div style={{ width: `calc(14rem + ${totalDays * dayWidth}px)` }}>
+              {/* Date header */}
+              <div className="flex border-b border-gray-200 dark:border-gray-700">
+                <div className="w-56 flex-shrink-0 sticky left-0 z-20 bg-white dark:bg-gray-800 px-4 py-2 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                  Projek
+                </div>
+                <div className="relative h-12" style={{ width: totalDays * dayWidth }}>
+                  {days.map((day, index) => {
+                    const firstOfMonth = day.getDate() === 1;
+                    const showDay = zoom === 'day' || (zoom === 'week' && day.getDay() === 1);
+
+                    return (
+                      <div
+                        key={index}
+                        className={`absolute top-0 h-full text-xs ${
+                          firstOfMonth ? 'border-l border-gray-300 dark:border-gray-600' : ''
+                        } ${isSameDay(day, today) ? 'bg-blue-50 dark:bg-blue-900/30' : ''}`}
+                        style={{ left: index * dayWidth, width: dayWidth }}
+                      >
+                        {firstOfMonth && (
+                          <span className="absolute top-0.5 left-1 whitespace-nowrap font-semibold text-gray-700 dark:text-gray-300">
+                            {day.toLocaleDateString('ms-MY', { month: 'short', year: 'numeric' })}
+                          </span>
+                        )}
+                        {showDay && (
+                          <span className="absolute bottom-1 w-full text-center text-gray-500 dark:text-gray-400">
+                            {day.getDate()}
+                          </span>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
+              {/* Project rows */}
+              {scheduled.map((project) => {
+                const bounds = getDisplayBounds(project)!;
+                const left = offsetFor(bounds.start);
+                const width = (differenceInCalendarDays(bounds.end, bounds.start) + 1) * dayWidth;
+                const projectTasks = tasks.filter(task => task.project_id === project.id && task.due_date);
+                const editable = canEdit(project);
+
+                return (
+                  <div key={project.id} className="flex border-b border-gray-100 dark:border-gray-700 last:border-b-0">
+                    <div className="w-56 flex-shrink-0 sticky left-0 z-20 bg-white dark:bg-gray-800 px-4 py-3">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white truncate" title={project.name}>
+                        {project.name}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {format(bounds.start, 'dd/MM/yyyy')} – {format(bounds.end, 'dd/MM/yyyy')}
+                      </p>
+                      {isOverdue(project) && (
+                        <p className="text-xs text-red-600 dark:text-red-400 flex items-center mt-0.5">
+                          <AlertTriangle className="h-3 w-3 mr-1" />
+                          Lewat {differenceInCalendarDays(today, parseISO(project.end_date!))} hari
+                        </p>
+                      )}
+                    </div>
+                    <div className="relative h-16" style={{ width: totalDays * dayWidth }}>
+                      {/* Today marker */}
+                      <div
+                        className="absolute top-0 bottom-0 w-px bg-blue-400"
+                        style={{ left: offsetFor(today) + dayWidth / 2 }}
+                      ></div>
+
+                      {/* Project bar */}
+                      <div
+                        className={`absolute top-4 h-8 rounded-md shadow-sm ${getBarColor(project)} ${
+                          isOverdue(project) ? 'ring-2 ring-red-300 dark:ring-red-700' : ''
+                        }`}
+                        style={{ left, width }}
+                        title={project.name}
+                      >
+                        {editable && (
+                          <>
+                            <div
+                              onMouseDown={(e) => startDrag(e, project, 'start')}
+                              className="absolute left-0 top-0 h-full w-2 cursor-ew-resize rounded-l-md bg-black/20 hover:bg-black/40"
+                            ></div>
+                            <div
+                              onMouseDown={(e) => startDrag(e, project, 'end')}
+                              className="absolute right-0 top-0 h-full w-2 cursor-ew-resize rounded-r-md bg-black/20 hover:bg-black/40"
+                            ></div>
+                          </>
+                        )}
+                        {width > 60 && (
+                          <span className="absolute inset-0 flex items-center px-3 text-xs font-medium text-white truncate pointer-events-none">
+                            {project.name}
+                          </span>
+                        )}
+                      </div>
+
+                      {/* Task due date markers */}
+                      {projectTasks.map((task) => (
+                        <div
+                          key={task.id}
+                          className={`absolute top-[3.25rem] w-2.5 h-2.5 rotate-45 border ${getMarkerColor(task)}`}
+                          style={{ left: offsetFor(parseISO(task.due_date!)) + dayWidth / 2 - 5 }}
+                          title={`${task.title} – ${new Date(task.due_date!).toLocaleDateString('ms-MY')}`}
+                        ></div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <GanttChartSquare className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
+              Tiada projek berjadual
+            </h3>
+            <p className="text-gray-600 dark:text-gray-400">
+              Tetapkan tarikh mula atau tamat pada projek untuk memaparkannya di sini
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Unscheduled projects */}
+      {unscheduled.length > 0 && (
+        <div className="card">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+            Projek Tanpa Tarikh
+          </h3>
+          <div className="flex flex-wrap gap-2">
+            {unscheduled.map((project) => (
+              <span
+                key={project.id}
+                className="px-3 py-1 rounded-full text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+              >
+                {project.name}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
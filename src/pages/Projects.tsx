@@ -1,7 +1,19 @@
 import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { useRealTimeSync } from '../hooks/useRealTimeSync';
-import { supabase } from '../lib/supabase';
+import { useDataScope } from '../hooks/useDataScope';
+import { useEditParam } from '../hooks/useEditParam';
+import {
+  projectMembersRepo,
+  projectsRepo,
+  type Project,
+  type ProjectRole,
+  type ProjectStatus
+} from '../lib/repositories';
+import { purgeDeletedFiles } from '../lib/attachments';
+import AttachmentsModal from '../components/Attachments/AttachmentsModal';
+import ProjectMembersModal from '../components/Projects/ProjectMembersModal';
 import { 
   FolderOpen, 
   Plus, 
@@ -10,27 +22,22 @@ import {
   Calendar,
   Filter,
   Search,
-  BarChart3
+  GanttChartSquare,
+  Paperclip,
+  Users
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 
-interface Project {
-  id: string;
-  name: string;
-  start_date: string | null;
-  end_date: string | null;
-  status: 'Not Started' | 'Ongoing' | 'Completed';
-  user_id: string | null;
-  created_at: string;
-  updated_at: string;
-}
-
 export default function Projects() {
   const { user, profile } = useAuth();
+  const scope = useDataScope();
   const [projects, setProjects] = useState<Project[]>([]);
+  const [roles, setRoles] = useState<Map<string, ProjectRole>>(new Map());
   const [loading, setLoading] = useState(true);
   const [showModal, setShowModal] = useState(false);
   const [editingProject, setEditingProject] = useState<Project | null>(null);
+  const [attachmentsProject, setAttachmentsProject] = useState<Project | null>(null);
+  const [membersProject, setMembersProject] = useState<Project | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
 
@@ -38,22 +45,23 @@ export default function Projects() {
     name: '',
     start_date: '',
     end_date: '',
-    status: 'Not Started' as const
+    status: 'Not Started' as ProjectStatus
   });
 
   const fetchProjects = async () => {
+    if (!scope) return;
+
     try {
-      let query = supabase.from('projects').select('*');
-      
-      // Admin can see all projects, users only see their own
-      if (profile?.role !== 'admin') {
-        query = query.eq('user_id', user?.id);
-      }
-      
-      const { data, error } = await query.order('created_at', { ascending: false });
+      const [projectsRes, membershipsRes] = await Promise.all([
+        projectsRepo.list(scope),
+        projectMembersRepo.listMine(scope.userId)
+      ]);
 
-      if (error) throw error;
-      setProjects(data || []);
+      const failed = [projectsRes, membershipsRes].find(res => res.error);
+      if (failed?.error) throw failed.error;
+
+      setProjects(projectsRes.data || []);
+      setRoles(projectMembersRepo.rolesByProject(membershipsRes.data || []));
     } catch (error) {
       console.error('Error fetching projects:', error);
       toast.error('Ralat semasa mengambil data projek');
@@ -63,41 +71,43 @@ export default function Projects() {
   };
 
   useEffect(() => {
-    if (user) {
+    if (scope) {
       fetchProjects();
     }
-  }, [user, profile]);
+  }, [scope]);
 
-  // Real-time sync for projects
+  // Real-time sync for projects. No column filter: shared projects belong to
+  // other users, and RLS already limits the events delivered.
   useRealTimeSync({
     table: 'projects',
-    onUpdate: fetchProjects,
-    filter: profile?.role === 'admin' ? undefined : `user_id=eq.${user?.id}`
+    onUpdate: fetchProjects
+  });
+
+  // Being added to or removed from a project
+  useRealTimeSync({
+    table: 'project_members',
+    filter: user ? `user_id=eq.${user.id}` : undefined,
+    onUpdate: fetchProjects
   });
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!user) return;
+    if (!scope) return;
+
+    const values = {
+      ...formData,
+      start_date: formData.start_date || null,
+      end_date: formData.end_date || null
+    };
 
     try {
       if (editingProject) {
-        const { error } = await supabase
-          .from('projects')
-          .update({
-            ...formData,
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', editingProject.id);
+        const { error } = await projectsRepo.update(editingProject.id, values);
 
         if (error) throw error;
         toast.success('Projek berjaya dikemaskini');
       } else {
-        const { error } = await supabase
-          .from('projects')
-          .insert([{
-            ...formData,
-            user_id: user.id
-          }]);
+        const { error } = await projectsRepo.create(scope, values);
 
         if (error) throw error;
         toast.success('Projek berjaya ditambah');
@@ -124,14 +134,13 @@ export default function Projects() {
     setShowModal(true);
   };
 
+  useEditParam(projects, handleEdit);
+
   const handleDelete = async (id: string) => {
     if (!confirm('Adakah anda pasti ingin memadam projek ini?')) return;
 
     try {
-      const { error } = await supabase
-        .from('projects')
-        .delete()
-        .eq('id', id);
+      const { error } = await projectsRepo.remove(id);
 
       if (error) throw error;
       toast.success('Projek berjaya dipadam');
@@ -139,7 +148,11 @@ export default function Projects() {
     } catch (error) {
       console.error('Error deleting project:', error);
       toast.error('Ralat semasa memadam projek');
+      return;
     }
+
+    // Files of the project's (and its tasks') attachments
+    purgeDeletedFiles().catch(error => console.error('Error removing attachment files:', error));
   };
 
   const filteredProjects = projects.filter(project => {
@@ -158,7 +171,11 @@ export default function Projects() {
   };
 
   const canEdit = (project: Project) => {
-    return profile?.role === 'admin' || project.user_id === user?.id;
+    return profile?.role === 'admin' || projectMembersRepo.canEditProject(roles.get(project.id));
+  };
+
+  const canDelete = (project: Project) => {
+    return profile?.role === 'admin' || roles.get(project.id) === 'owner';
   };
 
   if (loading) {
@@ -187,13 +204,19 @@ export default function Projects() {
             Urus projek dan pantau kemajuan kerja anda
           </p>
         </div>
-        <button
-          onClick={() => setShowModal(true)}
-          className="mt-4 sm:mt-0 btn-primary flex items-center"
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          Tambah Projek
-        </button>
+        <div className="flex items-center space-x-3 mt-4 sm:mt-0">
+          <Link to="/projek/garis-masa" className="btn-secondary flex items-center">
+            <GanttChartSquare className="h-4 w-4 mr-2" />
+            Garis Masa
+          </Link>
+          <button
+            onClick={() => setShowModal(true)}
+            className="btn-primary flex items-center"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Tambah Projek
+          </button>
+        </div>
       </div>
 
       {/* Filters */}
@@ -238,22 +261,38 @@ export default function Projects() {
                   {project.status === 'Completed' && 'Selesai'}
                 </span>
               </div>
-              {canEdit(project) && (
-                <div className="flex items-center space-x-2">
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => setMembersProject(project)}
+                  className="p-2 text-gray-400 hover:text-blue-500 transition-colors"
+                  title="Ahli"
+                >
+                  <Users className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => setAttachmentsProject(project)}
+                  className="p-2 text-gray-400 hover:text-blue-500 transition-colors"
+                  title="Lampiran"
+                >
+                  <Paperclip className="h-4 w-4" />
+                </button>
+                {canEdit(project) && (
                   <button
                     onClick={() => handleEdit(project)}
                     className="p-2 text-gray-400 hover:text-blue-500 transition-colors"
                   >
                     <Edit className="h-4 w-4" />
                   </button>
+                )}
+                {canDelete(project) && (
                   <button
                     onClick={() => handleDelete(project.id)}
                     className="p-2 text-gray-400 hover:text-red-500 transition-colors"
                   >
                     <Trash2 className="h-4 w-4" />
                   </button>
-                </div>
-              )}
+                )}
+              </div>
             </div>
 
             <div className="space-y-2 text-sm text-gray-600 dark:text-gray-400">
@@ -269,7 +308,12 @@ export default function Projects() {
                   Tamat: {new Date(project.end_date).toLocaleDateString('ms-MY')}
                 </div>
               )}
-              {profile?.role === 'admin' && project.user_id !== user?.id && (
+              {project.user_id !== user?.id && roles.has(project.id) && (
+                <div className="text-xs text-blue-600 dark:text-blue-400 mt-2">
+                  Dikongsi dengan anda · {projectMembersRepo.roleLabels[roles.get(project.id)!]}
+                </div>
+              )}
+              {profile?.role === 'admin' && project.user_id !== user?.id && !roles.has(project.id) && (
                 <div className="text-xs text-blue-600 dark:text-blue-400 mt-2">
                   Projek pengguna lain
                 </div>
@@ -347,7 +391,7 @@ export default function Projects() {
                 </label>
                 <select
                   value={formData.status}
-                  onChange={(e) => setFormData({ ...formData, status: e.target.value as any })}
+                  onChange={(e) => setFormData({ ...formData, status: e.target.value as ProjectStatus })}
                   className="input-field"
                 >
                   <option value="Not Started">Belum Mula</option>
@@ -376,6 +420,29 @@ export default function Projects() {
           </div>
         </div>
       )}
+
+      {membersProject && user && (
+        <ProjectMembersModal
+          project={membersProject}
+          currentUserId={user.id}
+          isAdmin={profile?.role === 'admin'}
+          onClose={() => setMembersProject(null)}
+          onLeave={() => {
+            setMembersProject(null);
+            fetchProjects();
+          }}
+        />
+      )}
+
+      {attachmentsProject && user && (
+        <AttachmentsModal
+          parent={{ kind: 'project', id: attachmentsProject.id }}
+          title={attachmentsProject.name}
+          currentUserId={user.id}
+          isAdmin={profile?.role === 'admin'}
+          onClose={() => setAttachmentsProject(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
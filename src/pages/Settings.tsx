@@ -1,7 +1,23 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { useTheme } from '../contexts/ThemeContext';
+import { useDataScope } from '../hooks/useDataScope';
 import { supabase } from '../lib/supabase';
+import {
+  calendarNotesRepo,
+  contentLogRepo,
+  liveManualLogRepo,
+  personalScope,
+  projectsRepo,
+  tasksRepo,
+  userProfilesRepo,
+  userTargetsRepo,
+  type UserProfile,
+  type UserRole,
+  type UserTarget,
+  type UserTargetInput
+} from '../lib/repositories';
+import TargetModal from '../components/Settings/TargetModal';
 import { 
   Settings as SettingsIcon, 
   User, 
@@ -11,30 +27,26 @@ import {
   Eye,
   EyeOff,
   Shield,
-  Bell,
   Download,
   Trash2,
   Users,
   Crown,
-  UserMinus
+  UserMinus,
+  Target,
+  Mail
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 
-interface UserProfile {
-  id: string;
-  nama: string;
-  role: 'admin' | 'user';
-  created_at: string;
-  updated_at: string;
-}
-
 export default function Settings() {
   const { user, profile, updateProfile } = useAuth();
   const { theme, toggleTheme } = useTheme();
+  const scope = useDataScope();
   const [loading, setLoading] = useState(false);
   const [showPasswordForm, setShowPasswordForm] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const [allUsers, setAllUsers] = useState<UserProfile[]>([]);
+  const [targets, setTargets] = useState<UserTarget[]>([]);
+  const [targetUser, setTargetUser] = useState<UserProfile | null>(null);
   const [loadingUsers, setLoadingUsers] = useState(false);
   
   const [profileForm, setProfileForm] = useState({
@@ -68,13 +80,16 @@ export default function Settings() {
     
     try {
       setLoadingUsers(true);
-      const { data, error } = await supabase
-        .from('user_profiles')
-        .select('*')
-        .order('created_at', { ascending: false });
+      const [usersRes, targetsRes] = await Promise.all([
+        userProfilesRepo.listAll(),
+        userTargetsRepo.listAll()
+      ]);
 
-      if (error) throw error;
-      setAllUsers(data || []);
+      const failed = [usersRes, targetsRes].find(res => res.error);
+      if (failed?.error) throw failed.error;
+
+      setAllUsers(usersRes.data || []);
+      setTargets(targetsRes.data || []);
     } catch (error) {
       console.error('Error fetching users:', error);
       toast.error('Ralat mengambil senarai pengguna');
@@ -83,7 +98,7 @@ export default function Settings() {
     }
   };
 
-  const handleRoleChange = async (userId: string, newRole: 'admin' | 'user') => {
+  const handleRoleChange = async (userId: string, newRole: UserRole) => {
     if (profile?.role !== 'admin') {
       toast.error('Hanya admin boleh mengubah peranan pengguna');
       return;
@@ -99,13 +114,7 @@ export default function Settings() {
 
     try {
       setLoading(true);
-      const { error } = await supabase
-        .from('user_profiles')
-        .update({ 
-          role: newRole,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', userId);
+      const { error } = await userProfilesRepo.update(userId, { role: newRole });
 
       if (error) throw error;
       
@@ -119,6 +128,38 @@ export default function Settings() {
     }
   };
 
+  const targetFor = (userId: string) => targets.find(target => target.user_id === userId) || null;
+
+  const describeTarget = (target: UserTarget | null) => {
+    if (!target) return null;
+
+    const parts = [
+      target.daily_content && `${target.daily_content} content/hari`,
+      target.weekly_content && `${target.weekly_content} content/minggu`,
+      target.daily_live_hours && `${target.daily_live_hours}j live/hari`,
+      target.weekly_live_hours && `${target.weekly_live_hours}j live/minggu`
+    ].filter(Boolean);
+
+    return parts.length > 0 ? parts.join(' · ') : null;
+  };
+
+  const handleSaveTarget = async (values: UserTargetInput): Promise<boolean> => {
+    if (!scope || !targetUser) return false;
+
+    try {
+      const { error } = await userTargetsRepo.save(scope, targetUser.id, values);
+
+      if (error) throw error;
+      toast.success('Sasaran berjaya disimpan');
+      fetchAllUsers();
+      return true;
+    } catch (error) {
+      console.error('Error saving target:', error);
+      toast.error('Ralat semasa menyimpan sasaran');
+      return false;
+    }
+  };
+
   const handleProfileUpdate = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!profileForm.nama.trim()) {
@@ -136,6 +177,19 @@ export default function Settings() {
     }
   };
 
+  const handleDigestToggle = async () => {
+    if (!profile) return;
+
+    try {
+      setLoading(true);
+      await updateProfile({ email_digest: !profile.email_digest });
+    } catch (error) {
+      console.error('Error updating email digest:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handlePasswordUpdate = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -160,27 +214,33 @@ export default function Settings() {
       toast.success('Kata laluan berjaya dikemaskini');
       setPasswordForm({ currentPassword: '', newPassword: '', confirmPassword: '' });
       setShowPasswordForm(false);
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error updating password:', error);
-      toast.error(error.message || 'Ralat mengemas kini kata laluan');
+      toast.error(error instanceof Error && error.message ? error.message : 'Ralat mengemas kini kata laluan');
     } finally {
       setLoading(false);
     }
   };
 
   const exportUserData = async () => {
+    if (!scope) return;
+
     try {
       setLoading(true);
       
       // Fetch all user data
+      const ownScope = personalScope(scope);
       const [projectsRes, tasksRes, contentRes, liveRes, notesRes] = await Promise.all([
-        supabase.from('projects').select('*').eq('user_id', user?.id),
-        supabase.from('tasks').select('*').or(`user_id.eq.${user?.id},assigned_to.eq.${user?.id}`),
-        supabase.from('content_log').select('*').eq('user_id', user?.id),
-        supabase.from('live_manual_log').select('*').eq('user_id', user?.id),
-        supabase.from('calendar_notes').select('*').eq('user_id', user?.id)
+        projectsRepo.list(ownScope),
+        tasksRepo.list(ownScope),
+        contentLogRepo.list(ownScope),
+        liveManualLogRepo.list(ownScope),
+        calendarNotesRepo.list(ownScope)
       ]);
 
+      const failed = [projectsRes, tasksRes, contentRes, liveRes, notesRes].find(res => res.error);
+      if (failed?.error) throw failed.error;
+
       const userData = {
         profile: profile,
         projects: projectsRes.data || [],
@@ -209,6 +269,8 @@ export default function Settings() {
   };
 
   const deleteAccount = async () => {
+    if (!user) return;
+
     const confirmation = prompt(
       'AMARAN: Tindakan ini akan memadam akaun anda secara kekal.\n\n' +
       'Semua data anda termasuk projek, tugasan, dan log akan dipadamkan.\n\n' +
@@ -223,10 +285,7 @@ export default function Settings() {
       setLoading(true);
       
       // Delete user profile (this will cascade delete all related data)
-      const { error } = await supabase
-        .from('user_profiles')
-        .delete()
-        .eq('id', user?.id);
+      const { error } = await userProfilesRepo.remove(user.id);
 
       if (error) throw error;
       
@@ -234,9 +293,9 @@ export default function Settings() {
       
       // Sign out user
       await supabase.auth.signOut();
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error deleting account:', error);
-      toast.error(error.message || 'Ralat memadam akaun');
+      toast.error(error instanceof Error && error.message ? error.message : 'Ralat memadam akaun');
     } finally {
       setLoading(false);
     }
@@ -354,32 +413,46 @@ export default function Settings() {
                       <p className="text-sm text-gray-600 dark:text-gray-400 capitalize">
                         {userItem.role === 'admin' ? 'Administrator' : 'Pengguna'}
                       </p>
+                      {describeTarget(targetFor(userItem.id)) && (
+                        <p className="text-xs text-orange-600 dark:text-orange-400">
+                          Sasaran: {describeTarget(targetFor(userItem.id))}
+                        </p>
+                      )}
                     </div>
                   </div>
                   
-                  {userItem.id !== user?.id && (
-                    <div className="flex items-center space-x-2">
-                      {userItem.role === 'user' ? (
-                        <button
-                          onClick={() => handleRoleChange(userItem.id, 'admin')}
-                          disabled={loading}
-                          className="flex items-center px-3 py-1 bg-yellow-500 hover:bg-yellow-600 text-white text-sm rounded-lg transition-colors disabled:opacity-50"
-                        >
-                          <Crown className="h-4 w-4 mr-1" />
-                          Jadikan Admin
-                        </button>
-                      ) : (
-                        <button
-                          onClick={() => handleRoleChange(userItem.id, 'user')}
-                          disabled={loading}
-                          className="flex items-center px-3 py-1 bg-gray-500 hover:bg-gray-600 text-white text-sm rounded-lg transition-colors disabled:opacity-50"
-                        >
-                          <UserMinus className="h-4 w-4 mr-1" />
-                          Tarik Balik Admin
-                        </button>
-                      )}
-                    </div>
-                  )}
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => setTargetUser(userItem)}
+                      className="flex items-center px-3 py-1 bg-orange-500 hover:bg-orange-600 text-white text-sm rounded-lg transition-colors"
+                    >
+                      <Target className="h-4 w-4 mr-1" />
+                      Sasaran
+                    </button>
+                    {userItem.id !== user?.id && (
+                      <>
+                        {userItem.role === 'user' ? (
+                          <button
+                            onClick={() => handleRoleChange(userItem.id, 'admin')}
+                            disabled={loading}
+                            className="flex items-center px-3 py-1 bg-yellow-500 hover:bg-yellow-600 text-white text-sm rounded-lg transition-colors disabled:opacity-50"
+                          >
+                            <Crown className="h-4 w-4 mr-1" />
+                            Jadikan Admin
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => handleRoleChange(userItem.id, 'user')}
+                            disabled={loading}
+                            className="flex items-center px-3 py-1 bg-gray-500 hover:bg-gray-600 text-white text-sm rounded-lg transition-colors disabled:opacity-50"
+                          >
+                            <UserMinus className="h-4 w-4 mr-1" />
+                            Tarik Balik Admin
+                          </button>
+                        )}
+                      </>
+                    )}
+                  </div>
                 </div>
               ))}
             </div>
@@ -387,6 +460,15 @@ export default function Settings() {
         </div>
       )}
 
+      {targetUser && (
+        <TargetModal
+          user={targetUser}
+          target={targetFor(targetUser.id)}
+          onSave={handleSaveTarget}
+          onClose={() => setTargetUser(null)}
+        />
+      )}
+
       {/* Security Settings */}
       <div className="card">
         <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center">
@@ -498,6 +580,32 @@ export default function Settings() {
         </div>
       </div>
 
+      {/* Email Notifications */}
+      <div className="card">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center">
+          <Mail className="h-5 w-5 mr-2" />
+          Notifikasi Email
+        </h2>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="font-medium text-gray-900 dark:text-white">
+              Ringkasan Harian {profile?.email_digest ? 'Aktif' : 'Dimatikan'}
+            </p>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Email setiap pagi dengan tugasan lewat, tugasan 3 hari akan datang dan jumlah content serta live semalam
+            </p>
+          </div>
+          <button
+            onClick={handleDigestToggle}
+            disabled={loading || !profile}
+            className="btn-secondary disabled:opacity-50"
+          >
+            {profile?.email_digest ? 'Matikan' : 'Aktifkan'}
+          </button>
+        </div>
+      </div>
+
       {/* Data Management */}
       <div className="card">
         <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
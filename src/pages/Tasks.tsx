@@ -1,7 +1,35 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { useRealTimeSync } from '../hooks/useRealTimeSync';
-import { supabase } from '../lib/supabase';
+import { useDataScope } from '../hooks/useDataScope';
+import { useEditParam } from '../hooks/useEditParam';
+import {
+  projectsRepo,
+  projectMembersRepo,
+  tasksRepo,
+  taskAssigneesRepo,
+  taskDependenciesRepo,
+  checklistItemsRepo,
+  taskSeriesRepo,
+  userProfilesRepo,
+  type ChecklistItem,
+  type ProjectOption,
+  type ProjectRole,
+  type TaskAssigneeWithProfile,
+  type TaskDependency,
+  type TaskSeries,
+  type TaskStatus,
+  type TaskWithProject
+} from '../lib/repositories';
+import {
+  describe,
+  emptyRecurrenceForm,
+  formFromRule,
+  ruleFromForm,
+  type RecurrenceForm
+} from '../lib/recurrence';
+import { toDateKey } from '../lib/dates';
+import { purgeDeletedFiles } from '../lib/attachments';
 import { 
   CheckSquare, 
   Plus, 
@@ -10,68 +38,65 @@ import {
   Calendar,
   Filter,
   Search,
-  User,
   BarChart3,
-  Clock
+  Lock,
+  MessageSquare,
+  Paperclip,
+  Repeat,
+  Users
 } from 'lucide-react';
 import toast from 'react-hot-toast';
+import TaskBoard from '../components/Tasks/TaskBoard';
+import TaskChecklist from '../components/Tasks/TaskChecklist';
+import RecurrenceFields from '../components/Tasks/RecurrenceFields';
+import TaskComments from '../components/Tasks/TaskComments';
+import AttachmentsModal from '../components/Attachments/AttachmentsModal';
 
-interface Task {
-  id: string;
-  title: string;
-  project_id: string | null;
-  due_date: string | null;
-  status: 'Not Started' | 'Ongoing' | 'Completed';
-  assigned_to: string | null;
-  progress: number;
-  user_id: string | null;
-  created_at: string;
-  updated_at: string;
-  projects?: { name: string };
-}
-
-interface Project {
-  id: string;
-  name: string;
-}
+type Task = TaskWithProject;
+type Person = { id: string; nama: string };
 
 export default function Tasks() {
   const { user, profile } = useAuth();
+  const scope = useDataScope();
   const [tasks, setTasks] = useState<Task[]>([]);
-  const [projects, setProjects] = useState<Project[]>([]);
+  const [dependencies, setDependencies] = useState<TaskDependency[]>([]);
+  const [checklistItems, setChecklistItems] = useState<ChecklistItem[]>([]);
+  const [series, setSeries] = useState<TaskSeries[]>([]);
+  const [projects, setProjects] = useState<ProjectOption[]>([]);
+  const [assignees, setAssignees] = useState<TaskAssigneeWithProfile[]>([]);
+  const [roles, setRoles] = useState<Map<string, ProjectRole>>(new Map());
   const [loading, setLoading] = useState(true);
   const [showModal, setShowModal] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
+  const [deletingTask, setDeletingTask] = useState<Task | null>(null);
+  const [commentsTask, setCommentsTask] = useState<Task | null>(null);
+  const [attachmentsTask, setAttachmentsTask] = useState<Task | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [projectFilter, setProjectFilter] = useState<string>('all');
+  const [viewMode, setViewMode] = useState<'list' | 'board'>('list');
 
   const [formData, setFormData] = useState({
     title: '',
     project_id: '',
     due_date: '',
-    status: 'Not Started' as const,
+    status: 'Not Started' as TaskStatus,
     progress: 0
   });
+  const [predecessorIds, setPredecessorIds] = useState<string[]>([]);
+  const [assigneeIds, setAssigneeIds] = useState<string[]>([]);
+  const [assigneeCandidates, setAssigneeCandidates] = useState<Person[]>([]);
+  const [recurrence, setRecurrence] = useState<RecurrenceForm>(emptyRecurrenceForm);
+  const [editScope, setEditScope] = useState<'this' | 'series'>('this');
 
   const fetchTasks = async () => {
+    if (!scope) return;
+
     try {
-      let query = supabase
-        .from('tasks')
-        .select(`
-          *,
-          projects (name)
-        `);
-      
-      // Admin can see all tasks, users only see their own or assigned to them
-      if (profile?.role !== 'admin') {
-        query = query.or(`user_id.eq.${user?.id},assigned_to.eq.${user?.id}`);
-      }
-      
-      const { data, error } = await query.order('created_at', { ascending: false });
+      const { data, error } = await tasksRepo.list(scope);
 
       if (error) throw error;
-      setTasks(data || []);
+      setTasks(data);
     } catch (error) {
       console.error('Error fetching tasks:', error);
       toast.error('Ralat semasa mengambil data tugasan');
@@ -80,72 +105,295 @@ export default function Tasks() {
     }
   };
 
-  const fetchProjects = async () => {
+  const fetchDependencies = async () => {
     try {
-      let query = supabase.from('projects').select('id, name');
-      
-      // Admin can see all projects, users only see their own
-      if (profile?.role !== 'admin') {
-        query = query.eq('user_id', user?.id);
-      }
-      
-      const { data, error } = await query.order('name');
+      const { data, error } = await taskDependenciesRepo.list();
+
+      if (error) throw error;
+      setDependencies(data);
+    } catch (error) {
+      console.error('Error fetching task dependencies:', error);
+      toast.error('Ralat semasa mengambil kebergantungan tugasan');
+    }
+  };
+
+  const fetchChecklistItems = async () => {
+    try {
+      const { data, error } = await checklistItemsRepo.list();
+
+      if (error) throw error;
+      setChecklistItems(data);
+    } catch (error) {
+      console.error('Error fetching checklist items:', error);
+      toast.error('Ralat semasa mengambil senarai semak');
+    }
+  };
+
+  const fetchSeries = async () => {
+    if (!scope) return;
+
+    try {
+      const { data, error } = await taskSeriesRepo.list(scope);
 
       if (error) throw error;
-      setProjects(data || []);
+      setSeries(data);
+
+      // Top up each series with the occurrences now inside the window
+      const results = await Promise.all(data.map(item => taskSeriesRepo.materialise(item)));
+      const failed = results.find(res => res.error);
+      if (failed?.error) throw failed.error;
+
+      if (results.some(res => res.data)) {
+        fetchTasks();
+      }
+    } catch (error) {
+      console.error('Error fetching task series:', error);
+      toast.error('Ralat semasa mengambil tugasan berulang');
+    }
+  };
+
+  const fetchProjects = async () => {
+    if (!scope) return;
+
+    try {
+      const [projectsRes, membershipsRes] = await Promise.all([
+        projectsRepo.listOptions(scope),
+        projectMembersRepo.listMine(scope.userId)
+      ]);
+
+      const failed = [projectsRes, membershipsRes].find(res => res.error);
+      if (failed?.error) throw failed.error;
+
+      setProjects(projectsRes.data || []);
+      setRoles(projectMembersRepo.rolesByProject(membershipsRes.data || []));
     } catch (error) {
       console.error('Error fetching projects:', error);
+      toast.error('Ralat semasa mengambil senarai projek');
+    }
+  };
+
+  const fetchAssignees = async () => {
+    try {
+      const { data, error } = await taskAssigneesRepo.list();
+
+      if (error) throw error;
+      setAssignees(data);
+    } catch (error) {
+      console.error('Error fetching task assignees:', error);
+      toast.error('Ralat semasa mengambil penugasan tugasan');
+    }
+  };
+
+  // Who the task can be assigned to: the project's members, or outside a
+  // project just the user (admins can pick anyone). Current assignees stay
+  // listed so they can be removed.
+  const fetchAssigneeCandidates = async (projectId: string) => {
+    if (!user) return;
+
+    try {
+      let people: Person[] = [];
+
+      if (projectId) {
+        const { data, error } = await projectMembersRepo.list(projectId);
+
+        if (error) throw error;
+        people = data.map(member => ({ id: member.user_id, nama: member.user_profiles?.nama || 'Pengguna' }));
+      } else if (profile?.role === 'admin') {
+        const { data, error } = await userProfilesRepo.listAll();
+
+        if (error) throw error;
+        people = data.map(person => ({ id: person.id, nama: person.nama }));
+      }
+
+      const current = (editingTask ? assigneesByTask.get(editingTask.id) || [] : [])
+        .map(assignee => ({ id: assignee.user_id, nama: assignee.user_profiles?.nama || 'Pengguna' }));
+      const candidates = [{ id: user.id, nama: profile?.nama || 'Saya' }, ...current, ...people]
+        .filter((person, index, all) => all.findIndex(other => other.id === person.id) === index);
+
+      setAssigneeCandidates(candidates);
+      setAssigneeIds(prev => prev.filter(id => candidates.some(person => person.id === id)));
+    } catch (error) {
+      console.error('Error fetching assignee candidates:', error);
+      toast.error('Ralat semasa mengambil senarai ahli');
     }
   };
 
   useEffect(() => {
-    if (user) {
+    if (showModal) {
+      fetchAssigneeCandidates(formData.project_id);
+    }
+  }, [showModal, formData.project_id]);
+
+  useEffect(() => {
+    if (scope) {
       fetchTasks();
+      fetchDependencies();
+      fetchChecklistItems();
+      fetchSeries();
       fetchProjects();
+      fetchAssignees();
     }
-  }, [user, profile]);
+  }, [scope]);
 
-  // Real-time sync for tasks
+  // Real-time sync for tasks. No column filter: a user's tasks include ones
+  // assigned to them by others, and RLS already limits the events delivered.
   useRealTimeSync({
     table: 'tasks',
-    onUpdate: fetchTasks,
-    filter: profile?.role === 'admin' ? undefined : `user_id=eq.${user?.id}`
+    onUpdate: fetchTasks
+  });
+
+  useRealTimeSync({
+    table: 'task_dependencies',
+    onUpdate: fetchDependencies
+  });
+
+  useRealTimeSync({
+    table: 'task_checklist_items',
+    onUpdate: fetchChecklistItems
+  });
+
+  useRealTimeSync({
+    table: 'task_series',
+    onUpdate: fetchSeries
+  });
+
+  // Assignments also decide which tasks are listed
+  useRealTimeSync({
+    table: 'task_assignees',
+    onUpdate: () => {
+      fetchAssignees();
+      fetchTasks();
+    }
+  });
+
+  // Joining or leaving a project changes which tasks are listed and editable
+  useRealTimeSync({
+    table: 'project_members',
+    filter: user ? `user_id=eq.${user.id}` : undefined,
+    onUpdate: () => {
+      fetchProjects();
+      fetchTasks();
+    }
   });
 
+  const seriesById = useMemo(() => new Map(series.map(item => [item.id, item])), [series]);
+  const assigneesByTask = useMemo(() => taskAssigneesRepo.groupByTask(assignees), [assignees]);
+
+  const assigneeIdsOf = (taskId: string) => (assigneesByTask.get(taskId) || []).map(assignee => assignee.user_id);
+  const editingSeries = editingTask?.series_id ? seriesById.get(editingTask.series_id) : undefined;
+
+  const closeModal = () => {
+    setShowModal(false);
+    setEditingTask(null);
+    setFormData({ title: '', project_id: '', due_date: '', status: 'Not Started', progress: 0 });
+    setPredecessorIds([]);
+    setAssigneeIds([]);
+    setRecurrence(emptyRecurrenceForm);
+    setEditScope('this');
+  };
+
+  const createSeries = async () => {
+    if (!scope) return;
+
+    const startDate = formData.due_date || toDateKey(new Date());
+    const { data, error } = await taskSeriesRepo.create(scope, {
+      title: formData.title,
+      project_id: formData.project_id || null,
+      ...ruleFromForm(recurrence, startDate)
+    });
+
+    if (error) throw error;
+    if (data) {
+      const result = await taskSeriesRepo.materialise(data);
+      if (result.error) throw result.error;
+    }
+    toast.success('Tugasan berulang berjaya ditambah');
+  };
+
+  const updateSeries = async (taskSeries: TaskSeries) => {
+    const { error } = await taskSeriesRepo.updateSeries(taskSeries, {
+      title: formData.title,
+      project_id: formData.project_id || null,
+      ...ruleFromForm(recurrence, taskSeries.start_date)
+    });
+
+    if (error) throw error;
+    toast.success('Siri tugasan berjaya dikemaskini');
+  };
+
+  const saveTask = async () => {
+    if (!scope) return;
+
+    const { status, progress, ...rest } = formData;
+    const values = {
+      ...rest,
+      project_id: formData.project_id || null,
+      due_date: formData.due_date || null,
+      // Tasks with a checklist get status and progress from the database trigger
+      ...(editingTask && checklists.has(editingTask.id) ? {} : { status, progress }),
+      // An occurrence edited on its own is left alone by later series edits
+      ...(editingTask?.series_id ? { is_exception: true } : {})
+    };
+
+    let taskId = editingTask?.id;
+
+    if (editingTask) {
+      const { error } = await tasksRepo.update(editingTask.id, values);
+
+      if (error) throw error;
+      toast.success('Tugasan berjaya dikemaskini');
+    } else {
+      const { data, error } = await tasksRepo.create(scope, values);
+
+      if (error) throw error;
+      taskId = data?.id;
+      toast.success('Tugasan berjaya ditambah');
+    }
+
+    if (taskId) {
+      // Predecessors only apply within a project
+      const { error } = await taskDependenciesRepo.setPredecessors(
+        taskId,
+        taskDependenciesRepo.predecessorsOf(dependencies, taskId),
+        values.project_id ? predecessorIds : []
+      );
+
+      if (error) {
+        console.error('Error saving task dependencies:', error);
+        toast.error('Ralat semasa menyimpan kebergantungan tugasan');
+      }
+
+      const assigneesResult = await taskAssigneesRepo.setAssignees(
+        scope.userId,
+        taskId,
+        assigneeIdsOf(taskId),
+        assigneeIds
+      );
+
+      if (assigneesResult.error) {
+        console.error('Error saving task assignees:', assigneesResult.error);
+        toast.error('Ralat semasa menyimpan penugasan tugasan');
+      }
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!user) return;
 
     try {
-      if (editingTask) {
-        const { error } = await supabase
-          .from('tasks')
-          .update({
-            ...formData,
-            project_id: formData.project_id || null,
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', editingTask.id);
-
-        if (error) throw error;
-        toast.success('Tugasan berjaya dikemaskini');
+      if (!editingTask && recurrence.frequency !== 'none') {
+        await createSeries();
+      } else if (editingSeries && editScope === 'series') {
+        await updateSeries(editingSeries);
       } else {
-        const { error } = await supabase
-          .from('tasks')
-          .insert([{
-            ...formData,
-            project_id: formData.project_id || null,
-            user_id: user.id
-          }]);
-
-        if (error) throw error;
-        toast.success('Tugasan berjaya ditambah');
+        await saveTask();
       }
 
-      setShowModal(false);
-      setEditingTask(null);
-      setFormData({ title: '', project_id: '', due_date: '', status: 'Not Started', progress: 0 });
+      closeModal();
       fetchTasks();
+      fetchDependencies();
+      fetchSeries();
+      fetchAssignees();
     } catch (error) {
       console.error('Error saving task:', error);
       toast.error('Ralat semasa menyimpan tugasan');
@@ -153,6 +401,8 @@ export default function Tasks() {
   };
 
   const handleEdit = (task: Task) => {
+    const taskSeries = task.series_id ? seriesById.get(task.series_id) : undefined;
+
     setEditingTask(task);
     setFormData({
       title: task.title,
@@ -161,39 +411,74 @@ export default function Tasks() {
       status: task.status,
       progress: task.progress
     });
+    setPredecessorIds(taskDependenciesRepo.predecessorsOf(dependencies, task.id));
+    setAssigneeIds(assigneeIdsOf(task.id));
+    setRecurrence(taskSeries ? formFromRule(taskSeries) : emptyRecurrenceForm);
+    setEditScope('this');
     setShowModal(true);
   };
 
-  const handleDelete = async (id: string) => {
+  useEditParam(tasks, handleEdit);
+  // Mention notifications link straight to the task's comments
+  useEditParam(tasks, setCommentsTask, 'comments');
+
+  // Deleted tasks leave their attachment files queued for removal
+  const removeAttachmentFiles = () => {
+    purgeDeletedFiles().catch(error => console.error('Error removing attachment files:', error));
+  };
+
+  const handleDelete = async (task: Task) => {
+    // Recurring tasks ask whether to delete one occurrence or the whole series
+    if (task.series_id && seriesById.has(task.series_id)) {
+      setDeletingTask(task);
+      return;
+    }
+
     if (!confirm('Adakah anda pasti ingin memadam tugasan ini?')) return;
 
     try {
-      const { error } = await supabase
-        .from('tasks')
-        .delete()
-        .eq('id', id);
+      const { error } = await tasksRepo.remove(task.id);
 
       if (error) throw error;
       toast.success('Tugasan berjaya dipadam');
       fetchTasks();
+      removeAttachmentFiles();
     } catch (error) {
       console.error('Error deleting task:', error);
       toast.error('Ralat semasa memadam tugasan');
     }
   };
 
+  const deleteRecurring = async (deleteScope: 'this' | 'series') => {
+    const taskSeries = deletingTask?.series_id ? seriesById.get(deletingTask.series_id) : undefined;
+    if (!deletingTask || !taskSeries) return;
+
+    try {
+      const { error } = deleteScope === 'series'
+        ? await taskSeriesRepo.remove(taskSeries.id)
+        : await taskSeriesRepo.removeOccurrence(
+          taskSeries,
+          deletingTask.id,
+          deletingTask.occurrence_date || deletingTask.due_date || ''
+        );
+
+      if (error) throw error;
+      toast.success(deleteScope === 'series' ? 'Siri tugasan berjaya dipadam' : 'Tugasan berjaya dipadam');
+      setDeletingTask(null);
+      fetchTasks();
+      fetchSeries();
+      removeAttachmentFiles();
+    } catch (error) {
+      console.error('Error deleting recurring task:', error);
+      toast.error('Ralat semasa memadam tugasan');
+    }
+  };
+
   const updateProgress = async (taskId: string, newProgress: number) => {
     try {
-      const newStatus = newProgress === 100 ? 'Completed' : newProgress > 0 ? 'Ongoing' : 'Not Started';
-      
-      const { error } = await supabase
-        .from('tasks')
-        .update({ 
-          progress: newProgress, 
-          status: newStatus,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', taskId);
+      const newStatus = tasksRepo.statusForProgress(newProgress);
+
+      const { error } = await tasksRepo.update(taskId, { progress: newProgress, status: newStatus });
 
       if (error) throw error;
       fetchTasks();
@@ -204,9 +489,96 @@ export default function Tasks() {
     }
   };
 
+  const moveTask = async (task: Task, newStatus: TaskStatus) => {
+    if (checklists.has(task.id)) {
+      toast.error('Status tugasan ini mengikut senarai semak');
+      return;
+    }
+
+    const newProgress = tasksRepo.progressForStatus(newStatus, task.progress);
+
+    // Move the card straight away; the refetch below reconciles with the server
+    setTasks(prev => prev.map(t => (
+      t.id === task.id ? { ...t, status: newStatus, progress: newProgress } : t
+    )));
+
+    try {
+      const { error } = await tasksRepo.update(task.id, { status: newStatus, progress: newProgress });
+
+      if (error) throw error;
+      toast.success('Status tugasan dikemaskini');
+    } catch (error) {
+      console.error('Error moving task:', error);
+      toast.error('Ralat mengemas kini status tugasan');
+    } finally {
+      fetchTasks();
+    }
+  };
+
+  // Tasks with at least one predecessor that is not yet Completed
+  const blockers = useMemo(
+    () => taskDependenciesRepo.blockersByTask(dependencies, tasks),
+    [dependencies, tasks]
+  );
+
+  const checklists = useMemo(() => checklistItemsRepo.groupByTask(checklistItems), [checklistItems]);
+
+  const toggleChecklistItem = async (item: ChecklistItem) => {
+    const updatedItems = checklistItems.map(i => (i.id === item.id ? { ...i, is_done: !i.is_done } : i));
+    const newProgress = checklistItemsRepo.progressFor(updatedItems.filter(i => i.task_id === item.task_id)) ?? 0;
+
+    // Mirror the database trigger so the card updates straight away
+    setChecklistItems(updatedItems);
+    setTasks(prev => prev.map(t => (
+      t.id === item.task_id
+        ? { ...t, progress: newProgress, status: tasksRepo.statusForProgress(newProgress) }
+        : t
+    )));
+
+    try {
+      const { error } = await checklistItemsRepo.update(item.id, { is_done: !item.is_done });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error updating checklist item:', error);
+      toast.error('Ralat mengemas kini senarai semak');
+    } finally {
+      fetchChecklistItems();
+      fetchTasks();
+    }
+  };
+
+  const addChecklistItem = async (task: Task, title: string) => {
+    try {
+      const position = checklists.get(task.id)?.length || 0;
+      const { error } = await checklistItemsRepo.create(task.id, title, position);
+
+      if (error) throw error;
+      fetchChecklistItems();
+      fetchTasks();
+    } catch (error) {
+      console.error('Error adding checklist item:', error);
+      toast.error('Ralat semasa menambah item senarai semak');
+    }
+  };
+
+  const removeChecklistItem = async (item: ChecklistItem) => {
+    try {
+      const { error } = await checklistItemsRepo.remove(item.id);
+
+      if (error) throw error;
+      fetchChecklistItems();
+      fetchTasks();
+    } catch (error) {
+      console.error('Error deleting checklist item:', error);
+      toast.error('Ralat semasa memadam item senarai semak');
+    }
+  };
+
   const filteredTasks = tasks.filter(task => {
     const matchesSearch = task.title.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesStatus = statusFilter === 'all' || task.status === statusFilter;
+    const matchesStatus = statusFilter === 'all'
+      || (statusFilter === 'blocked' ? blockers.has(task.id) : task.status === statusFilter);
     const matchesProject = projectFilter === 'all' || task.project_id === projectFilter;
     return matchesSearch && matchesStatus && matchesProject;
   });
@@ -228,10 +600,40 @@ export default function Tasks() {
     return 'bg-red-500';
   };
 
+  const isMine = (task: Task) =>
+    task.user_id === user?.id || task.assigned_to === user?.id || (!!user && assigneeIdsOf(task.id).includes(user.id));
+
   const canEdit = (task: Task) => {
-    return profile?.role === 'admin' || task.user_id === user?.id || task.assigned_to === user?.id;
+    return profile?.role === 'admin'
+      || isMine(task)
+      || (!!task.project_id && projectMembersRepo.canEditProject(roles.get(task.project_id)));
   };
 
+  const blockedTitle = (taskId: string) => {
+    const titles = (blockers.get(taskId) || [])
+      .map(id => tasks.find(t => t.id === id)?.title)
+      .filter(Boolean);
+    return `Menunggu: ${titles.join(', ')}`;
+  };
+
+  const checklistLocked = !!editingTask && checklists.has(editingTask.id);
+
+  // Creating a recurring task or editing its whole series: the form describes
+  // the series, not a single occurrence
+  const seriesForm = editingTask ? editScope === 'series' : recurrence.frequency !== 'none';
+
+  // Viewers can see a project's tasks but not file new ones under it
+  const editableProjects = projects.filter(project =>
+    profile?.role === 'admin'
+      || projectMembersRepo.canEditProject(roles.get(project.id))
+      || project.id === editingTask?.project_id
+  );
+
+  // Other tasks in the selected project that can be picked as predecessors
+  const predecessorCandidates = formData.project_id
+    ? tasks.filter(task => task.project_id === formData.project_id && task.id !== editingTask?.id)
+    : [];
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -290,6 +692,7 @@ export default function Tasks() {
             <option value="Not Started">Belum Mula</option>
             <option value="Ongoing">Sedang Berjalan</option>
             <option value="Completed">Selesai</option>
+            <option value="blocked">Tersekat</option>
           </select>
         </div>
         <div className="relative">
@@ -308,126 +711,238 @@ export default function Tasks() {
         </div>
       </div>
 
-      {/* Tasks Grid */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {filteredTasks.map((task) => (
-          <div key={task.id} className="card hover-lift">
-            <div className="flex items-start justify-between mb-4">
-              <div className="flex-1">
-                <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
-                  {task.title}
-                </h3>
-                <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(task.status)}`}>
-                  {task.status === 'Not Started' && 'Belum Mula'}
-                  {task.status === 'Ongoing' && 'Sedang Berjalan'}
-                  {task.status === 'Completed' && 'Selesai'}
-                </span>
-              </div>
-              {canEdit(task) && (
-                <div className="flex items-center space-x-2">
-                  <button
-                    onClick={() => handleEdit(task)}
-                    className="p-2 text-gray-400 hover:text-blue-500 transition-colors"
-                  >
-                    <Edit className="h-4 w-4" />
-                  </button>
-                  <button
-                    onClick={() => handleDelete(task.id)}
-                    className="p-2 text-gray-400 hover:text-red-500 transition-colors"
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </button>
-                </div>
-              )}
-            </div>
+      {/* View Toggle */}
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={() => setViewMode('list')}
+          className={`px-4 py-2 rounded-lg transition-colors ${
+            viewMode === 'list'
+              ? 'bg-blue-500 text-white'
+              : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+          }`}
+        >
+          Senarai
+        </button>
+        <button
+          onClick={() => setViewMode('board')}
+          className={`px-4 py-2 rounded-lg transition-colors ${
+            viewMode === 'board'
+              ? 'bg-blue-500 text-white'
+              : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+          }`}
+        >
+          Papan
+        </button>
+      </div>
 
-            {/* Progress Bar */}
-            <div className="mb-4">
-              <div className="flex items-center justify-between mb-2">
-                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
-                  Kemajuan
-                </span>
-                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
-                  {task.progress}%
-                </span>
-              </div>
-              <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
-                <div
-                  className={`h-2 rounded-full transition-all duration-300 ${getProgressColor(task.progress)}`}
-                  style={{ width: `${task.progress}%` }}
-                ></div>
-              </div>
-              {canEdit(task) && (
-                <div className="flex items-center space-x-2 mt-2">
-                  <button
-                    onClick={() => updateProgress(task.id, Math.max(0, task.progress - 25))}
-                    className="text-xs px-2 py-1 bg-gray-200 dark:bg-gray-700 rounded hover:bg-gray-300 dark:hover:bg-gray-600"
-                  >
-                    -25%
-                  </button>
-                  <button
-                    onClick={() => updateProgress(task.id, Math.min(100, task.progress + 25))}
-                    className="text-xs px-2 py-1 bg-blue-500 text-white rounded hover:bg-blue-600"
-                  >
-                    +25%
-                  </button>
-                  <button
-                    onClick={() => updateProgress(task.id, 100)}
-                    className="text-xs px-2 py-1 bg-green-500 text-white rounded hover:bg-green-600"
-                  >
-                    Selesai
-                  </button>
+      {viewMode === 'board' ? (
+        <TaskBoard
+          tasks={filteredTasks}
+          canEdit={canEdit}
+          blockers={blockers}
+          blockedTitle={blockedTitle}
+          checklists={checklists}
+          onMove={moveTask}
+          onEdit={handleEdit}
+          onComments={setCommentsTask}
+          onAttachments={setAttachmentsTask}
+        />
+      ) : (
+        <>
+          {/* Tasks Grid */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {filteredTasks.map((task) => (
+              <div key={task.id} className="card hover-lift">
+                <div className="flex items-start justify-between mb-4">
+                  <div className="flex-1">
+                    <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
+                      {task.title}
+                    </h3>
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(task.status)}`}>
+                      {task.status === 'Not Started' && 'Belum Mula'}
+                      {task.status === 'Ongoing' && 'Sedang Berjalan'}
+                      {task.status === 'Completed' && 'Selesai'}
+                    </span>
+                    {blockers.has(task.id) && (
+                      <span
+                        className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300"
+                        title={blockedTitle(task.id)}
+                      >
+                        <Lock className="h-3 w-3 mr-1" />
+                        Tersekat
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => setCommentsTask(task)}
+                      className="p-2 text-gray-400 hover:text-blue-500 transition-colors"
+                      title="Komen"
+                    >
+                      <MessageSquare className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => setAttachmentsTask(task)}
+                      className="p-2 text-gray-400 hover:text-blue-500 transition-colors"
+                      title="Lampiran"
+                    >
+                      <Paperclip className="h-4 w-4" />
+                    </button>
+                    {canEdit(task) && (
+                      <>
+                        <button
+                          onClick={() => handleEdit(task)}
+                          className="p-2 text-gray-400 hover:text-blue-500 transition-colors"
+                        >
+                          <Edit className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(task)}
+                          className="p-2 text-gray-400 hover:text-red-500 transition-colors"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </>
+                    )}
+                  </div>
                 </div>
-              )}
-            </div>
 
-            <div className="space-y-2 text-sm text-gray-600 dark:text-gray-400">
-              {task.projects && (
-                <div className="flex items-center">
-                  <BarChart3 className="h-4 w-4 mr-2" />
-                  Projek: {task.projects.name}
-                </div>
-              )}
-              {task.due_date && (
-                <div className="flex items-center">
-                  <Calendar className="h-4 w-4 mr-2" />
-                  Tarikh Tamat: {new Date(task.due_date).toLocaleDateString('ms-MY')}
+                {/* Progress Bar */}
+                <div className="mb-4">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Kemajuan
+                    </span>
+                    <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                      {task.progress}%
+                    </span>
+                  </div>
+                  <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                    <div
+                      className={`h-2 rounded-full transition-all duration-300 ${getProgressColor(task.progress)}`}
+                      style={{ width: `${task.progress}%` }}
+                    ></div>
+                  </div>
+                  {canEdit(task) && !checklists.has(task.id) && (
+                    <div className="flex items-center space-x-2 mt-2">
+                      <button
+                        onClick={() => updateProgress(task.id, Math.max(0, task.progress - 25))}
+                        className="text-xs px-2 py-1 bg-gray-200 dark:bg-gray-700 rounded hover:bg-gray-300 dark:hover:bg-gray-600"
+                      >
+                        -25%
+                      </button>
+                      <button
+                        onClick={() => updateProgress(task.id, Math.min(100, task.progress + 25))}
+                        className="text-xs px-2 py-1 bg-blue-500 text-white rounded hover:bg-blue-600"
+                      >
+                        +25%
+                      </button>
+                      <button
+                        onClick={() => updateProgress(task.id, 100)}
+                        className="text-xs px-2 py-1 bg-green-500 text-white rounded hover:bg-green-600"
+                      >
+                        Selesai
+                      </button>
+                    </div>
+                  )}
                 </div>
-              )}
-              {profile?.role === 'admin' && (task.user_id !== user?.id && task.assigned_to !== user?.id) && (
-                <div className="text-xs text-blue-600 dark:text-blue-400 mt-2">
-                  Tugasan pengguna lain
+
+                <TaskChecklist
+                  items={checklists.get(task.id) || []}
+                  editable={canEdit(task)}
+                  onToggle={toggleChecklistItem}
+                  onAdd={(title) => addChecklistItem(task, title)}
+                  onRemove={removeChecklistItem}
+                />
+
+                <div className="space-y-2 text-sm text-gray-600 dark:text-gray-400">
+                  {task.projects && (
+                    <div className="flex items-center">
+                      <BarChart3 className="h-4 w-4 mr-2" />
+                      Projek: {task.projects.name}
+                    </div>
+                  )}
+                  {task.due_date && (
+                    <div className="flex items-center">
+                      <Calendar className="h-4 w-4 mr-2" />
+                      Tarikh Tamat: {new Date(task.due_date).toLocaleDateString('ms-MY')}
+                    </div>
+                  )}
+                  {task.series_id && seriesById.has(task.series_id) && (
+                    <div className="flex items-center">
+                      <Repeat className="h-4 w-4 mr-2" />
+                      {describe(seriesById.get(task.series_id)!)}
+                    </div>
+                  )}
+                  {assigneesByTask.has(task.id) && (
+                    <div className="flex items-center">
+                      <Users className="h-4 w-4 mr-2" />
+                      Ditugaskan: {assigneesByTask.get(task.id)!.map(assignee => assignee.user_profiles?.nama || 'Pengguna').join(', ')}
+                    </div>
+                  )}
+                  {profile?.role === 'admin' && !isMine(task) && (
+                    <div className="text-xs text-blue-600 dark:text-blue-400 mt-2">
+                      Tugasan pengguna lain
+                    </div>
+                  )}
                 </div>
-              )}
-            </div>
+              </div>
+            ))}
           </div>
-        ))}
-      </div>
 
-      {filteredTasks.length === 0 && (
-        <div className="text-center py-12">
-          <CheckSquare className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-          <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
-            Tiada tugasan dijumpai
-          </h3>
-          <p className="text-gray-600 dark:text-gray-400">
-            {searchTerm || statusFilter !== 'all' || projectFilter !== 'all'
-              ? 'Cuba ubah kriteria carian anda'
-              : 'Mulakan dengan menambah tugasan pertama anda'
-            }
-          </p>
-        </div>
+          {filteredTasks.length === 0 && (
+            <div className="text-center py-12">
+              <CheckSquare className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
+                Tiada tugasan dijumpai
+              </h3>
+              <p className="text-gray-600 dark:text-gray-400">
+                {searchTerm || statusFilter !== 'all' || projectFilter !== 'all'
+                  ? 'Cuba ubah kriteria carian anda'
+                  : 'Mulakan dengan menambah tugasan pertama anda'
+                }
+              </p>
+            </div>
+          )}
+        </>
       )}
 
       {/* Modal */}
       {showModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
-          <div className="bg-white dark:bg-gray-800 rounded-xl p-6 w-full max-w-md">
+          <div className="bg-white dark:bg-gray-800 rounded-xl p-6 w-full max-w-md max-h-[90vh] overflow-y-auto">
             <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">
               {editingTask ? 'Edit Tugasan' : 'Tambah Tugasan Baru'}
             </h2>
             
             <form onSubmit={handleSubmit} className="space-y-4">
+              {editingSeries && (
+                <div className="flex items-center space-x-2">
+                  <button
+                    type="button"
+                    onClick={() => setEditScope('this')}
+                    className={`flex-1 px-3 py-2 text-sm rounded-lg transition-colors ${
+                      editScope === 'this'
+                        ? 'bg-blue-500 text-white'
+                        : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+                    }`}
+                  >
+                    Tugasan ini sahaja
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setEditScope('series')}
+                    className={`flex-1 px-3 py-2 text-sm rounded-lg transition-colors ${
+                      editScope === 'series'
+                        ? 'bg-blue-500 text-white'
+                        : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+                    }`}
+                  >
+                    Semua dalam siri
+                  </button>
+                </div>
+              )}
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                   Tajuk Tugasan
@@ -448,11 +963,14 @@ export default function Tasks() {
                 </label>
                 <select
                   value={formData.project_id}
-                  onChange={(e) => setFormData({ ...formData, project_id: e.target.value })}
+                  onChange={(e) => {
+                    setFormData({ ...formData, project_id: e.target.value });
+                    setPredecessorIds([]);
+                  }}
                   className="input-field"
                 >
                   <option value="">Pilih Projek (Opsional)</option>
-                  {projects.map((project) => (
+                  {editableProjects.map((project) => (
                     <option key={project.id} value={project.id}>
                       {project.name}
                     </option>
@@ -460,56 +978,145 @@ export default function Tasks() {
                 </select>
               </div>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                  Tarikh Tamat
-                </label>
-                <input
-                  type="date"
-                  value={formData.due_date}
-                  onChange={(e) => setFormData({ ...formData, due_date: e.target.value })}
-                  className="input-field"
+              {!seriesForm && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Ditugaskan Kepada
+                  </label>
+                  <div className="max-h-32 overflow-y-auto space-y-1 border border-gray-200 dark:border-gray-700 rounded-lg p-2">
+                    {assigneeCandidates.map((person) => (
+                      <label key={person.id} className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                        <input
+                          type="checkbox"
+                          checked={assigneeIds.includes(person.id)}
+                          onChange={(e) => setAssigneeIds(e.target.checked
+                            ? [...assigneeIds, person.id]
+                            : assigneeIds.filter(id => id !== person.id)
+                          )}
+                          className="rounded border-gray-300 text-blue-500"
+                        />
+                        <span className="flex-1">
+                          {person.nama}
+                          {person.id === user?.id && ' (anda)'}
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                  {!formData.project_id && profile?.role !== 'admin' && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Pilih projek untuk menugaskan ahli projek
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {(!editingTask || editScope === 'series') && (
+                <RecurrenceFields
+                  value={recurrence}
+                  onChange={setRecurrence}
+                  allowNone={!editingTask}
                 />
-              </div>
+              )}
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                  Status
-                </label>
-                <select
-                  value={formData.status}
-                  onChange={(e) => setFormData({ ...formData, status: e.target.value as any })}
-                  className="input-field"
-                >
-                  <option value="Not Started">Belum Mula</option>
-                  <option value="Ongoing">Sedang Berjalan</option>
-                  <option value="Completed">Selesai</option>
-                </select>
-              </div>
+              {!seriesForm && predecessorCandidates.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Bergantung Kepada
+                  </label>
+                  <div className="max-h-32 overflow-y-auto space-y-1 border border-gray-200 dark:border-gray-700 rounded-lg p-2">
+                    {predecessorCandidates.map((task) => {
+                      // A new task has no dependents yet, so it cannot close a loop
+                      const cyclic = !!editingTask
+                        && taskDependenciesRepo.wouldCreateCycle(dependencies, editingTask.id, task.id);
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                  Kemajuan ({formData.progress}%)
-                </label>
-                <input
-                  type="range"
-                  min="0"
-                  max="100"
-                  step="5"
-                  value={formData.progress}
-                  onChange={(e) => setFormData({ ...formData, progress: parseInt(e.target.value) })}
-                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer dark:bg-gray-700"
-                />
-              </div>
+                      return (
+                        <label
+                          key={task.id}
+                          className={`flex items-center space-x-2 text-sm ${
+                            cyclic ? 'text-gray-400 dark:text-gray-500' : 'text-gray-700 dark:text-gray-300'
+                          }`}
+                          title={cyclic ? 'Tugasan ini sudah bergantung kepada tugasan semasa' : undefined}
+                        >
+                          <input
+                            type="checkbox"
+                            disabled={cyclic}
+                            checked={predecessorIds.includes(task.id)}
+                            onChange={(e) => setPredecessorIds(e.target.checked
+                              ? [...predecessorIds, task.id]
+                              : predecessorIds.filter(id => id !== task.id)
+                            )}
+                            className="rounded border-gray-300 text-blue-500"
+                          />
+                          <span className="flex-1">{task.title}</span>
+                          {task.status === 'Completed' && (
+                            <span className="text-xs text-green-600 dark:text-green-400">Selesai</span>
+                          )}
+                        </label>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              {!(editingTask && seriesForm) && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    {seriesForm ? 'Tarikh Mula' : 'Tarikh Tamat'}
+                  </label>
+                  <input
+                    type="date"
+                    value={formData.due_date}
+                    onChange={(e) => setFormData({ ...formData, due_date: e.target.value })}
+                    className="input-field"
+                  />
+                </div>
+              )}
+
+              {!seriesForm && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Status
+                    </label>
+                    <select
+                      value={formData.status}
+                      onChange={(e) => setFormData({ ...formData, status: e.target.value as TaskStatus })}
+                      disabled={checklistLocked}
+                      className="input-field disabled:opacity-60"
+                    >
+                      <option value="Not Started">Belum Mula</option>
+                      <option value="Ongoing">Sedang Berjalan</option>
+                      <option value="Completed">Selesai</option>
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Kemajuan ({formData.progress}%)
+                    </label>
+                    <input
+                      type="range"
+                      min="0"
+                      max="100"
+                      step="5"
+                      value={formData.progress}
+                      onChange={(e) => setFormData({ ...formData, progress: parseInt(e.target.value) })}
+                      disabled={checklistLocked}
+                      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer dark:bg-gray-700 disabled:cursor-not-allowed disabled:opacity-60"
+                    />
+                    {checklistLocked && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        Status dan kemajuan dikira daripada senarai semak
+                      </p>
+                    )}
+                  </div>
+                </>
+              )}
 
               <div className="flex space-x-3 pt-4">
                 <button
                   type="button"
-                  onClick={() => {
-                    setShowModal(false);
-                    setEditingTask(null);
-                    setFormData({ title: '', project_id: '', due_date: '', status: 'Not Started', progress: 0 });
-                  }}
+                  onClick={closeModal}
                   className="btn-secondary flex-1"
                 >
                   Batal
@@ -522,6 +1129,59 @@ export default function Tasks() {
           </div>
         </div>
       )}
+
+      {commentsTask && user && (
+        <TaskComments
+          task={commentsTask}
+          currentUserId={user.id}
+          onClose={() => setCommentsTask(null)}
+        />
+      )}
+
+      {attachmentsTask && user && (
+        <AttachmentsModal
+          parent={{ kind: 'task', id: attachmentsTask.id }}
+          title={attachmentsTask.title}
+          currentUserId={user.id}
+          isAdmin={profile?.role === 'admin'}
+          onClose={() => setAttachmentsTask(null)}
+        />
+      )}
+
+      {/* Delete Recurring Task Modal */}
+      {deletingTask && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white dark:bg-gray-800 rounded-xl p-6 w-full max-w-md">
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-2">
+              Padam Tugasan Berulang
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+              "{deletingTask.title}" adalah sebahagian daripada siri. Tugasan yang telah selesai akan dikekalkan.
+            </p>
+
+            <div className="space-y-3">
+              <button
+                onClick={() => deleteRecurring('this')}
+                className="btn-secondary w-full"
+              >
+                Padam tugasan ini sahaja
+              </button>
+              <button
+                onClick={() => deleteRecurring('series')}
+                className="w-full px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors"
+              >
+                Padam semua dalam siri
+              </button>
+              <button
+                onClick={() => setDeletingTask(null)}
+                className="w-full px-4 py-2 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+              >
+                Batal
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,6 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
+import { useDataScope } from '../hooks/useDataScope';
 import { supabase } from '../lib/supabase';
+import {
+  templatesRepo,
+  type TemplateCategory,
+  type TemplateType,
+  type TemplateWithUploader
+} from '../lib/repositories';
 import { 
   Images, 
   Plus, 
@@ -12,26 +19,15 @@ import {
   FileText,
   Image as ImageIcon,
   Upload,
-  AlertCircle,
   CheckCircle
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 
-interface Template {
-  id: string;
-  title: string;
-  category: 'Product' | 'Daily' | 'General';
-  type: 'image' | 'pdf';
-  file_url: string | null;
-  uploaded_by: string | null;
-  uploaded_at: string | null;
-  created_at: string;
-  updated_at: string;
-  user_profiles?: { nama: string };
-}
+type Template = TemplateWithUploader;
 
 export default function Templates() {
   const { user, profile } = useAuth();
+  const scope = useDataScope();
   const [templates, setTemplates] = useState<Template[]>([]);
   const [loading, setLoading] = useState(true);
   const [showModal, setShowModal] = useState(false);
@@ -44,29 +40,23 @@ export default function Templates() {
 
   const [formData, setFormData] = useState({
     title: '',
-    category: 'Product' as const,
-    type: 'image' as const,
+    category: 'Product' as TemplateCategory,
+    type: 'image' as TemplateType,
     file: null as File | null
   });
 
   useEffect(() => {
-    if (user) {
+    if (scope) {
       fetchTemplates();
     }
-  }, [user]);
+  }, [scope]);
 
   const fetchTemplates = async () => {
     try {
-      const { data, error } = await supabase
-        .from('templates')
-        .select(`
-          *,
-          user_profiles (nama)
-        `)
-        .order('created_at', { ascending: false });
+      const { data, error } = await templatesRepo.list();
 
       if (error) throw error;
-      setTemplates(data || []);
+      setTemplates(data);
     } catch (error) {
       console.error('Error fetching templates:', error);
       toast.error('Ralat semasa mengambil data template');
@@ -135,7 +125,7 @@ export default function Templates() {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!user) return;
+    if (!scope) return;
 
     if (!formData.title.trim()) {
       toast.error('Tajuk template tidak boleh kosong');
@@ -172,30 +162,22 @@ export default function Templates() {
       }
 
       if (editingTemplate) {
-        const { error } = await supabase
-          .from('templates')
-          .update({
-            title: formData.title.trim(),
-            category: formData.category,
-            type: formData.type,
-            file_url: fileUrl,
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', editingTemplate.id);
+        const { error } = await templatesRepo.update(editingTemplate.id, {
+          title: formData.title.trim(),
+          category: formData.category,
+          type: formData.type,
+          file_url: fileUrl
+        });
 
         if (error) throw error;
         toast.success('Template berjaya dikemaskini');
       } else {
-        const { error } = await supabase
-          .from('templates')
-          .insert([{
-            title: formData.title.trim(),
-            category: formData.category,
-            type: formData.type,
-            file_url: fileUrl,
-            uploaded_by: user.id,
-            uploaded_at: new Date().toISOString().split('T')[0]
-          }]);
+        const { error } = await templatesRepo.create(scope, {
+          title: formData.title.trim(),
+          category: formData.category,
+          type: formData.type,
+          file_url: fileUrl
+        });
 
         if (error) throw error;
         toast.success('Template berjaya ditambah');
@@ -206,9 +188,9 @@ export default function Templates() {
       setFormData({ title: '', category: 'Product', type: 'image', file: null });
       setUploadProgress(0);
       fetchTemplates();
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error saving template:', error);
-      toast.error(error.message || 'Ralat semasa menyimpan template');
+      toast.error(error instanceof Error && error.message ? error.message : 'Ralat semasa menyimpan template');
     } finally {
       setUploading(false);
       setUploadProgress(0);
@@ -230,10 +212,7 @@ export default function Templates() {
     if (!confirm('Adakah anda pasti ingin memadam template ini?')) return;
 
     try {
-      const { error } = await supabase
-        .from('templates')
-        .delete()
-        .eq('id', id);
+      const { error } = await templatesRepo.remove(id);
 
       if (error) throw error;
       toast.success('Template berjaya dipadam');
@@ -502,7 +481,7 @@ export default function Templates() {
                 </label>
                 <select
                   value={formData.category}
-                  onChange={(e) => setFormData({ ...formData, category: e.target.value as any })}
+                  onChange={(e) => setFormData({ ...formData, category: e.target.value as TemplateCategory })}
                   className="input-field"
                 >
                   <option value="Product">Produk</option>
@@ -517,7 +496,7 @@ export default function Templates() {
                 </label>
                 <select
                   value={formData.type}
-                  onChange={(e) => setFormData({ ...formData, type: e.target.value as any })}
+                  onChange={(e) => setFormData({ ...formData, type: e.target.value as TemplateType })}
                   className="input-field"
                 >
                   <option value="image">Imej</option>
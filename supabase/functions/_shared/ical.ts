@@ -0,0 +1,163 @@
+/**
+ * iCalendar (RFC 5545) output shared by the in-app .ics export and the
+ * calendar-feed edge function, so both produce the same VEVENTs. Kept free of
+ * imports so it runs unchanged in the browser and in Deno.
+ */
+
+export interface ICalEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  // `YYYY-MM-DD`
+  date: string;
+  // `HH:mm` or `HH:mm:ss`; both null for an all-day event
+  startTime: string | null;
+  endTime: string | null;
+}
+
+// Only the columns the feed needs, so callers can pass full rows or a narrow select.
+export interface ICalSources {
+  tasks: { id: string; title: string; due_date: string | null; status: string }[];
+  projects: { id: string; name: string; start_date: string | null; end_date: string | null }[];
+  notes: { id: string; note: string; note_date: string; start_time: string | null; end_time: string | null }[];
+  liveLogs: { id: string; host_name: string; live_date: string; total_hours: number }[];
+}
+
+const PRODUCT_ID = '-//SaffaTeam//Team Scheduler//MS';
+const UID_DOMAIN = 'saffateam';
+
+/** Turns app rows into calendar events; rows without a date are skipped. */
+export function feedEvents(sources: ICalSources): ICalEvent[] {
+  const events: ICalEvent[] = [];
+  const allDay = { startTime: null, endTime: null };
+
+  sources.tasks.forEach(task => {
+    if (!task.due_date) return;
+    events.push({
+      uid: `task-${task.id}`,
+      summary: task.title,
+      description: `Status: ${task.status}`,
+      date: task.due_date,
+      ...allDay
+    });
+  });
+
+  sources.projects.forEach(project => {
+    if (project.start_date) {
+      events.push({ uid: `project-start-${project.id}`, summary: `Mula: ${project.name}`, date: project.start_date, ...allDay });
+    }
+    if (project.end_date) {
+      events.push({ uid: `project-end-${project.id}`, summary: `Tamat: ${project.name}`, date: project.end_date, ...allDay });
+    }
+  });
+
+  sources.notes.forEach(note => {
+    events.push({
+      uid: `note-${note.id}`,
+      summary: note.note,
+      date: note.note_date,
+      startTime: note.start_time,
+      endTime: note.end_time
+    });
+  });
+
+  sources.liveLogs.forEach(log => {
+    events.push({
+      uid: `live-${log.id}`,
+      summary: `Live: ${log.host_name}`,
+      description: `${log.total_hours} jam`,
+      date: log.live_date,
+      ...allDay
+    });
+  });
+
+  return events;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const escapeText = (text: string) =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const basicDate = (date: string) => date.replace(/-/g, '');
+
+const basicTime = (time: string) => `${time.slice(0, 2)}${time.slice(3, 5)}00`;
+
+// All-day DTEND is exclusive, so it is the following day
+const nextDay = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  const next = new Date(Date.UTC(year, month - 1, day + 1));
+  return `${next.getUTCFullYear()}${pad(next.getUTCMonth() + 1)}${pad(next.getUTCDate())}`;
+};
+
+const utcStamp = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T` +
+  `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+const encoder = new TextEncoder();
+
+// Content lines are limited to 75 octets; continuations start with a space
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+/**
+ * Serialises events as a VCALENDAR. Timed events use floating local times,
+ * the same wall-clock times the app stores, so they show at the hour the team
+ * entered them.
+ */
+export function toICalendar(events: ICalEvent[], calendarName: string, now = new Date()): string {
+  const stamp = utcStamp(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`
+  ];
+
+  events.forEach(event => {
+    lines.push('BEGIN:VEVENT', `UID:${event.uid}@${UID_DOMAIN}`, `DTSTAMP:${stamp}`);
+
+    if (event.startTime && event.endTime) {
+      lines.push(
+        `DTSTART:${basicDate(event.date)}T${basicTime(event.startTime)}`,
+        `DTEND:${basicDate(event.date)}T${basicTime(event.endTime)}`
+      );
+    } else {
+      lines.push(`DTSTART;VALUE=DATE:${basicDate(event.date)}`, `DTEND;VALUE=DATE:${nextDay(event.date)}`);
+    }
+
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    lines.push('END:VEVENT');
+  });
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
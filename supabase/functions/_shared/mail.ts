@@ -0,0 +1,162 @@
+/**
+ * Outgoing mail for edge functions. Functions build a `MailMessage` and hand
+ * it to the transport named by MAIL_TRANSPORT. There is no default, so a
+ * deployment that forgot to configure mail fails loudly instead of sending
+ * nowhere:
+ *
+ * - `smtp`: plain, unauthenticated SMTP. Meant for the Inbucket / Mailpit
+ *   server that `supabase start` runs, so mail can be read locally without a
+ *   real provider. Set SMTP_HOST and SMTP_PORT (defaults to 25).
+ * - `resend`: the Resend HTTP API, for production. Set RESEND_API_KEY.
+ *
+ * MAIL_FROM sets the sender for both.
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function base64(value: string): string {
+  const bytes = encoder.encode(value);
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+// Base64 body lines must stay under the 998-character SMTP limit
+const wrap = (value: string) => value.replace(/.{1,76}/g, line => `${line}\r\n`);
+
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${base64(value)}?=`;
+
+function toMime(from: string, message: MailMessage): string {
+  const boundary = `saffateam-${crypto.randomUUID()}`;
+
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrap(base64(message.text)),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrap(base64(message.html)),
+    `--${boundary}--`,
+    ''
+  ].join('\r\n');
+}
+
+// The address inside `Name <address>`, for the SMTP envelope
+const envelopeAddress = (from: string) => from.match(/<([^>]+)>/)?.[1] ?? from;
+
+export function smtpTransport(host: string, port: number, from: string): MailTransport {
+  return {
+    name: 'smtp',
+    async send(message) {
+      const conn = await Deno.connect({ hostname: host, port });
+      const buffer = new Uint8Array(4096);
+      let pending = '';
+
+      // Reads one (possibly multi-line) reply and checks its status code
+      const reply = async (expected: number) => {
+        while (true) {
+          const last = pending.split('\r\n').slice(0, -1).find(line => /^\d{3} /.test(line));
+          if (last) {
+            pending = '';
+            if (!last.startsWith(String(expected))) {
+              throw new Error(`SMTP ${expected} dijangka, diterima: ${last}`);
+            }
+            return;
+          }
+
+          const read = await conn.read(buffer);
+          if (read === null) throw new Error('Sambungan SMTP ditutup');
+          pending += decoder.decode(buffer.subarray(0, read));
+        }
+      };
+
+      const command = async (line: string, expected: number) => {
+        const bytes = encoder.encode(`${line}\r\n`);
+        let written = 0;
+        while (written < bytes.length) {
+          written += await conn.write(bytes.subarray(written));
+        }
+        await reply(expected);
+      };
+
+      try {
+        await reply(220);
+        await command('EHLO saffateam.local', 250);
+        await command(`MAIL FROM:<${envelopeAddress(from)}>`, 250);
+        await command(`RCPT TO:<${message.to}>`, 250);
+        await command('DATA', 354);
+        // A lone "." ends DATA, so leading dots are doubled
+        await command(`${toMime(from, message).replace(/^\./gm, '..')}\r\n.`, 250);
+        await command('QUIT', 221);
+      } finally {
+        conn.close();
+      }
+    }
+  };
+}
+
+export function resendTransport(apiKey: string, from: string): MailTransport {
+  return {
+    name: 'resend',
+    async send(message) {
+      const response = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ from, ...message })
+      });
+
+      if (!response.ok) {
+        throw new Error(`Resend ${response.status}: ${await response.text()}`);
+      }
+    }
+  };
+}
+
+export function transportFromEnv(): MailTransport {
+  const from = Deno.env.get('MAIL_FROM') ?? 'SaffaTeam <no-reply@saffateam.local>';
+  const kind = Deno.env.get('MAIL_TRANSPORT');
+  if (!kind) throw new Error('MAIL_TRANSPORT tidak ditetapkan (smtp atau resend)');
+
+  if (kind === 'resend') {
+    const apiKey = Deno.env.get('RESEND_API_KEY');
+    if (!apiKey) throw new Error('RESEND_API_KEY tidak ditetapkan');
+    return resendTransport(apiKey, from);
+  }
+  if (kind === 'smtp') {
+    const host = Deno.env.get('SMTP_HOST');
+    if (!host) throw new Error('SMTP_HOST tidak ditetapkan');
+    return smtpTransport(host, Number(Deno.env.get('SMTP_PORT') ?? 25), from);
+  }
+
+  throw new Error(`MAIL_TRANSPORT "${kind}" tidak disokong`);
+}
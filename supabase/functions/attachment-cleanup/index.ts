@@ -0,0 +1,66 @@
+/**
+ * Removes the files of deleted attachments: POST /functions/v1/attachment-cleanup,
+ * invoked by the app after deletes. The `attachment_cleanup` queue and the
+ * storage delete run with the service role, so signed-in users never get
+ * direct access to either; they can only ask for the queue to be drained.
+ * Anything left over (a failed call, more than one batch) is picked up by the
+ * next call.
+ */
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+// Attachments share the templates bucket (lucky_bird migration)
+const BUCKET = 'templates';
+// Storage removes at most this many objects per request
+const BATCH_SIZE = 1000;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const { data: queued, error: queueError } = await supabase
+    .from('attachment_cleanup')
+    .select('storage_path')
+    .order('queued_at')
+    .limit(BATCH_SIZE);
+
+  if (queueError) {
+    console.error('Error fetching queued attachment files:', queueError);
+    return json({ error: 'Ralat pelayan' }, 500);
+  }
+
+  const paths = (queued || []).map(row => row.storage_path);
+  if (paths.length === 0) {
+    return json({ removed: 0 });
+  }
+
+  const { error: storageError } = await supabase.storage.from(BUCKET).remove(paths);
+  if (storageError) {
+    console.error('Error removing attachment files:', storageError);
+    return json({ error: 'Ralat memadam fail lampiran' }, 500);
+  }
+
+  const { error: clearError } = await supabase.from('attachment_cleanup').delete().in('storage_path', paths);
+  if (clearError) {
+    console.error('Error clearing attachment cleanup queue:', clearError);
+    return json({ error: 'Ralat pelayan' }, 500);
+  }
+
+  return json({ removed: paths.length });
+});
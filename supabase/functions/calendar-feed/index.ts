@@ -0,0 +1,93 @@
+/**
+ * Subscribable iCalendar feed: GET /functions/v1/calendar-feed?token=<token>.
+ * Calendar apps cannot sign in, so the secret token from `calendar_feeds`
+ * stands in for the user and the queries run with the service role, limited
+ * to that user's rows the same way the app's own scope is.
+ */
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { feedEvents, toICalendar } from '../_shared/ical.ts';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+const text = (body: string, status: number) =>
+  new Response(body, { status, headers: { 'Content-Type': 'text/plain; charset=utf-8' } });
+
+Deno.serve(async (req) => {
+  if (req.method !== 'GET') {
+    return text('Method not allowed', 405);
+  }
+
+  const token = new URL(req.url).searchParams.get('token');
+  if (!token) {
+    return text('Token diperlukan', 400);
+  }
+
+  const { data: feed, error: feedError } = await supabase
+    .from('calendar_feeds')
+    .select('user_id')
+    .eq('token', token)
+    .maybeSingle();
+
+  if (feedError) {
+    console.error('Error looking up calendar feed:', feedError);
+    return text('Ralat pelayan', 500);
+  }
+  if (!feed) {
+    return text('Suapan tidak dijumpai', 404);
+  }
+
+  const userId = feed.user_id;
+
+  // Tasks the user is one of several assignees on are only linked through task_assignees
+  const { data: assigned, error: assignedError } = await supabase
+    .from('task_assignees')
+    .select('task_id')
+    .eq('user_id', userId);
+
+  if (assignedError) {
+    console.error('Error fetching task assignees:', assignedError);
+    return text('Ralat pelayan', 500);
+  }
+
+  const taskIds = (assigned || []).map(row => row.task_id);
+  const taskFilter = taskIds.length > 0
+    ? `user_id.eq.${userId},id.in.(${taskIds.join(',')})`
+    : `user_id.eq.${userId}`;
+
+  const [tasksRes, projectsRes, notesRes, liveRes, profileRes] = await Promise.all([
+    supabase
+      .from('tasks')
+      .select('id, title, due_date, status')
+      .or(taskFilter)
+      .not('due_date', 'is', null),
+    supabase.from('projects').select('id, name, start_date, end_date').eq('user_id', userId),
+    supabase.from('calendar_notes').select('id, note, note_date, start_time, end_time').eq('user_id', userId),
+    supabase.from('live_manual_log').select('id, host_name, live_date, total_hours').eq('user_id', userId),
+    supabase.from('user_profiles').select('nama').eq('id', userId).maybeSingle()
+  ]);
+
+  const failed = [tasksRes, projectsRes, notesRes, liveRes, profileRes].find(res => res.error);
+  if (failed?.error) {
+    console.error('Error fetching calendar feed data:', failed.error);
+    return text('Ralat pelayan', 500);
+  }
+
+  const events = feedEvents({
+    tasks: tasksRes.data || [],
+    projects: projectsRes.data || [],
+    notes: notesRes.data || [],
+    liveLogs: liveRes.data || []
+  });
+  const name = profileRes.data?.nama ? `SaffaTeam - ${profileRes.data.nama}` : 'SaffaTeam';
+
+  return new Response(toICalendar(events, name), {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="saffateam.ics"',
+      'Cache-Control': 'no-store'
+    }
+  });
+});
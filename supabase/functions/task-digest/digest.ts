@@ -0,0 +1,102 @@
+/**
+ * Builds the text and HTML of one user's daily digest. Kept free of Deno APIs
+ * so the layout can be checked without sending anything (`?dry_run=1`).
+ */
+import type { MailMessage } from '../_shared/mail.ts';
+
+export interface DigestTask {
+  id: string;
+  title: string;
+  due_date: string;
+  status: string;
+}
+
+export interface Digest {
+  name: string;
+  // `YYYY-MM-DD` in the team's time zone
+  today: string;
+  yesterday: string;
+  overdue: DigestTask[];
+  upcoming: DigestTask[];
+  content: number;
+  liveHours: number;
+}
+
+// Longer lists end with "+n lagi" and a link to the task page
+const TASKS_SHOWN = 10;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('ms-MY', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    timeZone: 'UTC'
+  });
+
+const formatHours = (hours: number) => `${Math.round(hours * 10) / 10} jam`;
+
+/** False when there is nothing worth an email: no tasks due and no activity. */
+export function hasContent(digest: Digest): boolean {
+  return digest.overdue.length > 0 || digest.upcoming.length > 0 || digest.content > 0 || digest.liveHours > 0;
+}
+
+export function toMessage(digest: Digest, to: string, appUrl: string): MailMessage {
+  const taskLink = (task: DigestTask) => `${appUrl}/tugasan?edit=${task.id}`;
+  const sections = [
+    { heading: 'Tugasan lewat', tasks: digest.overdue, empty: 'Tiada tugasan lewat.' },
+    { heading: 'Perlu disiapkan dalam 3 hari', tasks: digest.upcoming, empty: 'Tiada tugasan dalam 3 hari akan datang.' }
+  ];
+  const totals = `Content: ${digest.content} · Live: ${formatHours(digest.liveHours)}`;
+
+  const text = [
+    `Hai ${digest.name},`,
+    '',
+    ...sections.flatMap(section => [
+      `${section.heading} (${section.tasks.length})`,
+      ...(section.tasks.length > 0
+        ? section.tasks.slice(0, TASKS_SHOWN).map(task => `- ${task.title} (${formatDate(task.due_date)}) ${taskLink(task)}`)
+        : [section.empty]),
+      ...(section.tasks.length > TASKS_SHOWN ? [`+${section.tasks.length - TASKS_SHOWN} lagi`] : []),
+      ''
+    ]),
+    `Semalam (${formatDate(digest.yesterday)})`,
+    totals,
+    '',
+    `Buka SaffaTeam: ${appUrl}/dashboard`,
+    `Berhenti menerima ringkasan ini di ${appUrl}/tetapan`
+  ].join('\n');
+
+  const html = `
+<div style="font-family: Arial, sans-serif; color: #111827; max-width: 560px;">
+  <p>Hai ${escapeHtml(digest.name)},</p>
+  ${sections
+    .map(section => `
+  <h3 style="margin: 20px 0 8px;">${section.heading} (${section.tasks.length})</h3>
+  ${section.tasks.length > 0
+    ? `<ul style="padding-left: 20px; margin: 0;">${section.tasks
+        .slice(0, TASKS_SHOWN)
+        .map(task => `<li><a href="${escapeHtml(taskLink(task))}">${escapeHtml(task.title)}</a> <span style="color: #6b7280;">${formatDate(task.due_date)}</span></li>`)
+        .join('')}</ul>${section.tasks.length > TASKS_SHOWN
+        ? `<p style="color: #6b7280;">+${section.tasks.length - TASKS_SHOWN} lagi</p>`
+        : ''}`
+    : `<p style="color: #6b7280;">${section.empty}</p>`}`)
+    .join('')}
+  <h3 style="margin: 20px 0 8px;">Semalam (${formatDate(digest.yesterday)})</h3>
+  <p>${escapeHtml(totals)}</p>
+  <p style="margin-top: 24px;"><a href="${escapeHtml(appUrl)}/dashboard">Buka SaffaTeam</a></p>
+  <p style="color: #9ca3af; font-size: 12px;">
+    Anda menerima email ini kerana ringkasan harian diaktifkan.
+    <a href="${escapeHtml(appUrl)}/tetapan">Berhenti menerima</a>
+  </p>
+</div>`;
+
+  return {
+    to,
+    subject: `Ringkasan harian ${formatDate(digest.today)}: ${digest.overdue.length} lewat, ${digest.upcoming.length} akan datang`,
+    text,
+    html
+  };
+}
@@ -0,0 +1,184 @@
+/**
+ * Daily email digest: POST /functions/v1/task-digest, called by pg_cron (see
+ * the morning_brief migration). Every user with `email_digest` on gets their
+ * overdue tasks (up to 30 days late), tasks due in the next 3 days and
+ * yesterday's content and live totals. Users with nothing to report are
+ * skipped.
+ *
+ * The caller must send `Authorization: Bearer <DIGEST_CRON_SECRET>`. Add
+ * `?dry_run=1` to get the messages back as JSON instead of sending them.
+ * Sending needs MAIL_TRANSPORT set (see `_shared/mail.ts`); without it the
+ * function answers 500 rather than dropping the mail.
+ *
+ * Local testing: `supabase start`, then serve the function with
+ * MAIL_TRANSPORT=smtp and SMTP_HOST/SMTP_PORT pointing at the local Inbucket
+ * (Mailpit) SMTP port; the mail shows up in its web inbox.
+ */
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { transportFromEnv, type MailMessage } from '../_shared/mail.ts';
+import { hasContent, toMessage, type DigestTask } from './digest.ts';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+const UPCOMING_DAYS = 3;
+// Older overdue tasks are left out, as in sync_due_notifications
+const OVERDUE_DAYS = 30;
+// PostgREST caps every response (1000 rows by default)
+const PAGE_SIZE = 1000;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+// `YYYY-MM-DD` for today in the team's time zone, not the server's (UTC)
+const todayIn = (timeZone: string) => new Intl.DateTimeFormat('en-CA', { timeZone }).format(new Date());
+
+const addDays = (date: string, days: number) => {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+};
+
+async function emailsByUser(): Promise<Map<string, string>> {
+  const emails = new Map<string, string>();
+  const perPage = 1000;
+
+  for (let page = 1; ; page++) {
+    const { data, error } = await supabase.auth.admin.listUsers({ page, perPage });
+    if (error) throw error;
+
+    data.users.forEach(user => {
+      if (user.email) emails.set(user.id, user.email);
+    });
+    if (data.users.length < perPage) return emails;
+  }
+}
+
+async function fetchAll<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+const sumFor = <T extends { user_id: string | null }>(rows: T[], userId: string, valueOf: (row: T) => number) =>
+  rows.filter(row => row.user_id === userId).reduce((sum, row) => sum + Number(valueOf(row)), 0);
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const secret = Deno.env.get('DIGEST_CRON_SECRET');
+  if (!secret || req.headers.get('Authorization') !== `Bearer ${secret}`) {
+    return json({ error: 'Tidak dibenarkan' }, 401);
+  }
+
+  const dryRun = new URL(req.url).searchParams.get('dry_run') === '1';
+  const appUrl = (Deno.env.get('APP_URL') ?? 'http://localhost:5173').replace(/\/$/, '');
+  const today = todayIn(Deno.env.get('DIGEST_TIME_ZONE') ?? 'Asia/Kuala_Lumpur');
+  const yesterday = addDays(today, -1);
+
+  const fetched = await Promise.all([
+    fetchAll((from, to) =>
+      supabase.from('user_profiles').select('id, nama').eq('email_digest', true).order('id').range(from, to)
+    ),
+    fetchAll((from, to) =>
+      supabase
+        .from('tasks')
+        .select('id, title, due_date, status, user_id, task_assignees (user_id)')
+        .neq('status', 'Completed')
+        .gte('due_date', addDays(today, -OVERDUE_DAYS))
+        .lte('due_date', addDays(today, UPCOMING_DAYS))
+        .order('due_date')
+        .order('id')
+        .range(from, to)
+    ),
+    fetchAll((from, to) =>
+      supabase.from('content_log').select('user_id, content_count').eq('log_date', yesterday).order('id').range(from, to)
+    ),
+    fetchAll((from, to) =>
+      supabase.from('live_manual_log').select('user_id, total_hours').eq('live_date', yesterday).order('id').range(from, to)
+    )
+  ]).catch(error => {
+    console.error('Error fetching digest data:', error);
+    return null;
+  });
+  if (!fetched) {
+    return json({ error: 'Ralat pelayan' }, 500);
+  }
+
+  const [profiles, tasks, content, live] = fetched;
+
+  let emails: Map<string, string>;
+  try {
+    emails = await emailsByUser();
+  } catch (error) {
+    console.error('Error listing users:', error);
+    return json({ error: 'Ralat pelayan' }, 500);
+  }
+
+  const messages: MailMessage[] = [];
+  profiles.forEach(profile => {
+    const email = emails.get(profile.id);
+    if (!email) return;
+
+    // Tasks count for their creator and every assignee, as in the task list
+    const userTasks: DigestTask[] = tasks.filter(task =>
+      task.user_id === profile.id || task.task_assignees.some(assignee => assignee.user_id === profile.id)
+    );
+
+    const digest = {
+      name: profile.nama,
+      today,
+      yesterday,
+      overdue: userTasks.filter(task => task.due_date < today),
+      upcoming: userTasks.filter(task => task.due_date >= today),
+      content: sumFor(content, profile.id, row => row.content_count),
+      liveHours: sumFor(live, profile.id, row => row.total_hours)
+    };
+
+    if (hasContent(digest)) {
+      messages.push(toMessage(digest, email, appUrl));
+    }
+  });
+
+  if (dryRun) {
+    return json({ today, messages });
+  }
+
+  let transport;
+  try {
+    transport = transportFromEnv();
+  } catch (error) {
+    console.error('Error configuring mail transport:', error);
+    return json({ error: 'Penghantar email tidak dikonfigurasi' }, 500);
+  }
+
+  // One at a time so a slow SMTP server is not hit with every user at once
+  const failures: string[] = [];
+  for (const message of messages) {
+    try {
+      await transport.send(message);
+    } catch (error) {
+      console.error(`Error sending digest to ${message.to}:`, error);
+      failures.push(message.to);
+    }
+  }
+
+  return json({
+    today,
+    transport: transport.name,
+    sent: messages.length - failures.length,
+    failed: failures.length
+  }, failures.length > 0 && failures.length === messages.length ? 502 : 200);
+});
@@ -0,0 +1,93 @@
+/*
+  # Task dependencies
+
+  1. New Tables
+    - `task_dependencies` - "task_id cannot start until depends_on is Completed"
+      - `id` (uuid, primary key)
+      - `task_id` (uuid, the dependent task)
+      - `depends_on` (uuid, the predecessor task)
+      - `created_at` (timestamp)
+
+  2. Integrity
+    - A task cannot depend on itself, and each pair is stored once
+    - Both tasks must belong to the same project (trigger)
+    - Dependencies may not form a cycle (trigger)
+
+  3. Security
+    - Enable RLS
+    - Anyone who can access the dependent task can read and manage its
+      dependencies; admins can access all of them
+*/
+
+CREATE TABLE IF NOT EXISTS task_dependencies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  depends_on uuid NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (task_id, depends_on),
+  CHECK (task_id <> depends_on)
+);
+
+CREATE OR REPLACE FUNCTION check_task_dependency()
+RETURNS trigger AS $$
+DECLARE
+  task_project uuid;
+  predecessor_project uuid;
+BEGIN
+  SELECT project_id INTO task_project FROM tasks WHERE id = NEW.task_id;
+  SELECT project_id INTO predecessor_project FROM tasks WHERE id = NEW.depends_on;
+
+  IF task_project IS NULL OR task_project IS DISTINCT FROM predecessor_project THEN
+    RAISE EXCEPTION 'Tasks must belong to the same project';
+  END IF;
+
+  -- Walk forward from the new task; reaching the predecessor means a cycle
+  IF EXISTS (
+    WITH RECURSIVE downstream(id) AS (
+      SELECT task_id FROM task_dependencies WHERE depends_on = NEW.task_id
+      UNION
+      SELECT td.task_id FROM task_dependencies td
+      JOIN downstream d ON td.depends_on = d.id
+    )
+    SELECT 1 FROM downstream WHERE id = NEW.depends_on
+  ) THEN
+    RAISE EXCEPTION 'Task dependency would create a cycle';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS task_dependencies_check ON task_dependencies;
+CREATE TRIGGER task_dependencies_check
+  BEFORE INSERT OR UPDATE ON task_dependencies
+  FOR EACH ROW EXECUTE FUNCTION check_task_dependency();
+
+-- Enable RLS
+ALTER TABLE task_dependencies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage dependencies of own tasks"
+  ON task_dependencies FOR ALL TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM tasks
+      WHERE tasks.id = task_dependencies.task_id
+      AND (auth.uid() = tasks.user_id OR auth.uid() = tasks.assigned_to)
+    ) OR
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin')
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM tasks
+      WHERE tasks.id = task_dependencies.task_id
+      AND (auth.uid() = tasks.user_id OR auth.uid() = tasks.assigned_to)
+    ) OR
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+-- Realtime delivery to the task board
+ALTER PUBLICATION supabase_realtime ADD TABLE task_dependencies;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_task_id ON task_dependencies(task_id);
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_depends_on ON task_dependencies(depends_on);
@@ -0,0 +1,99 @@
+/*
+  # Task checklists
+
+  1. New Tables
+    - `task_checklist_items`
+      - `id` (uuid, primary key)
+      - `task_id` (uuid, references tasks)
+      - `title` (text)
+      - `is_done` (boolean)
+      - `position` (integer, display order)
+      - `created_at` (timestamp)
+
+  2. Automation
+    - When a task has checklist items, its `progress` is the percentage of
+      items done and its `status` follows (Not Started / Ongoing / Completed)
+    - Recomputed by trigger whenever items are added, ticked or removed
+
+  3. Security
+    - Enable RLS
+    - Same access as the parent task: its creator, its assignee and admins
+*/
+
+CREATE TABLE IF NOT EXISTS task_checklist_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  is_done boolean DEFAULT false NOT NULL,
+  position integer DEFAULT 0 NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE OR REPLACE FUNCTION sync_task_progress_from_checklist()
+RETURNS trigger AS $$
+DECLARE
+  target_task uuid;
+  total_items integer;
+  done_items integer;
+  new_progress integer;
+BEGIN
+  target_task := COALESCE(NEW.task_id, OLD.task_id);
+
+  SELECT count(*), count(*) FILTER (WHERE is_done)
+  INTO total_items, done_items
+  FROM task_checklist_items
+  WHERE task_id = target_task;
+
+  -- Without a checklist the task keeps its manually set progress
+  IF total_items = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  new_progress := round(done_items * 100.0 / total_items);
+
+  UPDATE tasks
+  SET progress = new_progress,
+      status = CASE
+        WHEN new_progress >= 100 THEN 'Completed'
+        WHEN new_progress > 0 THEN 'Ongoing'
+        ELSE 'Not Started'
+      END,
+      updated_at = now()
+  WHERE id = target_task;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS task_checklist_items_sync_progress ON task_checklist_items;
+CREATE TRIGGER task_checklist_items_sync_progress
+  AFTER INSERT OR UPDATE OR DELETE ON task_checklist_items
+  FOR EACH ROW EXECUTE FUNCTION sync_task_progress_from_checklist();
+
+-- Enable RLS
+ALTER TABLE task_checklist_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage checklist items of own tasks"
+  ON task_checklist_items FOR ALL TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM tasks
+      WHERE tasks.id = task_checklist_items.task_id
+      AND (auth.uid() = tasks.user_id OR auth.uid() = tasks.assigned_to)
+    ) OR
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin')
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM tasks
+      WHERE tasks.id = task_checklist_items.task_id
+      AND (auth.uid() = tasks.user_id OR auth.uid() = tasks.assigned_to)
+    ) OR
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+-- Realtime delivery to the task board
+ALTER PUBLICATION supabase_realtime ADD TABLE task_checklist_items;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_task_checklist_items_task_id ON task_checklist_items(task_id);
@@ -0,0 +1,78 @@
+/*
+  # Recurring tasks
+
+  1. New Tables
+    - `task_series` - an RRULE-style schedule plus the template its tasks copy
+      - `id` (uuid, primary key)
+      - `title`, `project_id`, `assigned_to` (template fields)
+      - `frequency` (daily, weekly, monthly)
+      - `interval` (every N days/weeks/months)
+      - `weekdays` (0 = Sunday .. 6 = Saturday, weekly only)
+      - `month_day` (1-31, monthly only; short months use their last day)
+      - `start_date` (first occurrence)
+      - `until_date` / `occurrence_count` (optional end of the series)
+      - `exdates` (occurrences removed with "this task only")
+      - `generated_until` (last date occurrences were materialised to)
+      - `user_id`, `created_at`, `updated_at`
+
+  2. Changes
+    - `tasks.series_id` links a task to the series it was generated from;
+      completed tasks are kept as plain tasks if the series is deleted
+    - `tasks.occurrence_date` is the scheduled date of that occurrence, so the
+      generator never creates the same occurrence twice
+    - `tasks.is_exception` marks occurrences edited on their own, which
+      series-wide edits leave alone
+
+  3. Security
+    - Enable RLS
+    - Same access as tasks: the creator, the assignee and admins
+*/
+
+CREATE TABLE IF NOT EXISTS task_series (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  title text NOT NULL,
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE,
+  assigned_to uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  frequency text NOT NULL CHECK (frequency IN ('daily', 'weekly', 'monthly')),
+  interval integer DEFAULT 1 NOT NULL CHECK (interval >= 1),
+  weekdays integer[] DEFAULT '{}' NOT NULL,
+  month_day integer CHECK (month_day BETWEEN 1 AND 31),
+  start_date date NOT NULL,
+  until_date date,
+  occurrence_count integer CHECK (occurrence_count >= 1),
+  exdates date[] DEFAULT '{}' NOT NULL,
+  generated_until date,
+  user_id uuid REFERENCES user_profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS series_id uuid REFERENCES task_series(id) ON DELETE SET NULL;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS occurrence_date date;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS is_exception boolean DEFAULT false NOT NULL;
+
+-- One task per occurrence, even when two clients run the generator at once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tasks_series_occurrence ON tasks(series_id, occurrence_date);
+
+-- Enable RLS
+ALTER TABLE task_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own task series"
+  ON task_series FOR ALL TO authenticated
+  USING (
+    auth.uid() = user_id OR
+    auth.uid() = assigned_to OR
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin')
+  )
+  WITH CHECK (
+    auth.uid() = user_id OR
+    auth.uid() = assigned_to OR
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+-- Realtime delivery to the task board
+ALTER PUBLICATION supabase_realtime ADD TABLE task_series;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_task_series_user_id ON task_series(user_id);
+CREATE INDEX IF NOT EXISTS idx_task_series_assigned_to ON task_series(assigned_to);
@@ -0,0 +1,20 @@
+/*
+  # Timed calendar notes
+
+  1. Changes
+    - `calendar_notes.start_time` / `end_time` (time, optional) so notes can
+      be scheduled into hourly slots in the week and day views
+    - Notes without times stay all-day notes
+
+  2. Integrity
+    - Both times are set together and the end is after the start
+*/
+
+ALTER TABLE calendar_notes ADD COLUMN IF NOT EXISTS start_time time;
+ALTER TABLE calendar_notes ADD COLUMN IF NOT EXISTS end_time time;
+
+ALTER TABLE calendar_notes DROP CONSTRAINT IF EXISTS calendar_notes_time_range;
+ALTER TABLE calendar_notes ADD CONSTRAINT calendar_notes_time_range CHECK (
+  (start_time IS NULL AND end_time IS NULL) OR
+  (start_time IS NOT NULL AND end_time IS NOT NULL AND end_time > start_time)
+);
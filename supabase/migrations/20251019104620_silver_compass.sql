@@ -0,0 +1,29 @@
+/*
+  # Calendar subscription feeds
+
+  1. New Tables
+    - `calendar_feeds` - one secret feed token per user
+      - `user_id` (uuid, primary key)
+      - `token` (text, unique) - goes in the subscription URL instead of a
+        login, since calendar apps cannot sign in
+      - `created_at`
+
+  2. Security
+    - Enable RLS
+    - Users can only see and reset their own token; the calendar-feed edge
+      function looks tokens up with the service role
+*/
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  user_id uuid PRIMARY KEY REFERENCES user_profiles(id) ON DELETE CASCADE,
+  token text UNIQUE NOT NULL DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own calendar feed"
+  ON calendar_feeds FOR ALL TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
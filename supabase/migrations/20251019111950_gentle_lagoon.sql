@@ -0,0 +1,19 @@
+/*
+  # iCalendar import
+
+  1. Changes
+    - `calendar_notes.ical_uid` / `tasks.ical_uid` (text, optional) - the UID
+      of the VEVENT a row was imported from; recurring events get one UID per
+      occurrence
+
+  2. Integrity
+    - Unique per user, so importing the same file again updates the rows it
+      created instead of duplicating them
+*/
+
+ALTER TABLE calendar_notes ADD COLUMN IF NOT EXISTS ical_uid text;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS ical_uid text;
+
+-- NULLs never conflict, so rows created in the app are unaffected
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_notes_ical_uid ON calendar_notes(user_id, ical_uid);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tasks_ical_uid ON tasks(user_id, ical_uid);
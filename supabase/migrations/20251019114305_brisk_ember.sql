@@ -0,0 +1,54 @@
+/*
+  # Live session timer
+
+  1. Changes
+    - `live_manual_log.start_time` / `end_time` (timestamptz) - set by the
+      start/stop timer; a row with a start and no end is a session still
+      running. Rows typed in by hand keep both null.
+    - `live_manual_log.paused_at` (timestamptz) - set while the timer is paused
+    - `live_manual_log.paused_seconds` (integer) - pauses already finished
+    - The timer writes to `live_manual_log` rather than the old `live_log`
+      table, so timed sessions show up in the same lists, charts and totals
+
+  2. Automation
+    - `total_hours` is computed from the start, end and pauses whenever a
+      timed session is stopped or its times are edited
+
+  3. Integrity
+    - A session ends after it starts
+    - At most one running session per user
+*/
+
+ALTER TABLE live_manual_log ADD COLUMN IF NOT EXISTS start_time timestamptz;
+ALTER TABLE live_manual_log ADD COLUMN IF NOT EXISTS end_time timestamptz;
+ALTER TABLE live_manual_log ADD COLUMN IF NOT EXISTS paused_at timestamptz;
+ALTER TABLE live_manual_log ADD COLUMN IF NOT EXISTS paused_seconds integer DEFAULT 0 NOT NULL CHECK (paused_seconds >= 0);
+
+ALTER TABLE live_manual_log DROP CONSTRAINT IF EXISTS live_manual_log_time_range;
+ALTER TABLE live_manual_log ADD CONSTRAINT live_manual_log_time_range CHECK (
+  end_time IS NULL OR (start_time IS NOT NULL AND end_time > start_time)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_live_manual_log_running
+  ON live_manual_log(user_id)
+  WHERE start_time IS NOT NULL AND end_time IS NULL;
+
+CREATE OR REPLACE FUNCTION compute_live_session_hours()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.start_time IS NOT NULL AND NEW.end_time IS NOT NULL THEN
+    NEW.total_hours := round(
+      GREATEST(extract(epoch FROM NEW.end_time - NEW.start_time) - NEW.paused_seconds, 0) / 3600.0,
+      2
+    );
+    NEW.paused_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS live_manual_log_compute_hours ON live_manual_log;
+CREATE TRIGGER live_manual_log_compute_hours
+  BEFORE INSERT OR UPDATE ON live_manual_log
+  FOR EACH ROW EXECUTE FUNCTION compute_live_session_hours();
@@ -0,0 +1,114 @@
+/*
+  # Host roster
+
+  1. New Tables
+    - `hosts` - the team's live hosts
+      - `id` (uuid, primary key)
+      - `name` (text) - unique ignoring case and extra spaces
+      - `user_profile_id` (uuid, optional) - the host's own account, if any
+      - `is_active` (boolean) - inactive hosts stay on old logs but are not
+        offered in the picker
+      - `hourly_rate` (numeric, RM per hour)
+      - `created_by`, `created_at`, `updated_at`
+
+  2. Changes
+    - `live_manual_log.host_id` links each log to a roster entry.
+      `host_name` is kept as the host's current name so exports and the
+      calendar keep working, and follows renames.
+
+  3. Data
+    - Existing free-text names are merged into one host per name, ignoring
+      case and extra spaces ("Aisyah" and "aisyah "), named after the
+      spelling used most often
+
+  4. Security
+    - Enable RLS
+    - Everyone signed in can read the roster and add hosts
+    - The host's creator and admins can edit or remove it
+*/
+
+CREATE TABLE IF NOT EXISTS hosts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  user_profile_id uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  is_active boolean DEFAULT true NOT NULL,
+  hourly_rate numeric DEFAULT 0 NOT NULL CHECK (hourly_rate >= 0),
+  created_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_hosts_name_key
+  ON hosts (lower(regexp_replace(btrim(name), '\s+', ' ', 'g')));
+
+ALTER TABLE live_manual_log ADD COLUMN IF NOT EXISTS host_id uuid REFERENCES hosts(id) ON DELETE SET NULL;
+
+-- Merge existing free-text names into the roster
+INSERT INTO hosts (name)
+SELECT DISTINCT ON (name_key) spelling
+FROM (
+  SELECT
+    lower(regexp_replace(btrim(host_name), '\s+', ' ', 'g')) AS name_key,
+    regexp_replace(btrim(host_name), '\s+', ' ', 'g') AS spelling,
+    count(*) AS uses
+  FROM live_manual_log
+  WHERE btrim(host_name) <> ''
+  GROUP BY 1, 2
+) spellings
+ORDER BY name_key, uses DESC, spelling
+ON CONFLICT DO NOTHING;
+
+UPDATE live_manual_log
+SET host_id = hosts.id,
+    host_name = hosts.name
+FROM hosts
+WHERE live_manual_log.host_id IS NULL
+  AND lower(regexp_replace(btrim(live_manual_log.host_name), '\s+', ' ', 'g'))
+    = lower(regexp_replace(btrim(hosts.name), '\s+', ' ', 'g'));
+
+CREATE OR REPLACE FUNCTION sync_live_log_host_name()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE live_manual_log SET host_name = NEW.name WHERE host_id = NEW.id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS hosts_sync_log_names ON hosts;
+CREATE TRIGGER hosts_sync_log_names
+  AFTER UPDATE OF name ON hosts
+  FOR EACH ROW
+  WHEN (OLD.name IS DISTINCT FROM NEW.name)
+  EXECUTE FUNCTION sync_live_log_host_name();
+
+-- Enable RLS
+ALTER TABLE hosts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read hosts"
+  ON hosts FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can add hosts"
+  ON hosts FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Creators and admins can update hosts"
+  ON hosts FOR UPDATE TO authenticated
+  USING (
+    auth.uid() = created_by OR
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE POLICY "Creators and admins can delete hosts"
+  ON hosts FOR DELETE TO authenticated
+  USING (
+    auth.uid() = created_by OR
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+-- Realtime delivery to the host roster
+ALTER PUBLICATION supabase_realtime ADD TABLE hosts;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_live_manual_log_host_id ON live_manual_log(host_id);
+CREATE INDEX IF NOT EXISTS idx_hosts_user_profile_id ON hosts(user_profile_id);
@@ -0,0 +1,79 @@
+/*
+  # Live shift scheduling
+
+  1. New Tables
+    - `live_shifts` - planned live sessions
+      - `id` (uuid, primary key)
+      - `host_id` (uuid, references hosts)
+      - `shift_date` (date)
+      - `start_time` / `end_time` (time); an end time before the start time
+        is on the next day, for sessions that run past midnight
+      - `platform` (text, e.g. TikTok, Shopee)
+      - `notes` (text, optional)
+      - `created_by`, `created_at`, `updated_at`
+
+  2. Integrity
+    - A host cannot have two shifts that overlap in time, including an
+      overnight shift and the next day's (exclusion constraint, so
+      concurrent edits cannot double-book either)
+
+  3. Security
+    - Enable RLS
+    - Everyone signed in can read the roster
+    - The shift's creator and admins can change it
+*/
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+CREATE TABLE IF NOT EXISTS live_shifts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  host_id uuid NOT NULL REFERENCES hosts(id) ON DELETE CASCADE,
+  shift_date date NOT NULL,
+  start_time time NOT NULL,
+  end_time time NOT NULL,
+  platform text NOT NULL,
+  notes text,
+  created_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT live_shifts_time_range CHECK (end_time <> start_time),
+  CONSTRAINT live_shifts_no_overlap EXCLUDE USING gist (
+    host_id WITH =,
+    tsrange(
+      shift_date + start_time,
+      (shift_date + CASE WHEN end_time < start_time THEN 1 ELSE 0 END) + end_time
+    ) WITH &&
+  )
+);
+
+-- Enable RLS
+ALTER TABLE live_shifts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read live shifts"
+  ON live_shifts FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can add live shifts"
+  ON live_shifts FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Creators and admins can update live shifts"
+  ON live_shifts FOR UPDATE TO authenticated
+  USING (
+    auth.uid() = created_by OR
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE POLICY "Creators and admins can delete live shifts"
+  ON live_shifts FOR DELETE TO authenticated
+  USING (
+    auth.uid() = created_by OR
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+-- Realtime delivery to the shift roster
+ALTER PUBLICATION supabase_realtime ADD TABLE live_shifts;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_live_shifts_date ON live_shifts(shift_date);
+CREATE INDEX IF NOT EXISTS idx_live_shifts_host_id ON live_shifts(host_id);
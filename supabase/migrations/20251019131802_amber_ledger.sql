@@ -0,0 +1,174 @@
+/*
+  # Host payroll
+
+  1. New Tables
+    - `pay_periods` - date ranges hosts are paid for
+      - `start_date` / `end_date` (date, inclusive, periods cannot overlap)
+      - `status` ('open' or 'locked')
+      - `locked_at`, `locked_by` - who approved the period
+    - `payroll_bonus_tiers` - flat bonus once a host reaches `min_hours` in a
+      period; the highest tier reached applies
+    - `payroll_lines` - per-host figures frozen when a period is locked, so
+      later rate or log changes do not alter approved pay
+
+  2. Changes
+    - Live logs dated inside a locked period can no longer be added, edited
+      or deleted; renaming or deleting their host still works
+
+  3. New Functions
+    - `lock_pay_period(p_period_id, p_lines)` - writes the frozen lines and
+      locks the period in one transaction
+    - `unlock_pay_period(p_period_id)` - reopens the period and drops its lines
+
+  4. Security
+    - Enable RLS; payroll is admin-only
+    - The functions above run as the caller, so the same policies apply
+*/
+
+CREATE TABLE IF NOT EXISTS pay_periods (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'locked')),
+  locked_at timestamptz,
+  locked_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT pay_periods_date_range CHECK (end_date >= start_date),
+  CONSTRAINT pay_periods_no_overlap EXCLUDE USING gist (
+    daterange(start_date, end_date, '[]') WITH &&
+  )
+);
+
+CREATE TABLE IF NOT EXISTS payroll_bonus_tiers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  min_hours numeric(6,2) NOT NULL UNIQUE CHECK (min_hours > 0),
+  bonus numeric(10,2) NOT NULL CHECK (bonus >= 0),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS payroll_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  period_id uuid NOT NULL REFERENCES pay_periods(id) ON DELETE CASCADE,
+  host_id uuid REFERENCES hosts(id) ON DELETE SET NULL,
+  host_name text NOT NULL,
+  sessions integer NOT NULL DEFAULT 0,
+  total_hours numeric(8,2) NOT NULL DEFAULT 0,
+  hourly_rate numeric(10,2) NOT NULL DEFAULT 0,
+  base_pay numeric(10,2) NOT NULL DEFAULT 0,
+  bonus numeric(10,2) NOT NULL DEFAULT 0,
+  total_pay numeric(10,2) NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Reject changes to live logs that fall inside a locked period. Only the
+-- columns pay is worked out from count: host name syncs still go through,
+-- and so does a deleted host's id being cleared (the lines keep the name).
+CREATE OR REPLACE FUNCTION check_live_log_period_open()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND (OLD.live_date, OLD.start_time, OLD.end_time, OLD.total_hours, OLD.user_id)
+      IS NOT DISTINCT FROM (NEW.live_date, NEW.start_time, NEW.end_time, NEW.total_hours, NEW.user_id)
+    AND (
+      OLD.host_id IS NOT DISTINCT FROM NEW.host_id OR
+      (NEW.host_id IS NULL AND NOT EXISTS (SELECT 1 FROM hosts WHERE id = OLD.host_id))
+    )
+  THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP <> 'INSERT' AND EXISTS (
+    SELECT 1 FROM pay_periods
+    WHERE status = 'locked' AND OLD.live_date BETWEEN start_date AND end_date
+  ) THEN
+    RAISE EXCEPTION 'Pay period for % is locked', OLD.live_date;
+  END IF;
+
+  IF TG_OP <> 'DELETE' AND EXISTS (
+    SELECT 1 FROM pay_periods
+    WHERE status = 'locked' AND NEW.live_date BETWEEN start_date AND end_date
+  ) THEN
+    RAISE EXCEPTION 'Pay period for % is locked', NEW.live_date;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS live_manual_log_period_open ON live_manual_log;
+CREATE TRIGGER live_manual_log_period_open
+  BEFORE INSERT OR UPDATE OR DELETE ON live_manual_log
+  FOR EACH ROW EXECUTE FUNCTION check_live_log_period_open();
+
+-- Lines left by an earlier failed attempt are replaced, so a retry cannot
+-- freeze them twice
+CREATE OR REPLACE FUNCTION lock_pay_period(p_period_id uuid, p_lines jsonb)
+RETURNS void AS $$
+BEGIN
+  DELETE FROM payroll_lines WHERE period_id = p_period_id;
+
+  INSERT INTO payroll_lines (
+    period_id, host_id, host_name, sessions, total_hours, hourly_rate, base_pay, bonus, total_pay
+  )
+  SELECT
+    p_period_id, line.host_id, line.host_name, line.sessions, line.total_hours,
+    line.hourly_rate, line.base_pay, line.bonus, line.total_pay
+  FROM jsonb_to_recordset(p_lines) AS line(
+    host_id uuid,
+    host_name text,
+    sessions integer,
+    total_hours numeric,
+    hourly_rate numeric,
+    base_pay numeric,
+    bonus numeric,
+    total_pay numeric
+  );
+
+  UPDATE pay_periods
+  SET status = 'locked', locked_at = now(), locked_by = auth.uid(), updated_at = now()
+  WHERE id = p_period_id AND status = 'open';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pay period % is not open', p_period_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION unlock_pay_period(p_period_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE pay_periods
+  SET status = 'open', locked_at = NULL, locked_by = NULL, updated_at = now()
+  WHERE id = p_period_id;
+
+  DELETE FROM payroll_lines WHERE period_id = p_period_id;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION lock_pay_period(uuid, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION unlock_pay_period(uuid) TO authenticated;
+
+-- Enable RLS
+ALTER TABLE pay_periods ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payroll_bonus_tiers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payroll_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage pay periods"
+  ON pay_periods FOR ALL TO authenticated
+  USING (EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin'));
+
+CREATE POLICY "Admins can manage bonus tiers"
+  ON payroll_bonus_tiers FOR ALL TO authenticated
+  USING (EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin'));
+
+CREATE POLICY "Admins can manage payroll lines"
+  ON payroll_lines FOR ALL TO authenticated
+  USING (EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin'));
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_payroll_lines_period_id ON payroll_lines(period_id);
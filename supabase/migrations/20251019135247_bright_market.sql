@@ -0,0 +1,21 @@
+/*
+  # Live session sales metrics
+
+  1. Changes
+    - `live_manual_log` gains what each session sold:
+      - `platform` (text, e.g. TikTok, Shopee)
+      - `peak_viewers` (integer)
+      - `orders` (integer)
+      - `revenue` (numeric, RM)
+    - All are optional; sessions logged before this stay null and are left
+      out of sales figures rather than counted as zero
+*/
+
+ALTER TABLE live_manual_log
+  ADD COLUMN IF NOT EXISTS platform text,
+  ADD COLUMN IF NOT EXISTS peak_viewers integer CHECK (peak_viewers >= 0),
+  ADD COLUMN IF NOT EXISTS orders integer CHECK (orders >= 0),
+  ADD COLUMN IF NOT EXISTS revenue numeric(12,2) CHECK (revenue >= 0);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_live_manual_log_platform ON live_manual_log(platform);
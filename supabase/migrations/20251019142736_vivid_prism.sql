@@ -0,0 +1,174 @@
+/*
+  # Content breakdown by platform and type
+
+  1. New Tables
+    - `content_options` - the platform and content type lists shown when
+      logging content
+      - `kind` ('platform' or 'type'), `name`, `sort_order`, `is_active`
+    - `content_entries` - content produced per day, platform and type
+      - `user_id`, `log_date`, `platform`, `content_type`, `count`
+      - null platform / type is the "unspecified" bucket
+
+  2. Changes
+    - `content_log.content_count` becomes the daily total of the user's
+      entries, kept in sync by a trigger; one `content_log` row per user and
+      day (duplicates are merged)
+    - Existing daily counts are carried over as unspecified entries
+
+  3. New Functions
+    - `replace_content_entries(p_log_date, p_entries)` - swaps the caller's
+      entries for one day in one transaction
+
+  4. Security
+    - Enable RLS on both tables
+    - Everyone reads the option lists; admins maintain them
+    - Users manage their own entries; admins can read all
+    - `replace_content_entries` runs as the caller, so the same policies apply
+*/
+
+CREATE TABLE IF NOT EXISTS content_options (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind text NOT NULL CHECK (kind IN ('platform', 'type')),
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  sort_order integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS content_options_kind_name_key
+  ON content_options (kind, lower(btrim(name)));
+
+INSERT INTO content_options (kind, name, sort_order) VALUES
+  ('platform', 'TikTok', 1),
+  ('platform', 'Instagram', 2),
+  ('platform', 'Facebook', 3),
+  ('platform', 'YouTube', 4),
+  ('platform', 'Shopee', 5),
+  ('type', 'Video', 1),
+  ('type', 'Reels', 2),
+  ('type', 'Post', 3),
+  ('type', 'Story', 4),
+  ('type', 'Carousel', 5)
+ON CONFLICT DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS content_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  log_date date NOT NULL,
+  platform text,
+  content_type text,
+  count integer NOT NULL CHECK (count > 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS content_entries_bucket_key
+  ON content_entries (user_id, log_date, coalesce(platform, ''), coalesce(content_type, ''));
+
+-- Carry existing daily counts over as unspecified entries
+INSERT INTO content_entries (user_id, log_date, count)
+SELECT user_id, log_date, sum(content_count)
+FROM content_log
+WHERE user_id IS NOT NULL
+GROUP BY user_id, log_date
+HAVING sum(content_count) > 0;
+
+-- One content_log row per user and day from now on
+DELETE FROM content_log a
+USING content_log b
+WHERE a.user_id = b.user_id
+  AND a.log_date = b.log_date
+  AND (a.created_at, a.id) > (b.created_at, b.id);
+
+UPDATE content_log l
+SET content_count = e.total
+FROM (
+  SELECT user_id, log_date, sum(count)::integer AS total
+  FROM content_entries
+  GROUP BY user_id, log_date
+) e
+WHERE l.user_id = e.user_id AND l.log_date = e.log_date;
+
+CREATE UNIQUE INDEX IF NOT EXISTS content_log_user_date_key ON content_log (user_id, log_date);
+
+CREATE OR REPLACE FUNCTION refresh_content_log(p_user_id uuid, p_log_date date)
+RETURNS void AS $$
+DECLARE
+  total integer;
+BEGIN
+  SELECT sum(count) INTO total
+  FROM content_entries
+  WHERE user_id = p_user_id AND log_date = p_log_date;
+
+  IF total IS NULL THEN
+    DELETE FROM content_log WHERE user_id = p_user_id AND log_date = p_log_date;
+  ELSE
+    INSERT INTO content_log (user_id, log_date, content_count)
+    VALUES (p_user_id, p_log_date, total)
+    ON CONFLICT (user_id, log_date)
+    DO UPDATE SET content_count = EXCLUDED.content_count, updated_at = now();
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION sync_content_log_total()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP <> 'DELETE' THEN
+    PERFORM refresh_content_log(NEW.user_id, NEW.log_date);
+  END IF;
+
+  IF TG_OP = 'DELETE'
+    OR (TG_OP = 'UPDATE' AND (OLD.user_id, OLD.log_date) IS DISTINCT FROM (NEW.user_id, NEW.log_date)) THEN
+    PERFORM refresh_content_log(OLD.user_id, OLD.log_date);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER content_entries_sync_total
+  AFTER INSERT OR UPDATE OR DELETE ON content_entries
+  FOR EACH ROW EXECUTE FUNCTION sync_content_log_total();
+
+CREATE OR REPLACE FUNCTION replace_content_entries(p_log_date date, p_entries jsonb)
+RETURNS void AS $$
+BEGIN
+  DELETE FROM content_entries WHERE user_id = auth.uid() AND log_date = p_log_date;
+
+  INSERT INTO content_entries (user_id, log_date, platform, content_type, count)
+  SELECT auth.uid(), p_log_date, entry.platform, entry.content_type, entry.count
+  FROM jsonb_to_recordset(p_entries) AS entry(
+    platform text,
+    content_type text,
+    count integer
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION replace_content_entries(date, jsonb) TO authenticated;
+
+-- Enable RLS
+ALTER TABLE content_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE content_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read content options"
+  ON content_options FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage content options"
+  ON content_options FOR ALL TO authenticated
+  USING (EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin'));
+
+CREATE POLICY "Users can manage own content entries"
+  ON content_entries FOR ALL TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Admins can read all content entries"
+  ON content_entries FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin'));
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_content_entries_user_date ON content_entries(user_id, log_date);
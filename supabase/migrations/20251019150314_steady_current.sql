@@ -0,0 +1,148 @@
+/*
+  # Content pipeline
+
+  1. New Tables
+    - `content_items` - individual pieces of content moving through the
+      pipeline
+      - `title`, `caption`
+      - `stage` ('idea', 'draft', 'design', 'scheduled', 'posted')
+      - `platform`, `content_type` (names from `content_options`)
+      - `template_id` (optional design template)
+      - `scheduled_date`, `posted_date`
+      - `user_id` (creator), `assigned_to`
+
+  2. Changes
+    - `posted_date` is filled in (with today's date in Malaysia) when an item
+      reaches 'posted' without one, and cleared if it moves back
+    - Each posted item counts once towards the daily `content_log` total of
+      its assignee (or creator), on top of manually logged entries
+
+  3. Security
+    - Enable RLS
+    - The board is shared: everyone signed in can read it
+    - Creators and assignees can update items; creators and admins can
+      delete them; admins can do both
+*/
+
+CREATE TABLE IF NOT EXISTS content_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  assigned_to uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  title text NOT NULL CHECK (btrim(title) <> ''),
+  caption text,
+  stage text NOT NULL DEFAULT 'idea'
+    CHECK (stage IN ('idea', 'draft', 'design', 'scheduled', 'posted')),
+  platform text,
+  content_type text,
+  template_id uuid REFERENCES templates(id) ON DELETE SET NULL,
+  scheduled_date date,
+  posted_date date,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE OR REPLACE FUNCTION set_content_item_posted_date()
+RETURNS trigger AS $$
+BEGIN
+  -- The client sends its local date; the fallback is the team's date, not
+  -- the server's (UTC)
+  IF NEW.stage = 'posted' THEN
+    NEW.posted_date := COALESCE(NEW.posted_date, (now() AT TIME ZONE 'Asia/Kuala_Lumpur')::date);
+  ELSE
+    NEW.posted_date := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER content_items_posted_date
+  BEFORE INSERT OR UPDATE ON content_items
+  FOR EACH ROW EXECUTE FUNCTION set_content_item_posted_date();
+
+-- Daily total = manual entries + posted pipeline items
+CREATE OR REPLACE FUNCTION refresh_content_log(p_user_id uuid, p_log_date date)
+RETURNS void AS $$
+DECLARE
+  total integer;
+BEGIN
+  SELECT
+    COALESCE((
+      SELECT sum(count) FROM content_entries
+      WHERE user_id = p_user_id AND log_date = p_log_date
+    ), 0)
+    + (
+      SELECT count(*) FROM content_items
+      WHERE stage = 'posted'
+        AND COALESCE(assigned_to, user_id) = p_user_id
+        AND posted_date = p_log_date
+    )
+  INTO total;
+
+  IF total = 0 THEN
+    DELETE FROM content_log WHERE user_id = p_user_id AND log_date = p_log_date;
+  ELSE
+    INSERT INTO content_log (user_id, log_date, content_count)
+    VALUES (p_user_id, p_log_date, total)
+    ON CONFLICT (user_id, log_date)
+    DO UPDATE SET content_count = EXCLUDED.content_count, updated_at = now();
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION sync_content_item_total()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP <> 'DELETE' AND NEW.posted_date IS NOT NULL THEN
+    PERFORM refresh_content_log(COALESCE(NEW.assigned_to, NEW.user_id), NEW.posted_date);
+  END IF;
+
+  IF TG_OP <> 'INSERT' AND OLD.posted_date IS NOT NULL AND (
+    TG_OP = 'DELETE'
+    OR (COALESCE(OLD.assigned_to, OLD.user_id), OLD.posted_date)
+      IS DISTINCT FROM (COALESCE(NEW.assigned_to, NEW.user_id), NEW.posted_date)
+  ) THEN
+    PERFORM refresh_content_log(COALESCE(OLD.assigned_to, OLD.user_id), OLD.posted_date);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER content_items_sync_total
+  AFTER INSERT OR UPDATE OR DELETE ON content_items
+  FOR EACH ROW EXECUTE FUNCTION sync_content_item_total();
+
+-- Enable RLS
+ALTER TABLE content_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read content items"
+  ON content_items FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can add content items"
+  ON content_items FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Creators, assignees and admins can update content items"
+  ON content_items FOR UPDATE TO authenticated
+  USING (
+    auth.uid() = user_id OR
+    auth.uid() = assigned_to OR
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE POLICY "Creators and admins can delete content items"
+  ON content_items FOR DELETE TO authenticated
+  USING (
+    auth.uid() = user_id OR
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+-- Realtime delivery to the pipeline board
+ALTER PUBLICATION supabase_realtime ADD TABLE content_items;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_content_items_stage ON content_items(stage);
+CREATE INDEX IF NOT EXISTS idx_content_items_assigned_to ON content_items(assigned_to);
+CREATE INDEX IF NOT EXISTS idx_content_items_posted_date ON content_items(posted_date);
@@ -0,0 +1,40 @@
+/*
+  # Daily and weekly targets
+
+  1. New Tables
+    - `user_targets` - one row per user, set by admins
+      - `daily_content`, `weekly_content` (content count)
+      - `daily_live_hours`, `weekly_live_hours`
+      - Any target left null is not tracked
+
+  2. Security
+    - Enable RLS
+    - Users can read their own targets
+    - Only admins can set targets
+*/
+
+CREATE TABLE IF NOT EXISTS user_targets (
+  user_id uuid PRIMARY KEY REFERENCES user_profiles(id) ON DELETE CASCADE,
+  daily_content integer CHECK (daily_content > 0),
+  weekly_content integer CHECK (weekly_content > 0),
+  daily_live_hours numeric(5,2) CHECK (daily_live_hours > 0),
+  weekly_live_hours numeric(5,2) CHECK (weekly_live_hours > 0),
+  updated_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE user_targets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own targets"
+  ON user_targets FOR SELECT TO authenticated
+  USING (
+    auth.uid() = user_id OR
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE POLICY "Admins can manage targets"
+  ON user_targets FOR ALL TO authenticated
+  USING (EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin'));
@@ -0,0 +1,183 @@
+/*
+  # Analytics aggregation functions
+
+  1. New Functions
+    - `analytics_weekly(p_from, p_to, p_user_id)` - content, live hours and
+      live sales per week (weeks start on Sunday)
+    - `analytics_daily(p_from, p_to, p_user_id)` - content and live hours per day
+    - `analytics_status_counts(p_user_id)` - projects and tasks per status
+    - `analytics_live_sales(p_from, p_to, p_user_id)` - live sales summary
+    - `analytics_member_totals(p_from, p_to)` - per-member totals for the team
+      leaderboard
+
+  2. Notes
+    - `p_user_id` null means every row the caller can see
+    - Tasks count for their creator and their assignee, as in the task list;
+      the member totals count each task once, for its assignee (or creator)
+    - Every member total follows the range: projects and tasks by the day
+      they were created (in Malaysia), content and live by their log date
+    - Live sales only use sessions with revenue or orders recorded
+
+  3. Security
+    - All functions run as the caller (SECURITY INVOKER), so the existing RLS
+      policies decide which rows are aggregated
+*/
+
+CREATE OR REPLACE FUNCTION analytics_weekly(p_from date, p_to date, p_user_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  week_start date,
+  content bigint,
+  live_hours numeric,
+  sales_sessions bigint,
+  revenue numeric,
+  orders bigint
+) AS $$
+  WITH content AS (
+    SELECT log_date - extract(dow FROM log_date)::int AS week_start, sum(content_count) AS content
+    FROM content_log
+    WHERE log_date BETWEEN p_from AND p_to
+      AND (p_user_id IS NULL OR user_id = p_user_id)
+    GROUP BY 1
+  ),
+  live AS (
+    SELECT
+      live_date - extract(dow FROM live_date)::int AS week_start,
+      sum(total_hours) AS live_hours,
+      count(*) FILTER (WHERE revenue IS NOT NULL OR orders IS NOT NULL) AS sales_sessions,
+      sum(revenue) AS revenue,
+      sum(orders) AS orders
+    FROM live_manual_log
+    WHERE live_date BETWEEN p_from AND p_to
+      AND (p_user_id IS NULL OR user_id = p_user_id)
+    GROUP BY 1
+  )
+  SELECT
+    week_start,
+    COALESCE(content.content, 0),
+    round(COALESCE(live.live_hours, 0), 2),
+    COALESCE(live.sales_sessions, 0),
+    round(COALESCE(live.revenue, 0), 2),
+    COALESCE(live.orders, 0)
+  FROM content
+  FULL JOIN live USING (week_start)
+  ORDER BY week_start;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION analytics_daily(p_from date, p_to date, p_user_id uuid DEFAULT NULL)
+RETURNS TABLE (day date, content bigint, live_hours numeric) AS $$
+  WITH content AS (
+    SELECT log_date AS day, sum(content_count) AS content
+    FROM content_log
+    WHERE log_date BETWEEN p_from AND p_to
+      AND (p_user_id IS NULL OR user_id = p_user_id)
+    GROUP BY 1
+  ),
+  live AS (
+    SELECT live_date AS day, sum(total_hours) AS live_hours
+    FROM live_manual_log
+    WHERE live_date BETWEEN p_from AND p_to
+      AND (p_user_id IS NULL OR user_id = p_user_id)
+    GROUP BY 1
+  )
+  SELECT day, COALESCE(content.content, 0), round(COALESCE(live.live_hours, 0), 2)
+  FROM content
+  FULL JOIN live USING (day)
+  ORDER BY day;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION analytics_status_counts(p_user_id uuid DEFAULT NULL)
+RETURNS TABLE (kind text, status text, total bigint) AS $$
+  SELECT 'project', status, count(*)
+  FROM projects
+  WHERE p_user_id IS NULL OR user_id = p_user_id
+  GROUP BY status
+  UNION ALL
+  SELECT 'task', status, count(*)
+  FROM tasks
+  WHERE p_user_id IS NULL OR user_id = p_user_id OR assigned_to = p_user_id
+  GROUP BY status;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION analytics_live_sales(p_from date, p_to date, p_user_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  sessions bigint,
+  hours numeric,
+  revenue numeric,
+  orders bigint,
+  peak_viewers integer,
+  revenue_per_hour numeric,
+  conversion numeric
+) AS $$
+  WITH recorded AS (
+    SELECT *
+    FROM live_manual_log
+    WHERE live_date BETWEEN p_from AND p_to
+      AND (p_user_id IS NULL OR user_id = p_user_id)
+      AND (revenue IS NOT NULL OR orders IS NOT NULL)
+  ),
+  totals AS (
+    SELECT
+      count(*) AS sessions,
+      COALESCE(sum(total_hours), 0) AS hours,
+      COALESCE(sum(revenue), 0) AS revenue,
+      COALESCE(sum(orders), 0) AS orders,
+      COALESCE(max(peak_viewers), 0) AS peak_viewers,
+      -- Conversion only counts sessions where viewers were recorded too
+      COALESCE(sum(peak_viewers) FILTER (WHERE peak_viewers > 0), 0) AS viewers,
+      COALESCE(sum(orders) FILTER (WHERE peak_viewers > 0), 0) AS converted_orders
+    FROM recorded
+  )
+  SELECT
+    sessions,
+    round(hours, 2),
+    round(revenue, 2),
+    orders,
+    peak_viewers,
+    CASE WHEN hours > 0 THEN round(revenue / hours, 2) ELSE 0 END,
+    CASE WHEN viewers > 0 THEN round(converted_orders * 100.0 / viewers, 2) ELSE 0 END
+  FROM totals;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION analytics_member_totals(p_from date, p_to date)
+RETURNS TABLE (
+  user_id uuid,
+  nama text,
+  projects bigint,
+  tasks bigint,
+  completed_tasks bigint,
+  content bigint,
+  live_hours numeric,
+  revenue numeric
+) AS $$
+  SELECT
+    p.id,
+    p.nama,
+    (SELECT count(*) FROM projects pr
+      WHERE pr.user_id = p.id
+        AND (pr.created_at AT TIME ZONE 'Asia/Kuala_Lumpur')::date BETWEEN p_from AND p_to),
+    (SELECT count(*) FROM tasks t
+      WHERE COALESCE(t.assigned_to, t.user_id) = p.id
+        AND (t.created_at AT TIME ZONE 'Asia/Kuala_Lumpur')::date BETWEEN p_from AND p_to),
+    (SELECT count(*) FROM tasks t
+      WHERE COALESCE(t.assigned_to, t.user_id) = p.id
+        AND t.status = 'Completed'
+        AND (t.created_at AT TIME ZONE 'Asia/Kuala_Lumpur')::date BETWEEN p_from AND p_to),
+    (SELECT COALESCE(sum(c.content_count), 0) FROM content_log c
+      WHERE c.user_id = p.id AND c.log_date BETWEEN p_from AND p_to),
+    (SELECT round(COALESCE(sum(l.total_hours), 0), 2) FROM live_manual_log l
+      WHERE l.user_id = p.id AND l.live_date BETWEEN p_from AND p_to),
+    (SELECT round(COALESCE(sum(l.revenue), 0), 2) FROM live_manual_log l
+      WHERE l.user_id = p.id AND l.live_date BETWEEN p_from AND p_to)
+  FROM user_profiles p
+  ORDER BY p.nama;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION analytics_weekly(date, date, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION analytics_daily(date, date, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION analytics_status_counts(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION analytics_live_sales(date, date, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION analytics_member_totals(date, date) TO authenticated;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_live_manual_log_user_date ON live_manual_log(user_id, live_date);
+CREATE INDEX IF NOT EXISTS idx_content_log_user_date ON content_log(user_id, log_date);
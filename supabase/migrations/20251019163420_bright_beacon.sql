@@ -0,0 +1,147 @@
+/*
+  # Notifications
+
+  1. New Tables
+    - `notifications` - in-app inbox entries per user
+      - `type` ('task_assigned', 'task_due_tomorrow', 'task_overdue',
+        'role_changed', 'template_uploaded')
+      - `title`, `body`, `link` (in-app path opened on click)
+      - `entity_id` (task or template the notification is about)
+      - `dedupe_key` - set for reminders so each is only sent once
+      - `read_at` (null while unread)
+
+  2. New Functions and Triggers
+    - Task assigned to someone else than the person assigning it
+    - Role changed on a user profile
+    - Template uploaded (everyone except the uploader)
+    - `sync_due_notifications(p_today)` - called by the app to add due-tomorrow
+      and overdue reminders for the signed-in user; `p_today` is the user's
+      local date
+
+  3. Security
+    - Enable RLS
+    - Users can read, mark read and delete their own notifications
+    - Rows are only inserted by the SECURITY DEFINER functions above
+*/
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  type text NOT NULL CHECK (type IN ('task_assigned', 'task_due_tomorrow', 'task_overdue', 'role_changed', 'template_uploaded')),
+  title text NOT NULL,
+  body text,
+  link text,
+  entity_id uuid,
+  dedupe_key text,
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, dedupe_key)
+);
+
+CREATE OR REPLACE FUNCTION notify_task_assigned()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.assigned_to IS NOT NULL
+    AND NEW.assigned_to IS DISTINCT FROM auth.uid()
+    AND (TG_OP = 'INSERT' OR NEW.assigned_to IS DISTINCT FROM OLD.assigned_to)
+  THEN
+    INSERT INTO notifications (user_id, type, title, body, link, entity_id)
+    VALUES (
+      NEW.assigned_to,
+      'task_assigned',
+      'Tugasan baharu ditugaskan kepada anda',
+      NEW.title,
+      '/tugasan?edit=' || NEW.id,
+      NEW.id
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER tasks_notify_assigned
+  AFTER INSERT OR UPDATE OF assigned_to ON tasks
+  FOR EACH ROW EXECUTE FUNCTION notify_task_assigned();
+
+CREATE OR REPLACE FUNCTION notify_role_changed()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role THEN
+    INSERT INTO notifications (user_id, type, title, body, link)
+    VALUES (
+      NEW.id,
+      'role_changed',
+      'Peranan anda telah ditukar',
+      CASE WHEN NEW.role = 'admin' THEN 'Anda kini seorang Administrator' ELSE 'Anda kini seorang Pengguna' END,
+      '/tetapan'
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER user_profiles_notify_role
+  AFTER UPDATE OF role ON user_profiles
+  FOR EACH ROW EXECUTE FUNCTION notify_role_changed();
+
+CREATE OR REPLACE FUNCTION notify_template_uploaded()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO notifications (user_id, type, title, body, link, entity_id)
+  SELECT id, 'template_uploaded', 'Template baharu dimuat naik', NEW.title, '/templates', NEW.id
+  FROM user_profiles
+  WHERE id IS DISTINCT FROM NEW.uploaded_by;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER templates_notify_uploaded
+  AFTER INSERT ON templates
+  FOR EACH ROW EXECUTE FUNCTION notify_template_uploaded();
+
+-- Overdue reminders only look back 30 days so old backlogs do not flood the inbox
+CREATE OR REPLACE FUNCTION sync_due_notifications(p_today date)
+RETURNS void AS $$
+  INSERT INTO notifications (user_id, type, title, body, link, entity_id, dedupe_key)
+  SELECT
+    auth.uid(),
+    CASE WHEN t.due_date < p_today THEN 'task_overdue' ELSE 'task_due_tomorrow' END,
+    CASE WHEN t.due_date < p_today THEN 'Tugasan telah melepasi tarikh akhir' ELSE 'Tugasan perlu disiapkan esok' END,
+    t.title,
+    '/tugasan?edit=' || t.id,
+    t.id,
+    CASE WHEN t.due_date < p_today THEN 'task_overdue:' ELSE 'task_due_tomorrow:' END || t.id || ':' || t.due_date
+  FROM tasks t
+  WHERE (t.user_id = auth.uid() OR t.assigned_to = auth.uid())
+    AND t.status <> 'Completed'
+    AND (t.due_date = p_today + 1 OR t.due_date BETWEEN p_today - 30 AND p_today - 1)
+  ON CONFLICT (user_id, dedupe_key) DO NOTHING;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION sync_due_notifications(date) TO authenticated;
+
+-- Enable RLS
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own notifications"
+  ON notifications FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notifications"
+  ON notifications FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own notifications"
+  ON notifications FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Realtime delivery to the Navbar bell
+ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON notifications(user_id) WHERE read_at IS NULL;
@@ -0,0 +1,38 @@
+/*
+  # Daily email digest
+
+  1. Changes
+    - `user_profiles.email_digest` - users can opt out of the daily digest
+      from Settings (on by default)
+
+  2. Schedule
+    - pg_cron calls the `task-digest` edge function every day at 23:00 UTC
+      (07:00 in Malaysia)
+    - The function URL and its shared secret are read from Vault:
+      `project_url` (e.g. https://<ref>.supabase.co) and
+      `digest_cron_secret` (same value as the function's DIGEST_CRON_SECRET)
+
+  3. Security
+    - No policy changes; users already update their own profile
+*/
+
+ALTER TABLE user_profiles
+  ADD COLUMN IF NOT EXISTS email_digest boolean NOT NULL DEFAULT true;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'task-digest-daily',
+  '0 23 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/task-digest',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'digest_cron_secret')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
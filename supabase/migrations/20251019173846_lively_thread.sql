@@ -0,0 +1,148 @@
+/*
+  # Task comments and mentions
+
+  1. New Tables
+    - `task_comments`
+      - `task_id` (uuid, references tasks)
+      - `user_id` (uuid, author)
+      - `body` (text, markdown)
+      - `mentions` (uuid[]) - filled by trigger from `@[Nama](<user id>)`
+        tokens in the body
+      - `edited_at` (null until the author edits the comment)
+
+  2. New Functions and Triggers
+    - `task_participants(p_task_id)` - people shown on a task's thread: its
+      creator, its assignee, admins (all of whom can be mentioned) and anyone
+      who has commented. Profiles are otherwise only readable by admins, so
+      this is how other users get names for the thread and the autocomplete.
+    - Mentions are parsed on insert and edit; each newly mentioned person who
+      can see the task gets a `task_mention` notification
+
+  3. Security
+    - Enable RLS
+    - Comments are readable by anyone who can read the task (the tasks policy
+      decides), and added under their own name
+    - Authors can edit and delete only their own comments, and only edit them
+      while they can still see the task
+*/
+
+CREATE TABLE IF NOT EXISTS task_comments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  body text NOT NULL CHECK (length(trim(body)) > 0),
+  mentions uuid[] NOT NULL DEFAULT '{}',
+  edited_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('task_assigned', 'task_due_tomorrow', 'task_overdue', 'role_changed', 'template_uploaded', 'task_mention'));
+
+CREATE OR REPLACE FUNCTION set_task_comment_mentions()
+RETURNS trigger AS $$
+BEGIN
+  NEW.mentions := ARRAY(
+    SELECT DISTINCT match[1]::uuid
+    FROM regexp_matches(
+      NEW.body,
+      '@\[[^\]]+\]\(([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\)',
+      'g'
+    ) AS match
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER task_comments_set_mentions
+  BEFORE INSERT OR UPDATE OF body ON task_comments
+  FOR EACH ROW EXECUTE FUNCTION set_task_comment_mentions();
+
+CREATE OR REPLACE FUNCTION notify_task_comment_mentions()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO notifications (user_id, type, title, body, link, entity_id)
+  SELECT
+    mentioned.id,
+    'task_mention',
+    author.nama || ' menyebut anda dalam komen',
+    -- Tokens read as plain @Nama in the inbox
+    t.title || ': ' || left(regexp_replace(NEW.body, '@\[([^\]]+)\]\([0-9a-f-]{36}\)', '@\1', 'g'), 120),
+    '/tugasan?comments=' || t.id,
+    t.id
+  FROM tasks t
+  JOIN user_profiles author ON author.id = NEW.user_id
+  JOIN user_profiles mentioned ON mentioned.id = ANY(NEW.mentions)
+  WHERE t.id = NEW.task_id
+    AND mentioned.id <> NEW.user_id
+    AND (TG_OP = 'INSERT' OR NOT mentioned.id = ANY(OLD.mentions))
+    AND (mentioned.id = t.user_id OR mentioned.id = t.assigned_to OR mentioned.role = 'admin');
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER task_comments_notify_mentions
+  AFTER INSERT OR UPDATE OF mentions ON task_comments
+  FOR EACH ROW EXECUTE FUNCTION notify_task_comment_mentions();
+
+CREATE OR REPLACE FUNCTION task_participants(p_task_id uuid)
+RETURNS TABLE (id uuid, nama text, can_mention boolean) AS $$
+  WITH visible AS (
+    SELECT t.id, t.user_id, t.assigned_to
+    FROM tasks t
+    WHERE t.id = p_task_id
+      AND (
+        auth.uid() = t.user_id OR
+        auth.uid() = t.assigned_to OR
+        EXISTS (SELECT 1 FROM user_profiles WHERE user_profiles.id = auth.uid() AND role = 'admin')
+      )
+  )
+  SELECT
+    p.id,
+    p.nama,
+    (p.id = visible.user_id OR p.id = visible.assigned_to OR p.role = 'admin') AS can_mention
+  FROM visible
+  JOIN user_profiles p
+    ON p.id = visible.user_id
+    OR p.id = visible.assigned_to
+    OR p.role = 'admin'
+    OR EXISTS (SELECT 1 FROM task_comments c WHERE c.task_id = visible.id AND c.user_id = p.id)
+  ORDER BY p.nama;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION task_participants(uuid) TO authenticated;
+
+-- Enable RLS
+ALTER TABLE task_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read comments on visible tasks"
+  ON task_comments FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM tasks WHERE tasks.id = task_comments.task_id));
+
+CREATE POLICY "Users can comment on visible tasks"
+  ON task_comments FOR INSERT TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (SELECT 1 FROM tasks WHERE tasks.id = task_comments.task_id)
+  );
+
+CREATE POLICY "Users can edit own comments"
+  ON task_comments FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (SELECT 1 FROM tasks WHERE tasks.id = task_comments.task_id)
+  );
+
+CREATE POLICY "Users can delete own comments"
+  ON task_comments FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Realtime delivery to open comment threads
+ALTER PUBLICATION supabase_realtime ADD TABLE task_comments;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_task_comments_task_id ON task_comments(task_id, created_at);
@@ -0,0 +1,95 @@
+/*
+  # Attachments on tasks and projects
+
+  1. New Tables
+    - `attachments` - files attached to a task or a project (exactly one)
+      - `storage_path` - object name in the `templates` bucket, under the
+        uploader's folder: `<user id>/attachments/<task|project>/<id>/<file>`,
+        so the folder policies from the lucky_bird migration apply
+      - `file_name`, `mime_type`, `size_bytes`
+    - `attachment_cleanup` - storage paths of deleted attachments waiting for
+      their file to be removed
+
+  2. Cleanup
+    - Deleting an attachment, directly or through its task or project being
+      deleted, queues its storage path. After deletes the app calls the
+      `attachment-cleanup` edge function, which removes queued files through
+      the Storage API (the API, not SQL, must delete objects).
+
+  3. Security
+    - Enable RLS
+    - Attachments are readable and addable by anyone who can read the parent
+      task or project (their policies decide)
+    - Only the uploader or an admin can delete an attachment
+    - `attachment_cleanup` has no policies for signed-in users; only the
+      service role (the edge function) reads and clears it
+*/
+
+CREATE TABLE IF NOT EXISTS attachments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid REFERENCES tasks(id) ON DELETE CASCADE,
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE,
+  uploaded_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  file_name text NOT NULL,
+  storage_path text NOT NULL UNIQUE,
+  mime_type text NOT NULL,
+  size_bytes bigint NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  CHECK (num_nonnulls(task_id, project_id) = 1)
+);
+
+CREATE TABLE IF NOT EXISTS attachment_cleanup (
+  storage_path text PRIMARY KEY,
+  queued_at timestamptz DEFAULT now()
+);
+
+CREATE OR REPLACE FUNCTION queue_attachment_cleanup()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO attachment_cleanup (storage_path)
+  VALUES (OLD.storage_path)
+  ON CONFLICT (storage_path) DO NOTHING;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER attachments_queue_cleanup
+  AFTER DELETE ON attachments
+  FOR EACH ROW EXECUTE FUNCTION queue_attachment_cleanup();
+
+-- Enable RLS
+ALTER TABLE attachments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE attachment_cleanup ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read attachments of visible parents"
+  ON attachments FOR SELECT TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM tasks WHERE tasks.id = attachments.task_id) OR
+    EXISTS (SELECT 1 FROM projects WHERE projects.id = attachments.project_id)
+  );
+
+CREATE POLICY "Users can attach files to visible parents"
+  ON attachments FOR INSERT TO authenticated
+  WITH CHECK (
+    auth.uid() = uploaded_by AND
+    split_part(storage_path, '/', 1) = auth.uid()::text AND
+    (
+      EXISTS (SELECT 1 FROM tasks WHERE tasks.id = attachments.task_id) OR
+      EXISTS (SELECT 1 FROM projects WHERE projects.id = attachments.project_id)
+    )
+  );
+
+CREATE POLICY "Uploaders and admins can delete attachments"
+  ON attachments FOR DELETE TO authenticated
+  USING (
+    auth.uid() = uploaded_by OR
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+-- Realtime delivery to open attachment lists
+ALTER PUBLICATION supabase_realtime ADD TABLE attachments;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_attachments_task_id ON attachments(task_id);
+CREATE INDEX IF NOT EXISTS idx_attachments_project_id ON attachments(project_id);
@@ -0,0 +1,602 @@
+/*
+  # Project members and multi-assignee tasks
+
+  1. New Tables
+    - `project_members`
+      - `project_id`, `user_id` (primary key together)
+      - `role` (owner, editor or viewer)
+      - `added_by` (who invited them)
+      - Every project's creator is an owner; existing projects are backfilled
+        and new ones get the row from a trigger
+    - `task_assignees`
+      - `task_id`, `user_id` (primary key together)
+      - `assigned_by`
+      - Backfilled from `tasks.assigned_to`
+
+  2. Changes
+    - `tasks.assigned_to` is kept as the primary assignee by triggers, so the
+      task series, analytics, reminders and the calendar feed that read it
+      keep working. Setting it directly (series occurrences, imports)
+      replaces the previous assignee's `task_assignees` row with the new
+      one; removing the primary assignee hands the role to the earliest
+      remaining one.
+    - Assignment notifications are sent per `task_assignees` row instead of
+      on `tasks.assigned_to`, so each added assignee is told once
+    - New notification type `project_invite`
+    - `sync_due_notifications`, `task_participants` and the mention check
+      cover every assignee and, for project tasks, the project's members
+
+  3. New Functions and Views
+    - `is_admin()`, `project_role(p_project_id)`, `is_task_assignee(p_task_id)` -
+      SECURITY DEFINER helpers for the policies below, so a policy can check
+      another table without going through that table's RLS
+    - `can_edit_task(p_task_id)` - creator, assignee, project owner/editor or admin
+    - `is_teammate(p_user_id)` - shares a project or a task with the caller
+    - `invite_project_member(p_project_id, p_email, p_role)` - adds (or
+      changes the role of) a registered user by email. Emails live in
+      `auth.users`, which clients cannot read.
+    - `my_projects`, `my_tasks` - the caller's own share of each table: what
+      they created, are assigned to or reach through a project membership.
+      Admins read the tables for everyone's rows and these views for their
+      own. Both run with the caller's rights (`security_invoker`).
+
+  4. Security
+    - Enable RLS on both tables
+    - Projects: readable by their members, editable by owners and editors,
+      deletable by owners; admins keep full access
+    - Tasks: readable by their creator, assignees and the project's members;
+      editable by the creator, assignees and project owners/editors. Viewers
+      cannot move a task or a task series into a project they only view;
+      series occurrences follow their series' project.
+    - Project members are visible to each other; owners manage them and
+      anyone can leave. The creator's owner row cannot be removed or demoted,
+      so a project always has an owner.
+    - Profiles of teammates become readable, for names in the member list
+      and on task cards
+    - Checklist items and dependencies are readable with their task and
+      changed by whoever `can_edit_task`
+*/
+
+CREATE TABLE IF NOT EXISTS project_members (
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  role text NOT NULL DEFAULT 'viewer' CHECK (role IN ('owner', 'editor', 'viewer')),
+  added_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (project_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS task_assignees (
+  task_id uuid NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  assigned_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (task_id, user_id)
+);
+
+INSERT INTO project_members (project_id, user_id, role, added_by)
+SELECT id, user_id, 'owner', user_id
+FROM projects
+WHERE user_id IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+INSERT INTO task_assignees (task_id, user_id, assigned_by, created_at)
+SELECT id, assigned_to, user_id, created_at
+FROM tasks
+WHERE assigned_to IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('task_assigned', 'task_due_tomorrow', 'task_overdue', 'role_changed', 'template_uploaded', 'task_mention', 'project_invite'));
+
+-- Helpers
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS boolean AS $$
+  SELECT EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin');
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION project_role(p_project_id uuid)
+RETURNS text AS $$
+  SELECT role FROM project_members WHERE project_id = p_project_id AND user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_task_assignee(p_task_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (SELECT 1 FROM task_assignees WHERE task_id = p_task_id AND user_id = auth.uid());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION can_edit_task(p_task_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM tasks t
+    WHERE t.id = p_task_id
+      AND (
+        t.user_id = auth.uid() OR
+        t.assigned_to = auth.uid() OR
+        is_task_assignee(t.id) OR
+        project_role(t.project_id) IN ('owner', 'editor') OR
+        is_admin()
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_teammate(p_user_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM project_members mine
+    JOIN project_members theirs ON theirs.project_id = mine.project_id
+    WHERE mine.user_id = auth.uid() AND theirs.user_id = p_user_id
+  ) OR EXISTS (
+    SELECT 1 FROM tasks t
+    WHERE (t.user_id = auth.uid() OR EXISTS (
+        SELECT 1 FROM task_assignees a WHERE a.task_id = t.id AND a.user_id = auth.uid()
+      ))
+      AND (t.user_id = p_user_id OR EXISTS (
+        SELECT 1 FROM task_assignees a WHERE a.task_id = t.id AND a.user_id = p_user_id
+      ))
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION is_admin() TO authenticated;
+GRANT EXECUTE ON FUNCTION project_role(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION is_task_assignee(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION can_edit_task(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION is_teammate(uuid) TO authenticated;
+
+-- New projects start with their creator as owner
+CREATE OR REPLACE FUNCTION add_project_owner()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.user_id IS NOT NULL THEN
+    INSERT INTO project_members (project_id, user_id, role, added_by)
+    VALUES (NEW.id, NEW.user_id, 'owner', NEW.user_id)
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER projects_add_owner
+  AFTER INSERT ON projects
+  FOR EACH ROW EXECUTE FUNCTION add_project_owner();
+
+-- The creator's owner row only goes away with the project or the profile
+CREATE OR REPLACE FUNCTION check_project_creator_member()
+RETURNS trigger AS $$
+BEGIN
+  IF (TG_OP = 'DELETE' OR NEW.role <> 'owner')
+    AND EXISTS (SELECT 1 FROM projects WHERE id = OLD.project_id AND user_id = OLD.user_id)
+    AND EXISTS (SELECT 1 FROM user_profiles WHERE id = OLD.user_id)
+  THEN
+    RAISE EXCEPTION 'Project creator must remain an owner';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER project_members_check_creator
+  BEFORE UPDATE OR DELETE ON project_members
+  FOR EACH ROW EXECUTE FUNCTION check_project_creator_member();
+
+CREATE OR REPLACE FUNCTION notify_project_invite()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.user_id IS DISTINCT FROM auth.uid() AND auth.uid() IS NOT NULL THEN
+    INSERT INTO notifications (user_id, type, title, body, link, entity_id)
+    SELECT
+      NEW.user_id,
+      'project_invite',
+      COALESCE(inviter.nama, 'Seseorang') || ' menambah anda ke projek',
+      p.name,
+      '/projek',
+      p.id
+    FROM projects p
+    LEFT JOIN user_profiles inviter ON inviter.id = auth.uid()
+    WHERE p.id = NEW.project_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER project_members_notify_invite
+  AFTER INSERT ON project_members
+  FOR EACH ROW EXECUTE FUNCTION notify_project_invite();
+
+CREATE OR REPLACE FUNCTION invite_project_member(p_project_id uuid, p_email text, p_role text)
+RETURNS void AS $$
+DECLARE
+  v_user_id uuid;
+BEGIN
+  IF NOT (project_role(p_project_id) = 'owner' OR is_admin()) THEN
+    RAISE EXCEPTION 'Only project owners can invite members' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT u.id INTO v_user_id
+  FROM auth.users u
+  JOIN user_profiles p ON p.id = u.id
+  WHERE lower(u.email) = lower(trim(p_email));
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'No user with email %', p_email USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO project_members (project_id, user_id, role, added_by)
+  VALUES (p_project_id, v_user_id, p_role, auth.uid())
+  ON CONFLICT (project_id, user_id) DO UPDATE SET role = EXCLUDED.role;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION invite_project_member(uuid, text, text) TO authenticated;
+
+-- Keep tasks.assigned_to and task_assignees in step. A direct write to
+-- assigned_to replaces the previous assignee with the new one; writes made by
+-- sync_task_primary_assignee below already match task_assignees and are skipped.
+CREATE OR REPLACE FUNCTION add_task_assignee_from_task()
+RETURNS trigger AS $$
+BEGIN
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NULL;
+  END IF;
+
+  IF NEW.assigned_to IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.assigned_to IS DISTINCT FROM OLD.assigned_to)
+  THEN
+    INSERT INTO task_assignees (task_id, user_id, assigned_by)
+    VALUES (NEW.id, NEW.assigned_to, auth.uid())
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND OLD.assigned_to IS NOT NULL
+    AND OLD.assigned_to IS DISTINCT FROM NEW.assigned_to
+  THEN
+    DELETE FROM task_assignees WHERE task_id = NEW.id AND user_id = OLD.assigned_to;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER tasks_add_assignee
+  AFTER INSERT OR UPDATE OF assigned_to ON tasks
+  FOR EACH ROW EXECUTE FUNCTION add_task_assignee_from_task();
+
+-- The primary assignee only changes when the task has none or the current one
+-- is removed; the earliest remaining assignee then takes over
+CREATE OR REPLACE FUNCTION sync_task_primary_assignee()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE tasks
+    SET assigned_to = NEW.user_id
+    WHERE id = NEW.task_id AND assigned_to IS NULL;
+  ELSE
+    UPDATE tasks
+    SET assigned_to = (
+      SELECT user_id
+      FROM task_assignees
+      WHERE task_id = OLD.task_id
+      ORDER BY created_at, user_id
+      LIMIT 1
+    )
+    WHERE id = OLD.task_id AND assigned_to = OLD.user_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER task_assignees_sync_primary
+  AFTER INSERT OR DELETE ON task_assignees
+  FOR EACH ROW EXECUTE FUNCTION sync_task_primary_assignee();
+
+-- Tasks and task series can only be filed under projects the user can edit.
+-- Occurrences copy their series' project, so whoever may run the series (its
+-- creator or assignee) may also generate its tasks there; the series itself
+-- passed this check when its project was set.
+CREATE OR REPLACE FUNCTION check_task_project_access()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.project_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.project_id IS DISTINCT FROM OLD.project_id)
+    AND auth.uid() IS NOT NULL
+    AND NOT (COALESCE(project_role(NEW.project_id), '') IN ('owner', 'editor') OR is_admin())
+  THEN
+    IF TG_TABLE_NAME = 'tasks' THEN
+      IF EXISTS (
+        SELECT 1 FROM task_series s
+        WHERE s.id = NEW.series_id
+          AND s.project_id = NEW.project_id
+          AND auth.uid() IN (s.user_id, s.assigned_to)
+      ) THEN
+        RETURN NEW;
+      END IF;
+    END IF;
+
+    RAISE EXCEPTION 'No edit access to project %', NEW.project_id USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER tasks_check_project_access
+  BEFORE INSERT OR UPDATE OF project_id ON tasks
+  FOR EACH ROW EXECUTE FUNCTION check_task_project_access();
+
+CREATE TRIGGER task_series_check_project_access
+  BEFORE INSERT OR UPDATE OF project_id ON task_series
+  FOR EACH ROW EXECUTE FUNCTION check_task_project_access();
+
+-- Assignment notifications, one per added assignee
+DROP TRIGGER IF EXISTS tasks_notify_assigned ON tasks;
+
+CREATE OR REPLACE FUNCTION notify_task_assigned()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.user_id IS DISTINCT FROM auth.uid() THEN
+    INSERT INTO notifications (user_id, type, title, body, link, entity_id)
+    SELECT NEW.user_id, 'task_assigned', 'Tugasan baharu ditugaskan kepada anda', t.title, '/tugasan?edit=' || t.id, t.id
+    FROM tasks t
+    WHERE t.id = NEW.task_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER task_assignees_notify_assigned
+  AFTER INSERT ON task_assignees
+  FOR EACH ROW EXECUTE FUNCTION notify_task_assigned();
+
+CREATE OR REPLACE FUNCTION sync_due_notifications(p_today date)
+RETURNS void AS $$
+  INSERT INTO notifications (user_id, type, title, body, link, entity_id, dedupe_key)
+  SELECT
+    auth.uid(),
+    CASE WHEN t.due_date < p_today THEN 'task_overdue' ELSE 'task_due_tomorrow' END,
+    CASE WHEN t.due_date < p_today THEN 'Tugasan telah melepasi tarikh akhir' ELSE 'Tugasan perlu disiapkan esok' END,
+    t.title,
+    '/tugasan?edit=' || t.id,
+    t.id,
+    CASE WHEN t.due_date < p_today THEN 'task_overdue:' ELSE 'task_due_tomorrow:' END || t.id || ':' || t.due_date
+  FROM tasks t
+  WHERE (t.user_id = auth.uid() OR is_task_assignee(t.id))
+    AND t.status <> 'Completed'
+    AND (t.due_date = p_today + 1 OR t.due_date BETWEEN p_today - 30 AND p_today - 1)
+  ON CONFLICT (user_id, dedupe_key) DO NOTHING;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Mentions reach anyone who can read the task
+CREATE OR REPLACE FUNCTION notify_task_comment_mentions()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO notifications (user_id, type, title, body, link, entity_id)
+  SELECT
+    mentioned.id,
+    'task_mention',
+    author.nama || ' menyebut anda dalam komen',
+    -- Tokens read as plain @Nama in the inbox
+    t.title || ': ' || left(regexp_replace(NEW.body, '@\[([^\]]+)\]\([0-9a-f-]{36}\)', '@\1', 'g'), 120),
+    '/tugasan?comments=' || t.id,
+    t.id
+  FROM tasks t
+  JOIN user_profiles author ON author.id = NEW.user_id
+  JOIN user_profiles mentioned ON mentioned.id = ANY(NEW.mentions)
+  WHERE t.id = NEW.task_id
+    AND mentioned.id <> NEW.user_id
+    AND (TG_OP = 'INSERT' OR NOT mentioned.id = ANY(OLD.mentions))
+    AND (
+      mentioned.id = t.user_id OR
+      mentioned.role = 'admin' OR
+      EXISTS (SELECT 1 FROM task_assignees a WHERE a.task_id = t.id AND a.user_id = mentioned.id) OR
+      EXISTS (SELECT 1 FROM project_members m WHERE m.project_id = t.project_id AND m.user_id = mentioned.id)
+    );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION task_participants(p_task_id uuid)
+RETURNS TABLE (id uuid, nama text, can_mention boolean) AS $$
+  WITH visible AS (
+    SELECT t.id, t.user_id, t.project_id
+    FROM tasks t
+    WHERE t.id = p_task_id
+      AND (
+        auth.uid() = t.user_id OR
+        is_task_assignee(t.id) OR
+        project_role(t.project_id) IS NOT NULL OR
+        is_admin()
+      )
+  ),
+  readers AS (
+    SELECT p.id
+    FROM visible
+    JOIN user_profiles p
+      ON p.id = visible.user_id
+      OR p.role = 'admin'
+      OR EXISTS (SELECT 1 FROM task_assignees a WHERE a.task_id = visible.id AND a.user_id = p.id)
+      OR EXISTS (SELECT 1 FROM project_members m WHERE m.project_id = visible.project_id AND m.user_id = p.id)
+  )
+  SELECT
+    p.id,
+    p.nama,
+    EXISTS (SELECT 1 FROM readers r WHERE r.id = p.id) AS can_mention
+  FROM visible
+  JOIN user_profiles p
+    ON EXISTS (SELECT 1 FROM readers r WHERE r.id = p.id)
+    OR EXISTS (SELECT 1 FROM task_comments c WHERE c.task_id = visible.id AND c.user_id = p.id)
+  ORDER BY p.nama;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE VIEW my_projects WITH (security_invoker = true) AS
+  SELECT p.*
+  FROM projects p
+  WHERE p.user_id = auth.uid() OR project_role(p.id) IS NOT NULL;
+
+CREATE OR REPLACE VIEW my_tasks WITH (security_invoker = true) AS
+  SELECT t.*
+  FROM tasks t
+  WHERE t.user_id = auth.uid()
+    OR t.assigned_to = auth.uid()
+    OR is_task_assignee(t.id)
+    OR project_role(t.project_id) IS NOT NULL;
+
+GRANT SELECT ON my_projects TO authenticated;
+GRANT SELECT ON my_tasks TO authenticated;
+
+-- Enable RLS
+ALTER TABLE project_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_assignees ENABLE ROW LEVEL SECURITY;
+
+-- Projects
+DROP POLICY IF EXISTS "Users can manage own projects" ON projects;
+
+-- The creator check lets the new row come back from an insert before the
+-- owner row has been added
+CREATE POLICY "Members can read projects"
+  ON projects FOR SELECT TO authenticated
+  USING (auth.uid() = user_id OR project_role(id) IS NOT NULL OR is_admin());
+
+CREATE POLICY "Users can create own projects"
+  ON projects FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id OR is_admin());
+
+CREATE POLICY "Owners and editors can update projects"
+  ON projects FOR UPDATE TO authenticated
+  USING (project_role(id) IN ('owner', 'editor') OR is_admin())
+  WITH CHECK (project_role(id) IN ('owner', 'editor') OR is_admin());
+
+CREATE POLICY "Owners can delete projects"
+  ON projects FOR DELETE TO authenticated
+  USING (project_role(id) = 'owner' OR is_admin());
+
+-- Tasks
+DROP POLICY IF EXISTS "Users can manage own tasks" ON tasks;
+
+CREATE POLICY "Members can read tasks"
+  ON tasks FOR SELECT TO authenticated
+  USING (
+    auth.uid() = user_id OR
+    auth.uid() = assigned_to OR
+    is_task_assignee(id) OR
+    project_role(project_id) IS NOT NULL OR
+    is_admin()
+  );
+
+CREATE POLICY "Users can create own tasks"
+  ON tasks FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id OR auth.uid() = assigned_to OR is_admin());
+
+CREATE POLICY "Assignees and editors can update tasks"
+  ON tasks FOR UPDATE TO authenticated
+  USING (
+    auth.uid() = user_id OR
+    auth.uid() = assigned_to OR
+    is_task_assignee(id) OR
+    project_role(project_id) IN ('owner', 'editor') OR
+    is_admin()
+  )
+  WITH CHECK (
+    auth.uid() = user_id OR
+    auth.uid() = assigned_to OR
+    is_task_assignee(id) OR
+    project_role(project_id) IN ('owner', 'editor') OR
+    is_admin()
+  );
+
+CREATE POLICY "Assignees and editors can delete tasks"
+  ON tasks FOR DELETE TO authenticated
+  USING (
+    auth.uid() = user_id OR
+    auth.uid() = assigned_to OR
+    is_task_assignee(id) OR
+    project_role(project_id) IN ('owner', 'editor') OR
+    is_admin()
+  );
+
+-- Project members
+CREATE POLICY "Members can read project members"
+  ON project_members FOR SELECT TO authenticated
+  USING (project_role(project_id) IS NOT NULL OR is_admin());
+
+CREATE POLICY "Owners can add project members"
+  ON project_members FOR INSERT TO authenticated
+  WITH CHECK (project_role(project_id) = 'owner' OR is_admin());
+
+CREATE POLICY "Owners can change member roles"
+  ON project_members FOR UPDATE TO authenticated
+  USING (project_role(project_id) = 'owner' OR is_admin())
+  WITH CHECK (project_role(project_id) = 'owner' OR is_admin());
+
+CREATE POLICY "Owners can remove members and members can leave"
+  ON project_members FOR DELETE TO authenticated
+  USING (auth.uid() = user_id OR project_role(project_id) = 'owner' OR is_admin());
+
+-- Task assignees; new assignees must be able to see the task already or be
+-- brought in by an admin
+CREATE POLICY "Users can read assignees of visible tasks"
+  ON task_assignees FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM tasks WHERE tasks.id = task_assignees.task_id));
+
+CREATE POLICY "Task editors can add assignees"
+  ON task_assignees FOR INSERT TO authenticated
+  WITH CHECK (
+    can_edit_task(task_id) AND (
+      auth.uid() = user_id OR
+      is_admin() OR
+      EXISTS (
+        SELECT 1 FROM tasks t
+        WHERE t.id = task_assignees.task_id
+          AND (
+            t.user_id = task_assignees.user_id OR
+            EXISTS (SELECT 1 FROM project_members m WHERE m.project_id = t.project_id AND m.user_id = task_assignees.user_id)
+          )
+      )
+    )
+  );
+
+CREATE POLICY "Task editors can remove assignees"
+  ON task_assignees FOR DELETE TO authenticated
+  USING (can_edit_task(task_id));
+
+-- Profiles of teammates, for names
+CREATE POLICY "Users can read teammate profiles"
+  ON user_profiles FOR SELECT TO authenticated
+  USING (is_teammate(id));
+
+-- Task children are readable with the task and changed by its editors
+DROP POLICY IF EXISTS "Users can manage checklist items of own tasks" ON task_checklist_items;
+
+CREATE POLICY "Users can read checklist items of visible tasks"
+  ON task_checklist_items FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM tasks WHERE tasks.id = task_checklist_items.task_id));
+
+CREATE POLICY "Users can manage checklist items of editable tasks"
+  ON task_checklist_items FOR ALL TO authenticated
+  USING (can_edit_task(task_id))
+  WITH CHECK (can_edit_task(task_id));
+
+DROP POLICY IF EXISTS "Users can manage dependencies of own tasks" ON task_dependencies;
+
+CREATE POLICY "Users can read dependencies of visible tasks"
+  ON task_dependencies FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM tasks WHERE tasks.id = task_dependencies.task_id));
+
+CREATE POLICY "Users can manage dependencies of editable tasks"
+  ON task_dependencies FOR ALL TO authenticated
+  USING (can_edit_task(task_id))
+  WITH CHECK (can_edit_task(task_id));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE project_members;
+ALTER PUBLICATION supabase_realtime ADD TABLE task_assignees;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_project_members_user_id ON project_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_task_assignees_user_id ON task_assignees(user_id);